@@ -0,0 +1,227 @@
+/**
+ * Admin-issued API keys for programmatic access (CRM automation).
+ *
+ * Keys are sent as `Authorization: Bearer lr_...` and accepted by
+ * requireSession (./auth.ts) on routes that name a matching scope. Only a
+ * SHA-256 hash of each key is stored; the plaintext is shown once, at creation.
+ * Keys are revocable, record when they were last used, and belong to the
+ * issuing admin's workspace.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * What a key may do:
+ * - generate: start and estimate generations, poll their status, approve previews and check lead credits
+ * - read-exports: list exports and fetch download links
+ */
+export type ApiKeyScope = 'generate' | 'read-exports';
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['generate', 'read-exports'];
+
+/** Prefix on every issued key, so leaked keys are easy to recognize. */
+const KEY_PREFIX = 'lr_';
+
+/**
+ * API key record from database (no hash).
+ */
+export interface ApiKey {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  name: string;
+  /** First characters of the key, for identifying it in lists */
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  created_by: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * A newly created key. `key` is the only time the plaintext is available.
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+const API_KEY_COLUMNS = 'id, created_at, workspace_id, name, key_prefix, scopes, created_by, last_used_at, revoked_at';
+
+/**
+ * Get Supabase client with service role key.
+ */
+function getSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured (missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Hash an API key for storage and lookup.
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Type guard for scope strings from requests.
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * True if the string looks like an issued key (cheap check before a DB lookup).
+ */
+export function looksLikeApiKey(token: string): boolean {
+  return token.startsWith(KEY_PREFIX) && token.length > KEY_PREFIX.length + 16;
+}
+
+/**
+ * Extract the bearer token from the Authorization header, if any.
+ */
+export function getBearerToken(authorization: string | string[] | undefined): string | null {
+  const header = Array.isArray(authorization) ? authorization[0] : authorization;
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Issue a new key. Returns null on failure.
+ */
+export async function createApiKey(input: {
+  workspaceId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  createdBy?: string;
+}): Promise<CreatedApiKey | null> {
+  try {
+    const supabase = getSupabaseClient();
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({
+        workspace_id: input.workspaceId,
+        name: input.name,
+        key_prefix: key.slice(0, KEY_PREFIX.length + 8),
+        key_hash: hashApiKey(key),
+        scopes: input.scopes,
+        created_by: input.createdBy || null,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Failed to create API key:', error.message);
+      return null;
+    }
+
+    return { apiKey: data as ApiKey, key };
+  } catch (err) {
+    console.error('API key DB error (create):', err);
+    return null;
+  }
+}
+
+/**
+ * List a workspace's keys (including revoked), newest first.
+ */
+export async function listApiKeys(workspaceId: string): Promise<ApiKey[]> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to list API keys:', error.message);
+      return [];
+    }
+
+    return (data || []) as ApiKey[];
+  } catch (err) {
+    console.error('API key DB error (list):', err);
+    return [];
+  }
+}
+
+/**
+ * Revoke a workspace's key. Returns false if it doesn't exist or is already revoked.
+ */
+export async function revokeApiKey(workspaceId: string, id: string): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to revoke API key:', error.message);
+      return false;
+    }
+
+    return (data?.length ?? 0) > 0;
+  } catch (err) {
+    console.error('API key DB error (revoke):', err);
+    return false;
+  }
+}
+
+/**
+ * Look up an active (not revoked) key by its plaintext and record the use.
+ * Returns null if unknown, revoked, or on error.
+ */
+export async function verifyApiKey(key: string): Promise<ApiKey | null> {
+  if (!looksLikeApiKey(key)) {
+    return null;
+  }
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('key_hash', hashApiKey(key))
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to verify API key:', error.message);
+      return null;
+    }
+    if (!data) {
+      return null;
+    }
+
+    const apiKey = data as ApiKey;
+    const { error: touchError } = await supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id);
+    if (touchError) {
+      console.error('Failed to record API key use:', touchError.message);
+    }
+
+    return apiKey;
+  } catch (err) {
+    console.error('API key DB error (verify):', err);
+    return null;
+  }
+}
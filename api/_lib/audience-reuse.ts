@@ -0,0 +1,109 @@
+/**
+ * Audience reuse for identical lead requests.
+ *
+ * Every generate hashes the AudienceLab payload it would send (canonical JSON
+ * of buildAudiencePayload's output, so key order doesn't matter) and stores it
+ * on the export. When an earlier export in the same workspace has the same
+ * hash, is younger than AUDIENCE_REUSE_TTL_HOURS (default 24, 0 = off) and has
+ * an audience, generate fetches that audience's members instead of creating a
+ * new one. The export records that it reused an audience and which export it
+ * came from.
+ *
+ * Audiences belong to the workspace's AudienceLab account, so reuse never
+ * crosses workspaces. Lookups fail open: no Supabase or a query error means
+ * a new audience is created.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { canonicalJson } from './idempotency.js';
+
+/** Default reuse window in hours */
+export const DEFAULT_AUDIENCE_REUSE_TTL_HOURS = 24;
+
+/** Export statuses whose audience can be reused (the audience itself was fine) */
+const REUSABLE_STATUSES = ['building', 'building_long', 'success', 'preview', 'discarded'];
+
+/**
+ * An earlier export's audience that matches the request.
+ */
+export interface ReusableAudience {
+  audienceId: string;
+  /** Export the audience was created for */
+  exportId: string;
+  createdAt: string;
+}
+
+/**
+ * Get Supabase client, or null if not configured (reuse is skipped).
+ */
+function getSupabaseClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Reuse window from AUDIENCE_REUSE_TTL_HOURS (0 disables reuse).
+ */
+export function getAudienceReuseTtlHours(): number {
+  const env = parseInt(process.env.AUDIENCE_REUSE_TTL_HOURS || '', 10);
+  if (isNaN(env) || env < 0) return DEFAULT_AUDIENCE_REUSE_TTL_HOURS;
+  return env;
+}
+
+/**
+ * Hash an AudienceLab payload (key order doesn't matter).
+ */
+export function hashAudiencePayload(payload: unknown): string {
+  return createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+/**
+ * Most recent audience in the workspace built from the same payload within
+ * the reuse window, or null.
+ */
+export async function findReusableAudience(
+  workspaceId: string,
+  audienceHash: string,
+  now: Date = new Date()
+): Promise<ReusableAudience | null> {
+  const ttlHours = getAudienceReuseTtlHours();
+  if (ttlHours === 0) return null;
+
+  const supabase = getSupabaseClient();
+  if (!supabase) return null;
+
+  try {
+    const since = new Date(now.getTime() - ttlHours * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('lead_exports')
+      .select('id, audience_id, created_at')
+      .eq('workspace_id', workspaceId)
+      .eq('audience_hash', audienceHash)
+      .eq('provider', 'audiencelab')
+      .not('audience_id', 'is', null)
+      .in('status', REUSABLE_STATUSES)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[audience-reuse] Failed to look up audience:', error.message);
+      return null;
+    }
+    if (!data) return null;
+
+    return { audienceId: data.audience_id, exportId: data.id, createdAt: data.created_at };
+  } catch (err) {
+    console.error('[audience-reuse] Error:', err);
+    return null;
+  }
+}
@@ -125,6 +125,77 @@ export function extractAudienceId(
   return { ok: false, reason: 'not_found', shape: describeShape(body) };
 }
 
+/**
+ * State of an async AudienceLab job (create returned job_id/task_id).
+ */
+export type AudienceJobStatus =
+  | { state: 'ready'; audienceId: string }
+  | { state: 'pending'; status: string }
+  | { state: 'failed'; status: string; errorMessage?: string };
+
+/** Job statuses that will never produce an audience */
+const FAILED_JOB_STATUSES = new Set(['failed', 'failure', 'error', 'errored', 'cancelled', 'canceled', 'expired']);
+
+/**
+ * Parse a job status response.
+ *
+ * Handles:
+ * - { status: "processing" } / { state: "queued" } (pending)
+ * - { status: "completed", audience_id: "..." }
+ * - { status: "completed", result: { audience_id: "..." } }
+ * - { status: "completed", audience: { id: "..." } }
+ * - the same shapes nested under 'data'
+ * - { status: "failed", error: "..." }
+ *
+ * A root-level `id` is the job's own id, so only audience-specific keys count.
+ */
+export function parseAudienceJobStatus(body: unknown): AudienceJobStatus {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { state: 'pending', status: 'unknown' };
+  }
+
+  let obj = body as Record<string, unknown>;
+  if (!('status' in obj) && !('state' in obj) && obj.data && typeof obj.data === 'object' && !Array.isArray(obj.data)) {
+    obj = obj.data as Record<string, unknown>;
+  }
+
+  const status = (asString(obj.status) || asString(obj.state) || 'unknown').toLowerCase();
+
+  if (FAILED_JOB_STATUSES.has(status)) {
+    return { state: 'failed', status, errorMessage: isErrorPayload(obj) ? extractErrorMessage(obj) : undefined };
+  }
+
+  const audienceId = extractJobAudienceId(obj);
+  if (audienceId) {
+    return { state: 'ready', audienceId };
+  }
+
+  return { state: 'pending', status };
+}
+
+/**
+ * Audience ID produced by a job, from audience-specific keys only.
+ */
+function extractJobAudienceId(obj: Record<string, unknown>): string | null {
+  const direct = asString(obj.audience_id) || asString(obj.audienceId);
+  if (direct) return direct;
+
+  for (const key of ['result', 'output']) {
+    const nested = obj[key];
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      const nestedObj = nested as Record<string, unknown>;
+      const id = asString(nestedObj.audience_id) || asString(nestedObj.audienceId);
+      if (id) return id;
+    }
+  }
+
+  if (obj.audience && typeof obj.audience === 'object' && !Array.isArray(obj.audience)) {
+    return extractIdFromObject(obj.audience as Record<string, unknown>);
+  }
+
+  return null;
+}
+
 /**
  * Extract ID from an object trying common key names.
  */
@@ -0,0 +1,251 @@
+/**
+ * Append-only audit trail of sensitive actions, stored in Supabase.
+ *
+ * Covers sign-ins (and failed attempts), lead generations, download-link
+ * issuance, preview approvals, debug payload views and export deletions by
+ * the cleanup cron.
+ * Each entry records who (user, API key or system), when, what and which
+ * export - never PII: failed logins for unknown emails store only a salted
+ * email fingerprint, and request bodies are never copied in.
+ *
+ * Recording is best-effort: a failed insert is logged and never fails the
+ * action being audited. The table rejects UPDATE/DELETE (Migration 015).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { SessionUser } from './auth.js';
+import { escapeCsv } from './csv.js';
+
+/**
+ * Audited actions.
+ */
+export type AuditAction =
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'leads.generate'
+  | 'exports.signed_url'
+  | 'exports.preview_approved'
+  | 'exports.preview_discarded'
+  | 'exports.cancelled'
+  | 'exports.retried'
+  | 'debug.view_payload'
+  | 'exports.deleted';
+
+export const AUDIT_ACTIONS: readonly AuditAction[] = [
+  'auth.login',
+  'auth.login_failed',
+  'leads.generate',
+  'exports.signed_url',
+  'exports.preview_approved',
+  'exports.preview_discarded',
+  'exports.cancelled',
+  'exports.retried',
+  'debug.view_payload',
+  'exports.deleted',
+];
+
+/**
+ * Who performed an action: a signed-in user, an API key, or the system (cron).
+ */
+export type AuditActorType = 'user' | 'api_key' | 'system';
+
+/** Default and maximum rows returned by listAuditEvents. */
+export const DEFAULT_AUDIT_LIMIT = 100;
+export const MAX_AUDIT_LIMIT = 1000;
+
+/**
+ * Audit log record from database.
+ */
+export interface AuditEvent {
+  id: number;
+  created_at: string;
+  /** Null when the workspace is unknown (failed login for an unknown email) */
+  workspace_id: string | null;
+  actor_type: AuditActorType;
+  /** User id, API key id, or null for the system */
+  actor_id: string | null;
+  action: AuditAction;
+  /** Export the action applied to, if any */
+  target_id: string | null;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Input for recording an event.
+ */
+export interface AuditEntry {
+  workspaceId: string | null;
+  actorType: AuditActorType;
+  actorId: string | null;
+  action: AuditAction;
+  targetId?: string | null;
+  /** Counts, ids and settings only - no PII */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Filters for querying the audit log (all optional).
+ */
+export interface AuditFilters {
+  action?: AuditAction;
+  actorId?: string;
+  targetId?: string;
+  /** ISO timestamp, inclusive */
+  since?: string;
+  /** ISO timestamp, exclusive */
+  until?: string;
+  limit: number;
+}
+
+/**
+ * Get Supabase client with service role key.
+ */
+function getSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured (missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Type guard for action strings from requests.
+ */
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Actor fields for a session user (API-key requests are attributed to the key).
+ */
+export function auditActor(user: SessionUser): Pick<AuditEntry, 'workspaceId' | 'actorType' | 'actorId'> {
+  return user.apiKeyId
+    ? { workspaceId: user.workspaceId, actorType: 'api_key', actorId: user.apiKeyId }
+    : { workspaceId: user.workspaceId, actorType: 'user', actorId: user.userId };
+}
+
+/**
+ * Parse audit query parameters.
+ * Returns the filters, or an error message for the first invalid parameter.
+ */
+export function parseAuditFilters(
+  query: Record<string, string | string[] | undefined>
+): { ok: true; filters: AuditFilters } | { ok: false; error: string } {
+  const param = (name: string) => {
+    const value = query[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+  };
+
+  const filters: AuditFilters = { limit: DEFAULT_AUDIT_LIMIT };
+
+  const action = param('action');
+  if (action !== undefined) {
+    if (!isAuditAction(action)) {
+      return { ok: false, error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` };
+    }
+    filters.action = action;
+  }
+
+  filters.actorId = param('actorId');
+  filters.targetId = param('targetId');
+
+  for (const name of ['since', 'until'] as const) {
+    const value = param(name);
+    if (value === undefined) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { ok: false, error: `${name} must be an ISO date or timestamp` };
+    }
+    filters[name] = date.toISOString();
+  }
+
+  const limit = param('limit');
+  if (limit !== undefined) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_AUDIT_LIMIT) {
+      return { ok: false, error: `limit must be an integer from 1 to ${MAX_AUDIT_LIMIT}` };
+    }
+    filters.limit = parsed;
+  }
+
+  return { ok: true, filters };
+}
+
+/**
+ * Record an audit event. Never throws; returns false if it couldn't be stored.
+ */
+export async function recordAuditEvent(entry: AuditEntry): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase.from('audit_log').insert({
+      workspace_id: entry.workspaceId,
+      actor_type: entry.actorType,
+      actor_id: entry.actorId,
+      action: entry.action,
+      target_id: entry.targetId ?? null,
+      metadata: entry.metadata ?? {},
+    });
+
+    if (error) {
+      console.error('Failed to record audit event:', entry.action, error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Audit log DB error (record):', entry.action, err);
+    return false;
+  }
+}
+
+/**
+ * List a workspace's audit events, newest first.
+ * Returns null on error (so callers can tell "none" from "unavailable").
+ */
+export async function listAuditEvents(workspaceId: string, filters: AuditFilters): Promise<AuditEvent[] | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .eq('workspace_id', workspaceId);
+
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.targetId) query = query.eq('target_id', filters.targetId);
+    if (filters.since) query = query.gte('created_at', filters.since);
+    if (filters.until) query = query.lt('created_at', filters.until);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit);
+
+    if (error) {
+      console.error('Failed to list audit events:', error.message);
+      return null;
+    }
+
+    return (data || []) as AuditEvent[];
+  } catch (err) {
+    console.error('Audit log DB error (list):', err);
+    return null;
+  }
+}
+
+/**
+ * Render audit events as CSV (metadata as a JSON column).
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = ['created_at', 'action', 'actor_type', 'actor_id', 'target_id', 'metadata'];
+  const rows = events.map((e) =>
+    [e.created_at, e.action, e.actor_type, e.actor_id, e.target_id, JSON.stringify(e.metadata ?? {})]
+      .map(escapeCsv)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\n');
+}
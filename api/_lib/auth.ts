@@ -1,19 +1,69 @@
 /**
  * Session-based authentication using httpOnly cookies.
  * NO client-side secrets - all validation happens server-side.
+ *
+ * The signed session carries the user id, email, role and workspace (see
+ * ./users.ts, ./workspaces.ts); requireSession re-reads the role and
+ * disabled flag from app_users on every request, and routes can require a
+ * minimum role via requireSession(req, res, { role }).
+ * Routes that name an API key scope also accept `Authorization: Bearer`
+ * keys (see ./api-keys.ts); keys act as the user who created them, with
+ * that user's current role.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createHmac, timingSafeEqual } from 'crypto';
+import { hasRole, isUserRole, getUser, type UserRole } from './users.js';
+import { getBearerToken, verifyApiKey, type ApiKeyScope } from './api-keys.js';
+import { DEFAULT_WORKSPACE_ID } from './workspaces.js';
 
 const COOKIE_NAME = 'lr_session';
 const DEFAULT_TTL_SECONDS = 604800; // 7 days
 
 interface SessionPayload {
+  sub: string; // User id
+  email: string;
+  role: UserRole;
+  wid: string; // Workspace id
   iat: number; // Issued at (Unix timestamp)
   exp: number; // Expiration (Unix timestamp)
 }
 
+/**
+ * Identity carried in a valid session.
+ */
+export interface SessionUser {
+  userId: string;
+  email: string;
+  role: UserRole;
+  /** Workspace every query of the request is scoped to */
+  workspaceId: string;
+  /** Set when the request was authenticated with an API key */
+  apiKeyId?: string;
+  /** Scopes of that API key */
+  apiKeyScopes?: ApiKeyScope[];
+}
+
+/**
+ * Access a route requires: a minimum user role, and/or the API key scope
+ * that lets keys call it (routes without a scope reject API keys).
+ */
+export interface RouteAccess {
+  role?: UserRole;
+  scope?: ApiKeyScope;
+}
+
+/** Session user when AUTH_DISABLED_FOR_TESTS is set. */
+const TEST_SESSION_USER: SessionUser = {
+  userId: '00000000-0000-0000-0000-000000000000',
+  email: 'test@localhost',
+  role: 'admin',
+  workspaceId: DEFAULT_WORKSPACE_ID,
+};
+
+/** Principals resolved by requireSession (API keys need an async lookup). */
+const resolvedUsers = new WeakMap<VercelRequest, SessionUser>();
+
 /**
  * Get the session secret from environment.
  * Throws if not configured.
@@ -44,12 +94,16 @@ function getSessionTtl(): number {
  * Sign a session payload using HMAC-SHA256.
  * Returns base64url encoded: payload.signature
  */
-export function signSession(): string {
+export function signSession(user: SessionUser): string {
   const secret = getSessionSecret();
   const now = Math.floor(Date.now() / 1000);
   const ttl = getSessionTtl();
   
   const payload: SessionPayload = {
+    sub: user.userId,
+    email: user.email,
+    role: user.role,
+    wid: user.workspaceId,
     iat: now,
     exp: now + ttl,
   };
@@ -63,16 +117,17 @@ export function signSession(): string {
 }
 
 /**
- * Verify a session token.
- * Returns true if valid and not expired.
+ * Verify a session token and return its user.
+ * Returns null if the signature is invalid, the token is expired, or it
+ * predates user accounts or workspaces (no user id / role / workspace).
  */
-export function verifySession(token: string): boolean {
+export function decodeSession(token: string): SessionUser | null {
   try {
     const secret = getSessionSecret();
     const [payloadB64, signature] = token.split('.');
     
     if (!payloadB64 || !signature) {
-      return false;
+      return null;
     }
     
     // Verify signature using timing-safe comparison
@@ -84,11 +139,11 @@ export function verifySession(token: string): boolean {
     const expectedBuffer = Buffer.from(expectedSig, 'base64url');
     
     if (sigBuffer.length !== expectedBuffer.length) {
-      return false;
+      return null;
     }
     
     if (!timingSafeEqual(sigBuffer, expectedBuffer)) {
-      return false;
+      return null;
     }
     
     // Parse and check expiration
@@ -98,15 +153,31 @@ export function verifySession(token: string): boolean {
     
     const now = Math.floor(Date.now() / 1000);
     if (payload.exp < now) {
-      return false;
+      return null;
+    }
+
+    if (
+      typeof payload.sub !== 'string' || !payload.sub ||
+      !isUserRole(payload.role) ||
+      typeof payload.wid !== 'string' || !payload.wid
+    ) {
+      return null;
     }
     
-    return true;
+    return { userId: payload.sub, email: payload.email ?? '', role: payload.role, workspaceId: payload.wid };
   } catch {
-    return false;
+    return null;
   }
 }
 
+/**
+ * Verify a session token.
+ * Returns true if valid and not expired.
+ */
+export function verifySession(token: string): boolean {
+  return decodeSession(token) !== null;
+}
+
 /**
  * Parse cookies from request header.
  */
@@ -134,54 +205,179 @@ export function getSessionFromRequest(req: VercelRequest): string | null {
 }
 
 /**
- * Check if the current request has a valid session.
- * Returns true if:
- * - AUTH_DISABLED_FOR_TESTS is set (test mode)
- * - Valid session cookie is present
+ * Get the user for the current request's session.
+ * Returns the test user when AUTH_DISABLED_FOR_TESTS is set (test mode),
+ * null when there is no valid session cookie.
  */
-export function hasValidSession(req: VercelRequest): boolean {
+export function getSessionUser(req: VercelRequest): SessionUser | null {
   // Test bypass
   if (process.env.AUTH_DISABLED_FOR_TESTS === 'true') {
-    return true;
+    return TEST_SESSION_USER;
+  }
+
+  const resolved = resolvedUsers.get(req);
+  if (resolved) {
+    return resolved;
   }
   
   const token = getSessionFromRequest(req);
   if (!token) {
-    return false;
+    return null;
   }
   
-  return verifySession(token);
+  return decodeSession(token);
+}
+
+/**
+ * Run a request on behalf of a user without a session cookie (background
+ * work such as scheduled pulls). requireSession and getSessionUser then
+ * resolve to this user.
+ */
+export function actAsUser(req: VercelRequest, user: SessionUser): void {
+  resolvedUsers.set(req, user);
+}
+
+/**
+ * Check if the current request has a valid session.
+ */
+export function hasValidSession(req: VercelRequest): boolean {
+  return getSessionUser(req) !== null;
+}
+
+/**
+ * Workspace of the authenticated request.
+ * Call only after requireSession passed; throws if there is no session.
+ */
+export function getWorkspaceId(req: VercelRequest): string {
+  const user = getSessionUser(req);
+  if (!user) {
+    throw new Error('No session for request (requireSession must run first)');
+  }
+  return user.workspaceId;
+}
+
+/**
+ * Resolve an API key from the Authorization header.
+ * Returns 401/403 responses for unknown/revoked keys or missing scopes.
+ * Keys act as the user who created them, with that user's current role, so a
+ * key whose creator was deleted or disabled is rejected as invalid.
+ */
+async function requireApiKey(
+  req: VercelRequest,
+  res: VercelResponse,
+  token: string,
+  access: RouteAccess
+): Promise<VercelResponse | null> {
+  const apiKey = await verifyApiKey(token);
+  const creator = apiKey?.created_by ? await getUser(apiKey.workspace_id, apiKey.created_by) : null;
+
+  if (!apiKey || !creator || creator.disabled) {
+    res.status(401).json({
+      ok: false,
+      error: {
+        code: 'invalid_api_key',
+        message: apiKey ? 'API key belongs to a user who is no longer active' : 'API key is invalid or revoked',
+      },
+    });
+    return res;
+  }
+
+  if (!access.scope || !apiKey.scopes.includes(access.scope) || (access.role && !hasRole(creator.role, access.role))) {
+    res.status(403).json({
+      ok: false,
+      error: {
+        code: 'forbidden',
+        message: access.scope
+          ? `API key lacks the ${access.scope} scope`
+          : 'API keys are not accepted on this route',
+      },
+    });
+    return res;
+  }
+
+  resolvedUsers.set(req, {
+    userId: creator.id,
+    email: creator.email,
+    role: creator.role,
+    workspaceId: apiKey.workspace_id,
+    apiKeyId: apiKey.id,
+    apiKeyScopes: apiKey.scopes,
+  });
+  return null;
+}
+
+/**
+ * Get the session user with their current role from app_users, so a
+ * disabled or demoted user loses access before the cookie expires.
+ * Returns null when the user was disabled or no longer exists.
+ */
+async function resolveSessionUser(req: VercelRequest): Promise<SessionUser | null> {
+  const sessionUser = getSessionUser(req);
+  if (!sessionUser || process.env.AUTH_DISABLED_FOR_TESTS === 'true' || resolvedUsers.has(req)) {
+    return sessionUser;
+  }
+
+  const current = await getUser(sessionUser.workspaceId, sessionUser.userId);
+  if (!current || current.disabled) {
+    return null;
+  }
+
+  const user = { ...sessionUser, role: current.role };
+  resolvedUsers.set(req, user);
+  return user;
 }
 
 /**
  * Session guard for API routes.
- * Returns 401 response if session is invalid.
+ * Returns 401 response if the session (or API key) is invalid or its user was
+ * disabled, 403 if the user's current role is below `access.role` or the API
+ * key lacks `access.scope`.
  * Returns null if session is valid (route should continue).
  */
-export function requireSession(
+export async function requireSession(
   req: VercelRequest,
-  res: VercelResponse
-): VercelResponse | null {
-  if (hasValidSession(req)) {
-    return null; // Session valid, continue
+  res: VercelResponse,
+  access: RouteAccess = {}
+): Promise<VercelResponse | null> {
+  const requiredRole = access.role;
+
+  const bearer = process.env.AUTH_DISABLED_FOR_TESTS === 'true' ? null : getBearerToken(req.headers?.authorization);
+  if (bearer) {
+    return requireApiKey(req, res, bearer, access);
+  }
+
+  const user = await resolveSessionUser(req);
+
+  if (!user) {
+    res.status(401).json({
+      ok: false,
+      error: {
+        code: 'unauthorized',
+        message: 'Authentication required',
+      },
+    });
+    return res;
+  }
+
+  if (requiredRole && !hasRole(user.role, requiredRole)) {
+    res.status(403).json({
+      ok: false,
+      error: {
+        code: 'forbidden',
+        message: `Requires ${requiredRole} role`,
+      },
+    });
+    return res;
   }
   
-  res.status(401).json({
-    ok: false,
-    error: {
-      code: 'unauthorized',
-      message: 'Authentication required',
-    },
-  });
-  
-  return res;
+  return null; // Session valid, continue
 }
 
 /**
  * Set session cookie on response.
  */
-export function setSessionCookie(res: VercelResponse): void {
-  const token = signSession();
+export function setSessionCookie(res: VercelResponse, user: SessionUser): void {
+  const token = signSession(user);
   const ttl = getSessionTtl();
   const isProduction = process.env.NODE_ENV === 'production' || 
                        process.env.VERCEL_ENV === 'production';
@@ -217,23 +413,3 @@ export function clearSessionCookie(res: VercelResponse): void {
   
   res.setHeader('Set-Cookie', attrs.join('; '));
 }
-
-/**
- * Verify passcode against APP_PASSCODE env var.
- */
-export function verifyPasscode(passcode: string): boolean {
-  const appPasscode = process.env.APP_PASSCODE;
-  if (!appPasscode) {
-    throw new Error('APP_PASSCODE environment variable is not set');
-  }
-  
-  // Use timing-safe comparison
-  const passcodeBuffer = Buffer.from(passcode);
-  const expectedBuffer = Buffer.from(appPasscode);
-  
-  if (passcodeBuffer.length !== expectedBuffer.length) {
-    return false;
-  }
-  
-  return timingSafeEqual(passcodeBuffer, expectedBuffer);
-}
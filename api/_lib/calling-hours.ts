@@ -0,0 +1,147 @@
+/**
+ * Calling-hours and time-zone annotation for CALL exports.
+ *
+ * Each lead gets its local IANA time zone (from its ZIP, falling back to its
+ * state) and the local calling window allowed by federal (TCPA: 8am-9pm) or
+ * stricter state rules. An optional sort puts leads callable right now first.
+ *
+ * IMPORTANT: This is a technical guardrail only. Calling-hour laws change and
+ * have exceptions (holidays, established business relationships); users remain
+ * responsible for compliance.
+ */
+
+import type { Lead, UseCase } from './types.js';
+import { lookupZip, resolveTimezone } from './zip-data.js';
+
+/**
+ * A local calling window, as 24h "HH:MM" strings.
+ */
+export interface CallWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * State calling-hour rule. `sunday: null` means no calls on Sunday;
+ * omitted means the weekday window applies.
+ */
+interface CallingHoursRule extends CallWindow {
+  sunday?: CallWindow | null;
+}
+
+/** Federal (TCPA) default calling window. */
+const FEDERAL_CALL_WINDOW: CallingHoursRule = { start: '08:00', end: '21:00' };
+
+/**
+ * States with calling hours stricter than the federal window.
+ */
+const STATE_CALLING_HOURS: Record<string, CallingHoursRule> = {
+  AL: { start: '08:00', end: '20:00', sunday: null },
+  CT: { start: '09:00', end: '20:00' },
+  FL: { start: '08:00', end: '20:00' },
+  LA: { start: '08:00', end: '20:00', sunday: null },
+  MA: { start: '08:00', end: '20:00' },
+  MS: { start: '08:00', end: '20:00', sunday: null },
+  OK: { start: '08:00', end: '20:00' },
+  RI: { start: '09:00', end: '18:00', sunday: null },
+  TX: { start: '09:00', end: '21:00', sunday: { start: '12:00', end: '21:00' } },
+  UT: { start: '08:00', end: '21:00', sunday: null },
+  WA: { start: '08:00', end: '20:00' },
+};
+
+/**
+ * Resolve a lead's IANA time zone from its ZIP, then its state.
+ * Returns undefined when neither is known.
+ */
+export function getLeadTimezone(lead: Pick<Lead, 'zip' | 'state'>): string | undefined {
+  return lookupZip(lead.zip)?.timezone ?? resolveTimezone(lead.zip, lead.state);
+}
+
+/**
+ * Calling window for a state on a given weekday (0 = Sunday).
+ * Returns null if calls aren't allowed that day.
+ */
+export function getCallWindow(state: string, weekday: number = 1): CallWindow | null {
+  const rule = STATE_CALLING_HOURS[(state || '').toUpperCase().trim()] ?? FEDERAL_CALL_WINDOW;
+  if (weekday === 0 && rule.sunday !== undefined) {
+    return rule.sunday;
+  }
+  return { start: rule.start, end: rule.end };
+}
+
+/**
+ * Local weekday (0 = Sunday) and "HH:MM" time in a time zone.
+ */
+function getLocalTime(timezone: string, now: Date): { weekday: number; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return {
+    weekday: weekdays.indexOf(get('weekday')),
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+/**
+ * True if the lead's local time falls inside today's calling window.
+ * Leads with an unknown time zone are never considered callable now.
+ */
+export function isCallableNow(lead: Lead, now: Date = new Date()): boolean {
+  const timezone = lead.timezone || getLeadTimezone(lead);
+  if (!timezone) return false;
+
+  const local = getLocalTime(timezone, now);
+  const window = getCallWindow(lead.state, local.weekday);
+  if (!window) return false;
+
+  return local.time >= window.start && local.time < window.end;
+}
+
+/**
+ * Annotate leads with `timezone` and the (weekday) local calling window.
+ * Leads whose time zone can't be resolved keep blank columns.
+ */
+export function annotateCallWindows(leads: Lead[]): Lead[] {
+  return leads.map((lead) => {
+    const timezone = getLeadTimezone(lead);
+    if (!timezone) return lead;
+    const window = getCallWindow(lead.state);
+    return {
+      ...lead,
+      timezone,
+      local_call_window_start: window?.start ?? '',
+      local_call_window_end: window?.end ?? '',
+    };
+  });
+}
+
+/**
+ * Apply calling-hours annotation for CALL exports.
+ * With `sortCallableNow`, leads callable right now move to the top (stable, so
+ * the quality ordering is kept within each group). Other use cases pass through.
+ */
+export function applyCallingHours(
+  leads: Lead[],
+  useCase: UseCase,
+  sortCallableNow: boolean = false,
+  now: Date = new Date()
+): Lead[] {
+  if (useCase !== 'call') return leads;
+
+  const annotated = annotateCallWindows(leads);
+  if (!sortCallableNow) return annotated;
+
+  const callable: Lead[] = [];
+  const later: Lead[] = [];
+  for (const lead of annotated) {
+    (isCallableNow(lead, now) ? callable : later).push(lead);
+  }
+  return [...callable, ...later];
+}
@@ -1,10 +1,12 @@
 /**
  * Cleanup logic for expired exports.
  * Handles both database row deletion and storage file cleanup.
- * NO PII in logs - only counts and IDs.
+ * Runs workspace by workspace; every export query is scoped by workspace id.
+ * NO PII in logs - only counts and IDs. Deletions are recorded in the audit log.
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { recordAuditEvent } from './audit-log.js';
 
 /**
  * Configuration for cleanup operations.
@@ -31,6 +33,8 @@ export interface CleanupResult {
   errorsCount: number;
   retentionDays: number;
   cutoffDate: string;
+  /** Workspaces scanned */
+  workspaces: number;
   errors?: string[];
 }
 
@@ -92,12 +96,32 @@ function getSupabaseClient(): SupabaseClient {
 }
 
 /**
- * Find exports eligible for cleanup:
+ * List workspace ids to clean up, oldest first.
+ */
+export async function findWorkspaceIds(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('id')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[cleanup] Failed to list workspaces:', error.message);
+    throw error;
+  }
+
+  return (data || []).map((row) => (row as { id: string }).id);
+}
+
+/**
+ * Find a workspace's exports eligible for cleanup:
  * - Older than retention window, OR
  * - Missing bucket/path (orphaned records)
+ * Exports still building are skipped (they have no file yet). Deleting a row
+ * doesn't touch lead credits: usage is kept in lead_credit_ledger (Migration 024).
  */
 export async function findExpiredExports(
   supabase: SupabaseClient,
+  workspaceId: string,
   cutoffDate: Date,
   limit: number
 ): Promise<ExportRow[]> {
@@ -105,6 +129,8 @@ export async function findExpiredExports(
   const { data, error } = await supabase
     .from('lead_exports')
     .select('id, created_at, bucket, path')
+    .eq('workspace_id', workspaceId)
+    .not('status', 'in', '(building,building_long)')
     .or(`created_at.lt.${cutoffDate.toISOString()},bucket.is.null,path.is.null`)
     .order('created_at', { ascending: true })
     .limit(limit);
@@ -143,10 +169,11 @@ export async function deleteStorageFile(
 }
 
 /**
- * Delete export rows from database.
+ * Delete a workspace's export rows from database.
  */
 export async function deleteExportRows(
   supabase: SupabaseClient,
+  workspaceId: string,
   ids: string[]
 ): Promise<{ deleted: number; errors: number }> {
   if (ids.length === 0) {
@@ -156,6 +183,7 @@ export async function deleteExportRows(
   const { error, count } = await supabase
     .from('lead_exports')
     .delete()
+    .eq('workspace_id', workspaceId)
     .in('id', ids);
 
   if (error) {
@@ -184,6 +212,7 @@ export async function runCleanup(configOverrides?: Partial<CleanupConfig>): Prom
     errorsCount: 0,
     retentionDays: config.retentionDays,
     cutoffDate: cutoffDate.toISOString(),
+    workspaces: 0,
     errors: [],
   };
 
@@ -200,15 +229,27 @@ export async function runCleanup(configOverrides?: Partial<CleanupConfig>): Prom
   try {
     const supabase = getSupabaseClient();
 
-    // Find expired exports
-    const expiredExports = await findExpiredExports(supabase, cutoffDate, config.maxRowsPerRun);
-    result.scanned = expiredExports.length;
+    // Find expired exports, workspace by workspace, up to maxRowsPerRun in total
+    const workspaceIds = await findWorkspaceIds(supabase);
+    result.workspaces = workspaceIds.length;
+
+    const expiredByWorkspace: Array<{ workspaceId: string; exports: ExportRow[] }> = [];
+    for (const workspaceId of workspaceIds) {
+      const remaining = config.maxRowsPerRun - result.scanned;
+      if (remaining <= 0) break;
+      const exports = await findExpiredExports(supabase, workspaceId, cutoffDate, remaining);
+      if (exports.length > 0) {
+        expiredByWorkspace.push({ workspaceId, exports });
+        result.scanned += exports.length;
+      }
+    }
 
-    if (expiredExports.length === 0) {
+    if (result.scanned === 0) {
       console.log(JSON.stringify({
         event: 'cleanup_complete',
         ts: new Date().toISOString(),
         runId,
+        workspaces: result.workspaces,
         scanned: 0,
         deletedRows: 0,
         deletedFiles: 0,
@@ -223,33 +264,48 @@ export async function runCleanup(configOverrides?: Partial<CleanupConfig>): Prom
         event: 'cleanup_dry_run',
         ts: new Date().toISOString(),
         runId,
-        wouldDelete: expiredExports.length,
-        sampleIds: expiredExports.slice(0, 5).map(e => e.id),
+        wouldDelete: result.scanned,
+        sampleIds: expiredByWorkspace.flatMap((w) => w.exports).slice(0, 5).map(e => e.id),
       }));
       return result;
     }
 
-    // Delete storage files (best-effort)
-    const idsToDelete: string[] = [];
-    for (const exp of expiredExports) {
-      if (exp.bucket && exp.path) {
-        const deleted = await deleteStorageFile(supabase, exp.bucket, exp.path);
-        if (deleted) {
-          result.deletedFiles++;
-        } else {
-          result.errorsCount++;
-          result.errors?.push(`storage:${exp.id}`);
+    for (const { workspaceId, exports } of expiredByWorkspace) {
+      // Delete storage files (best-effort)
+      const idsToDelete: string[] = [];
+      for (const exp of exports) {
+        if (exp.bucket && exp.path) {
+          const deleted = await deleteStorageFile(supabase, exp.bucket, exp.path);
+          if (deleted) {
+            result.deletedFiles++;
+          } else {
+            result.errorsCount++;
+            result.errors?.push(`storage:${exp.id}`);
+          }
         }
+        idsToDelete.push(exp.id);
+      }
+
+      // Delete database rows
+      const dbResult = await deleteExportRows(supabase, workspaceId, idsToDelete);
+      result.deletedRows += dbResult.deleted;
+      result.errorsCount += dbResult.errors;
+      if (dbResult.errors > 0) {
+        result.errors?.push(`db:${workspaceId}:${dbResult.errors} rows`);
       }
-      idsToDelete.push(exp.id);
-    }
 
-    // Delete database rows
-    const dbResult = await deleteExportRows(supabase, idsToDelete);
-    result.deletedRows = dbResult.deleted;
-    result.errorsCount += dbResult.errors;
-    if (dbResult.errors > 0) {
-      result.errors?.push(`db:${dbResult.errors} rows`);
+      await recordAuditEvent({
+        workspaceId,
+        actorType: 'system',
+        actorId: null,
+        action: 'exports.deleted',
+        metadata: {
+          runId,
+          retentionDays: config.retentionDays,
+          deletedRows: dbResult.deleted,
+          exportIds: idsToDelete,
+        },
+      });
     }
 
     // Mark as failed if too many errors
@@ -261,6 +317,7 @@ export async function runCleanup(configOverrides?: Partial<CleanupConfig>): Prom
       event: 'cleanup_complete',
       ts: new Date().toISOString(),
       runId,
+      workspaces: result.workspaces,
       scanned: result.scanned,
       deletedRows: result.deletedRows,
       deletedFiles: result.deletedFiles,
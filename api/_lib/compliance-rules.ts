@@ -0,0 +1,345 @@
+/**
+ * Rule-based compliance engine.
+ *
+ * A versioned, declarative rule set decides per lead whether it is suppressed,
+ * flagged, or delivered with a consent requirement. Rules match on state, ZIP
+ * prefix, request useCase, lead_type and phone type (of the best phone).
+ *
+ * Rule set source:
+ * - the workspace's suppression states, when set (see ./workspaces.ts), or
+ * - COMPLIANCE_RULES env var (JSON `{ version, rules }`), or
+ * - the built-in default: suppress CALL_SUPPRESS_STATES for CALL exports
+ *   (same behavior as filterLeadsByStateCompliance).
+ *
+ * Every export records the rule version and which rules fired, so it can be
+ * explained later why a lead was or wasn't delivered.
+ *
+ * IMPORTANT: This is a technical guardrail only. Users remain responsible for
+ * ensuring compliance with all applicable telemarketing laws and regulations.
+ */
+
+import type { Lead, UseCase } from './types.js';
+import { ConfigError } from './bytestring.js';
+import { getCallSuppressStates } from './compliance.js';
+import { normalizePhone } from './lead-merge.js';
+
+/**
+ * What happens to a lead matching a rule.
+ * - suppress: lead is dropped
+ * - flag: lead is delivered with the rule id in `compliance_flags`
+ * - require_consent: lead is delivered with `consent_required=yes`
+ */
+export type ComplianceAction = 'suppress' | 'flag' | 'require_consent';
+
+export type PhoneType = 'wireless' | 'landline';
+
+const ACTIONS: readonly ComplianceAction[] = ['suppress', 'flag', 'require_consent'];
+const USE_CASES: readonly UseCase[] = ['call', 'email', 'both'];
+const LEAD_TYPES = ['residential', 'commercial'] as const;
+const PHONE_TYPES: readonly PhoneType[] = ['wireless', 'landline'];
+
+/** Version prefix of the built-in rule set derived from CALL_SUPPRESS_STATES. */
+const DEFAULT_RULESET_VERSION = 'default-1';
+
+/**
+ * Match conditions. Every condition present must match (AND); a list matches
+ * if any of its values does (OR). An omitted condition matches everything.
+ *
+ * useCases is compared literally: a rule for `call` does not fire on `both`.
+ */
+export interface ComplianceRuleMatch {
+  states?: string[];
+  zipPrefixes?: string[];
+  useCases?: UseCase[];
+  leadTypes?: Array<(typeof LEAD_TYPES)[number]>;
+  phoneTypes?: PhoneType[];
+}
+
+export interface ComplianceRule {
+  id: string;
+  description?: string;
+  action: ComplianceAction;
+  match: ComplianceRuleMatch;
+}
+
+export interface ComplianceRuleSet {
+  version: string;
+  rules: ComplianceRule[];
+}
+
+/**
+ * How often a rule fired during one export (stored on the export).
+ */
+export interface RuleFiring {
+  ruleId: string;
+  action: ComplianceAction;
+  count: number;
+}
+
+/**
+ * Result of applying the rule set.
+ */
+export interface ComplianceRulesResult {
+  /** Leads that were not suppressed (flag/consent annotations applied) */
+  filteredLeads: Lead[];
+  /** Count of suppressed leads */
+  suppressedCount: number;
+  /** States of suppressed leads */
+  suppressedStates: string[];
+  /** Delivered leads carrying at least one flag */
+  flaggedCount: number;
+  /** Delivered leads requiring prior consent */
+  consentRequiredCount: number;
+  ruleVersion: string;
+  /** Rules that matched at least one lead, in rule set order */
+  rulesFired: RuleFiring[];
+}
+
+/**
+ * Compliance block returned in API responses.
+ */
+export interface ComplianceSummary {
+  ruleVersion: string;
+  rulesFired: RuleFiring[];
+  flaggedCount: number;
+  consentRequiredCount: number;
+}
+
+function invalidRules(message: string): ConfigError {
+  return new ConfigError({
+    code: 'invalid_compliance_rules',
+    message: `COMPLIANCE_RULES is invalid: ${message}`,
+    hint: 'COMPLIANCE_RULES must be JSON {"version": "...", "rules": [{"id", "action", "match"}]}. See docs/API.md.',
+    label: 'COMPLIANCE_RULES',
+  });
+}
+
+function parseStringList(value: unknown, field: string, ruleId: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string' || !v.trim())) {
+    throw invalidRules(`rule "${ruleId}" match.${field} must be an array of non-empty strings.`);
+  }
+  return value.map((v: string) => v.trim());
+}
+
+function parseEnumList<T extends string>(
+  value: unknown,
+  field: string,
+  ruleId: string,
+  allowed: readonly T[]
+): T[] | undefined {
+  const list = parseStringList(value, field, ruleId)?.map((v) => v.toLowerCase());
+  if (!list) return undefined;
+  const unknown = list.find((v) => !(allowed as readonly string[]).includes(v));
+  if (unknown) {
+    throw invalidRules(`rule "${ruleId}" match.${field} has unknown value "${unknown}" (use ${allowed.join(', ')}).`);
+  }
+  return list as T[];
+}
+
+/**
+ * Parse and validate a rule set from JSON.
+ * Throws ConfigError on malformed input so a typo never silently disables a rule.
+ */
+export function parseComplianceRuleSet(raw: string): ComplianceRuleSet {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw invalidRules('not valid JSON.');
+  }
+
+  const obj = parsed as { version?: unknown; rules?: unknown };
+  if (!obj || typeof obj !== 'object' || typeof obj.version !== 'string' || !obj.version.trim()) {
+    throw invalidRules('"version" must be a non-empty string.');
+  }
+  if (!Array.isArray(obj.rules)) {
+    throw invalidRules('"rules" must be an array.');
+  }
+
+  const seen = new Set<string>();
+  const rules: ComplianceRule[] = obj.rules.map((entry: unknown, i: number) => {
+    const rule = entry as { id?: unknown; description?: unknown; action?: unknown; match?: unknown };
+    if (!rule || typeof rule.id !== 'string' || !rule.id.trim()) {
+      throw invalidRules(`rule #${i + 1} needs a non-empty "id".`);
+    }
+    const id = rule.id.trim();
+    if (seen.has(id)) throw invalidRules(`duplicate rule id "${id}".`);
+    seen.add(id);
+
+    if (typeof rule.action !== 'string' || !(ACTIONS as readonly string[]).includes(rule.action)) {
+      throw invalidRules(`rule "${id}" action must be one of ${ACTIONS.join(', ')}.`);
+    }
+
+    const match = (rule.match ?? {}) as Record<string, unknown>;
+    if (typeof match !== 'object' || Array.isArray(match)) {
+      throw invalidRules(`rule "${id}" match must be an object.`);
+    }
+
+    return {
+      id,
+      description: typeof rule.description === 'string' ? rule.description : undefined,
+      action: rule.action as ComplianceAction,
+      match: {
+        states: parseStringList(match.states, 'states', id)?.map((s) => s.toUpperCase()),
+        zipPrefixes: parseStringList(match.zipPrefixes, 'zipPrefixes', id),
+        useCases: parseEnumList(match.useCases, 'useCases', id, USE_CASES),
+        leadTypes: parseEnumList(match.leadTypes, 'leadTypes', id, LEAD_TYPES),
+        phoneTypes: parseEnumList(match.phoneTypes, 'phoneTypes', id, PHONE_TYPES),
+      },
+    };
+  });
+
+  return { version: obj.version.trim(), rules };
+}
+
+/**
+ * Built-in rule set: suppress CALL_SUPPRESS_STATES (or the given states) for
+ * CALL exports. The version embeds the states so changing them changes the version.
+ */
+export function getDefaultComplianceRuleSet(states: string[] = getCallSuppressStates()): ComplianceRuleSet {
+  if (states.length === 0) {
+    return { version: `${DEFAULT_RULESET_VERSION}:none`, rules: [] };
+  }
+  return {
+    version: `${DEFAULT_RULESET_VERSION}:${states.join(',')}`,
+    rules: [
+      {
+        id: 'call-suppress-states',
+        description: 'Suppress CALL_SUPPRESS_STATES for call exports',
+        action: 'suppress',
+        match: { states, useCases: ['call'] },
+      },
+    ],
+  };
+}
+
+/**
+ * Resolve the active rule set.
+ * A workspace's own suppression states take precedence (built-in rule set over
+ * those states); otherwise COMPLIANCE_RULES, else the built-in default.
+ */
+export function getComplianceRuleSet(workspaceSuppressStates?: string[] | null): ComplianceRuleSet {
+  if (workspaceSuppressStates) return getDefaultComplianceRuleSet(workspaceSuppressStates);
+  const raw = process.env.COMPLIANCE_RULES;
+  if (raw?.trim()) return parseComplianceRuleSet(raw);
+  return getDefaultComplianceRuleSet();
+}
+
+/**
+ * Phone type of the lead's best phone, or undefined if unknown.
+ */
+export function getLeadPhoneType(lead: Lead): PhoneType | undefined {
+  const best = normalizePhone(lead.best_phone || lead.phone);
+  if (!best) return undefined;
+  const contains = (list: string) => (list || '').split(/[|,;]/).some((p) => normalizePhone(p) === best);
+  if (contains(lead.wireless_phones)) return 'wireless';
+  if (contains(lead.landline_phones)) return 'landline';
+  return undefined;
+}
+
+/**
+ * True if every condition of the rule matches the lead.
+ */
+export function ruleMatchesLead(rule: ComplianceRule, lead: Lead, useCase: UseCase): boolean {
+  const { states, zipPrefixes, useCases, leadTypes, phoneTypes } = rule.match;
+
+  if (useCases && !useCases.includes(useCase)) return false;
+
+  if (states) {
+    const state = (lead.state || '').toUpperCase().trim();
+    if (!state || !states.includes(state)) return false;
+  }
+
+  if (zipPrefixes) {
+    const zip = (lead.zip || '').trim();
+    if (!zip || !zipPrefixes.some((prefix) => zip.startsWith(prefix))) return false;
+  }
+
+  if (leadTypes) {
+    const leadType = (lead.lead_type || '').toLowerCase().trim();
+    if (!(leadTypes as readonly string[]).includes(leadType)) return false;
+  }
+
+  if (phoneTypes) {
+    const phoneType = getLeadPhoneType(lead);
+    if (!phoneType || !phoneTypes.includes(phoneType)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply a rule set to leads.
+ *
+ * Every matching rule is counted (for the audit trail); if any matching rule
+ * suppresses, the lead is dropped, otherwise flag / require_consent rules are
+ * written to the lead's `compliance_flags` / `consent_required` columns.
+ */
+export function applyComplianceRules(
+  leads: Lead[],
+  useCase: UseCase,
+  ruleSet: ComplianceRuleSet = getComplianceRuleSet()
+): ComplianceRulesResult {
+  const counts = new Map<string, number>();
+  const filtered: Lead[] = [];
+  const suppressedStates = new Set<string>();
+  let suppressedCount = 0;
+  let flaggedCount = 0;
+  let consentRequiredCount = 0;
+
+  for (const lead of leads) {
+    const matched = ruleSet.rules.filter((rule) => ruleMatchesLead(rule, lead, useCase));
+    for (const rule of matched) {
+      counts.set(rule.id, (counts.get(rule.id) ?? 0) + 1);
+    }
+
+    if (matched.some((rule) => rule.action === 'suppress')) {
+      suppressedCount++;
+      const state = (lead.state || '').toUpperCase().trim();
+      if (state) suppressedStates.add(state);
+      continue;
+    }
+
+    const flags = matched.filter((rule) => rule.action === 'flag').map((rule) => rule.id);
+    const consent = matched.filter((rule) => rule.action === 'require_consent').map((rule) => rule.id);
+    if (flags.length === 0 && consent.length === 0) {
+      filtered.push(lead);
+      continue;
+    }
+
+    if (flags.length > 0) flaggedCount++;
+    if (consent.length > 0) consentRequiredCount++;
+    filtered.push({
+      ...lead,
+      compliance_flags: [...flags, ...consent].join('|'),
+      consent_required: consent.length > 0 ? 'yes' : '',
+    });
+  }
+
+  const rulesFired: RuleFiring[] = ruleSet.rules
+    .filter((rule) => counts.has(rule.id))
+    .map((rule) => ({ ruleId: rule.id, action: rule.action, count: counts.get(rule.id) ?? 0 }));
+
+  return {
+    filteredLeads: filtered,
+    suppressedCount,
+    suppressedStates: Array.from(suppressedStates),
+    flaggedCount,
+    consentRequiredCount,
+    ruleVersion: ruleSet.version,
+    rulesFired,
+  };
+}
+
+/**
+ * Response block summarizing which rules fired.
+ */
+export function complianceSummary(result: ComplianceRulesResult): ComplianceSummary {
+  return {
+    ruleVersion: result.ruleVersion,
+    rulesFired: result.rulesFired,
+    flaggedCount: result.flaggedCount,
+    consentRequiredCount: result.consentRequiredCount,
+  };
+}
@@ -75,6 +75,9 @@ export interface ComplianceFilterResult {
  * 
  * Only applies to CALL useCase. Email exports are not affected.
  * 
+ * Generation uses applyComplianceRules (compliance-rules.ts), whose default
+ * rule set reproduces this filter.
+ * 
  * @param leads - Array of leads to filter
  * @param useCase - The use case (call, email, or both)
  * @param customSuppressStates - Optional override for suppress states (defaults to env/config)
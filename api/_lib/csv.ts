@@ -10,6 +10,8 @@ import type { Lead } from './types.js';
  * - Quality metrics: match_score, quality_score, quality_tier
  * - Status: dnc_status, email_validation_status
  * - Metadata: lead_type, tags, source
+ * - Compliance: compliance_flags, consent_required (from compliance rules)
+ * - Calling hours: timezone, local_call_window_start, local_call_window_end (call exports)
  *
  * Columns are ordered for dialer import convenience (name/contact first).
  */
@@ -41,6 +43,13 @@ const HEADERS = [
   'lead_type',
   'tags',
   'source',
+  // Compliance
+  'compliance_flags',
+  'consent_required',
+  // Calling hours (call exports)
+  'timezone',
+  'local_call_window_start',
+  'local_call_window_end',
 ] as const;
 
 /**
@@ -0,0 +1,296 @@
+/**
+ * Customer-uploaded suppression lists (do-not-contact / existing customers).
+ *
+ * Users upload CSVs of phones and emails; every value is normalized and stored
+ * only as a fingerprint (same scheme as the delivered-lead ledger), so no raw
+ * PII is persisted. Every generation drops leads matching any list entry of
+ * its workspace; lists are never shared across workspaces.
+ *
+ * Unlike the ledger, lookups fail closed: if lists exist but can't be checked,
+ * a CustomerSuppressionError is thrown and nothing is delivered.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Lead } from './types.js';
+import { CustomerSuppressionError } from './types.js';
+import { normalizePhone, normalizeEmail } from './lead-merge.js';
+import { fingerprintValue, getLeadFingerprints } from './suppression-ledger.js';
+
+/** Fingerprints per `.in()` query / insert batch (keeps URLs and payloads small). */
+const BATCH_SIZE = 200;
+
+/** Maximum unique entries accepted in a single upload. */
+export const MAX_LIST_ENTRIES = 100_000;
+
+/**
+ * List kind: `dnc` = do not contact, `customers` = existing customers.
+ */
+export type SuppressionListKind = 'dnc' | 'customers';
+
+export const SUPPRESSION_LIST_KINDS: readonly SuppressionListKind[] = ['dnc', 'customers'];
+
+/**
+ * Suppression list record from database.
+ */
+export interface SuppressionList {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  name: string;
+  kind: SuppressionListKind;
+  entry_count: number;
+}
+
+/**
+ * Result of parsing an uploaded CSV.
+ */
+export interface ParsedSuppressionCsv {
+  /** Unique fingerprints of every phone and email found */
+  fingerprints: string[];
+  phoneCount: number;
+  emailCount: number;
+  /** Non-empty cells that were neither a phone nor an email (headers, names, ...) */
+  skippedCount: number;
+}
+
+/**
+ * Result of filtering leads against the customer lists.
+ */
+export interface CustomerSuppressionResult {
+  filteredLeads: Lead[];
+  /** Count of leads matching a list entry */
+  suppressedCount: number;
+}
+
+/**
+ * Get Supabase client with service role key.
+ */
+function getSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured (missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Parse a CSV of phones and/or emails into fingerprints.
+ *
+ * Any column layout works: every cell containing `@` is treated as an email,
+ * every other cell that normalizes to a 10-digit US number as a phone.
+ */
+export function parseSuppressionCsv(csv: string): ParsedSuppressionCsv {
+  const fingerprints = new Set<string>();
+  const phones = new Set<string>();
+  const emails = new Set<string>();
+  let skippedCount = 0;
+
+  for (const line of csv.split(/\r?\n/)) {
+    for (const rawCell of line.split(/[,;\t]/)) {
+      const cell = rawCell.trim().replace(/^"(.*)"$/, '$1').trim();
+      if (!cell) continue;
+
+      if (cell.includes('@')) {
+        const email = normalizeEmail(cell);
+        if (email) {
+          emails.add(email);
+          fingerprints.add(fingerprintValue('email', email));
+          continue;
+        }
+      } else {
+        const phone = normalizePhone(cell);
+        if (phone) {
+          phones.add(phone);
+          fingerprints.add(fingerprintValue('phone', phone));
+          continue;
+        }
+      }
+
+      skippedCount++;
+    }
+  }
+
+  return {
+    fingerprints: [...fingerprints],
+    phoneCount: phones.size,
+    emailCount: emails.size,
+    skippedCount,
+  };
+}
+
+/**
+ * Create a list and store its fingerprints.
+ * Returns the created list or null on error (a partially written list is removed).
+ */
+export async function createSuppressionList(
+  workspaceId: string,
+  name: string,
+  kind: SuppressionListKind,
+  fingerprints: string[]
+): Promise<SuppressionList | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('suppression_lists')
+      .insert({ workspace_id: workspaceId, name, kind, entry_count: fingerprints.length })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('Failed to create suppression list:', error?.message);
+      return null;
+    }
+
+    const list = data as SuppressionList;
+    for (let i = 0; i < fingerprints.length; i += BATCH_SIZE) {
+      const rows = fingerprints.slice(i, i + BATCH_SIZE).map((fingerprint) => ({
+        list_id: list.id,
+        fingerprint,
+      }));
+      const { error: insertError } = await supabase
+        .from('suppression_list_entries')
+        .upsert(rows, { onConflict: 'list_id,fingerprint', ignoreDuplicates: true });
+
+      if (insertError) {
+        console.error('Failed to store suppression list entries:', insertError.message);
+        await supabase.from('suppression_lists').delete().eq('id', list.id);
+        return null;
+      }
+    }
+
+    return list;
+  } catch (err) {
+    console.error('Suppression list DB error (create):', err);
+    return null;
+  }
+}
+
+/**
+ * List a workspace's suppression lists (most recent first).
+ */
+export async function listSuppressionLists(workspaceId: string): Promise<SuppressionList[]> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('suppression_lists')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to list suppression lists:', error.message);
+      return [];
+    }
+
+    return (data || []) as SuppressionList[];
+  } catch (err) {
+    console.error('Suppression list DB error (list):', err);
+    return [];
+  }
+}
+
+/**
+ * Delete a list and (via cascade) its entries.
+ * Returns true if a list was deleted.
+ */
+export async function deleteSuppressionList(workspaceId: string, id: string): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('suppression_lists')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to delete suppression list:', error.message);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('Suppression list DB error (delete):', err);
+    return false;
+  }
+}
+
+/**
+ * Look up which fingerprints appear on any of the workspace's suppression lists.
+ * Throws CustomerSuppressionError if the lookup fails.
+ */
+export async function findSuppressedFingerprints(
+  workspaceId: string,
+  fingerprints: string[]
+): Promise<Set<string>> {
+  const found = new Set<string>();
+  if (fingerprints.length === 0) return found;
+
+  const supabase = getSupabaseClient();
+
+  // Skip the entry lookups entirely when the workspace has no lists
+  const { data: lists, error: listError } = await supabase
+    .from('suppression_lists')
+    .select('id')
+    .eq('workspace_id', workspaceId);
+
+  if (listError) {
+    throw new CustomerSuppressionError(`Suppression list check failed: ${listError.message}`);
+  }
+  const listIds = (lists || []).map((row) => (row as { id: string }).id);
+  if (listIds.length === 0) return found;
+
+  for (let i = 0; i < fingerprints.length; i += BATCH_SIZE) {
+    const chunk = fingerprints.slice(i, i + BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('suppression_list_entries')
+      .select('fingerprint')
+      .in('list_id', listIds)
+      .in('fingerprint', chunk);
+
+    if (error) {
+      throw new CustomerSuppressionError(`Suppression list lookup failed: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      found.add((row as { fingerprint: string }).fingerprint);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Drop leads whose phones or email appear on any of the workspace's customer
+ * suppression lists.
+ *
+ * Applies to every useCase. When Supabase isn't configured no lists can exist,
+ * so leads pass through unchanged; any other lookup failure throws.
+ */
+export async function filterLeadsByCustomerLists(
+  workspaceId: string,
+  leads: Lead[]
+): Promise<CustomerSuppressionResult> {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  if (leads.length === 0 || !supabaseUrl || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return { filteredLeads: leads, suppressedCount: 0 };
+  }
+
+  const perLead = leads.map(getLeadFingerprints);
+  let suppressed: Set<string>;
+  try {
+    suppressed = await findSuppressedFingerprints(workspaceId, [...new Set(perLead.flat())]);
+  } catch (err) {
+    if (err instanceof CustomerSuppressionError) throw err;
+    throw new CustomerSuppressionError(err instanceof Error ? err.message : 'Unknown error');
+  }
+
+  const filteredLeads = leads.filter((_, i) => !perLead[i].some((fp) => suppressed.has(fp)));
+  return { filteredLeads, suppressedCount: leads.length - filteredLeads.length };
+}
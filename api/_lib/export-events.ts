@@ -0,0 +1,112 @@
+/**
+ * Export progress events for GET /api/exports/:id/events (Server-Sent Events).
+ *
+ * Events are derived from the export record, so they follow its state changes
+ * whoever makes them (the events stream itself, a status poll or the
+ * background worker):
+ * - building / fetching / filtering / uploading: progress_stage while the
+ *   export builds, with its counts
+ * - done: status success or preview, with the delivery counts
+ * - failed: status error, no_results, discarded or cancelled
+ */
+
+import type { LeadExport } from './exports-db.js';
+
+export type ExportEventName = 'building' | 'fetching' | 'filtering' | 'uploading' | 'done' | 'failed';
+
+export interface ExportEvent {
+  event: ExportEventName;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Event describing an export's current state.
+ */
+export function exportEventFromRecord(exp: LeadExport): ExportEvent {
+  if (exp.status === 'success' || exp.status === 'preview') {
+    return {
+      event: 'done',
+      data: {
+        exportId: exp.id,
+        status: exp.status,
+        count: exp.kept ?? 0,
+        totalFetched: exp.total_fetched,
+        quality: exp.diagnostics,
+        fieldCoverage: exp.field_coverage,
+        suppressedCount: exp.suppressed_count ?? 0,
+        suppressedStates: exp.suppressed_states ?? [],
+        suppressedByCustomerList: exp.customer_suppressed_count ?? 0,
+        repeatSuppressedCount: exp.repeat_suppressed_count ?? 0,
+        qualityGate: exp.delivered_count !== null
+          ? {
+              deliveredCount: exp.delivered_count,
+              requestedCount: exp.requested_count ?? exp.delivered_count,
+              rejectedByQualityCount: exp.rejected_by_quality_count ?? 0,
+              minQualityScoreUsed: exp.min_quality_score_used ?? 0,
+              avgQualityScore: exp.avg_quality_score ?? 0,
+              p90QualityScore: exp.p90_quality_score ?? 0,
+              pctWireless: exp.pct_wireless ?? 0,
+              pctWithAddress: exp.pct_with_address ?? 0,
+              warning: exp.quality_gate_warning ?? undefined,
+            }
+          : null,
+        preview: exp.status === 'preview' ? exp.preview_rows ?? [] : undefined,
+        provider: exp.provider,
+      },
+    };
+  }
+
+  if (exp.status === 'discarded' || exp.status === 'cancelled') {
+    const discarded = exp.status === 'discarded';
+    return {
+      event: 'failed',
+      data: {
+        exportId: exp.id,
+        status: exp.status,
+        errorCode: discarded ? 'export_discarded' : 'export_cancelled',
+        errorMessage: discarded ? 'This preview was discarded.' : 'This export was cancelled.',
+      },
+    };
+  }
+
+  if (exp.status === 'error' || exp.status === 'no_results') {
+    return {
+      event: 'failed',
+      data: {
+        exportId: exp.id,
+        status: exp.status,
+        errorCode: exp.error_code,
+        errorMessage: exp.error_message,
+      },
+    };
+  }
+
+  return {
+    event: exp.progress_stage ?? 'building',
+    data: {
+      exportId: exp.id,
+      status: exp.status,
+      audienceId: exp.audience_id,
+      jobId: exp.provider_job_id,
+      pollAttempts: exp.poll_attempts ?? 0,
+      counts: exp.progress_counts ?? {},
+      // building_long: the background worker checks every few minutes
+      background: exp.status === 'building_long',
+    },
+  };
+}
+
+/**
+ * True for the last event of a stream.
+ */
+export function isFinalExportEvent(event: ExportEvent): boolean {
+  return event.event === 'done' || event.event === 'failed';
+}
+
+/**
+ * Serialize an event in the text/event-stream format.
+ */
+export function formatSseEvent(event: ExportEvent, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
@@ -0,0 +1,374 @@
+/**
+ * Leased job queue for finishing asynchronously built exports.
+ *
+ * Every export that answers 202 `provider_building` gets one job
+ * (export_jobs, migration 021). Only the holder of a job's lease may finish
+ * the export - fetch the members, upload the CSV and mark it done - so an
+ * overlapping cron run and a live /api/leads/status poll never upload two CSVs.
+ *
+ * - claimExportJobs() leases due jobs for the process-exports worker;
+ *   claimExportJob() leases one export's job for a status poll
+ * - Still building: rescheduleExportJob() releases the lease until the next check
+ * - Done (success, no results, terminal provider error): completeExportJob()
+ * - Failed: failExportJob() counts an attempt and retries with backoff; after
+ *   EXPORT_JOB_MAX_ATTEMPTS failures the job is dead-lettered and its export
+ *   marked as error (refunding its credits)
+ * - A lease that expires (the holder died) counts as a failed attempt
+ * - Cancelled export: cancelExportJob() completes the job, leased or not
+ *
+ * Without Supabase (or the table) claims return nothing: the worker idles and
+ * status polls run unguarded, as before the queue existed.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { updateExportError } from './exports-db.js';
+
+/**
+ * Job states.
+ * - queued: waiting for run_after
+ * - running: leased by locked_by until lease_expires_at
+ * - completed: the export reached a final status
+ * - dead: dead-lettered after max_attempts failures
+ */
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export interface ExportJob {
+  id: string;
+  workspace_id: string;
+  export_id: string;
+  status: ExportJobStatus;
+  /** Failed attempts so far */
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+/**
+ * Outcome of claiming one export's job.
+ * - claimed: this caller holds the lease
+ * - busy: another worker holds it
+ * - finished: the job is completed or dead - read the export instead
+ */
+export type ExportJobClaim =
+  | { state: 'claimed'; job: ExportJob }
+  | { state: 'busy' }
+  | { state: 'finished'; job: ExportJob };
+
+/** Lease length; longer than any function run */
+export const EXPORT_JOB_LEASE_SECONDS = 5 * 60;
+
+/** Default failures before a job is dead-lettered */
+export const DEFAULT_EXPORT_JOB_MAX_ATTEMPTS = 5;
+
+/** Cap for the retry backoff after a failure */
+const MAX_RETRY_DELAY_MINUTES = 60;
+
+/**
+ * Get Supabase client, or null if not configured (the queue is skipped).
+ */
+function getSupabaseClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Failures before dead-lettering, from EXPORT_JOB_MAX_ATTEMPTS.
+ */
+export function getExportJobMaxAttempts(): number {
+  const env = parseInt(process.env.EXPORT_JOB_MAX_ATTEMPTS || '', 10);
+  return !isNaN(env) && env > 0 ? env : DEFAULT_EXPORT_JOB_MAX_ATTEMPTS;
+}
+
+/**
+ * Delay before retrying after the nth failed attempt: 5, 10, 20, 40, 60 minutes.
+ */
+export function retryDelayMinutes(attempts: number, baseMinutes: number = 5): number {
+  return Math.min(MAX_RETRY_DELAY_MINUTES, baseMinutes * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Queue an export for background completion (no-op if it already has a job).
+ */
+export async function enqueueExportJob(
+  workspaceId: string,
+  exportId: string,
+  delayMinutes: number = 0
+): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return false;
+
+  try {
+    const { error } = await supabase.from('export_jobs').upsert(
+      {
+        workspace_id: workspaceId,
+        export_id: exportId,
+        max_attempts: getExportJobMaxAttempts(),
+        run_after: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString(),
+      },
+      { onConflict: 'export_id', ignoreDuplicates: true }
+    );
+
+    if (error) {
+      console.error('[export-jobs] Failed to enqueue job:', error.message);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[export-jobs] Error (enqueue):', err);
+    return false;
+  }
+}
+
+/**
+ * Lease up to `limit` due jobs to a worker (oldest run_after first).
+ */
+export async function claimExportJobs(
+  workerId: string,
+  limit: number,
+  leaseSeconds: number = EXPORT_JOB_LEASE_SECONDS
+): Promise<ExportJob[]> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return [];
+
+  try {
+    const { data, error } = await supabase.rpc('claim_export_jobs', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) {
+      console.error('[export-jobs] Failed to claim jobs:', error.message);
+      return [];
+    }
+    return (data || []) as ExportJob[];
+  } catch (err) {
+    console.error('[export-jobs] Error (claim):', err);
+    return [];
+  }
+}
+
+/**
+ * Lease one export's job, whether or not it is due (live status polls).
+ * Only a job of `workspaceId` is claimed. Returns null when the export has no
+ * job in the workspace or the queue is unavailable.
+ */
+export async function claimExportJob(
+  workerId: string,
+  workspaceId: string,
+  exportId: string,
+  leaseSeconds: number = EXPORT_JOB_LEASE_SECONDS
+): Promise<ExportJobClaim | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase.rpc('claim_export_jobs', {
+      p_worker_id: workerId,
+      p_limit: 1,
+      p_lease_seconds: leaseSeconds,
+      p_export_id: exportId,
+      p_workspace_id: workspaceId,
+    });
+
+    if (error) {
+      console.error('[export-jobs] Failed to claim job:', error.message);
+      return null;
+    }
+    const claimed = (data || []) as ExportJob[];
+    if (claimed.length > 0) return { state: 'claimed', job: claimed[0] };
+
+    const job = await getExportJob(workspaceId, exportId);
+    if (!job) return null;
+    return job.status === 'completed' || job.status === 'dead'
+      ? { state: 'finished', job }
+      : { state: 'busy' };
+  } catch (err) {
+    console.error('[export-jobs] Error (claim one):', err);
+    return null;
+  }
+}
+
+/**
+ * Get an export's job in a workspace.
+ */
+export async function getExportJob(workspaceId: string, exportId: string): Promise<ExportJob | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('export_jobs')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('export_id', exportId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[export-jobs] Failed to get job:', error.message);
+      return null;
+    }
+    return data as ExportJob | null;
+  } catch (err) {
+    console.error('[export-jobs] Error (get):', err);
+    return null;
+  }
+}
+
+/**
+ * Due jobs, without claiming them (worker dry runs).
+ */
+export async function listDueExportJobs(limit: number): Promise<ExportJob[]> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('export_jobs')
+      .select('*')
+      .eq('status', 'queued')
+      .lte('run_after', new Date().toISOString())
+      .order('run_after', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('[export-jobs] Failed to list due jobs:', error.message);
+      return [];
+    }
+    return (data || []) as ExportJob[];
+  } catch (err) {
+    console.error('[export-jobs] Error (list):', err);
+    return [];
+  }
+}
+
+/**
+ * Release a leased job until the next check (the audience is still building).
+ */
+export async function rescheduleExportJob(job: ExportJob, delayMinutes: number): Promise<boolean> {
+  return updateLeasedJob(job, {
+    status: 'queued',
+    run_after: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString(),
+    locked_by: null,
+    lease_expires_at: null,
+  });
+}
+
+/**
+ * Mark a leased job completed (its export reached a final status).
+ */
+export async function completeExportJob(job: ExportJob): Promise<boolean> {
+  return updateLeasedJob(job, {
+    status: 'completed',
+    locked_by: null,
+    lease_expires_at: null,
+    finished_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Complete an export's job because the export was cancelled. Unlike
+ * completeExportJob() this ignores the lease: a worker holding it loses it and
+ * its own update is skipped.
+ */
+export async function cancelExportJob(exportId: string): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return false;
+
+  try {
+    const { error } = await supabase
+      .from('export_jobs')
+      .update({
+        status: 'completed',
+        last_error: 'cancelled',
+        locked_by: null,
+        lease_expires_at: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('export_id', exportId)
+      .in('status', ['queued', 'running']);
+
+    if (error) {
+      console.error('[export-jobs] Failed to cancel job:', error.message);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[export-jobs] Error (cancel):', err);
+    return false;
+  }
+}
+
+/**
+ * Record a failed attempt: retry with backoff, or dead-letter the job once
+ * it reached max_attempts. A dead-lettered job's export is marked as error
+ * and its reserved credits refunded. Returns the new status, or null if the
+ * update failed.
+ */
+export async function failExportJob(job: ExportJob, error: string): Promise<'queued' | 'dead' | null> {
+  const attempts = job.attempts + 1;
+  const dead = attempts >= job.max_attempts;
+  const now = Date.now();
+
+  const updated = await updateLeasedJob(job, {
+    status: dead ? 'dead' : 'queued',
+    attempts,
+    last_error: error.slice(0, 500),
+    run_after: new Date(now + retryDelayMinutes(attempts) * 60 * 1000).toISOString(),
+    locked_by: null,
+    lease_expires_at: null,
+    finished_at: dead ? new Date(now).toISOString() : null,
+  });
+  if (!updated) return null;
+  if (!dead) return 'queued';
+
+  await updateExportError(job.workspace_id, job.export_id, {
+    status: 'error',
+    errorCode: 'job_dead_lettered',
+    errorMessage: `Background processing failed ${attempts} times: ${error}`,
+  });
+  return 'dead';
+}
+
+/**
+ * Update a job only while this worker still holds its lease.
+ */
+async function updateLeasedJob(job: ExportJob, fields: Record<string, unknown>): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return false;
+
+  try {
+    const { data, error } = await supabase
+      .from('export_jobs')
+      .update(fields)
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('locked_by', job.locked_by ?? '')
+      .select('id');
+
+    if (error) {
+      console.error('[export-jobs] Failed to update job:', error.message);
+      return false;
+    }
+    if (!data || data.length === 0) {
+      console.error('[export-jobs] Lease lost before update:', job.id);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[export-jobs] Error (update):', err);
+    return false;
+  }
+}
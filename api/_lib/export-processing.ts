@@ -0,0 +1,323 @@
+/**
+ * Finishing asynchronously built exports, shared by the process-exports
+ * worker and the export events stream (api/exports/[id]/events.ts).
+ *
+ * processExport() makes one provider check for an export that is still
+ * building: once the audience is ready it runs the usual pipeline
+ * (compliance, customer lists, repeat suppression, quality gate, calling
+ * hours), uploads the CSV and marks the export done. Progress is written to
+ * the export as it goes (building, fetching, filtering, uploading) so the
+ * events stream can report it.
+ *
+ * runExportJob() wraps it for a caller holding the export job's lease and
+ * settles the lease from the outcome (see ./export-jobs.ts).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { fetchAudienceMembers, fetchAudienceJobMembers } from './providers/audiencelab.js';
+import { leadsToCsv } from './csv.js';
+import {
+  getExport,
+  updateExportSuccess,
+  updateExportError,
+  updateExportAudienceId,
+  updateExportProgress,
+  updateNextPollAt,
+  qualityReportToExportFields,
+  complianceResultToExportFields,
+  leadPreviewToExportFields,
+  type LeadExport,
+} from './exports-db.js';
+import {
+  completeExportJob,
+  rescheduleExportJob,
+  failExportJob,
+  type ExportJob,
+} from './export-jobs.js';
+import { applyComplianceRules } from './compliance-rules.js';
+import { runQualityPipeline } from './quality-gate.js';
+import { applyCallingHours } from './calling-hours.js';
+import { backfillLeadLocations } from './zip-data.js';
+import { filterLeadsByCustomerLists } from './customer-suppression.js';
+import { suppressRepeatLeads, recordDeliveredLeads } from './suppression-ledger.js';
+import { deleteStorageFile } from './cleanup.js';
+import {
+  getWorkspaceCredentials,
+  getWorkspaceComplianceRuleSet,
+  buildExportPath,
+  type Workspace,
+} from './workspaces.js';
+import { AudienceLabAsyncError, type QualityTier, type UseCase } from './types.js';
+
+/** Background poll interval (minutes) */
+export const BACKGROUND_POLL_MINUTES = 5;
+
+/**
+ * Outcome of one check.
+ * - completed / no_results / failed: final (the export has its status)
+ * - still_building: check again later
+ * - retry: transient failure, retried with backoff
+ */
+export interface ExportProcessingResult {
+  status: 'completed' | 'still_building' | 'failed' | 'no_results' | 'retry';
+  error?: string;
+}
+
+/**
+ * Structured log entry (safe for Vercel logs - no PII).
+ */
+function logEvent(event: string, data: Record<string, unknown>): void {
+  console.log(JSON.stringify({ event, ts: new Date().toISOString(), ...data }));
+}
+
+/**
+ * Get Supabase client for storage operations.
+ */
+function getSupabaseClient() {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Process a single export - check provider, complete if ready.
+ * 'retry' is a transient failure: the job is retried with backoff.
+ */
+export async function processExport(
+  exp: LeadExport,
+  workspace: Workspace,
+  runId: string,
+  logPrefix: string = 'cron'
+): Promise<ExportProcessingResult> {
+  const exportId = exp.id;
+  
+  // Skip if there's neither an audience nor a job creating one (shouldn't happen, but be safe)
+  if (!exp.audience_id && !exp.provider_job_id) {
+    logEvent(`${logPrefix}_skip_no_audience`, { runId, exportId });
+    return { status: 'failed', error: 'No audience_id' };
+  }
+  let audienceId = exp.audience_id;
+  
+  // Parse zip codes from array
+  const zips = exp.zip_codes || [];
+  if (zips.length === 0) {
+    logEvent(`${logPrefix}_skip_no_zips`, { runId, exportId });
+    return { status: 'failed', error: 'No zip codes' };
+  }
+  
+  // Build input for provider (exports from before Migration 025 have no
+  // lead_scope; their scope comes from the AudienceLab payload's persona_type)
+  const qualityTier = (exp.quality_tier || 'balanced') as QualityTier;
+  const requestedCount = exp.requested_count ?? 200;
+  const input = {
+    leadRequest: exp.lead_request,
+    zips,
+    scope: exp.lead_scope ?? (exp.request_payload?.persona_type === 'B2B' ? 'commercial' : 'residential'),
+    useCase: (exp.use_case || 'both') as UseCase,
+    requestedCount,
+    qualityTier,
+    credentials: getWorkspaceCredentials(workspace),
+    intentPacks: workspace.intent_packs ?? undefined,
+  };
+  
+  try {
+    // Check provider status (the job first, while it hasn't produced an audience)
+    await updateExportProgress(workspace.id, exportId, 'fetching', { pollAttempts: exp.poll_attempts });
+    const result = audienceId
+      ? await fetchAudienceMembers(audienceId, input, exp.request_id || undefined)
+      : await fetchAudienceJobMembers(exp.provider_job_id as string, input, exp.request_id || undefined);
+
+    if (!audienceId) {
+      const resolvedAudienceId = result.ok
+        ? result.audienceId
+        : (result.error.details as Record<string, unknown> | undefined)?.audienceId as string | undefined;
+      if (resolvedAudienceId) {
+        audienceId = resolvedAudienceId;
+        await updateExportAudienceId(workspace.id, exportId, audienceId);
+        logEvent(`${logPrefix}_job_resolved`, { runId, exportId, jobId: exp.provider_job_id, audienceId });
+      }
+    }
+    
+    if (result.ok) {
+      // Provider ready! Complete the export
+      const useCase = (exp.use_case || 'both') as UseCase;
+      const fetched = result.leads.length;
+      await updateExportProgress(workspace.id, exportId, 'filtering', { fetched });
+      const located = backfillLeadLocations(result.leads);
+      const complianceResult = applyComplianceRules(located.leads, useCase, getWorkspaceComplianceRuleSet(workspace));
+      // Throws if suppression lists can't be checked - the catch below reschedules
+      const customerResult = await filterLeadsByCustomerLists(workspace.id, complianceResult.filteredLeads);
+      const repeats = await suppressRepeatLeads(workspace.id, customerResult.filteredLeads, exp.dedupe_window_days ?? 0);
+      const quality = runQualityPipeline(repeats.leads, qualityTier, requestedCount, useCase);
+      const leads = applyCallingHours(quality.leads, useCase, exp.sort_callable_now ?? false);
+      const csv = leadsToCsv(leads);
+      
+      // Upload to storage
+      await updateExportProgress(workspace.id, exportId, 'uploading', { fetched, kept: leads.length });
+      const supabase = getSupabaseClient();
+      const path = buildExportPath(workspace);
+      const bucket = 'exports';
+      
+      const bytes = new TextEncoder().encode(csv);
+      const uploadRes = await supabase.storage.from(bucket).upload(path, bytes, {
+        contentType: 'text/csv',
+        upsert: false,
+      });
+      
+      if (uploadRes.error) {
+        logEvent(`${logPrefix}_upload_error`, { runId, exportId, error: uploadRes.error.message });
+        return { status: 'retry', error: `Upload failed: ${uploadRes.error.message}` };
+      }
+      
+      // Update export record with success (or stage it when a preview was requested)
+      const preview = exp.preview_requested ?? false;
+      const updated = await updateExportSuccess(workspace.id, exportId, {
+        status: preview ? 'preview' : 'success',
+        totalFetched: result.diagnostics?.totalFetched ?? result.leads.length,
+        kept: leads.length,
+        diagnostics: result.diagnostics ?? null,
+        fieldCoverage: result.fieldCoverage ?? null,
+        bucket,
+        path,
+        suppressedCount: complianceResult.suppressedCount,
+        suppressedStates: complianceResult.suppressedStates,
+        ...complianceResultToExportFields(complianceResult),
+        customerSuppressedCount: customerResult.suppressedCount,
+        repeatSuppressedCount: repeats.repeatCount,
+        ...qualityReportToExportFields(quality.report, quality.stats),
+        ...(preview ? leadPreviewToExportFields(leads) : {}),
+      });
+      // Finished elsewhere meanwhile (e.g. cancelled): drop this CSV, deliver nothing
+      if (!updated) {
+        await deleteStorageFile(supabase, bucket, path);
+        const current = await getExport(workspace.id, exportId);
+        logEvent(`${logPrefix}_export_not_updated`, { runId, exportId, status: current?.status });
+        if (current && current.status !== 'building' && current.status !== 'building_long') {
+          return { status: 'failed', error: `Export is already ${current.status}` };
+        }
+        return { status: 'retry', error: 'Could not record the finished export' };
+      }
+      if (!preview) {
+        await recordDeliveredLeads(workspace.id, exportId, leads);
+      }
+      
+      logEvent(`${logPrefix}_export_completed`, {
+        runId,
+        exportId,
+        audienceId,
+        preview,
+        count: leads.length,
+        suppressedCount: complianceResult.suppressedCount,
+        suppressedByCustomerList: customerResult.suppressedCount,
+        repeatSuppressedCount: repeats.repeatCount,
+        complianceRuleVersion: complianceResult.ruleVersion,
+        rejectedByQualityCount: quality.report.rejectedByQualityCount,
+      });
+      
+      return { status: 'completed' };
+    }
+    
+    // Not ready yet
+    const err = result.error;
+    
+    if (err.code === 'provider_building') {
+      // Still building - schedule next check
+      await updateNextPollAt(workspace.id, exportId, BACKGROUND_POLL_MINUTES);
+      await updateExportProgress(workspace.id, exportId, 'building', { pollAttempts: exp.poll_attempts });
+      
+      logEvent(`${logPrefix}_still_building`, {
+        runId,
+        exportId,
+        audienceId,
+        pollAttempts: exp.poll_attempts,
+      });
+      
+      return { status: 'still_building' };
+    }
+    
+    if (err.code === 'provider_no_results') {
+      // No results - mark accordingly
+      await updateExportError(workspace.id, exportId, {
+        status: 'no_results',
+        errorCode: err.code,
+        errorMessage: err.message,
+      });
+      
+      logEvent(`${logPrefix}_no_results`, { runId, exportId, audienceId });
+      return { status: 'no_results' };
+    }
+    
+    // Other error
+    await updateExportError(workspace.id, exportId, {
+      status: 'error',
+      errorCode: err.code,
+      errorMessage: err.message,
+    });
+    
+    logEvent(`${logPrefix}_provider_error`, {
+      runId,
+      exportId,
+      audienceId,
+      errorCode: err.code,
+    });
+    
+    return { status: 'failed', error: err.message };
+    
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+
+    // A failed job will never produce an audience
+    if (err instanceof AudienceLabAsyncError) {
+      await updateExportError(workspace.id, exportId, {
+        status: 'error',
+        errorCode: err.code,
+        errorMessage: err.message,
+      });
+
+      logEvent(`${logPrefix}_job_failed`, { runId, exportId, jobId: err.jobId, jobStatus: err.jobStatus });
+      return { status: 'failed', error: message };
+    }
+    
+    // Don't mark as failed for transient errors - the job is retried with backoff
+    logEvent(`${logPrefix}_process_error`, { runId, exportId, error: message });
+    return { status: 'retry', error: message };
+  }
+}
+
+/**
+ * Process an export under its job's lease (null: no job, run unguarded) and
+ * settle the lease: completed for final outcomes, rescheduled while still
+ * building, a failed attempt for transient errors (a job dead-lettered by
+ * this failure marks the export as error).
+ */
+export async function runExportJob(
+  job: ExportJob | null,
+  exp: LeadExport,
+  workspace: Workspace,
+  runId: string,
+  logPrefix: string = 'cron'
+): Promise<ExportProcessingResult & { deadLettered?: boolean }> {
+  const result = await processExport(exp, workspace, runId, logPrefix);
+  if (!job) return result;
+
+  switch (result.status) {
+    case 'still_building':
+      await rescheduleExportJob(job, BACKGROUND_POLL_MINUTES);
+      return result;
+    case 'retry': {
+      const error = result.error ?? 'Unknown error';
+      if (await failExportJob(job, error) !== 'dead') return result;
+
+      logEvent(`${logPrefix}_job_dead_lettered`, { runId, exportId: exp.id, jobId: job.id, attempts: job.attempts + 1 });
+      return { ...result, deadLettered: true };
+    }
+    default:
+      await completeExportJob(job);
+      return result;
+  }
+}
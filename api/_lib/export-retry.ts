@@ -0,0 +1,83 @@
+/**
+ * Retrying a failed export (POST /api/exports/:id/retry).
+ *
+ * A retry is a new generation: the original export's request is rebuilt as a
+ * /api/leads/generate body and run through the normal pipeline, so it gets a
+ * new export, credit check and audit entry. The body comes from the export's
+ * columns (lead request, lead scope, blend, ZIPs or geo target, use case,
+ * count, tier, dedupe window, preview) and its stored AudienceLab
+ * request_payload for the minimum match score. The caller may change the
+ * tier or count. Exports created before Migration 025 have no scope or blend
+ * columns; their scope comes from the payload's persona_type (`both` reads
+ * as `residential`) and blend from a combined provider name.
+ */
+
+import type { LeadExport, ExportStatus } from './exports-db.js';
+import type { QualityTier } from './types.js';
+
+/** Statuses a retry applies to */
+export const RETRYABLE_STATUSES: readonly ExportStatus[] = ['error', 'no_results'];
+
+export const QUALITY_TIERS: readonly QualityTier[] = ['hot', 'balanced', 'scale'];
+
+/**
+ * Settings a retry may change.
+ */
+export interface RetryOverrides {
+  qualityTier?: QualityTier;
+  requestedCount?: number;
+}
+
+/**
+ * Type guard for tier strings from requests.
+ */
+export function isQualityTier(value: unknown): value is QualityTier {
+  return typeof value === 'string' && (QUALITY_TIERS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether an export can be retried.
+ */
+export function isRetryableExport(exp: Pick<LeadExport, 'status'>): boolean {
+  return RETRYABLE_STATUSES.includes(exp.status);
+}
+
+/**
+ * Rebuild the generate request body of an export, with the overrides applied.
+ */
+export function buildRetryRequest(exp: LeadExport, overrides: RetryOverrides = {}): Record<string, unknown> {
+  const payload = exp.request_payload ?? {};
+  const filters = (payload.filters ?? {}) as Record<string, unknown>;
+
+  const body: Record<string, unknown> = {
+    leadRequest: exp.lead_request,
+    leadScope: exp.lead_scope ?? (payload.persona_type === 'B2B' ? 'commercial' : 'residential'),
+    useCase: exp.use_case || 'both',
+  };
+
+  if (exp.geo_target) {
+    body.geo = exp.geo_target;
+  } else {
+    body.zipCodes = (exp.zip_codes ?? []).join(', ');
+  }
+
+  if (typeof filters.min_match_score === 'number') {
+    body.minMatchScore = filters.min_match_score;
+  }
+
+  const qualityTier = overrides.qualityTier ?? exp.quality_tier;
+  if (qualityTier) body.qualityTier = qualityTier;
+
+  const requestedCount = overrides.requestedCount ?? exp.requested_count;
+  if (requestedCount) body.requestedCount = requestedCount;
+
+  // Older exports: a successful blend lists every provider, e.g. 'audiencelab+pdl'
+  if (exp.blend ?? exp.provider.includes('+')) body.blend = true;
+  if (exp.dedupe_window_days !== null && exp.dedupe_window_days !== undefined) {
+    body.dedupeWindowDays = exp.dedupe_window_days;
+  }
+  if (exp.sort_callable_now) body.sortCallableNow = true;
+  if (exp.preview_requested) body.preview = true;
+
+  return body;
+}
@@ -1,10 +1,16 @@
 /**
  * Database operations for lead_exports table.
  * Stores METADATA ONLY - no PII.
+ * Every query is scoped by workspace id (see ./workspaces.ts).
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import type { LeadQualityDiagnostics, FieldCoverage } from './types.js';
+import type { Lead, LeadQualityDiagnostics, FieldCoverage, GeoTarget, LeadScope } from './types.js';
+import type { QualityReport } from './quality-gate.js';
+import type { QualityStats } from './lead-quality.js';
+import type { ComplianceRulesResult, RuleFiring } from './compliance-rules.js';
+import { buildLeadPreview, type PreviewLead } from './lead-preview.js';
+import { getLeadFingerprints } from './suppression-ledger.js';
 
 /**
  * Export record as stored in the database.
@@ -13,15 +19,48 @@ import type { LeadQualityDiagnostics, FieldCoverage } from './types.js';
  * Valid export status values.
  * - 'building': Initial build in progress (interactive polling)
  * - 'building_long': Build taking longer than expected (background processing)
+ * - 'preview': CSV staged, awaiting approval (preview requested; see lead-preview.ts)
  * - 'success': Export completed successfully
  * - 'no_results': Provider returned no matching leads
+ * - 'discarded': Preview rejected; CSV deleted and credits refunded
+ * - 'cancelled': Stopped while building; credits refunded, never finished
  * - 'error': Terminal failure (auth error, provider error, etc.)
  */
-export type ExportStatus = 'building' | 'building_long' | 'success' | 'no_results' | 'error';
+export type ExportStatus =
+  | 'building'
+  | 'building_long'
+  | 'preview'
+  | 'success'
+  | 'no_results'
+  | 'discarded'
+  | 'cancelled'
+  | 'error';
+
+/**
+ * Pipeline stage of an export that is still building (reported by the events stream).
+ * - 'building': the provider is still building the audience
+ * - 'fetching': checking the provider / fetching members
+ * - 'filtering': compliance, suppression and quality gate
+ * - 'uploading': uploading the CSV
+ */
+export type ExportProgressStage = 'building' | 'fetching' | 'filtering' | 'uploading';
+
+/**
+ * Counts reported with a progress stage.
+ */
+export interface ExportProgressCounts {
+  pollAttempts?: number;
+  /** Members fetched from the provider */
+  fetched?: number;
+  /** Leads left after filtering */
+  kept?: number;
+}
 
 export interface LeadExport {
   id: string;
   created_at: string;
+  /** Workspace that owns the export */
+  workspace_id: string;
   updated_at: string;
   provider: string;
   lead_request: string;
@@ -29,6 +68,8 @@ export interface LeadExport {
   target: string;
   use_case: string;
   audience_id: string | null;
+  /** AudienceLab job creating the audience (async create); audience_id is set once it resolves */
+  provider_job_id: string | null;
   request_id: string | null;
   status: ExportStatus;
   error_code: string | null;
@@ -86,15 +127,76 @@ export interface LeadExport {
   medium_quality_count: number | null;
   /** Count of leads with quality_score < 50 */
   low_quality_count: number | null;
+  // Repeat suppression (cross-export dedupe)
+  /** Lookback window (days) for dropping previously delivered leads; 0/null = off */
+  dedupe_window_days: number | null;
+  /** Number of leads dropped because they were delivered within the window */
+  repeat_suppressed_count: number | null;
+  /** Call exports: leads callable right now sorted first */
+  sort_callable_now: boolean | null;
+  /** Number of leads dropped because they matched a customer suppression list */
+  customer_suppressed_count: number | null;
+  /** Geo target zip_codes was expanded from; null for plain ZIP lists */
+  geo_target: GeoTarget | null;
+  /** User who started the export; null for exports created before user accounts */
+  created_by: string | null;
+  // Compliance rules audit trail
+  /** Compliance rule set version applied */
+  compliance_rule_version: string | null;
+  /** Rules that fired, with action and lead count */
+  compliance_rules_fired: RuleFiring[] | null;
+  /** Delivered leads carrying a compliance flag */
+  compliance_flagged_count: number | null;
+  /** Delivered leads requiring prior consent */
+  consent_required_count: number | null;
+  // Lead credits (see lead-credits.ts)
+  /** Credits held at start (requested count) until the export finishes */
+  credits_reserved: number | null;
+  /** Credits actually charged: kept on success, 0 on no_results/error; null while building */
+  credits_charged: number | null;
+  // Previews (see lead-preview.ts)
+  /** Stop at 'preview' when the audience is ready instead of releasing the CSV */
+  preview_requested: boolean | null;
+  /** Masked sample shown while awaiting approval */
+  preview_rows: PreviewLead[] | null;
+  /** Ledger fingerprints of the staged leads, recorded on approval */
+  preview_fingerprints: string[] | null;
+  /** When the preview was approved or discarded, and by whom */
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  // Audience reuse (see audience-reuse.ts)
+  /** Hash of the AudienceLab payload, for finding identical requests */
+  audience_hash: string | null;
+  /** True when members came from an earlier export's audience instead of a new one */
+  audience_reused: boolean | null;
+  /** Export whose audience was reused */
+  reused_from_export_id: string | null;
+  // Progress while building (see export-processing.ts)
+  progress_stage: ExportProgressStage | null;
+  progress_counts: ExportProgressCounts | null;
+  progress_updated_at: string | null;
+  /** Saved search the export ran from (see saved-searches.ts) */
+  saved_search_id: string | null;
+  // Request options (see export-retry.ts); null on exports created before Migration 025
+  /** Requested lead scope */
+  lead_scope: LeadScope | null;
+  /** Blend mode requested */
+  blend: boolean | null;
 }
 
 /**
  * Input for creating a new export record.
  */
 export interface CreateExportInput {
+  /** Workspace that owns the export */
+  workspaceId: string;
   provider: string;
   leadRequest: string;
   zipCodes: string[];
+  /** Geo target the ZIP list was expanded from (radius, city/state, county) */
+  geoTarget?: GeoTarget;
+  /** User who started the export */
+  createdBy?: string;
   target: string;
   useCase: string;
   audienceId?: string;
@@ -108,13 +210,30 @@ export interface CreateExportInput {
   qualityTier?: string;
   /** Intent pack ID applied */
   intentPack?: string;
+  /** Repeat suppression lookback window in days (0 = off) */
+  dedupeWindowDays?: number;
+  /** Call exports: sort leads callable right now first */
+  sortCallableNow?: boolean;
+  /** Stage the CSV for approval instead of releasing it */
+  previewRequested?: boolean;
+  /** Hash of the AudienceLab payload (audience reuse) */
+  audienceHash?: string;
+  /** Export whose audience (audienceId) is being reused */
+  reusedFromExportId?: string;
+  /** Saved search the request runs */
+  savedSearchId?: string;
+  /** Requested lead scope (kept for retries) */
+  leadScope?: LeadScope;
+  /** Blend mode requested (kept for retries) */
+  blend?: boolean;
 }
 
 /**
  * Input for updating an export on success.
  */
 export interface UpdateExportSuccessInput {
-  status: 'success';
+  /** 'preview' stages the CSV without charging credits or recording the leads as delivered */
+  status: 'success' | 'preview';
   totalFetched: number;
   kept: number;
   diagnostics: LeadQualityDiagnostics | null;
@@ -125,6 +244,19 @@ export interface UpdateExportSuccessInput {
   suppressedCount?: number;
   /** States that were suppressed */
   suppressedStates?: string[];
+  /** Leads dropped as repeats of previous exports */
+  repeatSuppressedCount?: number;
+  /** Leads dropped by customer suppression lists (DNC / existing customers) */
+  customerSuppressedCount?: number;
+  // Compliance rules audit trail
+  /** Compliance rule set version applied */
+  complianceRuleVersion?: string;
+  /** Rules that fired, with action and lead count */
+  complianceRulesFired?: RuleFiring[];
+  /** Delivered leads carrying a compliance flag */
+  complianceFlaggedCount?: number;
+  /** Delivered leads requiring prior consent */
+  consentRequiredCount?: number;
   // Quality Gate fields
   /** Number of leads delivered after quality gate filtering */
   deliveredCount?: number;
@@ -153,6 +285,59 @@ export interface UpdateExportSuccessInput {
   mediumQualityCount?: number;
   /** Count of leads with quality_score < 50 */
   lowQualityCount?: number;
+  // Previews
+  /** Masked sample of the staged leads */
+  previewRows?: PreviewLead[];
+  /** Ledger fingerprints of the staged leads */
+  previewFingerprints?: string[];
+}
+
+/**
+ * Map a quality gate report + score stats onto the export success fields.
+ */
+export function qualityReportToExportFields(
+  report: QualityReport,
+  stats: QualityStats
+): Partial<UpdateExportSuccessInput> {
+  return {
+    deliveredCount: report.deliveredCount,
+    rejectedByQualityCount: report.rejectedByQualityCount,
+    minQualityScoreUsed: report.minQualityScoreUsed,
+    avgQualityScore: report.avgQualityScore,
+    maxQualityScore: stats.maxQualityScore,
+    p90QualityScore: report.p90QualityScore,
+    pctWireless: report.pctWireless,
+    pctWithAddress: report.pctWithAddress,
+    matchScoreDistribution: report.matchScoreDistribution,
+    qualityGateWarning: report.warning,
+    highQualityCount: stats.highQualityCount,
+    mediumQualityCount: stats.mediumQualityCount,
+    lowQualityCount: stats.lowQualityCount,
+  };
+}
+
+/**
+ * Map a compliance rules result onto the export success fields.
+ */
+export function complianceResultToExportFields(
+  result: ComplianceRulesResult
+): Partial<UpdateExportSuccessInput> {
+  return {
+    complianceRuleVersion: result.ruleVersion,
+    complianceRulesFired: result.rulesFired,
+    complianceFlaggedCount: result.flaggedCount,
+    consentRequiredCount: result.consentRequiredCount,
+  };
+}
+
+/**
+ * Map the delivered leads onto the preview fields of a staged export.
+ */
+export function leadPreviewToExportFields(leads: Lead[]): Partial<UpdateExportSuccessInput> {
+  return {
+    previewRows: buildLeadPreview(leads),
+    previewFingerprints: leads.flatMap(getLeadFingerprints),
+  };
 }
 
 /**
@@ -191,9 +376,12 @@ export async function createExport(input: CreateExportInput): Promise<string | n
     const { data, error } = await supabase
       .from('lead_exports')
       .insert({
+        workspace_id: input.workspaceId,
         provider: input.provider,
         lead_request: input.leadRequest,
         zip_codes: input.zipCodes,
+        geo_target: input.geoTarget || null,
+        created_by: input.createdBy || null,
         target: input.target,
         use_case: input.useCase,
         audience_id: input.audienceId || null,
@@ -203,6 +391,15 @@ export async function createExport(input: CreateExportInput): Promise<string | n
         requested_count: input.requestedCount || null,
         quality_tier: input.qualityTier || null,
         intent_pack: input.intentPack || null,
+        dedupe_window_days: input.dedupeWindowDays ?? null,
+        sort_callable_now: input.sortCallableNow ?? false,
+        preview_requested: input.previewRequested ?? false,
+        audience_hash: input.audienceHash || null,
+        audience_reused: !!input.reusedFromExportId,
+        reused_from_export_id: input.reusedFromExportId || null,
+        saved_search_id: input.savedSearchId || null,
+        lead_scope: input.leadScope || null,
+        blend: input.blend ?? false,
       })
       .select('id')
       .single();
@@ -220,27 +417,39 @@ export async function createExport(input: CreateExportInput): Promise<string | n
 }
 
 /**
- * Update an export record on success.
+ * Update an export record on success. Charges credits for the leads kept;
+ * a staged preview keeps its reservation until approved or discarded.
+ * A cancelled export is left as it is: returns false then (or on error), and
+ * the caller must not deliver the leads.
  */
 export async function updateExportSuccess(
+  workspaceId: string,
   exportId: string,
   input: UpdateExportSuccessInput
 ): Promise<boolean> {
   try {
     const supabase = getSupabaseClient();
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('lead_exports')
       .update({
         status: input.status,
         total_fetched: input.totalFetched,
         kept: input.kept,
+        credits_charged: input.status === 'success' ? input.kept : null,
         diagnostics: input.diagnostics,
         field_coverage: input.fieldCoverage,
         bucket: input.bucket,
         path: input.path,
         suppressed_count: input.suppressedCount ?? 0,
         suppressed_states: input.suppressedStates ?? null,
+        repeat_suppressed_count: input.repeatSuppressedCount ?? 0,
+        customer_suppressed_count: input.customerSuppressedCount ?? 0,
+        // Compliance rules audit trail
+        compliance_rule_version: input.complianceRuleVersion ?? null,
+        compliance_rules_fired: input.complianceRulesFired ?? null,
+        compliance_flagged_count: input.complianceFlaggedCount ?? 0,
+        consent_required_count: input.consentRequiredCount ?? 0,
         // Quality Gate fields
         delivered_count: input.deliveredCount ?? null,
         rejected_by_quality_count: input.rejectedByQualityCount ?? null,
@@ -256,15 +465,21 @@ export async function updateExportSuccess(
         high_quality_count: input.highQualityCount ?? null,
         medium_quality_count: input.mediumQualityCount ?? null,
         low_quality_count: input.lowQualityCount ?? null,
+        // Previews
+        preview_rows: input.previewRows ?? null,
+        preview_fingerprints: input.previewFingerprints ?? null,
       })
-      .eq('id', exportId);
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId)
+      .neq('status', 'cancelled')
+      .select('id');
 
     if (error) {
       console.error('Failed to update export record:', error.message);
       return false;
     }
 
-    return true;
+    return (data || []).length > 0;
   } catch (err) {
     console.error('Export DB error (updateSuccess):', err);
     return false;
@@ -272,9 +487,11 @@ export async function updateExportSuccess(
 }
 
 /**
- * Update an export record on error or no results.
+ * Update an export record on error or no results. Refunds the reserved credits.
+ * A cancelled export is left as it is.
  */
 export async function updateExportError(
+  workspaceId: string,
   exportId: string,
   input: UpdateExportErrorInput
 ): Promise<boolean> {
@@ -288,8 +505,11 @@ export async function updateExportError(
         error_code: input.errorCode || null,
         error_message: input.errorMessage || null,
         total_fetched: input.totalFetched || null,
+        credits_charged: 0,
       })
-      .eq('id', exportId);
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId)
+      .neq('status', 'cancelled');
 
     if (error) {
       console.error('Failed to update export error:', error.message);
@@ -303,10 +523,137 @@ export async function updateExportError(
   }
 }
 
+/**
+ * Approve a staged preview: release the CSV and charge credits for the leads kept.
+ * Only applies while the export is still in 'preview', so concurrent approvals
+ * charge once. Returns the export as it was staged (with its preview
+ * fingerprints), or null if it wasn't awaiting approval or on error.
+ */
+export async function approveExportPreview(
+  workspaceId: string,
+  exportId: string,
+  reviewedBy: string | null
+): Promise<LeadExport | null> {
+  try {
+    const staged = await getExport(workspaceId, exportId);
+    if (!staged || staged.status !== 'preview') return null;
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('lead_exports')
+      .update({
+        status: 'success',
+        credits_charged: staged.kept ?? 0,
+        preview_fingerprints: null,
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: reviewedBy,
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId)
+      .eq('status', 'preview')
+      .select('id');
+
+    if (error) {
+      console.error('Failed to approve export preview:', error.message);
+      return null;
+    }
+
+    return data && data.length > 0 ? staged : null;
+  } catch (err) {
+    console.error('Export DB error (approvePreview):', err);
+    return null;
+  }
+}
+
+/**
+ * Discard a staged preview: delete its CSV and refund the reserved credits.
+ * Returns false if it wasn't awaiting approval or on error.
+ */
+export async function discardExportPreview(
+  workspaceId: string,
+  exportId: string,
+  reviewedBy: string | null
+): Promise<boolean> {
+  try {
+    const staged = await getExport(workspaceId, exportId);
+    if (!staged || staged.status !== 'preview') return false;
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('lead_exports')
+      .update({
+        status: 'discarded',
+        credits_charged: 0,
+        preview_fingerprints: null,
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: reviewedBy,
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId)
+      .eq('status', 'preview')
+      .select('id');
+
+    if (error) {
+      console.error('Failed to discard export preview:', error.message);
+      return false;
+    }
+    if (!data || data.length === 0) return false;
+
+    if (staged.bucket && staged.path) {
+      const { error: removeError } = await supabase.storage.from(staged.bucket).remove([staged.path]);
+      if (removeError) {
+        // Unreachable anyway (not 'success'); the cleanup cron retries after the retention window
+        console.error('Failed to delete discarded preview file:', removeError.message);
+      }
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Export DB error (discardPreview):', err);
+    return false;
+  }
+}
+
+/**
+ * Cancel an export that is still building and refund the reserved credits.
+ * Only applies while it is building or building_long, so an export that
+ * finished meanwhile keeps its result. Returns false otherwise or on error.
+ */
+export async function cancelExport(workspaceId: string, exportId: string): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('lead_exports')
+      .update({
+        status: 'cancelled',
+        credits_charged: 0,
+        next_poll_at: null,
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId)
+      .in('status', ['building', 'building_long'])
+      .select('id');
+
+    if (error) {
+      console.error('Failed to cancel export:', error.message);
+      return false;
+    }
+
+    return !!data && data.length > 0;
+  } catch (err) {
+    console.error('Export DB error (cancel):', err);
+    return false;
+  }
+}
+
 /**
  * Update export with audience_id after it becomes available.
  */
 export async function updateExportAudienceId(
+  workspaceId: string,
   exportId: string,
   audienceId: string
 ): Promise<boolean> {
@@ -316,6 +663,7 @@ export async function updateExportAudienceId(
     const { error } = await supabase
       .from('lead_exports')
       .update({ audience_id: audienceId })
+      .eq('workspace_id', workspaceId)
       .eq('id', exportId);
 
     if (error) {
@@ -330,16 +678,104 @@ export async function updateExportAudienceId(
   }
 }
 
+/**
+ * Undo audience reuse when the reused audience couldn't be read, before the
+ * export falls back to creating its own.
+ */
+export async function clearExportAudienceReuse(
+  workspaceId: string,
+  exportId: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('lead_exports')
+      .update({ audience_id: null, audience_reused: false, reused_from_export_id: null })
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId);
+
+    if (error) {
+      console.error('Failed to clear audience reuse:', error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Export DB error (clearAudienceReuse):', err);
+    return false;
+  }
+}
+
+/**
+ * Record the AudienceLab job that is creating the export's audience.
+ */
+export async function updateExportProviderJobId(
+  workspaceId: string,
+  exportId: string,
+  jobId: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('lead_exports')
+      .update({ provider_job_id: jobId })
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId);
+
+    if (error) {
+      console.error('Failed to update provider_job_id:', error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Export DB error (updateProviderJobId):', err);
+    return false;
+  }
+}
+
+/**
+ * Record the provider that actually served the export (after routing fallback).
+ */
+export async function updateExportProvider(
+  workspaceId: string,
+  exportId: string,
+  provider: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('lead_exports')
+      .update({ provider })
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId);
+
+    if (error) {
+      console.error('Failed to update provider:', error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Export DB error (updateProvider):', err);
+    return false;
+  }
+}
+
 /**
  * Find export by audience_id (for status polling updates).
  */
-export async function findExportByAudienceId(audienceId: string): Promise<LeadExport | null> {
+export async function findExportByAudienceId(workspaceId: string, audienceId: string): Promise<LeadExport | null> {
   try {
     const supabase = getSupabaseClient();
 
     const { data, error } = await supabase
       .from('lead_exports')
       .select('*')
+      .eq('workspace_id', workspaceId)
       .eq('audience_id', audienceId)
       .order('created_at', { ascending: false })
       .limit(1)
@@ -360,18 +796,59 @@ export async function findExportByAudienceId(audienceId: string): Promise<LeadEx
 }
 
 /**
- * List recent exports (most recent first).
+ * Find export by provider_job_id (for status polling before the job has an audience).
  */
-export async function listExports(limit: number = 25): Promise<LeadExport[]> {
+export async function findExportByProviderJobId(workspaceId: string, jobId: string): Promise<LeadExport | null> {
   try {
     const supabase = getSupabaseClient();
 
     const { data, error } = await supabase
       .from('lead_exports')
       .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('provider_job_id', jobId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error) {
+      if (error.code !== 'PGRST116') { // Not found is OK
+        console.error('Failed to find export by provider_job_id:', error.message);
+      }
+      return null;
+    }
+
+    return data as LeadExport;
+  } catch (err) {
+    console.error('Export DB error (findByProviderJobId):', err);
+    return null;
+  }
+}
+
+/**
+ * List a workspace's recent exports (most recent first), optionally only those created by one user.
+ */
+export async function listExports(
+  workspaceId: string,
+  limit: number = 25,
+  createdBy?: string
+): Promise<LeadExport[]> {
+  try {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from('lead_exports')
+      .select('*')
+      .eq('workspace_id', workspaceId)
       .order('created_at', { ascending: false })
       .limit(limit);
 
+    if (createdBy) {
+      query = query.eq('created_by', createdBy);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('Failed to list exports:', error.message);
       return [];
@@ -387,13 +864,14 @@ export async function listExports(limit: number = 25): Promise<LeadExport[]> {
 /**
  * Get a single export by ID.
  */
-export async function getExport(id: string): Promise<LeadExport | null> {
+export async function getExport(workspaceId: string, id: string): Promise<LeadExport | null> {
   try {
     const supabase = getSupabaseClient();
 
     const { data, error } = await supabase
       .from('lead_exports')
       .select('*')
+      .eq('workspace_id', workspaceId)
       .eq('id', id)
       .single();
 
@@ -412,13 +890,14 @@ export async function getExport(id: string): Promise<LeadExport | null> {
 /**
  * Update last_signed_url_at timestamp.
  */
-export async function updateLastSignedUrlAt(exportId: string): Promise<boolean> {
+export async function updateLastSignedUrlAt(workspaceId: string, exportId: string): Promise<boolean> {
   try {
     const supabase = getSupabaseClient();
 
     const { error } = await supabase
       .from('lead_exports')
       .update({ last_signed_url_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
       .eq('id', exportId);
 
     if (error) {
@@ -438,12 +917,14 @@ export async function updateLastSignedUrlAt(exportId: string): Promise<boolean>
  * Returns null if export not found or has no path.
  */
 export async function createSignedUrlForExport(
+  workspaceId: string,
   exportId: string,
   expiresInSeconds: number = 86400
 ): Promise<{ signedUrl: string; expiresInSeconds: number } | null> {
   try {
-    const exp = await getExport(exportId);
-    if (!exp || !exp.bucket || !exp.path) {
+    const exp = await getExport(workspaceId, exportId);
+    // Staged previews are only downloadable once approved (discarded ones never)
+    if (!exp || !exp.bucket || !exp.path || exp.status !== 'success') {
       return null;
     }
 
@@ -458,7 +939,7 @@ export async function createSignedUrlForExport(
     }
 
     // Update last_signed_url_at
-    await updateLastSignedUrlAt(exportId);
+    await updateLastSignedUrlAt(workspaceId, exportId);
 
     return {
       signedUrl: data.signedUrl,
@@ -474,7 +955,7 @@ export async function createSignedUrlForExport(
  * Increment poll_attempts and update last_polled_at.
  * Returns the new poll_attempts count, or null on error.
  */
-export async function incrementPollAttempts(exportId: string): Promise<number | null> {
+export async function incrementPollAttempts(workspaceId: string, exportId: string): Promise<number | null> {
   try {
     const supabase = getSupabaseClient();
     
@@ -482,6 +963,7 @@ export async function incrementPollAttempts(exportId: string): Promise<number |
     const { data: current, error: fetchError } = await supabase
       .from('lead_exports')
       .select('poll_attempts')
+      .eq('workspace_id', workspaceId)
       .eq('id', exportId)
       .single();
     
@@ -498,6 +980,7 @@ export async function incrementPollAttempts(exportId: string): Promise<number |
         poll_attempts: newAttempts,
         last_polled_at: new Date().toISOString(),
       })
+      .eq('workspace_id', workspaceId)
       .eq('id', exportId);
     
     if (updateError) {
@@ -515,13 +998,14 @@ export async function incrementPollAttempts(exportId: string): Promise<number |
 /**
  * Get current poll attempts for an export.
  */
-export async function getPollAttempts(exportId: string): Promise<number> {
+export async function getPollAttempts(workspaceId: string, exportId: string): Promise<number> {
   try {
     const supabase = getSupabaseClient();
     
     const { data, error } = await supabase
       .from('lead_exports')
       .select('poll_attempts')
+      .eq('workspace_id', workspaceId)
       .eq('id', exportId)
       .single();
     
@@ -539,6 +1023,7 @@ export async function getPollAttempts(exportId: string): Promise<number> {
  * Update suppression stats on an export.
  */
 export async function updateExportSuppression(
+  workspaceId: string,
   exportId: string,
   suppressedCount: number,
   suppressedStates: string[]
@@ -552,6 +1037,7 @@ export async function updateExportSuppression(
         suppressed_count: suppressedCount,
         suppressed_states: suppressedStates,
       })
+      .eq('workspace_id', workspaceId)
       .eq('id', exportId);
     
     if (error) {
@@ -571,6 +1057,7 @@ export async function updateExportSuppression(
  * Called when interactive polling exceeds max attempts but provider is still building.
  */
 export async function updateExportBuildingLong(
+  workspaceId: string,
   exportId: string,
   nextPollMinutes: number = 5
 ): Promise<boolean> {
@@ -584,7 +1071,9 @@ export async function updateExportBuildingLong(
         status: 'building_long',
         next_poll_at: nextPollAt,
       })
-      .eq('id', exportId);
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId)
+      .neq('status', 'cancelled');
     
     if (error) {
       console.error('Failed to update export to building_long:', error.message);
@@ -599,61 +1088,68 @@ export async function updateExportBuildingLong(
 }
 
 /**
- * Find exports that need background processing.
- * Returns exports with status 'building' or 'building_long' where next_poll_at is null or past.
+ * Update next_poll_at for scheduling the next background check.
  */
-export async function findPendingBackgroundExports(limit: number = 10): Promise<LeadExport[]> {
+export async function updateNextPollAt(
+  workspaceId: string,
+  exportId: string,
+  nextPollMinutes: number = 5
+): Promise<boolean> {
   try {
     const supabase = getSupabaseClient();
-    const now = new Date().toISOString();
+    const nextPollAt = new Date(Date.now() + nextPollMinutes * 60 * 1000).toISOString();
     
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('lead_exports')
-      .select('*')
-      .in('status', ['building', 'building_long'])
-      .or(`next_poll_at.is.null,next_poll_at.lte.${now}`)
-      .order('created_at', { ascending: true })
-      .limit(limit);
+      .update({
+        next_poll_at: nextPollAt,
+        last_polled_at: new Date().toISOString(),
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', exportId);
     
     if (error) {
-      console.error('Failed to find pending background exports:', error.message);
-      return [];
+      console.error('Failed to update next_poll_at:', error.message);
+      return false;
     }
     
-    return (data || []) as LeadExport[];
+    return true;
   } catch (err) {
-    console.error('Export DB error (findPendingBackgroundExports):', err);
-    return [];
+    console.error('Export DB error (updateNextPollAt):', err);
+    return false;
   }
 }
 
 /**
- * Update next_poll_at for scheduling the next background check.
+ * Record the pipeline stage of an export that is still building.
  */
-export async function updateNextPollAt(
+export async function updateExportProgress(
+  workspaceId: string,
   exportId: string,
-  nextPollMinutes: number = 5
+  stage: ExportProgressStage,
+  counts: ExportProgressCounts = {}
 ): Promise<boolean> {
   try {
     const supabase = getSupabaseClient();
-    const nextPollAt = new Date(Date.now() + nextPollMinutes * 60 * 1000).toISOString();
     
     const { error } = await supabase
       .from('lead_exports')
       .update({
-        next_poll_at: nextPollAt,
-        last_polled_at: new Date().toISOString(),
+        progress_stage: stage,
+        progress_counts: counts,
+        progress_updated_at: new Date().toISOString(),
       })
+      .eq('workspace_id', workspaceId)
       .eq('id', exportId);
     
     if (error) {
-      console.error('Failed to update next_poll_at:', error.message);
+      console.error('Failed to update export progress:', error.message);
       return false;
     }
     
     return true;
   } catch (err) {
-    console.error('Export DB error (updateNextPollAt):', err);
+    console.error('Export DB error (updateExportProgress):', err);
     return false;
   }
 }
@@ -661,6 +1157,6 @@ export async function updateNextPollAt(
 /**
  * Get full export details including all fields needed for background processing.
  */
-export async function getExportForProcessing(id: string): Promise<LeadExport | null> {
-  return getExport(id);
+export async function getExportForProcessing(workspaceId: string, id: string): Promise<LeadExport | null> {
+  return getExport(workspaceId, id);
 }
@@ -0,0 +1,172 @@
+/**
+ * Geo targeting: radius, city/state and county targets expanded into ZIPs.
+ *
+ * Reps think in "25 miles around Tampa" or "Hillsborough County" rather than
+ * ZIP lists. A GeoTarget is parsed from the request body and expanded here,
+ * server-side and offline, using the bundled ZIP centroid dataset
+ * (./zip-data.ts). The expanded list is what providers receive and what is
+ * recorded on the export.
+ */
+
+import type { GeoTarget } from './types.js';
+import { getAllZips, lookupZip } from './zip-data.js';
+
+/** Largest radius accepted (miles). */
+export const MAX_RADIUS_MILES = 100;
+
+/** Most ZIPs a geo target may expand to. */
+export const MAX_GEO_ZIPS = 500;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Result of parsing or expanding a geo target.
+ */
+export type GeoTargetResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: { code: string; message: string; details?: Record<string, unknown> } };
+
+function invalid(message: string, details?: Record<string, unknown>): GeoTargetResult<never> {
+  return { ok: false, error: { code: 'invalid_geo_target', message, details } };
+}
+
+/**
+ * Great-circle distance between two points (miles).
+ */
+export function distanceMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Parse a geo target from the request body.
+ *
+ * Accepted shapes (`type` is optional and inferred from the keys):
+ * - `{ center: "33602", radiusMiles: 25 }` or
+ *   `{ center: { latitude: 27.95, longitude: -82.46 }, radiusMiles: 25 }`
+ * - `{ city: "Tampa", state: "FL" }`
+ * - `{ countyFips: "12057" }`
+ */
+export function parseGeoTarget(raw: unknown): GeoTargetResult<GeoTarget> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return invalid('geo must be an object.');
+  }
+  const body = raw as Record<string, unknown>;
+
+  const type = typeof body.type === 'string'
+    ? body.type
+    : 'center' in body ? 'radius' : 'countyFips' in body ? 'county' : 'city' in body ? 'city' : '';
+
+  if (type === 'radius') {
+    const radiusMiles = typeof body.radiusMiles === 'number' ? body.radiusMiles : NaN;
+    if (!(radiusMiles > 0 && radiusMiles <= MAX_RADIUS_MILES)) {
+      return invalid(`geo.radiusMiles must be greater than 0 and at most ${MAX_RADIUS_MILES}.`, {
+        received: body.radiusMiles,
+      });
+    }
+
+    const center = body.center;
+    if (typeof center === 'string') {
+      const zip = center.trim();
+      if (!/^[0-9]{5}$/.test(zip)) {
+        return invalid('geo.center must be a 5-digit ZIP or { latitude, longitude }.', { received: center });
+      }
+      return { ok: true, value: { type: 'radius', center: zip, radiusMiles } };
+    }
+    if (typeof center === 'object' && center !== null) {
+      const { latitude, longitude } = center as Record<string, unknown>;
+      if (
+        typeof latitude === 'number' && Math.abs(latitude) <= 90 &&
+        typeof longitude === 'number' && Math.abs(longitude) <= 180
+      ) {
+        return { ok: true, value: { type: 'radius', center: { latitude, longitude }, radiusMiles } };
+      }
+    }
+    return invalid('geo.center must be a 5-digit ZIP or { latitude, longitude }.');
+  }
+
+  if (type === 'city') {
+    const city = typeof body.city === 'string' ? body.city.trim() : '';
+    const state = typeof body.state === 'string' ? body.state.trim().toUpperCase() : '';
+    if (!city || !/^[A-Z]{2}$/.test(state)) {
+      return invalid('geo.city and a 2-letter geo.state are required.');
+    }
+    return { ok: true, value: { type: 'city', city, state } };
+  }
+
+  if (type === 'county') {
+    const countyFips = typeof body.countyFips === 'string' ? body.countyFips.trim() : '';
+    if (!/^[0-9]{5}$/.test(countyFips)) {
+      return invalid('geo.countyFips must be a 5-digit county FIPS code.', { received: body.countyFips });
+    }
+    return { ok: true, value: { type: 'county', countyFips } };
+  }
+
+  return invalid('geo must contain center + radiusMiles, city + state, or countyFips.');
+}
+
+/**
+ * Expand a geo target into a sorted ZIP list.
+ * Fails with `geo_no_zips` when nothing matches and `geo_too_many_zips` when
+ * the target covers more than MAX_GEO_ZIPS ZIPs.
+ */
+export function expandGeoTarget(target: GeoTarget): GeoTargetResult<string[]> {
+  let zips: string[];
+
+  if (target.type === 'radius') {
+    let latitude: number;
+    let longitude: number;
+    if (typeof target.center === 'string') {
+      const center = lookupZip(target.center);
+      if (!center) {
+        return {
+          ok: false,
+          error: {
+            code: 'unknown_zip_codes',
+            message: 'geo.center ZIP does not exist.',
+            details: { unknownZips: [target.center], count: 1 },
+          },
+        };
+      }
+      ({ latitude, longitude } = center);
+    } else {
+      ({ latitude, longitude } = target.center);
+    }
+    zips = getAllZips()
+      .filter((z) => distanceMiles(latitude, longitude, z.latitude, z.longitude) <= target.radiusMiles)
+      .map((z) => z.zip);
+  } else if (target.type === 'city') {
+    const city = target.city.toLowerCase();
+    zips = getAllZips()
+      .filter((z) => z.state === target.state && z.city.toLowerCase() === city)
+      .map((z) => z.zip);
+  } else {
+    zips = getAllZips()
+      .filter((z) => z.countyFips === target.countyFips)
+      .map((z) => z.zip);
+  }
+
+  if (zips.length === 0) {
+    return {
+      ok: false,
+      error: { code: 'geo_no_zips', message: 'No ZIP codes match the geo target.', details: { geo: target } },
+    };
+  }
+  if (zips.length > MAX_GEO_ZIPS) {
+    return {
+      ok: false,
+      error: {
+        code: 'geo_too_many_zips',
+        message: `Geo target covers ${zips.length} ZIP codes; narrow it to at most ${MAX_GEO_ZIPS}.`,
+        details: { count: zips.length, max: MAX_GEO_ZIPS },
+      },
+    };
+  }
+
+  return { ok: true, value: zips };
+}
@@ -0,0 +1,271 @@
+/**
+ * Shared HTTP client for upstream provider APIs: jittered retries plus a
+ * circuit breaker.
+ *
+ * Retries:
+ * - 429 is retried for any method (the request was rejected, not processed),
+ *   waiting for `Retry-After` when the upstream sends one. A `Retry-After`
+ *   longer than maxDelayMs isn't waited for (or retried early): the 429 is
+ *   returned to the caller.
+ * - 5xx gateway/availability errors and network failures are retried only for
+ *   idempotent calls (GET, or when the caller marks the request idempotent),
+ *   with full-jitter exponential backoff.
+ *
+ * Circuit breaker:
+ * - After N consecutive failed calls (5xx or network, after retries) the
+ *   breaker opens and calls fail fast with CircuitOpenError instead of
+ *   hitting the upstream.
+ * - After the cooldown one trial call is let through (half-open); success
+ *   closes the breaker, failure opens it again.
+ * - State lives in memory, so each serverless instance has its own breaker.
+ *   getCircuitBreakerStatuses() exposes it for /api/health/deps.
+ */
+
+/** Statuses retried for idempotent calls (429 is handled separately) */
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+/** Methods that are safe to repeat */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export interface RetryOptions {
+  /** Extra attempts after the first (default 2) */
+  maxRetries: number;
+  /** Backoff base; attempt n waits up to baseDelayMs * 2^n (default 250ms) */
+  baseDelayMs: number;
+  /** Cap for a single backoff or Retry-After wait (default 5s) */
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the breaker (default 5) */
+  failureThreshold: number;
+  /** How long the breaker stays open before a trial call (default 30s) */
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Breaker snapshot (safe to expose in health checks).
+ */
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  /** When the breaker last opened (ISO), null if closed */
+  openedAt: string | null;
+  /** When the next trial call is allowed (ISO), null unless open */
+  retryAt: string | null;
+}
+
+/**
+ * Thrown instead of calling an upstream whose breaker is open.
+ */
+export class CircuitOpenError extends Error {
+  public readonly code = 'CIRCUIT_OPEN' as const;
+  public readonly breaker: string;
+  /** Seconds until the breaker lets a trial call through */
+  public readonly retryAfterSeconds: number;
+
+  constructor(breaker: string, retryAfterSeconds: number) {
+    super(`${breaker} circuit open - failing fast (retry in ${retryAfterSeconds}s)`);
+    this.name = 'CircuitOpenError';
+    this.breaker = breaker;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker.
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly options: () => CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+
+  constructor(name: string, options: () => CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * Throw CircuitOpenError unless a call may go through now.
+   * Moves an open breaker past its cooldown to half-open (one trial call).
+   */
+  assertCanRequest(now: number = Date.now()): void {
+    if (this.state === 'closed') return;
+
+    const retryAt = (this.openedAt ?? now) + this.options().cooldownMs;
+    if (this.state === 'open' && now >= retryAt) {
+      this.state = 'half_open';
+      return;
+    }
+    // Open, or half-open with the trial call still in flight
+    const waitMs = Math.max(0, retryAt - now);
+    throw new CircuitOpenError(this.name, Math.max(1, Math.ceil(waitMs / 1000)));
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options().failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const { cooldownMs, failureThreshold } = this.options();
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.state === 'open' && this.openedAt !== null
+        ? new Date(this.openedAt + cooldownMs).toISOString()
+        : null,
+    };
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+}
+
+/** Breakers by upstream name */
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Status of every breaker created in this instance.
+ */
+export function getCircuitBreakerStatuses(): CircuitBreakerStatus[] {
+  return Array.from(breakers.values()).map((b) => b.getStatus());
+}
+
+/**
+ * Close every breaker (tests).
+ */
+export function resetCircuitBreakers(): void {
+  breakers.forEach((b) => b.reset());
+}
+
+/**
+ * Delay before retry `attempt` (0-based): full jitter over exponential backoff.
+ */
+export function backoffDelayMs(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ * Returns null when absent or unparseable.
+ */
+export function parseRetryAfterMs(header: string | null | undefined, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+export interface HttpClientConfig {
+  /** Breaker name, e.g. "audiencelab" */
+  name: string;
+  retry: () => RetryOptions;
+  breaker: () => CircuitBreakerOptions;
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface HttpRequestOptions {
+  /** Retry 5xx and network errors even though the method isn't GET (default: by method) */
+  idempotent?: boolean;
+}
+
+export interface HttpClient {
+  /**
+   * fetch() with retries and the circuit breaker. Returns the final response
+   * (which may still be an error status); throws CircuitOpenError when the
+   * breaker is open, or the last network error.
+   */
+  request(url: string, init: RequestInit, options?: HttpRequestOptions): Promise<Response>;
+  readonly breaker: CircuitBreaker;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create an HTTP client for one upstream. Clients with the same name share
+ * a breaker.
+ */
+export function createHttpClient(config: HttpClientConfig): HttpClient {
+  let breaker = breakers.get(config.name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(config.name, config.breaker);
+    breakers.set(config.name, breaker);
+  }
+  const sleep = config.sleep ?? defaultSleep;
+  const circuit = breaker;
+
+  async function request(url: string, init: RequestInit, options: HttpRequestOptions = {}): Promise<Response> {
+    circuit.assertCanRequest();
+
+    const method = (init.method || 'GET').toUpperCase();
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const retry = config.retry();
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < retry.maxRetries;
+      let response: Response;
+
+      try {
+        response = await fetch(url, init);
+      } catch (err) {
+        if (idempotent && canRetry) {
+          await sleep(backoffDelayMs(attempt, retry));
+          continue;
+        }
+        circuit.recordFailure();
+        throw err;
+      }
+
+      if (response.status === 429 && canRetry) {
+        const retryAfterMs = parseRetryAfterMs(response.headers?.get?.('retry-after'));
+        if (retryAfterMs === null || retryAfterMs <= retry.maxDelayMs) {
+          await sleep(retryAfterMs ?? backoffDelayMs(attempt, retry));
+          continue;
+        }
+      }
+
+      if (RETRYABLE_STATUSES.has(response.status) && idempotent && canRetry) {
+        await sleep(backoffDelayMs(attempt, retry));
+        continue;
+      }
+
+      if (response.status >= 500) {
+        circuit.recordFailure();
+      } else {
+        // The upstream answered (including 4xx/429) - it's up
+        circuit.recordSuccess();
+      }
+      return response;
+    }
+  }
+
+  return { request, breaker: circuit };
+}
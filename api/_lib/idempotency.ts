@@ -0,0 +1,390 @@
+/**
+ * Idempotency keys for POST /api/leads/generate, stored in Supabase.
+ *
+ * A client sends `Idempotency-Key: <unique string>` with a generation. The
+ * first request claims the key (per workspace and caller) together with a
+ * hash of its body. Retries with the same key and body get the stored 200/202
+ * response back (header `Idempotent-Replayed: true`), or a 202 naming the
+ * in-progress export while the first request is still running - so double
+ * clicks and network retries never build a second audience or export. The
+ * same key with a different body is a 409 conflict. Keys expire after 24 hours.
+ *
+ * Error responses are not stored: the claim is released so a retry runs again.
+ * Like rate-limit.ts this fails open - if the store is unavailable the request
+ * runs without idempotency.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSessionUser } from './auth.js';
+import { jsonError } from './json.js';
+
+/** Request header carrying the key. */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/** How long a key (and its stored response) is kept. */
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+/** Longest accepted key. */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * A claim still unfinished after this long belongs to a request that died
+ * (longer than any function run) and may be taken over by a retry.
+ */
+export const ABANDONED_CLAIM_SECONDS = 5 * 60;
+
+/**
+ * Stored key record.
+ */
+interface IdempotencyRecord {
+  request_hash: string;
+  export_id: string | null;
+  status_code: number | null;
+  response: unknown;
+  created_at: string;
+}
+
+/**
+ * Identifies a claimed key while its request runs.
+ */
+export interface IdempotencyClaim {
+  workspaceId: string;
+  actorId: string;
+  key: string;
+}
+
+/**
+ * Outcome of claiming a key.
+ * - claimed: first use - run the request
+ * - replay: a finished request with the same body - return its response
+ * - in_progress: the same request is still running
+ * - mismatch: the key was used with a different body
+ */
+export type IdempotencyOutcome =
+  | { state: 'claimed'; claim: IdempotencyClaim }
+  | { state: 'replay'; statusCode: number; response: unknown }
+  | { state: 'in_progress'; exportId: string | null }
+  | { state: 'mismatch' };
+
+/**
+ * Get Supabase client, or null if not configured (idempotency is skipped).
+ */
+function getSupabaseClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Parse the Idempotency-Key header: null when absent, or an error message
+ * when it isn't 1-255 visible ASCII characters.
+ */
+export function parseIdempotencyKey(
+  header: string | string[] | undefined
+): { ok: true; key: string | null } | { ok: false; error: string } {
+  if (header === undefined) return { ok: true, key: null };
+  const key = (Array.isArray(header) ? header[0] : header).trim();
+  if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    return {
+      ok: false,
+      error: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} visible ASCII characters.`,
+    };
+  }
+  return { ok: true, key };
+}
+
+/**
+ * JSON with object keys sorted, so equal bodies hash equally.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash a request body (key order and whitespace don't matter).
+ */
+export function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+/**
+ * Classify an existing record for a retry with `requestHash`.
+ */
+export function classifyIdempotencyRecord(
+  record: IdempotencyRecord,
+  requestHash: string
+): Exclude<IdempotencyOutcome, { state: 'claimed' }> {
+  if (record.request_hash !== requestHash) return { state: 'mismatch' };
+  if (record.status_code !== null) {
+    return { state: 'replay', statusCode: record.status_code, response: record.response };
+  }
+  return { state: 'in_progress', exportId: record.export_id };
+}
+
+/**
+ * Claim a key for a request, or report how an earlier use of it resolves.
+ * Expired keys and abandoned claims are taken over.
+ * Returns null if the store is unavailable.
+ */
+export async function claimIdempotencyKey(
+  workspaceId: string,
+  actorId: string,
+  key: string,
+  requestHash: string,
+  now: Date = new Date()
+): Promise<IdempotencyOutcome | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return null;
+
+  const claim: IdempotencyClaim = { workspaceId, actorId, key };
+
+  try {
+    // Expired keys (and claims abandoned mid-request) no longer count
+    const abandonedBefore = new Date(now.getTime() - ABANDONED_CLAIM_SECONDS * 1000).toISOString();
+    const { error: purgeError } = await supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('actor_id', actorId)
+      .eq('key', key)
+      .or(`expires_at.lt.${now.toISOString()},and(status_code.is.null,created_at.lt.${abandonedBefore})`);
+
+    if (purgeError) {
+      console.error('[idempotency] Failed to purge stale key:', purgeError.message);
+      return null;
+    }
+
+    const { error: insertError } = await supabase.from('idempotency_keys').insert({
+      workspace_id: workspaceId,
+      actor_id: actorId,
+      key,
+      request_hash: requestHash,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_SECONDS * 1000).toISOString(),
+    });
+
+    if (!insertError) return { state: 'claimed', claim };
+
+    if (insertError.code !== '23505') {
+      console.error('[idempotency] Failed to claim key:', insertError.message);
+      return null;
+    }
+
+    // Already used: compare with the earlier request
+    const { data, error } = await supabase
+      .from('idempotency_keys')
+      .select('request_hash, export_id, status_code, response, created_at')
+      .eq('workspace_id', workspaceId)
+      .eq('actor_id', actorId)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('[idempotency] Failed to load key:', error?.message ?? 'not found');
+      return null;
+    }
+
+    return classifyIdempotencyRecord(data as IdempotencyRecord, requestHash);
+  } catch (err) {
+    console.error('[idempotency] Error:', err);
+    return null;
+  }
+}
+
+/**
+ * Link a claimed key to the export its request created, so retries can
+ * point at it while the request is still running.
+ */
+export async function attachIdempotencyExport(claim: IdempotencyClaim, exportId: string): Promise<boolean> {
+  return updateClaim(claim, { export_id: exportId });
+}
+
+/**
+ * Store the response of a claimed key for replay.
+ */
+export async function completeIdempotencyKey(
+  claim: IdempotencyClaim,
+  statusCode: number,
+  response: unknown
+): Promise<boolean> {
+  return updateClaim(claim, { status_code: statusCode, response });
+}
+
+/**
+ * Release a claimed key (the request failed), so a retry runs again.
+ */
+export async function releaseIdempotencyKey(claim: IdempotencyClaim): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return false;
+
+  try {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('workspace_id', claim.workspaceId)
+      .eq('actor_id', claim.actorId)
+      .eq('key', claim.key)
+      .is('status_code', null);
+
+    if (error) {
+      console.error('[idempotency] Failed to release key:', error.message);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[idempotency] Error (release):', err);
+    return false;
+  }
+}
+
+async function updateClaim(claim: IdempotencyClaim, fields: Record<string, unknown>): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return false;
+
+  try {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .update(fields)
+      .eq('workspace_id', claim.workspaceId)
+      .eq('actor_id', claim.actorId)
+      .eq('key', claim.key);
+
+    if (error) {
+      console.error('[idempotency] Failed to update key:', error.message);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[idempotency] Error (update):', err);
+    return false;
+  }
+}
+
+/**
+ * Delete expired keys (called by the cleanup cron). Returns the count deleted.
+ */
+export async function purgeExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return 0;
+
+  try {
+    const { count, error } = await supabase
+      .from('idempotency_keys')
+      .delete({ count: 'exact' })
+      .lt('expires_at', now.toISOString());
+
+    if (error) {
+      console.error('[idempotency] Failed to purge expired keys:', error.message);
+      return 0;
+    }
+    return count ?? 0;
+  } catch (err) {
+    console.error('[idempotency] Error (purge):', err);
+    return 0;
+  }
+}
+
+/**
+ * A request running under a claimed key (or without one).
+ */
+export interface IdempotentRequest {
+  /** Null when no key was sent or the store is unavailable */
+  claim: IdempotencyClaim | null;
+  /** Store or release the key once the handler finished; always await it */
+  finish(): Promise<void>;
+}
+
+/**
+ * Idempotency guard for API routes.
+ *
+ * Returns null when the response was already sent (replay, in progress,
+ * conflict or invalid key). Otherwise the route runs and its first 200/202
+ * JSON response is stored for replay; any other status releases the key.
+ */
+export async function beginIdempotentRequest(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<IdempotentRequest | null> {
+  const passthrough: IdempotentRequest = { claim: null, finish: async () => {} };
+
+  const parsed = parseIdempotencyKey(req.headers?.[IDEMPOTENCY_KEY_HEADER]);
+  if (!parsed.ok) {
+    jsonError(res, 400, 'invalid_idempotency_key', parsed.error);
+    return null;
+  }
+
+  const user = getSessionUser(req);
+  if (!parsed.key || !user) return passthrough;
+
+  const requestHash = hashRequestBody(req.body);
+  const outcome = await claimIdempotencyKey(user.workspaceId, user.apiKeyId ?? user.userId, parsed.key, requestHash);
+
+  if (!outcome) return passthrough;
+
+  if (outcome.state === 'mismatch') {
+    jsonError(
+      res,
+      409,
+      'idempotency_key_conflict',
+      'This Idempotency-Key was already used with a different request body.'
+    );
+    return null;
+  }
+
+  if (outcome.state === 'replay') {
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(outcome.statusCode).json(outcome.response);
+    return null;
+  }
+
+  if (outcome.state === 'in_progress') {
+    res.setHeader('Retry-After', '2');
+    res.status(202).json({
+      ok: false,
+      error: {
+        code: 'request_in_progress',
+        message: 'A request with this Idempotency-Key is still being processed. Retry shortly.',
+        details: { exportId: outcome.exportId, retryAfterSeconds: 2 },
+      },
+    });
+    return null;
+  }
+
+  // Capture the route's response (the first one only)
+  const { claim } = outcome;
+  let settled: Promise<boolean> | null = null;
+  const send = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (!settled) {
+      const status = res.statusCode;
+      settled = status === 200 || status === 202
+        ? completeIdempotencyKey(claim, status, body)
+        : releaseIdempotencyKey(claim);
+    }
+    return send(body);
+  };
+
+  return {
+    claim,
+    finish: async () => {
+      // A handler that threw without responding leaves nothing to replay
+      await (settled ?? releaseIdempotencyKey(claim));
+    },
+  };
+}
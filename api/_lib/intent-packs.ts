@@ -191,16 +191,24 @@ export const DEFAULT_PACK: IntentPack = INTENT_PACKS.home_services;
  * Resolve the best intent pack for a given lead request.
  *
  * Matching logic (in order):
- * 1. Check each pack's matchPatterns against the lowercase request
- * 2. First match wins (packs ordered by specificity)
- * 3. Falls back to generic home_services pack
+ * 1. Check each custom (workspace) pack's matchPatterns, in the order given
+ * 2. Check each built-in pack's matchPatterns against the lowercase request
+ * 3. First match wins (packs ordered by specificity)
+ * 4. Falls back to generic home_services pack
  *
  * @param leadRequest - User's lead request string
+ * @param customPacks - Workspace intent packs, checked before the built-in packs
  * @returns The best matching IntentPack
  */
-export function resolveIntentPack(leadRequest: string): IntentPack {
+export function resolveIntentPack(leadRequest: string, customPacks: IntentPack[] = []): IntentPack {
   const normalized = leadRequest.toLowerCase().trim();
 
+  for (const pack of customPacks) {
+    if (pack.matchPatterns.some((pattern) => normalized.includes(pattern.toLowerCase()))) {
+      return pack;
+    }
+  }
+
   // Check packs in order of specificity (most specific first)
   const packOrder = ['remodeling', 'roofing', 'hvac', 'plumbing', 'electrical', 'home_services'];
 
@@ -0,0 +1,235 @@
+/**
+ * Monthly lead-credit allowances (one credit = one delivered lead).
+ *
+ * A workspace can cap the leads it pulls per calendar month (UTC), and each
+ * user can have their own cap within it. Before a generation calls a provider,
+ * generate.ts creates the export and reserves the requested count on it
+ * (`credits_reserved`) with reserve_export_credits(), which checks both
+ * remaining balances under a workspace row lock so concurrent requests can't
+ * overspend. When the export finishes,
+ * exports-db.ts sets `credits_charged`: the leads kept on success, 0 on
+ * no_results / error or when cancelled (a refund). Usage is the sum of charged
+ * credits, or the reservation while an export is still building or awaiting
+ * preview approval. A trigger appends each change to lead_credit_ledger, which
+ * lead_credit_usage() sums, so cleaning up old exports doesn't restore credits.
+ *
+ * Unrelated to rate-limit.ts, which limits request counts. Without Supabase
+ * there is nothing to configure limits in, so balances are unlimited.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Workspace } from './workspaces.js';
+
+/**
+ * One allowance (workspace or user) for the current period.
+ */
+export interface CreditAllowance {
+  /** Monthly credits; null = unlimited */
+  limit: number | null;
+  used: number;
+  /** null when unlimited */
+  remaining: number | null;
+}
+
+/**
+ * Balances that apply to a user's next generation.
+ */
+export interface CreditBalance {
+  periodStart: string;
+  resetsAt: string;
+  workspace: CreditAllowance;
+  user: CreditAllowance;
+}
+
+/**
+ * Why a request can't be covered: the allowance that runs out first.
+ */
+export interface CreditShortfall {
+  scope: 'workspace' | 'user';
+  limit: number;
+  remaining: number;
+  requested: number;
+}
+
+/**
+ * Get Supabase client, or null if not configured.
+ */
+function getSupabaseClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Current credit period: the calendar month (UTC) containing `now`.
+ */
+export function getCreditPeriod(now: Date = new Date()): { start: Date; resetsAt: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Build an allowance from a limit and usage.
+ */
+export function toCreditAllowance(limit: number | null, used: number): CreditAllowance {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+  };
+}
+
+/**
+ * Validate a monthly credit limit from a request (non-negative integer, or null = unlimited).
+ */
+export function isCreditLimit(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+}
+
+/**
+ * The allowance that can't cover `requested` credits, or null if both can.
+ * The workspace allowance is reported first when both fall short.
+ */
+export function findCreditShortfall(balance: CreditBalance, requested: number): CreditShortfall | null {
+  for (const scope of ['workspace', 'user'] as const) {
+    const { limit, remaining } = balance[scope];
+    if (limit !== null && remaining !== null && remaining < requested) {
+      return { scope, limit, remaining, requested };
+    }
+  }
+  return null;
+}
+
+/**
+ * Credits used this period by a workspace, or by one user in it.
+ */
+async function getCreditUsage(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  since: Date,
+  userId?: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('lead_credit_usage', {
+    p_workspace_id: workspaceId,
+    p_since: since.toISOString(),
+    p_user_id: userId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Credit usage lookup failed: ${error.message}`);
+  }
+
+  return Number(data ?? 0);
+}
+
+/**
+ * Current balances for a user in a workspace.
+ * Returns null if they can't be determined (callers should refuse to generate).
+ */
+export async function getCreditBalance(
+  workspace: Workspace,
+  userId: string,
+  now: Date = new Date()
+): Promise<CreditBalance | null> {
+  const { start, resetsAt } = getCreditPeriod(now);
+  const period = { periodStart: start.toISOString(), resetsAt: resetsAt.toISOString() };
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { ...period, workspace: toCreditAllowance(null, 0), user: toCreditAllowance(null, 0) };
+  }
+
+  try {
+    // API keys act for their issuing admin; unknown users (e.g. deleted) have no personal cap
+    const { data: userRow, error: userError } = await supabase
+      .from('app_users')
+      .select('monthly_lead_credits')
+      .eq('workspace_id', workspace.id)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (userError) {
+      console.error('Failed to load user credit limit:', userError.message);
+      return null;
+    }
+
+    const userLimit = (userRow as { monthly_lead_credits: number | null } | null)?.monthly_lead_credits ?? null;
+
+    const [workspaceUsed, userUsed] = await Promise.all([
+      getCreditUsage(supabase, workspace.id, start),
+      getCreditUsage(supabase, workspace.id, start, userId),
+    ]);
+
+    return {
+      ...period,
+      workspace: toCreditAllowance(workspace.monthly_lead_credits, workspaceUsed),
+      user: toCreditAllowance(userLimit, userUsed),
+    };
+  } catch (err) {
+    console.error('Lead credits DB error (balance):', err);
+    return null;
+  }
+}
+
+/**
+ * Outcome of reserving an export's credits.
+ */
+export type CreditReservation =
+  | { ok: true }
+  | { ok: false; shortfall: CreditShortfall; resetsAt: string };
+
+/**
+ * Check the allowances and reserve `credits` on a new export in one step.
+ * On a shortfall the export row is deleted. Returns null if the reservation
+ * couldn't be made (callers should refuse to generate).
+ */
+export async function reserveExportCredits(
+  exportId: string,
+  credits: number,
+  now: Date = new Date()
+): Promise<CreditReservation | null> {
+  const { start, resetsAt } = getCreditPeriod(now);
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { ok: true };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('reserve_export_credits', {
+      p_export_id: exportId,
+      p_credits: credits,
+      p_since: start.toISOString(),
+    });
+
+    if (error) {
+      console.error('Failed to reserve lead credits:', error.message);
+      return null;
+    }
+
+    const result = (data ?? {}) as { ok?: boolean; scope?: CreditShortfall['scope']; limit?: number; remaining?: number };
+    if (result.ok) {
+      return { ok: true };
+    }
+    if (!result.scope || typeof result.limit !== 'number' || typeof result.remaining !== 'number') {
+      console.error('Failed to reserve lead credits: unexpected result', data);
+      return null;
+    }
+
+    return {
+      ok: false,
+      shortfall: { scope: result.scope, limit: result.limit, remaining: result.remaining, requested: credits },
+      resetsAt: resetsAt.toISOString(),
+    };
+  } catch (err) {
+    console.error('Lead credits DB error (reserve):', err);
+    return null;
+  }
+}
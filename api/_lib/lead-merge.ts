@@ -0,0 +1,185 @@
+/**
+ * Cross-Source Lead Merge
+ *
+ * Merges Lead[] results from several providers and removes cross-source
+ * duplicates. Two leads are the same person when they share a normalized
+ * primary phone, email, or street address (address + ZIP + last name, so
+ * household members at one address are not collapsed).
+ *
+ * On a duplicate the record with the higher quality_score wins; phones_all and
+ * source are unioned so no contact data or provenance is lost.
+ */
+
+import type { Lead, SourceMergeCounts } from './types.js';
+import { calculateQualityScore } from './lead-quality.js';
+
+/** Separator used for multi-valued CSV columns (matches AudienceLab phones_all). */
+const MULTI_VALUE_SEPARATOR = '|';
+
+/** Street suffix abbreviations applied before address comparison. */
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  lane: 'ln',
+  boulevard: 'blvd',
+  court: 'ct',
+  place: 'pl',
+  terrace: 'ter',
+  circle: 'cir',
+  highway: 'hwy',
+  parkway: 'pkwy',
+  apartment: 'apt',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+};
+
+/**
+ * A provider's leads, tagged with the provider name.
+ */
+export interface MergeSource {
+  provider: string;
+  leads: Lead[];
+}
+
+/**
+ * Result of merging several sources.
+ */
+export interface MergeResult {
+  leads: Lead[];
+  /** Total duplicates removed across all sources */
+  duplicateCount: number;
+  /** Per-provider kept/duplicate counts */
+  bySource: Record<string, SourceMergeCounts>;
+}
+
+/**
+ * Normalize a phone to 10 US digits (strips formatting and a leading 1).
+ * Returns '' if the value isn't a plausible US number.
+ */
+export function normalizePhone(phone: string | undefined): string {
+  const digits = (phone || '').replace(/\D/g, '');
+  const ten = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return ten.length === 10 ? ten : '';
+}
+
+/**
+ * Normalize an email for comparison (trimmed, lowercased). Returns '' if invalid.
+ */
+export function normalizeEmail(email: string | undefined): string {
+  const value = (email || '').trim().toLowerCase();
+  return value.includes('@') ? value : '';
+}
+
+/**
+ * Normalize a street address for comparison: lowercase, punctuation removed,
+ * whitespace collapsed, common suffixes abbreviated.
+ */
+export function normalizeAddress(address: string | undefined): string {
+  const words = (address || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  return words.map((w) => ADDRESS_ABBREVIATIONS[w] ?? w).join(' ');
+}
+
+/**
+ * Build the identity keys for a lead. Any shared key marks a duplicate.
+ */
+export function buildLeadKeys(lead: Lead): string[] {
+  const keys: string[] = [];
+
+  const phone = normalizePhone(lead.best_phone || lead.phone);
+  if (phone) keys.push(`phone:${phone}`);
+
+  const email = normalizeEmail(lead.email);
+  if (email) keys.push(`email:${email}`);
+
+  const address = normalizeAddress(lead.address);
+  const zip5 = (lead.zip || '').trim().slice(0, 5);
+  if (address && zip5) {
+    const lastName = (lead.last_name || '').trim().toLowerCase();
+    keys.push(`addr:${address}|${zip5}|${lastName}`);
+  }
+
+  return keys;
+}
+
+/**
+ * Union two multi-value columns, deduping (phones compared by normalized digits).
+ */
+function unionValues(a: string, b: string, normalize: (v: string) => string): string {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const raw of [...a.split(MULTI_VALUE_SEPARATOR), ...b.split(MULTI_VALUE_SEPARATOR)]) {
+    const value = raw.trim();
+    if (!value) continue;
+    const key = normalize(value) || value;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(value);
+  }
+  return out.join(MULTI_VALUE_SEPARATOR);
+}
+
+/**
+ * Merge leads from several providers, removing cross-source duplicates.
+ *
+ * Sources are processed in order, so on equal quality_score the earlier
+ * source's record wins. Leads are scored here for comparison only; the quality
+ * pipeline re-scores the merged set afterwards.
+ */
+export function mergeLeadsFromSources(sources: MergeSource[]): MergeResult {
+  const merged: Lead[] = [];
+  /** Provider that owns each merged record (for kept counts) */
+  const owners: string[] = [];
+  const keyIndex = new Map<string, number>();
+  const bySource: Record<string, SourceMergeCounts> = {};
+  let duplicateCount = 0;
+
+  for (const source of sources) {
+    bySource[source.provider] ??= { kept: 0, duplicates: 0 };
+
+    for (const lead of source.leads) {
+      lead.quality_score = calculateQualityScore(lead);
+      const keys = buildLeadKeys(lead);
+      const existingIdx = keys.map((k) => keyIndex.get(k)).find((i) => i !== undefined);
+
+      if (existingIdx === undefined) {
+        merged.push({ ...lead, source: lead.source || source.provider });
+        owners.push(source.provider);
+        for (const key of keys) keyIndex.set(key, merged.length - 1);
+        continue;
+      }
+
+      duplicateCount++;
+      const existing = merged[existingIdx];
+      const incomingWins = (lead.quality_score ?? 0) > (existing.quality_score ?? 0);
+      const winner = incomingWins ? lead : existing;
+      const loserOwner = incomingWins ? owners[existingIdx] : source.provider;
+
+      merged[existingIdx] = {
+        ...winner,
+        phones_all: unionValues(existing.phones_all, lead.phones_all, normalizePhone),
+        source: unionValues(existing.source, lead.source || source.provider, (v) => v.toLowerCase()),
+      };
+      bySource[loserOwner].duplicates++;
+      if (incomingWins) owners[existingIdx] = source.provider;
+
+      for (const key of keys) {
+        if (!keyIndex.has(key)) keyIndex.set(key, existingIdx);
+      }
+    }
+  }
+
+  for (const owner of owners) {
+    bySource[owner].kept++;
+  }
+
+  return { leads: merged, duplicateCount, bySource };
+}
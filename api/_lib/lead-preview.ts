@@ -0,0 +1,65 @@
+/**
+ * Masked lead previews for exports awaiting approval.
+ *
+ * With `preview: true`, generate/status/the cron stage the finished CSV
+ * (status `preview`) instead of releasing it, and store a short sample of the
+ * best leads with phones and emails masked like maskForLogging. City, state,
+ * scores and phone type stay visible so a manager can judge the pull before
+ * approving it (POST /api/exports/approve). Names and street addresses are
+ * left out entirely.
+ */
+
+import type { Lead } from './types.js';
+import { maskForLogging } from './bytestring.js';
+import { getLeadPhoneType, type PhoneType } from './compliance-rules.js';
+
+/** Leads shown in a preview (the top of the quality-sorted export). */
+export const PREVIEW_ROW_COUNT = 10;
+
+/**
+ * One masked preview row.
+ */
+export interface PreviewLead {
+  /** Masked best phone, e.g. "(30…234"; empty if none */
+  phone: string;
+  /** Masked email; empty if none */
+  email: string;
+  city: string;
+  state: string;
+  lead_type: string;
+  quality_score: number;
+  match_score: number;
+  /** Type of the best phone; null if unknown */
+  phone_type: PhoneType | null;
+}
+
+/**
+ * Mask a contact value; empty stays empty.
+ */
+function maskContact(value: string | undefined): string {
+  const trimmed = (value || '').trim();
+  return trimmed ? maskForLogging(trimmed) : '';
+}
+
+/**
+ * Mask a single lead for preview.
+ */
+export function toPreviewLead(lead: Lead): PreviewLead {
+  return {
+    phone: maskContact(lead.best_phone || lead.phone),
+    email: maskContact(lead.email),
+    city: lead.city,
+    state: lead.state,
+    lead_type: lead.lead_type,
+    quality_score: lead.quality_score ?? 0,
+    match_score: lead.match_score ?? 0,
+    phone_type: getLeadPhoneType(lead) ?? null,
+  };
+}
+
+/**
+ * Masked sample of an export's leads (already sorted best first).
+ */
+export function buildLeadPreview(leads: Lead[], count: number = PREVIEW_ROW_COUNT): PreviewLead[] {
+  return leads.slice(0, count).map(toPreviewLead);
+}
@@ -6,29 +6,84 @@ import {
   AudienceLabAsyncError,
 } from '../types.js';
 import { sanitizeByteString } from '../bytestring.js';
+import { createHttpClient, CircuitOpenError, type CircuitBreakerStatus } from '../http-client.js';
+import { lookupZip } from '../zip-data.js';
+import { COVERAGE_FIELDS, emptyFieldCoverageBlock, computeLeadsCoverage } from './coverage.js';
 import {
   extractAudienceId,
+  parseAudienceJobStatus,
   describeShape,
   generateRequestId,
 } from '../audiencelab-response.js';
 
+// Re-exported for existing callers; lives in ./coverage.js so every provider can use it
+export { computeLeadsCoverage };
+
 const BASE_URL = process.env.AUDIENCELAB_BASE_URL || 'https://api.audiencelab.io';
 
-// Simple ZIP to city/state lookup for common US zips
-const ZIP_LOOKUP: Record<string, { city: string; state: string }> = {
-  '33101': { city: 'Miami', state: 'FL' },
-  '33130': { city: 'Miami', state: 'FL' },
-  '33139': { city: 'Miami Beach', state: 'FL' },
-  '90210': { city: 'Beverly Hills', state: 'CA' },
-  '10001': { city: 'New York', state: 'NY' },
-  '60601': { city: 'Chicago', state: 'IL' },
-  '77001': { city: 'Houston', state: 'TX' },
-  '85001': { city: 'Phoenix', state: 'AZ' },
-  '19101': { city: 'Philadelphia', state: 'PA' },
-  '78201': { city: 'San Antonio', state: 'TX' },
-  '92101': { city: 'San Diego', state: 'CA' },
-  '75201': { city: 'Dallas', state: 'TX' },
-};
+/** Status endpoint for async audience jobs (create returned job_id/task_id) */
+const JOBS_PATH = '/jobs';
+
+/**
+ * Integer env setting, falling back when unset or below `min`.
+ */
+function envInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < min ? fallback : value;
+}
+
+/**
+ * AudienceLab HTTP client: GETs are retried on 5xx/network errors, every call
+ * on 429 (honoring Retry-After up to the max delay), and a circuit breaker
+ * fails fast during outages.
+ */
+const audienceLabHttp = createHttpClient({
+  name: 'audiencelab',
+  retry: () => ({
+    maxRetries: envInt('AUDIENCELAB_MAX_RETRIES', 2, 0),
+    baseDelayMs: 250,
+    maxDelayMs: 5000,
+  }),
+  breaker: () => ({
+    failureThreshold: envInt('AUDIENCELAB_BREAKER_THRESHOLD', 5, 1),
+    cooldownMs: envInt('AUDIENCELAB_BREAKER_COOLDOWN_SECONDS', 30, 1) * 1000,
+  }),
+});
+
+/**
+ * AudienceLab circuit breaker state in this instance (for /api/health/deps).
+ */
+export function getAudienceLabCircuitStatus(): CircuitBreakerStatus {
+  return audienceLabHttp.breaker.getStatus();
+}
+
+/**
+ * Call AudienceLab through the shared client. An open breaker surfaces as
+ * AudienceLabUpstreamError (circuitOpen) so routes and provider fallback
+ * treat it like any upstream outage.
+ */
+async function audienceLabFetch(
+  url: string,
+  init: RequestInit,
+  endpoint: string,
+  requestId: string
+): Promise<Response> {
+  try {
+    return await audienceLabHttp.request(url, init);
+  } catch (err) {
+    if (err instanceof CircuitOpenError) {
+      throw new AudienceLabUpstreamError({
+        status: 503,
+        endpoint,
+        method: init.method || 'GET',
+        requestId,
+        circuitOpen: true,
+        retryAfterSeconds: err.retryAfterSeconds,
+      });
+    }
+    throw err;
+  }
+}
 
 /**
  * AudienceLab contact with Fields Guide quality fields.
@@ -430,11 +485,12 @@ function isWithinFreshnessWindow(lastSeen: string | undefined, windowDays: numbe
 }
 
 /**
- * Look up city/state from ZIP code using embedded lookup.
+ * Look up city/state from ZIP code using the bundled ZIP dataset.
  * Returns null if not found.
  */
 export function lookupZipLocation(zip: string): { city: string; state: string } | null {
-  return ZIP_LOOKUP[zip] || null;
+  const entry = lookupZip(zip);
+  return entry ? { city: entry.city, state: entry.state } : null;
 }
 
 /**
@@ -505,26 +561,6 @@ interface QualityFilterResult {
   matchScore: number;
 }
 
-/**
- * The 8 core fields we track for coverage diagnostics.
- */
-const COVERAGE_FIELDS: CoverageFieldName[] = [
-  'first_name', 'last_name', 'address', 'city', 'state', 'zip', 'phone', 'email'
-];
-
-/**
- * Create an empty field coverage block with all counts at zero.
- */
-function emptyFieldCoverageBlock(): FieldCoverageBlock {
-  const present: Record<CoverageFieldName, number> = {
-    first_name: 0, last_name: 0, address: 0, city: 0, state: 0, zip: 0, phone: 0, email: 0
-  };
-  const pct: Record<CoverageFieldName, number> = {
-    first_name: 0, last_name: 0, address: 0, city: 0, state: 0, zip: 0, phone: 0, email: 0
-  };
-  return { total: 0, present, pct };
-}
-
 /**
  * Compute field coverage for raw AudienceLab contacts (before filtering).
  * Returns counts and percentages for each field. NO PII is logged or returned.
@@ -606,40 +642,6 @@ export function computeContactsCoverage(contacts: AudienceLabContact[], scope: L
   return { total, present: counts, pct };
 }
 
-/**
- * Compute field coverage for kept leads (after filtering).
- * Takes Lead[] array which has already been filtered.
- */
-export function computeLeadsCoverage(leads: Lead[]): FieldCoverageBlock {
-  if (leads.length === 0) {
-    return emptyFieldCoverageBlock();
-  }
-
-  const counts: Record<CoverageFieldName, number> = {
-    first_name: 0, last_name: 0, address: 0, city: 0, state: 0, zip: 0, phone: 0, email: 0
-  };
-
-  for (const lead of leads) {
-    if (lead.first_name?.trim()) counts.first_name++;
-    if (lead.last_name?.trim()) counts.last_name++;
-    if (lead.address?.trim()) counts.address++;
-    if (lead.city?.trim()) counts.city++;
-    if (lead.state?.trim()) counts.state++;
-    if (lead.zip?.trim()) counts.zip++;
-    if (lead.phone?.trim()) counts.phone++;
-    if (lead.email?.trim()) counts.email++;
-  }
-
-  // Calculate percentages
-  const total = leads.length;
-  const pct: Record<CoverageFieldName, number> = {} as Record<CoverageFieldName, number>;
-  for (const field of COVERAGE_FIELDS) {
-    pct[field] = Math.round((counts[field] / total) * 100);
-  }
-
-  return { total, present: counts, pct };
-}
-
 /**
  * Map an AudienceLab contact to our Lead format with recipe-based quality filtering.
  * Uses AudienceLab Fields Guide + Recipe Engine for optimal field selection.
@@ -867,6 +869,7 @@ import {
   resolveIntentPack,
   buildPackedKeywords,
   mapTierToIntentStrength,
+  type IntentPack,
 } from '../intent-packs.js';
 
 /**
@@ -877,14 +880,16 @@ import {
  *
  * @param leadRequest - Original user request
  * @param qualityTier - Quality tier for intent strength mapping
+ * @param customPacks - Workspace intent packs, checked before the built-in packs
  * @returns Intent filter object for AudienceLab payload
  */
 function buildIntentFilters(
   leadRequest: string,
-  qualityTier: QualityTier = 'balanced'
+  qualityTier: QualityTier = 'balanced',
+  customPacks: IntentPack[] = []
 ): { filters: Record<string, unknown>; intentPack: string } {
-  // Resolve best intent pack for this request
-  const pack = resolveIntentPack(leadRequest);
+  // Resolve best intent pack for this request (workspace packs first)
+  const pack = resolveIntentPack(leadRequest, customPacks);
 
   // Build packed keywords (original + pack keywords)
   const keywords = buildPackedKeywords(leadRequest, pack);
@@ -935,6 +940,10 @@ export interface AudiencePayloadResult {
   payload: Record<string, unknown>;
   intentPack: string;
   qualityTier: QualityTier;
+  /** The filter groups merged into `payload.filters`, for previews (see /api/leads/estimate) */
+  intentFilters: Record<string, unknown>;
+  geoFilters: Record<string, unknown>;
+  contactFilters: Record<string, unknown>;
 }
 
 /**
@@ -962,7 +971,7 @@ export function buildAudiencePayload(input: GenerateInput): AudiencePayloadResul
   const qualityTier: QualityTier = (input as { qualityTier?: QualityTier }).qualityTier ?? 'balanced';
 
   // Build structured filters with intent packs
-  const { filters: intentFilters, intentPack } = buildIntentFilters(input.leadRequest, qualityTier);
+  const { filters: intentFilters, intentPack } = buildIntentFilters(input.leadRequest, qualityTier, input.intentPacks);
   const geoFilters = buildGeoFilters(input.zips);
   const contactFilters = buildContactFilters(useCase, minMatchScore);
 
@@ -991,7 +1000,19 @@ export function buildAudiencePayload(input: GenerateInput): AudiencePayloadResul
     },
   };
 
-  return { payload, intentPack, qualityTier };
+  return { payload, intentPack, qualityTier, intentFilters, geoFilters, contactFilters };
+}
+
+/**
+ * Sanitized AudienceLab key for a request: the workspace key when the input
+ * carries workspace credentials, else AUDIENCELAB_API_KEY.
+ * Throws ConfigError if missing or not ByteString-safe.
+ */
+export function getAudienceLabApiKey(input: Pick<GenerateInput, 'credentials'>): string {
+  if (input.credentials) {
+    return sanitizeByteString(input.credentials.audienceLabApiKey, 'Workspace AudienceLab API key');
+  }
+  return sanitizeByteString(process.env.AUDIENCELAB_API_KEY, 'AUDIENCELAB_API_KEY');
 }
 
 export async function generateLeads(
@@ -1002,10 +1023,7 @@ export async function generateLeads(
   
   // Sanitize API key - strips BOM, trims, validates Latin1 (ByteString-safe)
   // Throws ConfigError if invalid (caught at route boundary)
-  const apiKey = sanitizeByteString(
-    process.env.AUDIENCELAB_API_KEY,
-    'AUDIENCELAB_API_KEY'
-  );
+  const apiKey = getAudienceLabApiKey(input);
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
@@ -1017,11 +1035,11 @@ export async function generateLeads(
     const { payload: audiencePayload } = buildAudiencePayload(input);
     const createUrl = `${BASE_URL}/audiences`;
 
-    const createResponse = await fetch(createUrl, {
+    const createResponse = await audienceLabFetch(createUrl, {
       method: 'POST',
       headers,
       body: JSON.stringify(audiencePayload),
-    });
+    }, '/audiences', requestId);
 
     if (!createResponse.ok) {
       const upstreamRequestId = createResponse.headers.get('x-request-id') ?? undefined;
@@ -1064,13 +1082,30 @@ export async function generateLeads(
     if (!extractResult.ok) {
       // Handle different failure reasons
       if (extractResult.reason === 'async') {
-        throw new AudienceLabAsyncError({
-          endpoint: '/audiences',
-          method: 'POST',
-          requestId,
-          jobId: extractResult.jobId,
-          taskId: extractResult.taskId,
-        });
+        const jobId = extractResult.jobId || extractResult.taskId;
+        if (!jobId) {
+          throw new AudienceLabAsyncError({
+            endpoint: '/audiences',
+            method: 'POST',
+            requestId,
+          });
+        }
+
+        // Audience is created by a job: poll it (fetchAudienceJobMembers) until it has an audience
+        return {
+          ok: false,
+          error: {
+            code: 'provider_building',
+            message: 'Audience job queued. Please poll for results.',
+            details: {
+              zips: input.zips,
+              scope: input.scope,
+              jobId,
+              requestId,
+              retryAfterSeconds: 2,
+            },
+          },
+        };
       }
       
       if (extractResult.reason === 'error_payload') {
@@ -1109,10 +1144,10 @@ export async function generateLeads(
     while (allContacts.length < maxLeads * 1.5) { // Fetch extra to account for filtering
       const membersUrl = `${BASE_URL}/audiences/${audienceId}?page=${page}&page_size=${pageSize}`;
       
-      const membersResponse = await fetch(membersUrl, {
+      const membersResponse = await audienceLabFetch(membersUrl, {
         method: 'GET',
         headers,
-      });
+      }, `/audiences/${audienceId}`, requestId);
 
       if (!membersResponse.ok) {
         const upstreamRequestId = membersResponse.headers.get('x-request-id') ?? undefined;
@@ -1300,6 +1335,120 @@ export async function generateLeads(
   }
 }
 
+/**
+ * Poll an async audience job (used by the status endpoint and cron when create
+ * returned a job instead of an audience). Once the job has produced an audience,
+ * fetches its members like fetchAudienceMembers - results then carry the
+ * audienceId so callers can record it and poll the audience directly.
+ * Pending jobs return provider_building with the jobId; failed jobs throw
+ * AudienceLabAsyncError.
+ */
+export async function fetchAudienceJobMembers(
+  jobId: string,
+  input: GenerateInput,
+  requestId?: string
+): Promise<ProviderResult> {
+  const effectiveRequestId = requestId || generateRequestId();
+
+  const apiKey = getAudienceLabApiKey(input);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Api-Key': apiKey,
+  };
+
+  const jobEndpoint = `${JOBS_PATH}/${jobId}`;
+
+  try {
+    const jobResponse = await audienceLabFetch(`${BASE_URL}${jobEndpoint}`, {
+      method: 'GET',
+      headers,
+    }, jobEndpoint, effectiveRequestId);
+
+    if (!jobResponse.ok) {
+      const upstreamRequestId = jobResponse.headers.get('x-request-id') ?? undefined;
+
+      if (jobResponse.status === 401 || jobResponse.status === 403) {
+        throw new AudienceLabAuthError({
+          status: jobResponse.status,
+          endpoint: jobEndpoint,
+          method: 'GET',
+          requestId: upstreamRequestId || effectiveRequestId,
+        });
+      }
+
+      if (jobResponse.status >= 500) {
+        throw new AudienceLabUpstreamError({
+          status: jobResponse.status,
+          endpoint: jobEndpoint,
+          method: 'GET',
+          requestId: upstreamRequestId || effectiveRequestId,
+        });
+      }
+
+      return {
+        ok: false,
+        error: {
+          code: 'provider_error',
+          message: `AudienceLab API returned ${jobResponse.status} fetching job status`,
+          details: { status: jobResponse.status, jobId, requestId: effectiveRequestId },
+        },
+      };
+    }
+
+    const job = parseAudienceJobStatus(await jobResponse.json());
+
+    if (job.state === 'failed') {
+      throw new AudienceLabAsyncError({
+        endpoint: jobEndpoint,
+        method: 'GET',
+        requestId: effectiveRequestId,
+        jobId,
+        jobStatus: job.status,
+        upstreamMessage: job.errorMessage,
+      });
+    }
+
+    if (job.state === 'pending') {
+      return {
+        ok: false,
+        error: {
+          code: 'provider_building',
+          message: 'Audience job is still running.',
+          details: { jobId, jobStatus: job.status, requestId: effectiveRequestId, retryAfterSeconds: 2 },
+        },
+      };
+    }
+
+    const result = await fetchAudienceMembers(job.audienceId, input, effectiveRequestId);
+    if (!result.ok) {
+      return {
+        ok: false,
+        error: { ...result.error, details: { ...result.error.details, audienceId: job.audienceId, jobId } },
+      };
+    }
+    return result;
+  } catch (err) {
+    if (
+      err instanceof AudienceLabAuthError ||
+      err instanceof AudienceLabUpstreamError ||
+      err instanceof AudienceLabContractError ||
+      err instanceof AudienceLabAsyncError
+    ) {
+      throw err;
+    }
+
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return {
+      ok: false,
+      error: {
+        code: 'provider_error',
+        message: `AudienceLab job status failed: ${message}`,
+      },
+    };
+  }
+}
+
 /**
  * Fetch members for an existing audience (used for polling by status endpoint).
  * Returns building status if no members yet, or leads if available.
@@ -1311,10 +1460,7 @@ export async function fetchAudienceMembers(
 ): Promise<ProviderResult> {
   const effectiveRequestId = requestId || generateRequestId();
   
-  const apiKey = sanitizeByteString(
-    process.env.AUDIENCELAB_API_KEY,
-    'AUDIENCELAB_API_KEY'
-  );
+  const apiKey = getAudienceLabApiKey(input);
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
@@ -1334,10 +1480,10 @@ export async function fetchAudienceMembers(
     while (allContacts.length < maxLeads * 1.5) { // Fetch extra to account for filtering
       const membersUrl = `${BASE_URL}/audiences/${audienceId}?page=${page}&page_size=${pageSize}`;
       
-      const membersResponse = await fetch(membersUrl, {
+      const membersResponse = await audienceLabFetch(membersUrl, {
         method: 'GET',
         headers,
-      });
+      }, `/audiences/${audienceId}`, effectiveRequestId);
 
       if (!membersResponse.ok) {
         const upstreamRequestId = membersResponse.headers.get('x-request-id') ?? undefined;
@@ -0,0 +1,63 @@
+/**
+ * Field coverage helpers shared by all lead providers.
+ *
+ * Coverage is computed on mapped Lead records, so any provider that produces
+ * Lead[] can report the same before/after diagnostics. NO PII is returned -
+ * only counts and percentages.
+ */
+
+import type { Lead, FieldCoverageBlock, CoverageFieldName } from '../types.js';
+
+/**
+ * The 8 core fields we track for coverage diagnostics.
+ */
+export const COVERAGE_FIELDS: CoverageFieldName[] = [
+  'first_name', 'last_name', 'address', 'city', 'state', 'zip', 'phone', 'email'
+];
+
+/**
+ * Create an empty field coverage block with all counts at zero.
+ */
+export function emptyFieldCoverageBlock(): FieldCoverageBlock {
+  const present: Record<CoverageFieldName, number> = {
+    first_name: 0, last_name: 0, address: 0, city: 0, state: 0, zip: 0, phone: 0, email: 0
+  };
+  const pct: Record<CoverageFieldName, number> = {
+    first_name: 0, last_name: 0, address: 0, city: 0, state: 0, zip: 0, phone: 0, email: 0
+  };
+  return { total: 0, present, pct };
+}
+
+/**
+ * Compute field coverage for kept leads (after filtering).
+ * Takes Lead[] array which has already been filtered.
+ */
+export function computeLeadsCoverage(leads: Lead[]): FieldCoverageBlock {
+  if (leads.length === 0) {
+    return emptyFieldCoverageBlock();
+  }
+
+  const counts: Record<CoverageFieldName, number> = {
+    first_name: 0, last_name: 0, address: 0, city: 0, state: 0, zip: 0, phone: 0, email: 0
+  };
+
+  for (const lead of leads) {
+    if (lead.first_name?.trim()) counts.first_name++;
+    if (lead.last_name?.trim()) counts.last_name++;
+    if (lead.address?.trim()) counts.address++;
+    if (lead.city?.trim()) counts.city++;
+    if (lead.state?.trim()) counts.state++;
+    if (lead.zip?.trim()) counts.zip++;
+    if (lead.phone?.trim()) counts.phone++;
+    if (lead.email?.trim()) counts.email++;
+  }
+
+  // Calculate percentages
+  const total = leads.length;
+  const pct: Record<CoverageFieldName, number> = {} as Record<CoverageFieldName, number>;
+  for (const field of COVERAGE_FIELDS) {
+    pct[field] = Math.round((counts[field] / total) * 100);
+  }
+
+  return { total, present: counts, pct };
+}
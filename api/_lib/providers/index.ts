@@ -1,49 +1,385 @@
-import type { GenerateInput, ProviderResult } from '../types.js';
-import { ProviderConfigError } from '../types.js';
-import { generateLeads as mockGenerateLeads } from './mock.js';
-import { generateLeads as audiencelabGenerateLeads } from './audiencelab.js';
+import type {
+  GenerateInput,
+  LeadQualityDiagnostics,
+  LeadScope,
+  ProviderCredentials,
+  ProviderEstimate,
+  ProviderResult,
+} from '../types.js';
+import {
+  ProviderConfigError,
+  AudienceLabUpstreamError,
+  PDLUpstreamError,
+} from '../types.js';
+import { generateLeads as mockGenerateLeads, estimateLeads as mockEstimateLeads } from './mock.js';
+import { generateLeads as audiencelabGenerateLeads, emptyMatchScoreDistribution } from './audiencelab.js';
+import { generateLeads as pdlGenerateLeads } from './pdl.js';
+import { computeLeadsCoverage } from './coverage.js';
+import { mergeLeadsFromSources, type MergeResult } from '../lead-merge.js';
 
-export type ProviderName = 'mock' | 'audiencelab';
+export type ProviderName = 'mock' | 'audiencelab' | 'pdl';
+
+const PROVIDER_NAMES: readonly ProviderName[] = ['mock', 'audiencelab', 'pdl'];
+
+const ROUTE_SCOPES: readonly LeadScope[] = ['residential', 'commercial', 'both'];
+
+function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
 
 /**
  * Determine which provider to use based on environment configuration.
  * - Returns 'audiencelab' if LEAD_PROVIDER=audiencelab (key validation happens later)
+ * - Returns 'pdl' if LEAD_PROVIDER=pdl (key validation happens later)
  * - Defaults to 'mock' otherwise
  */
 export function getProviderName(): ProviderName {
   const env = process.env.LEAD_PROVIDER?.toLowerCase().trim();
-  return env === 'audiencelab' ? 'audiencelab' : 'mock';
+  if (env === 'audiencelab' || env === 'pdl') return env;
+  return 'mock';
+}
+
+/**
+ * Parse the LEAD_PROVIDER_ROUTES routing policy.
+ *
+ * Format: `scope=provider>fallback>...` entries separated by `;`, e.g.
+ *   `commercial=pdl>audiencelab;residential=audiencelab>pdl`
+ *
+ * Throws ProviderConfigError on unknown scopes or provider names so a typo
+ * never silently routes traffic somewhere unexpected.
+ */
+export function parseProviderRoutes(
+  raw: string | undefined
+): Partial<Record<LeadScope, ProviderName[]>> {
+  const routes: Partial<Record<LeadScope, ProviderName[]>> = {};
+  if (!raw?.trim()) return routes;
+
+  for (const entry of raw.split(';')) {
+    if (!entry.trim()) continue;
+    const [scopePart, chainPart = ''] = entry.split('=');
+    const scope = scopePart.toLowerCase().trim();
+    if (!(ROUTE_SCOPES as readonly string[]).includes(scope)) {
+      throw new ProviderConfigError({
+        provider: 'routing',
+        message: `LEAD_PROVIDER_ROUTES has unknown scope "${scope}".`,
+        hint: 'Use residential, commercial, or both as route keys, e.g. commercial=pdl>audiencelab.',
+      });
+    }
+
+    const chain: ProviderName[] = [];
+    for (const name of chainPart.split('>')) {
+      const provider = name.toLowerCase().trim();
+      if (!provider) continue;
+      if (!isProviderName(provider)) {
+        throw new ProviderConfigError({
+          provider: 'routing',
+          message: `LEAD_PROVIDER_ROUTES has unknown provider "${provider}".`,
+          hint: `Use one of: ${PROVIDER_NAMES.join(', ')}.`,
+        });
+      }
+      if (!chain.includes(provider)) chain.push(provider);
+    }
+
+    if (chain.length > 0) {
+      routes[scope as LeadScope] = chain;
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Resolve the ordered provider chain for a scope.
+ * Falls back to the single LEAD_PROVIDER when no route is configured for the scope.
+ */
+export function getProviderChain(scope: LeadScope): ProviderName[] {
+  const routes = parseProviderRoutes(process.env.LEAD_PROVIDER_ROUTES);
+  return routes[scope] ?? [getProviderName()];
+}
+
+/**
+ * True if the provider is the default or appears in any configured route.
+ * Used by status polling and the cron, which only apply to AudienceLab audiences.
+ */
+export function isProviderEnabled(provider: ProviderName): boolean {
+  if (getProviderName() === provider) return true;
+  const routes = parseProviderRoutes(process.env.LEAD_PROVIDER_ROUTES);
+  return Object.values(routes).some((chain) => chain?.includes(provider));
 }
 
 /**
  * Validate provider configuration.
- * Throws ProviderConfigError if audiencelab is requested but key is missing.
- * This ensures we NEVER silently fall back to mock when audiencelab is expected.
+ * Throws ProviderConfigError if a real provider is requested but its key is missing.
+ * This ensures we NEVER silently fall back to mock when a real provider is expected.
+ *
+ * With workspace `credentials`, the AudienceLab key must come from them;
+ * without, it comes from AUDIENCELAB_API_KEY.
  */
-export function validateProviderConfig(): void {
-  const provider = getProviderName();
-  
-  if (provider === 'audiencelab' && !process.env.AUDIENCELAB_API_KEY) {
+export function validateProviderConfig(
+  provider: ProviderName = getProviderName(),
+  credentials?: ProviderCredentials
+): void {
+  const audienceLabKey = credentials ? credentials.audienceLabApiKey : process.env.AUDIENCELAB_API_KEY;
+  if (provider === 'audiencelab' && !audienceLabKey) {
     throw new ProviderConfigError({
       provider: 'audiencelab',
-      message: 'LEAD_PROVIDER is set to audiencelab but AUDIENCELAB_API_KEY is missing.',
-      hint: 'Set AUDIENCELAB_API_KEY in environment variables, or change LEAD_PROVIDER to mock.',
+      message: credentials
+        ? 'LEAD_PROVIDER is set to audiencelab but this workspace has no AudienceLab API key.'
+        : 'LEAD_PROVIDER is set to audiencelab but AUDIENCELAB_API_KEY is missing.',
+      hint: credentials
+        ? 'Set the workspace AudienceLab key via POST /api/workspaces/settings (admin).'
+        : 'Set AUDIENCELAB_API_KEY in environment variables, or change LEAD_PROVIDER to mock.',
     });
   }
-}
 
-export async function generateLeads(
-  input: GenerateInput
-): Promise<ProviderResult> {
-  // Validate configuration before proceeding - throws if misconfigured
-  validateProviderConfig();
-  
-  const provider = getProviderName();
+  if (provider === 'pdl' && !process.env.PDL_API_KEY) {
+    throw new ProviderConfigError({
+      provider: 'pdl',
+      message: 'LEAD_PROVIDER is set to pdl but PDL_API_KEY is missing.',
+      hint: 'Set PDL_API_KEY in environment variables, or change LEAD_PROVIDER to mock.',
+    });
+  }
+}
 
+function runProvider(provider: ProviderName, input: GenerateInput): Promise<ProviderResult> {
   if (provider === 'audiencelab') {
     return audiencelabGenerateLeads(input);
   }
 
+  if (provider === 'pdl') {
+    return pdlGenerateLeads(input);
+  }
+
   // Mock provider is synchronous but we return a Promise for consistency
   return Promise.resolve(mockGenerateLeads(input));
 }
+
+/**
+ * True if the provider can estimate an audience's size without paying for it.
+ * AudienceLab and PDL only report sizes for audiences/searches they bill for,
+ * so only the mock provider supports this today.
+ */
+export function supportsEstimate(provider: ProviderName): boolean {
+  return provider === 'mock';
+}
+
+/**
+ * Estimate the audience for a request with the given provider.
+ * Returns null when the provider has no estimate capability (see supportsEstimate).
+ */
+export async function estimateAudience(
+  provider: ProviderName,
+  input: GenerateInput
+): Promise<ProviderEstimate | null> {
+  if (!supportsEstimate(provider)) return null;
+  return mockEstimateLeads(input);
+}
+
+/**
+ * Result of a routed generation: the provider that produced the result plus
+ * every provider tried, in order. Blended results name every contributing
+ * provider joined with '+', e.g. 'audiencelab+pdl'.
+ */
+export interface RoutedProviderResult {
+  provider: string;
+  attempted: ProviderName[];
+  result: ProviderResult;
+}
+
+/**
+ * Generate leads along the scope's provider chain.
+ *
+ * Falls through to the next provider when the current one returns
+ * `provider_no_results` or throws an upstream (5xx) error. Any other outcome -
+ * success, building, auth/config errors - is final. When the last provider in
+ * the chain fails, its result (or error) is surfaced unchanged.
+ */
+export async function generateLeadsRouted(
+  input: GenerateInput
+): Promise<RoutedProviderResult> {
+  const chain = getProviderChain(input.scope);
+
+  // Validate every provider up front - throws if any is misconfigured
+  for (const provider of chain) {
+    validateProviderConfig(provider, input.credentials);
+  }
+
+  const attempted: ProviderName[] = [];
+  for (let i = 0; i < chain.length; i++) {
+    const provider = chain[i];
+    const isLast = i === chain.length - 1;
+    attempted.push(provider);
+
+    let result: ProviderResult;
+    try {
+      result = await runProvider(provider, input);
+    } catch (err) {
+      const isUpstream = err instanceof AudienceLabUpstreamError || err instanceof PDLUpstreamError;
+      if (isUpstream && !isLast) continue;
+      throw err;
+    }
+
+    if (!result.ok && result.error.code === 'provider_no_results' && !isLast) {
+      continue;
+    }
+
+    return { provider, attempted, result };
+  }
+
+  // Unreachable: chain always has at least one provider
+  throw new ProviderConfigError({
+    provider: 'routing',
+    message: `No provider configured for scope "${input.scope}".`,
+    hint: 'Set LEAD_PROVIDER or add a route to LEAD_PROVIDER_ROUTES.',
+  });
+}
+
+/**
+ * Combine per-provider diagnostics into one block for a blended result.
+ * Filter counters come from the first provider that reported them (only
+ * AudienceLab does today); fetched/kept totals span every source.
+ */
+function blendDiagnostics(
+  results: Array<Extract<ProviderResult, { ok: true }>>,
+  merge: MergeResult
+): LeadQualityDiagnostics {
+  const base = results.find((r) => r.diagnostics)?.diagnostics;
+  return {
+    ...(base ?? {
+      filteredMissingPhone: 0,
+      filteredInvalidEmail: 0,
+      filteredInvalidEmailEsp: 0,
+      filteredEmailTooOld: 0,
+      filteredDnc: 0,
+      filteredLowMatchScore: 0,
+      missingNameOrAddressCount: 0,
+      matchByTier: { high: 0, medium: 0, low: 0 },
+      matchScoreDistribution: emptyMatchScoreDistribution(),
+    }),
+    totalFetched: results.reduce((sum, r) => sum + (r.diagnostics?.totalFetched ?? r.leads.length), 0),
+    kept: merge.leads.length,
+    duplicatesRemoved: merge.duplicateCount,
+    bySource: merge.bySource,
+  };
+}
+
+/**
+ * Blend mode: query every provider in the scope's chain in parallel, merge
+ * their leads and drop cross-source duplicates (see lead-merge.ts).
+ *
+ * Providers that return no results or an upstream (5xx) error are skipped.
+ * A provider that is still building can't be merged with leads returned now:
+ * if others produced leads the blend is rejected (provider_blend_building),
+ * otherwise the building result is returned so the normal status polling
+ * takes over. Auth/config/contract errors are thrown.
+ */
+export async function generateLeadsBlended(
+  input: GenerateInput
+): Promise<RoutedProviderResult> {
+  const chain = getProviderChain(input.scope);
+
+  // Validate every provider up front - throws if any is misconfigured
+  for (const provider of chain) {
+    validateProviderConfig(provider, input.credentials);
+  }
+
+  const settled = await Promise.allSettled(chain.map((provider) => runProvider(provider, input)));
+
+  const completed: Array<{ provider: ProviderName; result: Extract<ProviderResult, { ok: true }> }> = [];
+  let building: { provider: ProviderName; result: Extract<ProviderResult, { ok: false }> } | undefined;
+  let lastFailure: ProviderResult | undefined;
+  let upstreamError: unknown;
+
+  settled.forEach((outcome, i) => {
+    const provider = chain[i];
+    if (outcome.status === 'rejected') {
+      const err = outcome.reason;
+      if (err instanceof AudienceLabUpstreamError || err instanceof PDLUpstreamError) {
+        upstreamError ??= err;
+        return;
+      }
+      throw err;
+    }
+    const result = outcome.value;
+    if (result.ok) {
+      if (result.leads.length > 0) completed.push({ provider, result });
+      return;
+    }
+    if (result.error.code === 'provider_building') {
+      building ??= { provider, result };
+      return;
+    }
+    lastFailure = result;
+  });
+
+  if (completed.length === 0) {
+    if (building) {
+      return { provider: building.provider, attempted: chain, result: building.result };
+    }
+    if (lastFailure) {
+      return { provider: chain[chain.length - 1], attempted: chain, result: lastFailure };
+    }
+    if (upstreamError) throw upstreamError;
+    return {
+      provider: chain[chain.length - 1],
+      attempted: chain,
+      result: {
+        ok: false,
+        error: {
+          code: 'provider_no_results',
+          message: 'No leads found for the given criteria.',
+          details: { zips: input.zips, scope: input.scope },
+        },
+      },
+    };
+  }
+
+  // Finishing the audience later would drop the leads returned now (and
+  // merging without it would drop the audience), so nothing is delivered
+  if (building) {
+    const buildingDetails = building.result.error.details as Record<string, unknown> | undefined;
+    return {
+      provider: building.provider,
+      attempted: chain,
+      result: {
+        ok: false,
+        error: {
+          code: 'provider_blend_building',
+          message: `Blend mode needs every provider's leads at once, but ${building.provider} is still building the audience. Try again without blend.`,
+          details: {
+            buildingProvider: building.provider,
+            completedProviders: completed.map((c) => c.provider),
+            audienceId: buildingDetails?.audienceId,
+            jobId: buildingDetails?.jobId,
+          },
+        },
+      },
+    };
+  }
+
+  const merge = mergeLeadsFromSources(
+    completed.map(({ provider, result }) => ({ provider, leads: result.leads }))
+  );
+  const coverageKept = computeLeadsCoverage(merge.leads);
+  const coverageFetched = computeLeadsCoverage(completed.flatMap(({ result }) => result.leads));
+
+  return {
+    provider: completed.map((c) => c.provider).join('+'),
+    attempted: chain,
+    result: {
+      ok: true,
+      leads: merge.leads,
+      audienceId: completed.find((c) => c.result.audienceId)?.result.audienceId,
+      requestId: completed.find((c) => c.result.requestId)?.result.requestId,
+      diagnostics: blendDiagnostics(completed.map((c) => c.result), merge),
+      fieldCoverage: { coverageFetched, coverageKept },
+    },
+  };
+}
+
+export async function generateLeads(
+  input: GenerateInput
+): Promise<ProviderResult> {
+  const { result } = await generateLeadsRouted(input);
+  return result;
+}
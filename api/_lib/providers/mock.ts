@@ -1,4 +1,4 @@
-import type { Lead, GenerateInput, ProviderResult } from '../types.js';
+import type { Lead, GenerateInput, ProviderEstimate, ProviderResult } from '../types.js';
 
 function seededRandom(seed: number) {
   let s = seed >>> 0;
@@ -23,6 +23,9 @@ const STREETS = ['Main St', 'Oak Ave', 'Pine Rd', 'Maple Dr', 'Cedar Ln', 'Elm S
 const CITIES = ['Miami', 'Tampa', 'Orlando', 'Jacksonville', 'Fort Lauderdale'];
 const STATES = ['FL', 'GA', 'AL'];
 
+/** Leads returned for every mock request */
+const MOCK_LEAD_COUNT = 50;
+
 function pick<T>(rand: () => number, arr: T[]) {
   return arr[Math.floor(rand() * arr.length)];
 }
@@ -30,7 +33,7 @@ function pick<T>(rand: () => number, arr: T[]) {
 export function generateLeads(input: GenerateInput): ProviderResult {
   const seed = makeSeed(input);
   const rand = seededRandom(seed);
-  const count = 50;
+  const count = MOCK_LEAD_COUNT;
 
   const leads: Lead[] = [];
   for (let i = 0; i < count; i++) {
@@ -66,3 +69,12 @@ export function generateLeads(input: GenerateInput): ProviderResult {
   }
   return { ok: true, leads };
 }
+
+/**
+ * Free size estimate: the mock audience is always the generated leads.
+ */
+export function estimateLeads(input: GenerateInput): ProviderEstimate {
+  const result = generateLeads(input);
+  if (!result.ok) return result;
+  return { ok: true, available: MOCK_LEAD_COUNT, sample: result.leads };
+}
@@ -1,4 +1,7 @@
-import type { Lead, GenerateInput, ProviderResult } from '../types.js';
+import type { Lead, GenerateInput, ProviderResult, FieldCoverage } from '../types.js';
+import { PDLAuthError, PDLUpstreamError } from '../types.js';
+import { sanitizeByteString } from '../bytestring.js';
+import { computeLeadsCoverage } from './coverage.js';
 
 interface PDLPerson {
   first_name?: string;
@@ -18,6 +21,8 @@ interface PDLSearchResponse {
   data?: PDLPerson[];
   error?: { type: string; message: string };
   total?: number;
+  /** Cursor for the next page of results */
+  scroll_token?: string;
 }
 
 export function mapPDLPersonToLead(
@@ -55,68 +60,80 @@ export function mapPDLPersonToLead(
   };
 }
 
-export async function generateLeads(
-  input: GenerateInput
-): Promise<ProviderResult> {
-  const apiKey = process.env.PDL_API_KEY;
-  const baseUrl = process.env.PDL_BASE_URL || 'https://api.peopledatalabs.com';
+const PERSON_SEARCH_ENDPOINT = '/v5/person/search';
 
-  if (!apiKey) {
-    return {
-      ok: false,
-      error: {
-        code: 'provider_error',
-        message: 'PDL_API_KEY is not configured.',
-      },
-    };
-  }
+/** Records per Person Search call (PDL's maximum); more pages use its scroll_token */
+const PDL_PAGE_SIZE = 100;
 
-  // Build SQL query for PDL Person Search
-  const zipList = input.zips.map((z) => `'${z}'`).join(', ');
-  const sqlQuery = `SELECT * FROM person WHERE location_postal_code IN (${zipList}) LIMIT 50`;
+/** Default and maximum requested counts, as for AudienceLab */
+const DEFAULT_REQUESTED_COUNT = 200;
+const MAX_REQUESTED_COUNT = 1000;
+
+/**
+ * Records fetched per requested lead: the quality gate drops leads without
+ * usable contact data, so ask for more than will be delivered.
+ */
+const OVERFETCH_FACTOR = 1.5;
 
+/**
+ * Number of records to fetch for a request (requested count plus overfetch).
+ */
+export function pdlFetchSize(requestedCount: number | undefined): number {
+  const requested = Math.min(Math.max(requestedCount ?? DEFAULT_REQUESTED_COUNT, 1), MAX_REQUESTED_COUNT);
+  return Math.ceil(requested * OVERFETCH_FACTOR);
+}
+
+/**
+ * One Person Search call. Throws PDLAuthError on 401/403 and PDLUpstreamError
+ * when PDL is unreachable (status 0) or answers 5xx; other failures are
+ * returned as provider results.
+ */
+async function searchPeople(
+  baseUrl: string,
+  apiKey: string,
+  body: Record<string, unknown>,
+  input: GenerateInput
+): Promise<{ ok: true; data: PDLSearchResponse } | Extract<ProviderResult, { ok: false }>> {
+  let response: Response;
   try {
-    const response = await fetch(`${baseUrl}/v5/person/search`, {
+    response = await fetch(`${baseUrl}${PERSON_SEARCH_ENDPOINT}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'X-Api-Key': apiKey,
       },
-      body: JSON.stringify({
-        sql: sqlQuery,
-        size: 50,
-        dataset: 'all',
-      }),
+      body: JSON.stringify(body),
+    });
+  } catch {
+    // Network failure - an outage like a 5xx, so the chain can fail over
+    throw new PDLUpstreamError({
+      status: 0,
+      endpoint: PERSON_SEARCH_ENDPOINT,
+      method: 'POST',
     });
+  }
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      return {
-        ok: false,
-        error: {
-          code: 'provider_error',
-          message: `PDL API returned ${response.status}`,
-          details: { status: response.status, body: errorBody },
-        },
-      };
+  if (!response.ok) {
+    // Throw typed error for auth failures
+    if (response.status === 401 || response.status === 403) {
+      throw new PDLAuthError({
+        status: response.status,
+        endpoint: PERSON_SEARCH_ENDPOINT,
+        method: 'POST',
+      });
     }
 
-    const data: PDLSearchResponse = await response.json();
-
-    if (data.error) {
-      return {
-        ok: false,
-        error: {
-          code: 'provider_error',
-          message: data.error.message || 'PDL API error',
-          details: { type: data.error.type },
-        },
-      };
+    // Throw typed error for upstream failures (5xx)
+    if (response.status >= 500) {
+      throw new PDLUpstreamError({
+        status: response.status,
+        endpoint: PERSON_SEARCH_ENDPOINT,
+        method: 'POST',
+      });
     }
 
-    const people = data.data || [];
-
-    if (people.length === 0) {
+    // PDL answers 404 when the search matched no records
+    if (response.status === 404) {
       return {
         ok: false,
         error: {
@@ -127,17 +144,96 @@ export async function generateLeads(
       };
     }
 
-    const leads = people.map((p) => mapPDLPersonToLead(p, input));
+    // Other errors (4xx except 401/403/404)
+    const errorBody = await response.text();
+    return {
+      ok: false,
+      error: {
+        code: 'provider_error',
+        message: `PDL API returned ${response.status}`,
+        details: { status: response.status, body: errorBody.slice(0, 500) },
+      },
+    };
+  }
+
+  let data: PDLSearchResponse;
+  try {
+    data = await response.json();
+  } catch {
+    return {
+      ok: false,
+      error: {
+        code: 'provider_error',
+        message: 'PDL returned a non-JSON response.',
+      },
+    };
+  }
 
-    return { ok: true, leads };
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unknown error';
+  if (data.error) {
     return {
       ok: false,
       error: {
         code: 'provider_error',
-        message: `PDL request failed: ${message}`,
+        message: data.error.message || 'PDL API error',
+        details: { type: data.error.type },
+      },
+    };
+  }
+
+  return { ok: true, data };
+}
+
+export async function generateLeads(
+  input: GenerateInput
+): Promise<ProviderResult> {
+  // Sanitize API key - strips BOM, trims, validates Latin1 (ByteString-safe)
+  // Throws ConfigError if invalid (caught at route boundary)
+  const apiKey = sanitizeByteString(process.env.PDL_API_KEY, 'PDL_API_KEY');
+  const baseUrl = process.env.PDL_BASE_URL || 'https://api.peopledatalabs.com';
+
+  // Build SQL query for PDL Person Search
+  const zipList = input.zips.map((z) => `'${z}'`).join(', ');
+  const fetchSize = pdlFetchSize(input.requestedCount);
+  const sqlQuery = `SELECT * FROM person WHERE location_postal_code IN (${zipList}) LIMIT ${fetchSize}`;
+
+  // Page through the matches until fetchSize records (or the last page)
+  const people: PDLPerson[] = [];
+  let scrollToken: string | undefined;
+  do {
+    const page = await searchPeople(baseUrl, apiKey, {
+      sql: sqlQuery,
+      size: Math.min(PDL_PAGE_SIZE, fetchSize - people.length),
+      dataset: 'all',
+      ...(scrollToken ? { scroll_token: scrollToken } : {}),
+    }, input);
+
+    if (!page.ok) {
+      // A later page with no results or an error keeps the records fetched so far
+      if (people.length > 0) break;
+      return page;
+    }
+
+    const records = page.data.data || [];
+    people.push(...records);
+    scrollToken = records.length > 0 ? page.data.scroll_token : undefined;
+  } while (scrollToken && people.length < fetchSize);
+
+  if (people.length === 0) {
+    return {
+      ok: false,
+      error: {
+        code: 'provider_no_results',
+        message: 'No leads found for the given criteria.',
+        details: { zips: input.zips, scope: input.scope },
       },
     };
   }
+
+  const leads = people.map((p) => mapPDLPersonToLead(p, input));
+
+  // PDL does no provider-side filtering, so fetched and kept coverage match
+  const coverage = computeLeadsCoverage(leads);
+  const fieldCoverage: FieldCoverage = { coverageFetched: coverage, coverageKept: coverage };
+
+  return { ok: true, leads, fieldCoverage };
 }
@@ -6,7 +6,8 @@
  * quality reports for transparency.
  */
 
-import { Lead, QualityTier } from './types';
+import { Lead, QualityTier, UseCase } from './types';
+import { processLeadsWithQuality, calculateQualityStats, type QualityStats } from './lead-quality.js';
 
 // Quality gate thresholds per tier
 export interface QualityGateThreshold {
@@ -243,3 +244,49 @@ export function getTierLabel(tier: QualityTier): string {
   const threshold = QUALITY_GATE_THRESHOLDS[tier];
   return `${tier.charAt(0).toUpperCase() + tier.slice(1)} (≥${threshold.minQualityScore})`;
 }
+
+/**
+ * Result of the full scoring + gating pipeline.
+ */
+export interface QualityPipelineResult {
+  /** Leads that passed the gate, sorted by quality score (best first) */
+  leads: Lead[];
+  /** Quality report for the delivered leads */
+  report: QualityReport;
+  /** Aggregate score stats for the delivered leads */
+  stats: QualityStats;
+}
+
+/**
+ * Score, sort and gate leads in one pass.
+ *
+ * Run this AFTER compliance suppression so suppressed leads never count
+ * toward the delivered/rejected totals.
+ *
+ * @param leads - Leads after compliance filtering (will be mutated with scores)
+ * @param tier - Quality tier selected for the request
+ * @param requestedCount - Original requested lead count
+ * @param useCase - Use case (wireless requirement applies to 'call' only)
+ */
+export function runQualityPipeline(
+  leads: Lead[],
+  tier: QualityTier,
+  requestedCount: number,
+  useCase: UseCase
+): QualityPipelineResult {
+  const { leads: scored } = processLeadsWithQuality(leads, tier);
+  const gate = applyQualityGate(scored, tier, requestedCount, useCase === 'call');
+  const report = generateQualityReport(
+    gate.passedLeads,
+    gate.rejectedByQualityCount,
+    gate.minQualityScoreUsed,
+    requestedCount,
+    tier
+  );
+
+  return {
+    leads: gate.passedLeads,
+    report,
+    stats: calculateQualityStats(gate.passedLeads),
+  };
+}
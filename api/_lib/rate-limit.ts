@@ -2,12 +2,15 @@
  * Rate limiting using Supabase Postgres.
  * Uses a fixed-window approach for simplicity.
  * No PII is stored - only hashed session identifiers.
+ *
+ * API key requests are counted per key and route (`api-key:<route>`), with
+ * the route's limits, separate from cookie sessions.
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { createHash } from 'crypto';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getSessionFromRequest } from './auth.js';
+import { getSessionFromRequest, getSessionUser } from './auth.js';
 
 /**
  * Default rate limits by route (requests per hour).
@@ -16,7 +19,11 @@ import { getSessionFromRequest } from './auth.js';
 export const DEFAULT_LIMITS: Record<string, { limit: number; windowSeconds: number }> = {
   generate: { limit: 20, windowSeconds: 3600 },
   status: { limit: 120, windowSeconds: 3600 },
+  estimate: { limit: 120, windowSeconds: 3600 },
+  // Each events stream connection; a watched export reconnects about once a minute
+  events: { limit: 240, windowSeconds: 3600 },
   'signed-url': { limit: 60, windowSeconds: 3600 },
+  'suppression-upload': { limit: 20, windowSeconds: 3600 },
 };
 
 /**
@@ -228,17 +235,19 @@ export async function checkRateLimit(
     return null;
   }
 
-  const sessionToken = getSessionFromRequest(req);
-  if (!sessionToken) {
+  // API keys get their own per-key buckets (resolved by requireSession)
+  const apiKeyId = getSessionUser(req)?.apiKeyId;
+  const subject = apiKeyId ? `api-key:${apiKeyId}` : getSessionFromRequest(req);
+  if (!subject) {
     // No session = no rate limiting (auth will handle this)
     return null;
   }
 
-  const sessionHash = hashSession(sessionToken);
+  const sessionHash = hashSession(subject);
   const config = getRouteLimit(routeKey);
   const result = await enforceRouteLimit({
     sessionHash,
-    routeKey,
+    routeKey: apiKeyId ? `api-key:${routeKey}` : routeKey,
     limit: config.limit,
     windowSeconds: config.windowSeconds,
   });
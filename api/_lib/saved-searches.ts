@@ -0,0 +1,604 @@
+/**
+ * Saved searches and scheduled pulls.
+ *
+ * A saved search is a named lead request (ZIPs, scope, use case, tier, count)
+ * that users pick in the form instead of retyping it. It can carry a schedule:
+ * a 5-field cron expression in UTC (`minute hour day-of-month month
+ * day-of-week`, numbers with `*`, lists, ranges and steps), at most hourly.
+ * The run-saved-searches cron generates an export for every search whose
+ * next_run_at is due, on behalf of the user who saved it, so their credits and
+ * settings apply. Scheduled pulls always use repeat suppression, so a weekly
+ * pull doesn't deliver last week's leads again.
+ *
+ * Exports record the saved search they ran from (lead_exports.saved_search_id).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { LeadScope, QualityTier, UseCase } from './types.js';
+import { validatePayload } from './validation.js';
+import { hasRole, type UserRole } from './users.js';
+
+/** Lookback for scheduled pulls when neither the search nor DEDUPE_WINDOW_DAYS sets one */
+export const DEFAULT_SCHEDULED_DEDUPE_WINDOW_DAYS = 30;
+
+/** Maximum saved search name length */
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 100;
+
+/** Give up looking for a schedule's next run after this many steps (it never fires) */
+const MAX_SCHEDULE_STEPS = 10_000;
+
+/**
+ * Outcome of a search's last scheduled run.
+ * - success: the export finished immediately
+ * - building: the export is building in the background
+ * - error: generation failed (see last_error)
+ */
+export type SavedSearchRunStatus = 'success' | 'building' | 'error';
+
+/**
+ * Saved search record from database.
+ */
+export interface SavedSearch {
+  id: string;
+  workspace_id: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  name: string;
+  lead_request: string;
+  zip_codes: string[];
+  lead_scope: LeadScope;
+  use_case: UseCase;
+  quality_tier: QualityTier;
+  requested_count: number;
+  /** null = DEDUPE_WINDOW_DAYS (scheduled pulls: DEFAULT_SCHEDULED_DEDUPE_WINDOW_DAYS) */
+  dedupe_window_days: number | null;
+  /** Cron expression (UTC); null = not scheduled */
+  schedule: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_status: SavedSearchRunStatus | null;
+  last_export_id: string | null;
+  last_error: string | null;
+}
+
+/**
+ * Saved search as returned by the API.
+ */
+export interface SavedSearchItem {
+  id: string;
+  createdAt: string;
+  createdBy: string | null;
+  name: string;
+  leadRequest: string;
+  zipCodes: string[];
+  leadScope: LeadScope;
+  useCase: UseCase;
+  qualityTier: QualityTier;
+  requestedCount: number;
+  dedupeWindowDays: number | null;
+  schedule: string | null;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: SavedSearchRunStatus | null;
+  lastExportId: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Validated fields of a saved search (create and update).
+ */
+export interface SavedSearchInput {
+  name: string;
+  leadRequest: string;
+  zips: string[];
+  scope: LeadScope;
+  useCase: UseCase;
+  qualityTier: QualityTier;
+  requestedCount: number;
+  dedupeWindowDays: number | null;
+  schedule: string | null;
+}
+
+/**
+ * Parsed cron expression: the allowed values of each field.
+ */
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 = Sunday (7 is accepted and stored as 0) */
+  daysOfWeek: number[];
+  /** Whether day-of-month / day-of-week are restricted: when both are, either may match */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Get Supabase client with service role key.
+ */
+function getSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured (missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Parse one cron field: `*`, `5`, `1-5`, steps such as `0-30/10`, comma lists.
+ * Returns the sorted values, or null if the field is invalid.
+ */
+function parseCronField(field: string, min: number, max: number): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const step = match[4] !== undefined ? parseInt(match[4], 10) : 1;
+    let start = min;
+    let end = max;
+    if (!match[1]) {
+      start = parseInt(match[2], 10);
+      // `5/15` runs from 5 to the end of the range, `5` is just 5
+      end = match[3] !== undefined ? parseInt(match[3], 10) : match[4] !== undefined ? max : start;
+    }
+    if (start < min || end > max || start > end || step < 1) return null;
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a 5-field cron expression. Returns null if it is invalid.
+ */
+export function parseCronSchedule(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: [...new Set(daysOfWeek.map((d) => d % 7))].sort((a, b) => a - b),
+    // As in cron, a field starting with `*` (e.g. `*/2`) doesn't restrict the day
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.includes(date.getUTCDate());
+  const dow = schedule.daysOfWeek.includes(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+  if (schedule.dayOfMonthRestricted) return dom;
+  if (schedule.dayOfWeekRestricted) return dow;
+  return true;
+}
+
+/**
+ * First time strictly after `after` (to the minute, UTC) that the schedule
+ * fires, or null if it never does (e.g. February 31st).
+ */
+export function nextScheduledRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SCHEDULE_STEPS; step++) {
+    if (!schedule.months.includes(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.includes(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.includes(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a schedule from a request: it must be valid, fire at most hourly (a
+ * single minute) and fire at all. Returns its next run, or an error message.
+ */
+export function parseScheduleInput(
+  expression: string,
+  now: Date = new Date()
+): { ok: true; nextRunAt: Date } | { ok: false; error: string } {
+  const schedule = parseCronSchedule(expression);
+  if (!schedule) {
+    return { ok: false, error: 'schedule must be a 5-field cron expression, e.g. "0 13 * * 1" (Mondays 13:00 UTC)' };
+  }
+  if (schedule.minutes.length !== 1) {
+    return { ok: false, error: 'schedule may run at most hourly (use a single minute)' };
+  }
+  const nextRunAt = nextScheduledRun(schedule, now);
+  if (!nextRunAt) {
+    return { ok: false, error: 'schedule never runs' };
+  }
+  return { ok: true, nextRunAt };
+}
+
+/**
+ * Validate a saved search from a request body. The lead request fields are
+ * checked exactly as /api/leads/generate checks them.
+ */
+export function parseSavedSearchInput(
+  body: Record<string, unknown>
+): { ok: true; value: SavedSearchInput } | { ok: false; error: string } {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+    return { ok: false, error: `Missing or invalid name (max ${MAX_SAVED_SEARCH_NAME_LENGTH} characters)` };
+  }
+
+  // Saved searches are ZIP lists; geo targets are expanded before saving
+  const validation = validatePayload({
+    leadRequest: body.leadRequest,
+    zipCodes: Array.isArray(body.zipCodes) ? body.zipCodes.join(',') : body.zipCodes,
+    leadScope: body.leadScope,
+    useCase: body.useCase,
+    qualityTier: body.qualityTier,
+    requestedCount: body.requestedCount,
+    dedupeWindowDays: body.dedupeWindowDays,
+  });
+  if (!validation.ok) {
+    return { ok: false, error: validation.error.message };
+  }
+
+  let schedule: string | null = null;
+  if (body.schedule !== undefined && body.schedule !== null && body.schedule !== '') {
+    if (typeof body.schedule !== 'string') {
+      return { ok: false, error: 'schedule must be a string' };
+    }
+    const parsed = parseScheduleInput(body.schedule);
+    if (!parsed.ok) return parsed;
+    schedule = body.schedule.trim().split(/\s+/).join(' ');
+  }
+
+  const data = validation.data;
+  return {
+    ok: true,
+    value: {
+      name,
+      leadRequest: data.leadRequest,
+      zips: data.zips,
+      scope: data.scope,
+      useCase: data.useCase,
+      qualityTier: data.qualityTier ?? 'balanced',
+      requestedCount: data.requestedCount ?? 200,
+      dedupeWindowDays: data.dedupeWindowDays ?? null,
+      schedule,
+    },
+  };
+}
+
+/**
+ * Whether a user may change or delete a search: its creator, or a manager or
+ * admin (scheduled pulls run as the creator, so reps can't edit others').
+ */
+export function canEditSavedSearch(search: Pick<SavedSearch, 'created_by'>, userId: string, role: UserRole): boolean {
+  return search.created_by === userId || hasRole(role, 'manager');
+}
+
+/**
+ * Transform a saved search row to the API format.
+ */
+export function toSavedSearchItem(search: SavedSearch): SavedSearchItem {
+  return {
+    id: search.id,
+    createdAt: search.created_at,
+    createdBy: search.created_by,
+    name: search.name,
+    leadRequest: search.lead_request,
+    zipCodes: search.zip_codes,
+    leadScope: search.lead_scope,
+    useCase: search.use_case,
+    qualityTier: search.quality_tier,
+    requestedCount: search.requested_count,
+    dedupeWindowDays: search.dedupe_window_days,
+    schedule: search.schedule,
+    nextRunAt: search.next_run_at,
+    lastRunAt: search.last_run_at,
+    lastRunStatus: search.last_run_status,
+    lastExportId: search.last_export_id,
+    lastError: search.last_error,
+  };
+}
+
+/**
+ * Repeat-suppression window of a scheduled pull: the search's own, else
+ * DEDUPE_WINDOW_DAYS, else DEFAULT_SCHEDULED_DEDUPE_WINDOW_DAYS.
+ */
+export function scheduledDedupeWindowDays(search: Pick<SavedSearch, 'dedupe_window_days'>): number {
+  if (search.dedupe_window_days !== null) return search.dedupe_window_days;
+  const env = parseInt(process.env.DEDUPE_WINDOW_DAYS || '', 10);
+  return !isNaN(env) && env > 0 ? env : DEFAULT_SCHEDULED_DEDUPE_WINDOW_DAYS;
+}
+
+/**
+ * /api/leads/generate body for a scheduled pull of the search.
+ */
+export function buildScheduledRequest(search: SavedSearch): Record<string, unknown> {
+  return {
+    leadRequest: search.lead_request,
+    zipCodes: search.zip_codes.join(', '),
+    leadScope: search.lead_scope,
+    useCase: search.use_case,
+    qualityTier: search.quality_tier,
+    requestedCount: search.requested_count,
+    dedupeWindowDays: scheduledDedupeWindowDays(search),
+    savedSearchId: search.id,
+  };
+}
+
+function toRow(input: SavedSearchInput, now: Date): Record<string, unknown> {
+  const schedule = input.schedule ? parseCronSchedule(input.schedule) : null;
+  return {
+    name: input.name,
+    lead_request: input.leadRequest,
+    zip_codes: input.zips,
+    lead_scope: input.scope,
+    use_case: input.useCase,
+    quality_tier: input.qualityTier,
+    requested_count: input.requestedCount,
+    dedupe_window_days: input.dedupeWindowDays,
+    schedule: input.schedule,
+    next_run_at: schedule ? nextScheduledRun(schedule, now)?.toISOString() ?? null : null,
+  };
+}
+
+/**
+ * Save a search. Returns the created record or null on error.
+ */
+export async function createSavedSearch(
+  workspaceId: string,
+  createdBy: string | null,
+  input: SavedSearchInput
+): Promise<SavedSearch | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert({ workspace_id: workspaceId, created_by: createdBy, ...toRow(input, new Date()) })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('Failed to create saved search:', error?.message);
+      return null;
+    }
+
+    return data as SavedSearch;
+  } catch (err) {
+    console.error('Saved search DB error (create):', err);
+    return null;
+  }
+}
+
+/**
+ * Replace a saved search's fields (the next run is recomputed). The editor
+ * becomes the search's owner, so scheduled pulls run and are charged as them.
+ * Returns the updated record, or null if not found in the workspace or on error.
+ */
+export async function updateSavedSearch(
+  workspaceId: string,
+  id: string,
+  input: SavedSearchInput,
+  editedBy: string
+): Promise<SavedSearch | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update({ created_by: editedBy, ...toRow(input, new Date()) })
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to update saved search:', error.message);
+      return null;
+    }
+
+    return (data as SavedSearch | null) ?? null;
+  } catch (err) {
+    console.error('Saved search DB error (update):', err);
+    return null;
+  }
+}
+
+/**
+ * List a workspace's saved searches by name.
+ */
+export async function listSavedSearches(workspaceId: string): Promise<SavedSearch[]> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Failed to list saved searches:', error.message);
+      return [];
+    }
+
+    return (data || []) as SavedSearch[];
+  } catch (err) {
+    console.error('Saved search DB error (list):', err);
+    return [];
+  }
+}
+
+/**
+ * Get a saved search of the workspace.
+ */
+export async function getSavedSearch(workspaceId: string, id: string): Promise<SavedSearch | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to get saved search:', error.message);
+      return null;
+    }
+
+    return (data as SavedSearch | null) ?? null;
+  } catch (err) {
+    console.error('Saved search DB error (get):', err);
+    return null;
+  }
+}
+
+/**
+ * Delete a saved search (its exports keep their data; saved_search_id is cleared).
+ * Returns true if a search was deleted.
+ */
+export async function deleteSavedSearch(workspaceId: string, id: string): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to delete saved search:', error.message);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('Saved search DB error (delete):', err);
+    return false;
+  }
+}
+
+/**
+ * Scheduled searches that are due, across workspaces (oldest first).
+ */
+export async function listDueSavedSearches(limit: number, now: Date = new Date()): Promise<SavedSearch[]> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .not('schedule', 'is', null)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Failed to list due saved searches:', error.message);
+      return [];
+    }
+
+    return (data || []) as SavedSearch[];
+  } catch (err) {
+    console.error('Saved search DB error (listDue):', err);
+    return [];
+  }
+}
+
+/**
+ * Claim a due run by moving next_run_at to the following run. Only succeeds
+ * while next_run_at is unchanged, so overlapping cron runs pull a search once.
+ * A run that was missed entirely (the cron was down) is pulled once, not
+ * once per missed slot.
+ */
+export async function claimSavedSearchRun(search: SavedSearch, now: Date = new Date()): Promise<boolean> {
+  const schedule = search.schedule ? parseCronSchedule(search.schedule) : null;
+  const nextRunAt = schedule ? nextScheduledRun(schedule, now) : null;
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update({ next_run_at: nextRunAt?.toISOString() ?? null })
+      .eq('id', search.id)
+      .eq('next_run_at', search.next_run_at)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to claim saved search run:', error.message);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('Saved search DB error (claim):', err);
+    return false;
+  }
+}
+
+/**
+ * Record the outcome of a scheduled run.
+ */
+export async function recordSavedSearchRun(
+  id: string,
+  status: SavedSearchRunStatus,
+  exportId: string | null,
+  error?: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error: updateError } = await supabase
+      .from('saved_searches')
+      .update({
+        last_run_at: new Date().toISOString(),
+        last_run_status: status,
+        last_export_id: exportId,
+        last_error: error ? error.slice(0, 500) : null,
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      console.error('Failed to record saved search run:', updateError.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Saved search DB error (recordRun):', err);
+    return false;
+  }
+}
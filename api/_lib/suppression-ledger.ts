@@ -0,0 +1,213 @@
+/**
+ * Delivered-lead suppression ledger ("don't sell me the same lead twice").
+ *
+ * Every delivered lead is recorded as SHA-256 fingerprints of its normalized
+ * phones and email - never raw PII. New exports can drop leads whose
+ * fingerprints were delivered within a lookback window. The ledger is kept
+ * per workspace: a lead delivered to one workspace is never a repeat for another.
+ *
+ * Ledger failures never block an export: lookups fail open (nothing dropped)
+ * and recording errors are logged only.
+ */
+
+import { createHash } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Lead } from './types.js';
+import { normalizePhone, normalizeEmail } from './lead-merge.js';
+
+/** Maximum lookback window (days); matches validation.ts. */
+const MAX_DEDUPE_WINDOW_DAYS = 365;
+
+/** Fingerprints per `.in()` query / insert batch (keeps URLs and payloads small). */
+const BATCH_SIZE = 200;
+
+/**
+ * Fingerprint kind (mixed into the hash so a phone never matches an email).
+ */
+export type FingerprintKind = 'phone' | 'email';
+
+/**
+ * Result of dropping previously delivered leads.
+ */
+export interface RepeatSuppressionResult {
+  leads: Lead[];
+  /** Number of leads dropped as repeats */
+  repeatCount: number;
+}
+
+/**
+ * Get Supabase client with service role key.
+ */
+function getSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured (missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Resolve the lookback window: the request value if provided, otherwise
+ * DEDUPE_WINDOW_DAYS from the environment, otherwise 0 (off).
+ */
+export function resolveDedupeWindowDays(requested?: number): number {
+  if (requested !== undefined) return requested;
+  const env = parseInt(process.env.DEDUPE_WINDOW_DAYS || '', 10);
+  if (isNaN(env) || env < 0) return 0;
+  return Math.min(env, MAX_DEDUPE_WINDOW_DAYS);
+}
+
+/**
+ * Hash a normalized value. SUPPRESSION_HASH_SALT (optional) is mixed in so
+ * fingerprints can't be matched against unsalted phone/email hash lists.
+ */
+export function fingerprintValue(kind: FingerprintKind, normalized: string): string {
+  const salt = process.env.SUPPRESSION_HASH_SALT || '';
+  return createHash('sha256').update(`${salt}:${kind}:${normalized}`).digest('hex');
+}
+
+/**
+ * Fingerprints identifying a lead: every normalized phone plus the email.
+ */
+export function getLeadFingerprints(lead: Lead): string[] {
+  const fingerprints = new Set<string>();
+
+  const phones = [lead.best_phone, lead.phone, ...(lead.phones_all || '').split(/[|,;]/)];
+  for (const raw of phones) {
+    const phone = normalizePhone(raw);
+    if (phone) fingerprints.add(fingerprintValue('phone', phone));
+  }
+
+  const email = normalizeEmail(lead.email);
+  if (email) fingerprints.add(fingerprintValue('email', email));
+
+  return [...fingerprints];
+}
+
+/**
+ * Look up which fingerprints were delivered to the workspace since the given date.
+ */
+export async function findDeliveredFingerprints(
+  workspaceId: string,
+  fingerprints: string[],
+  since: Date
+): Promise<Set<string>> {
+  const found = new Set<string>();
+  if (fingerprints.length === 0) return found;
+
+  const supabase = getSupabaseClient();
+  for (let i = 0; i < fingerprints.length; i += BATCH_SIZE) {
+    const chunk = fingerprints.slice(i, i + BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('delivered_lead_fingerprints')
+      .select('fingerprint')
+      .eq('workspace_id', workspaceId)
+      .in('fingerprint', chunk)
+      .gte('delivered_at', since.toISOString());
+
+    if (error) {
+      throw new Error(`Ledger lookup failed: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      found.add((row as { fingerprint: string }).fingerprint);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Drop leads delivered to the workspace within the last `windowDays` days.
+ * A window of 0 disables suppression. Fails open on ledger errors.
+ */
+export async function suppressRepeatLeads(
+  workspaceId: string,
+  leads: Lead[],
+  windowDays: number
+): Promise<RepeatSuppressionResult> {
+  if (windowDays <= 0 || leads.length === 0) {
+    return { leads, repeatCount: 0 };
+  }
+
+  const perLead = leads.map(getLeadFingerprints);
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+  let delivered: Set<string>;
+  try {
+    delivered = await findDeliveredFingerprints(workspaceId, [...new Set(perLead.flat())], since);
+  } catch (err) {
+    console.error('[ledger] Repeat lookup failed, skipping suppression:', err);
+    return { leads, repeatCount: 0 };
+  }
+
+  const kept = leads.filter((_, i) => !perLead[i].some((fp) => delivered.has(fp)));
+  return { leads: kept, repeatCount: leads.length - kept.length };
+}
+
+/**
+ * Record fingerprints for every delivered lead of a workspace's export.
+ */
+export async function recordDeliveredLeads(
+  workspaceId: string,
+  exportId: string,
+  leads: Lead[]
+): Promise<boolean> {
+  return recordDeliveredFingerprints(workspaceId, exportId, leads.flatMap(getLeadFingerprints));
+}
+
+/**
+ * Record already computed fingerprints for an export (approved previews store
+ * theirs on the export until then).
+ */
+export async function recordDeliveredFingerprints(
+  workspaceId: string,
+  exportId: string,
+  fingerprints: string[]
+): Promise<boolean> {
+  const rows = fingerprints.map((fingerprint) => ({ fingerprint, export_id: exportId, workspace_id: workspaceId }));
+  if (rows.length === 0) return true;
+
+  try {
+    const supabase = getSupabaseClient();
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const { error } = await supabase
+        .from('delivered_lead_fingerprints')
+        .insert(rows.slice(i, i + BATCH_SIZE));
+
+      if (error) {
+        console.error('Failed to record delivered leads:', error.message);
+        return false;
+      }
+    }
+    return true;
+  } catch (err) {
+    console.error('Ledger DB error (record):', err);
+    return false;
+  }
+}
+
+/**
+ * Delete fingerprints older than the longest lookback window (called by the
+ * cleanup cron). Returns the count deleted.
+ */
+export async function purgeOldDeliveredLeads(retentionDays: number = MAX_DEDUPE_WINDOW_DAYS): Promise<number> {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.rpc('cleanup_old_delivered_leads', {
+      retention_days: retentionDays,
+    });
+
+    if (error) {
+      console.error('[suppression-ledger] Failed to purge old fingerprints:', error.message);
+      return 0;
+    }
+    return typeof data === 'number' ? data : 0;
+  } catch (err) {
+    console.error('[suppression-ledger] Error (purge):', err);
+    return 0;
+  }
+}
@@ -1,3 +1,5 @@
+import type { IntentPack } from './intent-packs.js';
+
 /**
  * Quality tier for lead targeting.
  * - hot: Maximum conversion focus (high intent only, stricter filters)
@@ -36,6 +38,16 @@ export interface Lead {
   dnc_status: string;
   /** Email validation status if available */
   email_validation_status: string;
+  /** Compliance rule ids that flagged this lead (pipe-separated), set by compliance-rules.ts */
+  compliance_flags?: string;
+  /** 'yes' if a require_consent compliance rule matched */
+  consent_required?: string;
+  /** IANA time zone from ZIP/state (call exports only), set by calling-hours.ts */
+  timezone?: string;
+  /** Local calling window start, 24h "HH:MM" (call exports only) */
+  local_call_window_start?: string;
+  /** Local calling window end, 24h "HH:MM" (call exports only) */
+  local_call_window_end?: string;
 }
 
 export type LeadScope = 'residential' | 'commercial' | 'both';
@@ -48,9 +60,22 @@ export type LeadScope = 'residential' | 'commercial' | 'both';
  */
 export type UseCase = 'call' | 'email' | 'both';
 
+/**
+ * Geo target expanded server-side into a ZIP list (see api/_lib/geo-targeting.ts).
+ * - radius: ZIPs whose centroid is within `radiusMiles` of a ZIP or lat/long
+ * - city: ZIPs in a city/state pair
+ * - county: ZIPs in a 5-digit county FIPS code
+ */
+export type GeoTarget =
+  | { type: 'radius'; center: string | { latitude: number; longitude: number }; radiusMiles: number }
+  | { type: 'city'; city: string; state: string }
+  | { type: 'county'; countyFips: string };
+
 export interface GenerateInput {
   leadRequest: string;
   zips: string[];
+  /** Geo target the ZIP list was expanded from, if any. */
+  geo?: GeoTarget;
   scope: LeadScope;
   useCase?: UseCase;
   /** Minimum match score (0-3) for filtering. */
@@ -59,11 +84,25 @@ export interface GenerateInput {
   requestedCount?: number;
   /** Quality tier for intent targeting and filtering (default: balanced). */
   qualityTier?: QualityTier;
+  /** Provider keys of the requesting workspace. When omitted, keys come from env vars. */
+  credentials?: ProviderCredentials;
+  /** Workspace intent packs, matched before the built-in packs. */
+  intentPacks?: IntentPack[];
+}
+
+/**
+ * Provider keys for one workspace (see workspaces.ts).
+ * A missing key means the provider is not configured for that workspace.
+ */
+export interface ProviderCredentials {
+  audienceLabApiKey?: string;
 }
 
 export interface ValidatedPayload {
   leadRequest: string;
   zips: string[];
+  /** Geo target the ZIP list was expanded from, if any. */
+  geo?: GeoTarget;
   scope: LeadScope;
   useCase: UseCase;
   /** Minimum match score (0-3) for filtering. Default 3 for call useCase. */
@@ -72,6 +111,16 @@ export interface ValidatedPayload {
   requestedCount?: number;
   /** Quality tier for intent targeting and filtering (default: balanced). */
   qualityTier?: QualityTier;
+  /** Blend mode: query every provider in the scope's chain and merge results. */
+  blend?: boolean;
+  /** Drop leads delivered within this many days (0 = off). */
+  dedupeWindowDays?: number;
+  /** Call exports: put leads callable right now at the top of the CSV. */
+  sortCallableNow?: boolean;
+  /** Stage the export and return a masked sample; the CSV is released on approval. */
+  preview?: boolean;
+  /** Saved search the request runs (recorded on the export). */
+  savedSearchId?: string;
 }
 
 export type Json = Record<string, unknown>;
@@ -127,6 +176,10 @@ export class AudienceLabUpstreamError extends Error {
   public readonly endpoint: string;
   public readonly method: string;
   public readonly requestId?: string;
+  /** True when the call was never made because the circuit breaker is open */
+  public readonly circuitOpen: boolean;
+  /** When the circuit is open: seconds until a trial call is allowed */
+  public readonly retryAfterSeconds?: number;
 
   constructor(opts: {
     status: number;
@@ -134,13 +187,19 @@ export class AudienceLabUpstreamError extends Error {
     method: string;
     requestId?: string;
     body?: string;
+    circuitOpen?: boolean;
+    retryAfterSeconds?: number;
   }) {
-    super(`AudienceLab upstream error ${opts.status}`);
+    super(opts.circuitOpen
+      ? 'AudienceLab circuit open - failing fast after repeated upstream errors'
+      : `AudienceLab upstream error ${opts.status}`);
     this.name = 'AudienceLabUpstreamError';
     this.status = opts.status;
     this.endpoint = opts.endpoint;
     this.method = opts.method;
     this.requestId = opts.requestId;
+    this.circuitOpen = opts.circuitOpen ?? false;
+    this.retryAfterSeconds = opts.retryAfterSeconds;
   }
 
   toSafeContext(): Record<string, unknown> {
@@ -150,6 +209,7 @@ export class AudienceLabUpstreamError extends Error {
       endpoint: this.endpoint,
       method: this.method,
       ...(this.requestId ? { requestId: this.requestId } : {}),
+      ...(this.circuitOpen ? { circuit: 'open', retryAfterSeconds: this.retryAfterSeconds } : {}),
     };
   }
 }
@@ -203,8 +263,9 @@ export class AudienceLabContractError extends Error {
 }
 
 /**
- * Typed error for AudienceLab async/job responses.
- * Thrown when API returns a job ID instead of immediate result.
+ * Typed error for AudienceLab async/job responses that can't be polled.
+ * Thrown when the API returns an async response without a job ID, or when
+ * a polled job fails instead of producing an audience.
  */
 export class AudienceLabAsyncError extends Error {
   public readonly code = 'AUDIENCELAB_ASYNC_RESPONSE' as const;
@@ -213,6 +274,9 @@ export class AudienceLabAsyncError extends Error {
   public readonly requestId?: string;
   public readonly jobId?: string;
   public readonly taskId?: string;
+  /** Final job status when a polled job failed */
+  public readonly jobStatus?: string;
+  public readonly upstreamMessage?: string;
   public readonly hint: string;
 
   constructor(opts: {
@@ -221,8 +285,12 @@ export class AudienceLabAsyncError extends Error {
     requestId?: string;
     jobId?: string;
     taskId?: string;
+    jobStatus?: string;
+    upstreamMessage?: string;
   }) {
-    const hint = 'AudienceLab returned an async job response. Polling is not yet implemented.';
+    const hint = opts.jobStatus
+      ? `AudienceLab job ended with status "${opts.jobStatus}" without an audience. Retry the request or check the filters.`
+      : 'AudienceLab returned an async response without a job ID to poll.';
     super(`AudienceLab async response: ${hint}`);
     this.name = 'AudienceLabAsyncError';
     this.endpoint = opts.endpoint;
@@ -230,6 +298,8 @@ export class AudienceLabAsyncError extends Error {
     this.requestId = opts.requestId;
     this.jobId = opts.jobId;
     this.taskId = opts.taskId;
+    this.jobStatus = opts.jobStatus;
+    this.upstreamMessage = opts.upstreamMessage;
     this.hint = hint;
   }
 
@@ -241,13 +311,84 @@ export class AudienceLabAsyncError extends Error {
       ...(this.requestId ? { requestId: this.requestId } : {}),
       ...(this.jobId ? { jobId: this.jobId } : {}),
       ...(this.taskId ? { taskId: this.taskId } : {}),
+      ...(this.jobStatus ? { jobStatus: this.jobStatus } : {}),
+      ...(this.upstreamMessage ? { upstreamMessage: this.upstreamMessage } : {}),
+      hint: this.hint,
+    };
+  }
+}
+
+/**
+ * Typed error for People Data Labs authentication failures (401/403).
+ * Contains sanitized request context (no secrets).
+ */
+export class PDLAuthError extends Error {
+  public readonly code = 'PDL_UNAUTHORIZED' as const;
+  public readonly status: number;
+  public readonly endpoint: string;
+  public readonly method: string;
+  public readonly hint: string;
+
+  constructor(opts: { status: number; endpoint: string; method: string }) {
+    const hint = 'Invalid or revoked PDL_API_KEY, or the key lacks Person Search access.';
+    super(`PDL ${opts.status}: ${hint}`);
+    this.name = 'PDLAuthError';
+    this.status = opts.status;
+    this.endpoint = opts.endpoint;
+    this.method = opts.method;
+    this.hint = hint;
+  }
+
+  /** Returns sanitized context safe for logging/responses (no secrets). */
+  toSafeContext(): Record<string, unknown> {
+    return {
+      code: this.code,
+      status: this.status,
+      endpoint: this.endpoint,
+      method: this.method,
       hint: this.hint,
     };
   }
 }
 
+/**
+ * Typed error for People Data Labs upstream failures (5xx, or status 0 when
+ * the request itself failed).
+ */
+export class PDLUpstreamError extends Error {
+  public readonly code = 'PDL_UPSTREAM_ERROR' as const;
+  public readonly status: number;
+  public readonly endpoint: string;
+  public readonly method: string;
+
+  constructor(opts: { status: number; endpoint: string; method: string }) {
+    super(`PDL upstream error ${opts.status}`);
+    this.name = 'PDLUpstreamError';
+    this.status = opts.status;
+    this.endpoint = opts.endpoint;
+    this.method = opts.method;
+  }
+
+  toSafeContext(): Record<string, unknown> {
+    return {
+      code: this.code,
+      status: this.status,
+      endpoint: this.endpoint,
+      method: this.method,
+    };
+  }
+}
+
 // Provider result types
-export type ProviderErrorCode = 'provider_error' | 'provider_no_results' | 'provider_building';
+/**
+ * provider_blend_building: blend mode got leads from some providers while
+ * another is still building its audience (blends need every answer at once).
+ */
+export type ProviderErrorCode =
+  | 'provider_error'
+  | 'provider_no_results'
+  | 'provider_building'
+  | 'provider_blend_building';
 
 export interface ProviderError {
   code: ProviderErrorCode;
@@ -304,6 +445,20 @@ export interface LeadQualityDiagnostics {
   matchByTier: MatchByTierCounts;
   /** Distribution of all fetched contacts by match score (before filtering) */
   matchScoreDistribution: MatchScoreDistribution;
+  /** Blend mode: duplicates removed when merging providers */
+  duplicatesRemoved?: number;
+  /** Blend mode: per-provider kept and duplicate counts */
+  bySource?: Record<string, SourceMergeCounts>;
+}
+
+/**
+ * Per-provider counts from a blended (multi-provider) merge.
+ */
+export interface SourceMergeCounts {
+  /** Merged records this provider contributed (won the dedupe) */
+  kept: number;
+  /** Records from this provider dropped as duplicates of another record */
+  duplicates: number;
 }
 
 /**
@@ -323,6 +478,10 @@ export interface QualitySummary {
   matchByTier: MatchByTierCounts;
   /** Distribution of all fetched contacts by match score (before filtering) */
   matchScoreDistribution: MatchScoreDistribution;
+  /** Blend mode: duplicates removed when merging providers */
+  duplicatesRemoved?: number;
+  /** Blend mode: per-provider kept and duplicate counts */
+  bySource?: Record<string, SourceMergeCounts>;
 }
 
 /**
@@ -367,6 +526,15 @@ export type ProviderResult =
   | { ok: true; leads: Lead[]; audienceId?: string; requestId?: string; diagnostics?: LeadQualityDiagnostics; fieldCoverage?: FieldCoverage }
   | { ok: false; error: ProviderError };
 
+/**
+ * Result of a free audience-size estimate (no paid audience is created).
+ * `sample` is a representative slice used to project suppression and
+ * quality-gate pass rates onto `available`.
+ */
+export type ProviderEstimate =
+  | { ok: true; available: number; sample: Lead[] }
+  | { ok: false; error: ProviderError };
+
 /**
  * Result when audience is still building (async).
  */
@@ -399,3 +567,26 @@ export class ProviderConfigError extends Error {
     };
   }
 }
+
+/**
+ * Thrown when customer suppression lists exist but can't be checked.
+ * Customer lists carry do-not-contact numbers, so generation fails closed
+ * rather than risk delivering a suppressed lead.
+ */
+export class CustomerSuppressionError extends Error {
+  public readonly code = 'suppression_unavailable' as const;
+  public readonly hint: string;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomerSuppressionError';
+    this.hint = 'Suppression list lookup failed. Retry shortly; leads were not delivered.';
+  }
+
+  toSafeContext(): Record<string, unknown> {
+    return {
+      code: this.code,
+      hint: this.hint,
+    };
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * App user accounts (admin / manager / rep) stored in Supabase.
+ *
+ * Passwords are hashed with scrypt (Node crypto, random per-user salt) and
+ * never leave this module; AppUser records returned to callers omit the hash.
+ * The signed session (api/_lib/auth.ts) carries the user id, role and workspace.
+ * Each user belongs to exactly one workspace; emails are unique across all of them.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { randomBytes, scrypt as scryptCb, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+/**
+ * Roles, most to least privileged.
+ * - admin: manage users and everything below
+ * - manager: manage suppression lists and everything below
+ * - rep: generate leads and download exports
+ */
+export type UserRole = 'admin' | 'manager' | 'rep';
+
+export const USER_ROLES: readonly UserRole[] = ['admin', 'manager', 'rep'];
+
+/** Minimum accepted password length. */
+export const MIN_PASSWORD_LENGTH = 12;
+
+const ROLE_RANK: Record<UserRole, number> = { admin: 3, manager: 2, rep: 1 };
+
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_OPTIONS: ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+/**
+ * User record (no password hash).
+ */
+export interface AppUser {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  disabled: boolean;
+  /** Personal monthly lead-credit cap; null = only the workspace limit applies */
+  monthly_lead_credits: number | null;
+}
+
+/**
+ * User as returned by the API (camelCase, no password hash).
+ */
+export interface UserListItem {
+  id: string;
+  createdAt: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  disabled: boolean;
+  monthlyLeadCredits: number | null;
+}
+
+interface AppUserRow extends AppUser {
+  password_hash: string;
+}
+
+/**
+ * Input for creating a user.
+ */
+export interface CreateUserInput {
+  workspaceId: string;
+  email: string;
+  password: string;
+  role: UserRole;
+  name?: string;
+}
+
+/**
+ * Fields an admin can change on a user.
+ */
+export interface UpdateUserInput {
+  role?: UserRole;
+  disabled?: boolean;
+  password?: string;
+  name?: string;
+  monthlyLeadCredits?: number | null;
+}
+
+const USER_COLUMNS = 'id, created_at, workspace_id, email, name, role, disabled, monthly_lead_credits';
+
+/**
+ * Get Supabase client with service role key.
+ */
+function getSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured (missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scryptCb(password, salt, SCRYPT_KEY_LENGTH, SCRYPT_OPTIONS, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Transform a user record to API response format.
+ */
+export function toUserListItem(user: AppUser): UserListItem {
+  return {
+    id: user.id,
+    createdAt: user.created_at,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    disabled: user.disabled,
+    monthlyLeadCredits: user.monthly_lead_credits,
+  };
+}
+
+/**
+ * True if `role` is at least as privileged as `required`.
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Type guard for role strings from requests and session payloads.
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalize an email for storage and lookup.
+ */
+export function normalizeUserEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Hash a password as `scrypt$<salt>$<hash>` (base64url).
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scrypt(password, salt);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+/**
+ * Check a password against a stored hash (timing-safe).
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, hashB64] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashB64, 'base64url');
+  const actual = await scrypt(password, Buffer.from(saltB64, 'base64url'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Compared against when the email is unknown, so response time doesn't reveal which emails exist
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Verify email + password.
+ * Returns the user on success; null for unknown, disabled or wrong credentials.
+ * Throws if the user store is unavailable.
+ */
+export async function authenticateUser(email: string, password: string): Promise<AppUser | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('app_users')
+    .select(`${USER_COLUMNS}, password_hash`)
+    .eq('email', normalizeUserEmail(email))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`User lookup failed: ${error.message}`);
+  }
+
+  const row = data as AppUserRow | null;
+  if (!row) {
+    dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+
+  const valid = await verifyPassword(password, row.password_hash);
+  if (!valid || row.disabled) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    workspace_id: row.workspace_id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    disabled: row.disabled,
+    monthly_lead_credits: row.monthly_lead_credits,
+  };
+}
+
+/**
+ * Find a user by email. Returns null if not found or on error.
+ */
+export async function findUserByEmail(email: string): Promise<AppUser | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('app_users')
+      .select(USER_COLUMNS)
+      .eq('email', normalizeUserEmail(email))
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to find user:', error.message);
+      return null;
+    }
+
+    return (data as AppUser | null) ?? null;
+  } catch (err) {
+    console.error('User DB error (find):', err);
+    return null;
+  }
+}
+
+/**
+ * Get a user of the workspace by id. Returns null if not found or on error.
+ */
+export async function getUser(workspaceId: string, id: string): Promise<AppUser | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('app_users')
+      .select(USER_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to get user:', error.message);
+      return null;
+    }
+
+    return (data as AppUser | null) ?? null;
+  } catch (err) {
+    console.error('User DB error (get):', err);
+    return null;
+  }
+}
+
+/**
+ * Create a user. Returns the created user, or null on failure.
+ */
+export async function createUser(input: CreateUserInput): Promise<AppUser | null> {
+  try {
+    const supabase = getSupabaseClient();
+    const passwordHash = await hashPassword(input.password);
+
+    const { data, error } = await supabase
+      .from('app_users')
+      .insert({
+        workspace_id: input.workspaceId,
+        email: normalizeUserEmail(input.email),
+        name: input.name?.trim() || null,
+        role: input.role,
+        password_hash: passwordHash,
+      })
+      .select(USER_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Failed to create user:', error.message);
+      return null;
+    }
+
+    return data as AppUser;
+  } catch (err) {
+    console.error('User DB error (create):', err);
+    return null;
+  }
+}
+
+/**
+ * List a workspace's users, newest first.
+ */
+export async function listUsers(workspaceId: string): Promise<AppUser[]> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('app_users')
+      .select(USER_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to list users:', error.message);
+      return [];
+    }
+
+    return (data || []) as AppUser[];
+  } catch (err) {
+    console.error('User DB error (list):', err);
+    return [];
+  }
+}
+
+/**
+ * Update a user's role, disabled flag, name, password or monthly credit cap.
+ * Returns the updated user, or null if not found in the workspace or on error.
+ */
+export async function updateUser(
+  workspaceId: string,
+  id: string,
+  input: UpdateUserInput
+): Promise<AppUser | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const updates: Record<string, unknown> = {};
+    if (input.role !== undefined) updates.role = input.role;
+    if (input.disabled !== undefined) updates.disabled = input.disabled;
+    if (input.name !== undefined) updates.name = input.name.trim() || null;
+    if (input.password !== undefined) updates.password_hash = await hashPassword(input.password);
+    if (input.monthlyLeadCredits !== undefined) updates.monthly_lead_credits = input.monthlyLeadCredits;
+
+    const { data, error } = await supabase
+      .from('app_users')
+      .update(updates)
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .select(USER_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to update user:', error.message);
+      return null;
+    }
+
+    return (data as AppUser | null) ?? null;
+  } catch (err) {
+    console.error('User DB error (update):', err);
+    return null;
+  }
+}
@@ -1,7 +1,12 @@
-import type { LeadScope, UseCase, ValidatedPayload } from './types';
+import type { GeoTarget, LeadScope, QualityTier, UseCase, ValidatedPayload } from './types';
+import { isKnownZip } from './zip-data.js';
+import { parseGeoTarget, expandGeoTarget } from './geo-targeting.js';
 
 const SCOPE_VALUES: LeadScope[] = ['residential', 'commercial', 'both'];
 const USE_CASE_VALUES: UseCase[] = ['call', 'email', 'both'];
+const QUALITY_TIER_VALUES: QualityTier[] = ['hot', 'balanced', 'scale'];
+/** Maximum repeat-suppression lookback window (days). */
+const MAX_DEDUPE_WINDOW_DAYS = 365;
 
 export function parseZipCodes(raw: string): string[] {
   const parts = raw.split(/[\s,]+/).map((p) => p.trim()).filter(Boolean);
@@ -47,16 +52,50 @@ export function validatePayload(body: Record<string, unknown>):
     };
   }
 
-  const zips = parseZipCodes(zipCodesRaw);
-  if (zips.length < 1 || zips.length > 200) {
-    return {
-      ok: false,
-      error: {
-        code: 'invalid_zip_codes',
-        message: 'Provide 1-200 valid ZIP codes (5 digits).',
-        details: { count: zips.length },
-      },
-    };
+  // Geo target (radius, city/state, county) expands into the ZIP list;
+  // otherwise zipCodes is required.
+  let zips: string[];
+  let geo: GeoTarget | undefined;
+  if (body.geo !== undefined && body.geo !== null) {
+    if (zipCodesRaw.trim()) {
+      return {
+        ok: false,
+        error: {
+          code: 'invalid_geo_target',
+          message: 'Provide either zipCodes or geo, not both.',
+        },
+      };
+    }
+    const parsed = parseGeoTarget(body.geo);
+    if (!parsed.ok) return parsed;
+    const expanded = expandGeoTarget(parsed.value);
+    if (!expanded.ok) return expanded;
+    geo = parsed.value;
+    zips = expanded.value;
+  } else {
+    zips = parseZipCodes(zipCodesRaw);
+    if (zips.length < 1 || zips.length > 200) {
+      return {
+        ok: false,
+        error: {
+          code: 'invalid_zip_codes',
+          message: 'Provide 1-200 valid ZIP codes (5 digits).',
+          details: { count: zips.length },
+        },
+      };
+    }
+
+    const unknownZips = zips.filter((zip) => !isKnownZip(zip));
+    if (unknownZips.length > 0) {
+      return {
+        ok: false,
+        error: {
+          code: 'unknown_zip_codes',
+          message: 'Some ZIP codes do not exist.',
+          details: { unknownZips: unknownZips.slice(0, 20), count: unknownZips.length },
+        },
+      };
+    }
   }
 
   if (!SCOPE_VALUES.includes(leadScopeRaw as LeadScope)) {
@@ -114,15 +153,106 @@ export function validatePayload(body: Record<string, unknown>):
     requestedCount = num;
   }
 
+  // Parse qualityTier (optional, default applied downstream as 'balanced')
+  const qualityTierRaw = typeof body.qualityTier === 'string' ? body.qualityTier.toLowerCase().trim() : '';
+  if (qualityTierRaw && !QUALITY_TIER_VALUES.includes(qualityTierRaw as QualityTier)) {
+    return {
+      ok: false,
+      error: {
+        code: 'invalid_quality_tier',
+        message: 'qualityTier must be one of: hot|balanced|scale.',
+        details: { received: qualityTierRaw },
+      },
+    };
+  }
+
+  // Parse blend (optional boolean, default false)
+  if (body.blend !== undefined && body.blend !== null && typeof body.blend !== 'boolean') {
+    return {
+      ok: false,
+      error: {
+        code: 'invalid_blend',
+        message: 'blend must be a boolean.',
+        details: { received: body.blend },
+      },
+    };
+  }
+
+  // Parse sortCallableNow (optional boolean, default false; only affects call exports)
+  if (body.sortCallableNow !== undefined && body.sortCallableNow !== null && typeof body.sortCallableNow !== 'boolean') {
+    return {
+      ok: false,
+      error: {
+        code: 'invalid_sort_callable_now',
+        message: 'sortCallableNow must be a boolean.',
+        details: { received: body.sortCallableNow },
+      },
+    };
+  }
+
+  // Parse preview (optional boolean, default false)
+  if (body.preview !== undefined && body.preview !== null && typeof body.preview !== 'boolean') {
+    return {
+      ok: false,
+      error: {
+        code: 'invalid_preview',
+        message: 'preview must be a boolean.',
+        details: { received: body.preview },
+      },
+    };
+  }
+
+  // Parse dedupeWindowDays (optional, 0 = off; default applied downstream from env)
+  const dedupeWindowRaw = body.dedupeWindowDays;
+  let dedupeWindowDays: number | undefined = undefined;
+  if (dedupeWindowRaw !== undefined && dedupeWindowRaw !== null && dedupeWindowRaw !== '') {
+    const num = typeof dedupeWindowRaw === 'number' ? dedupeWindowRaw : parseInt(String(dedupeWindowRaw), 10);
+    if (!Number.isInteger(num) || num < 0 || num > MAX_DEDUPE_WINDOW_DAYS) {
+      return {
+        ok: false,
+        error: {
+          code: 'invalid_dedupe_window',
+          message: `dedupeWindowDays must be a whole number between 0 and ${MAX_DEDUPE_WINDOW_DAYS}.`,
+          details: { received: dedupeWindowRaw },
+        },
+      };
+    }
+    dedupeWindowDays = num;
+  }
+
+  // Parse savedSearchId (optional; generate checks it belongs to the workspace)
+  const savedSearchIdRaw = body.savedSearchId;
+  let savedSearchId: string | undefined = undefined;
+  if (savedSearchIdRaw !== undefined && savedSearchIdRaw !== null && savedSearchIdRaw !== '') {
+    if (typeof savedSearchIdRaw !== 'string' || !savedSearchIdRaw.trim()) {
+      return {
+        ok: false,
+        error: {
+          code: 'invalid_saved_search',
+          message: 'savedSearchId must be a string.',
+          details: { received: savedSearchIdRaw },
+        },
+      };
+    }
+    savedSearchId = savedSearchIdRaw.trim();
+  }
+
   return {
     ok: true,
     data: { 
       leadRequest, 
       zips, 
+      geo,
       scope: leadScopeRaw as LeadScope, 
       useCase: useCaseRaw as UseCase,
       minMatchScore,
       requestedCount,
+      qualityTier: qualityTierRaw ? qualityTierRaw as QualityTier : undefined,
+      blend: body.blend === true,
+      dedupeWindowDays,
+      sortCallableNow: body.sortCallableNow === true,
+      preview: body.preview === true,
+      savedSearchId,
     },
   };
 }
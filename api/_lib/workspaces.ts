@@ -0,0 +1,345 @@
+/**
+ * Workspaces: isolated tenants (one per client we pull leads for).
+ *
+ * Each workspace has its own exports (lead_exports.workspace_id plus a folder
+ * in the `exports` bucket), users, API keys, suppression lists and delivered-lead
+ * ledger, and its own call suppression states, intent packs and AudienceLab key.
+ * Every query on those tables is scoped by workspace id.
+ *
+ * The default workspace (Migration 014 moves existing data into it) falls back
+ * to the environment for anything it doesn't set - AUDIENCELAB_API_KEY,
+ * CALL_SUPPRESS_STATES / COMPLIANCE_RULES - so single-tenant deployments keep
+ * working. Other workspaces never use the shared AudienceLab key.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { ProviderCredentials } from './types.js';
+import type { IntentPack } from './intent-packs.js';
+import { getComplianceRuleSet, type ComplianceRuleSet } from './compliance-rules.js';
+
+/** Workspace that pre-existing data is assigned to (Migration 014). */
+export const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000001';
+
+/** Maximum custom intent packs per workspace. */
+export const MAX_WORKSPACE_INTENT_PACKS = 20;
+
+/**
+ * Workspace record from database (includes the AudienceLab key - server only).
+ */
+export interface Workspace {
+  id: string;
+  created_at: string;
+  name: string;
+  slug: string;
+  /** Folder in the exports bucket holding this workspace's CSVs */
+  storage_prefix: string;
+  /** States suppressed for call exports; null = environment default */
+  suppress_states: string[] | null;
+  /** Custom intent packs, matched before the built-in packs */
+  intent_packs: IntentPack[] | null;
+  /** AudienceLab key; null = not set (default workspace: AUDIENCELAB_API_KEY) */
+  audiencelab_api_key: string | null;
+  /** Leads the workspace may pull per calendar month; null = unlimited */
+  monthly_lead_credits: number | null;
+}
+
+/**
+ * Workspace settings as returned by the API (camelCase, key never returned).
+ */
+export interface WorkspaceSettings {
+  id: string;
+  name: string;
+  slug: string;
+  storagePrefix: string;
+  suppressStates: string[] | null;
+  intentPacks: IntentPack[] | null;
+  hasAudienceLabKey: boolean;
+  monthlyLeadCredits: number | null;
+}
+
+/**
+ * Settings an admin can change. `null` clears a setting.
+ */
+export interface UpdateWorkspaceInput {
+  name?: string;
+  suppressStates?: string[] | null;
+  intentPacks?: IntentPack[] | null;
+  audienceLabApiKey?: string | null;
+  monthlyLeadCredits?: number | null;
+}
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+/**
+ * Get Supabase client with service role key.
+ */
+function getSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Supabase not configured (missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, serviceKey);
+}
+
+/**
+ * Default workspace used when Supabase isn't configured (local dev, tests):
+ * everything comes from the environment.
+ */
+function builtInDefaultWorkspace(): Workspace {
+  return {
+    id: DEFAULT_WORKSPACE_ID,
+    created_at: new Date(0).toISOString(),
+    name: 'Default',
+    slug: 'default',
+    storage_prefix: 'default',
+    suppress_states: null,
+    intent_packs: null,
+    audiencelab_api_key: null,
+    monthly_lead_credits: null,
+  };
+}
+
+/**
+ * True if the string is a valid workspace slug (lowercase letters, digits, dashes).
+ */
+export function isWorkspaceSlug(value: unknown): value is string {
+  return typeof value === 'string' && SLUG_PATTERN.test(value);
+}
+
+/**
+ * Validate and normalize a suppression state list (two-letter codes, uppercased).
+ * Returns null if invalid.
+ */
+export function parseSuppressStates(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const states = value.map((v) => (typeof v === 'string' ? v.trim().toUpperCase() : ''));
+  if (states.some((s) => !/^[A-Z]{2}$/.test(s))) return null;
+  return [...new Set(states)];
+}
+
+/**
+ * Validate custom intent packs. Returns null if invalid.
+ */
+export function parseIntentPacks(value: unknown): IntentPack[] | null {
+  if (!Array.isArray(value) || value.length > MAX_WORKSPACE_INTENT_PACKS) return null;
+
+  const isStringList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.length > 0 && list.every((v) => typeof v === 'string' && v.trim().length > 0);
+
+  const packs: IntentPack[] = [];
+  for (const raw of value) {
+    const pack = raw as Partial<IntentPack> | null;
+    if (
+      !pack ||
+      typeof pack.id !== 'string' || !pack.id.trim() ||
+      typeof pack.name !== 'string' || !pack.name.trim() ||
+      !isStringList(pack.keywords) ||
+      !isStringList(pack.matchPatterns)
+    ) {
+      return null;
+    }
+    packs.push({
+      id: pack.id.trim(),
+      name: pack.name.trim(),
+      keywords: pack.keywords.map((k) => k.trim()),
+      matchPatterns: pack.matchPatterns.map((p) => p.trim().toLowerCase()),
+    });
+  }
+  return packs;
+}
+
+/**
+ * Transform a workspace record to API response format.
+ */
+export function toWorkspaceSettings(workspace: Workspace): WorkspaceSettings {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    slug: workspace.slug,
+    storagePrefix: workspace.storage_prefix,
+    suppressStates: workspace.suppress_states,
+    intentPacks: workspace.intent_packs,
+    hasAudienceLabKey: Boolean(
+      workspace.audiencelab_api_key || (workspace.id === DEFAULT_WORKSPACE_ID && process.env.AUDIENCELAB_API_KEY)
+    ),
+    monthlyLeadCredits: workspace.monthly_lead_credits,
+  };
+}
+
+/**
+ * Provider keys for a workspace, passed to providers as GenerateInput.credentials.
+ * Returns undefined for the default workspace without its own key, so the
+ * providers use AUDIENCELAB_API_KEY; other workspaces never fall back to it.
+ */
+export function getWorkspaceCredentials(workspace: Workspace): ProviderCredentials | undefined {
+  if (!workspace.audiencelab_api_key && workspace.id === DEFAULT_WORKSPACE_ID) {
+    return undefined;
+  }
+  return { audienceLabApiKey: workspace.audiencelab_api_key ?? undefined };
+}
+
+/**
+ * Compliance rule set for a workspace.
+ * Throws ConfigError if COMPLIANCE_RULES is malformed and the workspace relies on it.
+ */
+export function getWorkspaceComplianceRuleSet(workspace: Workspace): ComplianceRuleSet {
+  return getComplianceRuleSet(workspace.suppress_states);
+}
+
+/**
+ * Storage path for a new export CSV: `<storage prefix>/<YYYY-MM-DD>/<ts>-<rand>.csv`.
+ */
+export function buildExportPath(workspace: Workspace, now: Date = new Date()): string {
+  const yyyy = now.getFullYear();
+  const mm = String(now.getMonth() + 1).padStart(2, '0');
+  const dd = String(now.getDate()).padStart(2, '0');
+  const rand = Math.random().toString(36).slice(2, 8);
+  return `${workspace.storage_prefix}/${yyyy}-${mm}-${dd}/${now.getTime()}-${rand}.csv`;
+}
+
+/**
+ * Get a workspace by id. Returns null if not found or on error.
+ * Without Supabase, only the (environment-backed) default workspace exists.
+ */
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  if (!supabaseUrl || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return id === DEFAULT_WORKSPACE_ID ? builtInDefaultWorkspace() : null;
+  }
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to get workspace:', error.message);
+      return null;
+    }
+
+    return (data as Workspace | null) ?? null;
+  } catch (err) {
+    console.error('Workspace DB error (get):', err);
+    return null;
+  }
+}
+
+/**
+ * Get a workspace by slug. Returns null if not found or on error.
+ */
+export async function getWorkspaceBySlug(slug: string): Promise<Workspace | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to get workspace by slug:', error.message);
+      return null;
+    }
+
+    return (data as Workspace | null) ?? null;
+  } catch (err) {
+    console.error('Workspace DB error (get by slug):', err);
+    return null;
+  }
+}
+
+/**
+ * List all workspaces, oldest first (used by the cron jobs).
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to list workspaces:', error.message);
+      return [];
+    }
+
+    return (data || []) as Workspace[];
+  } catch (err) {
+    console.error('Workspace DB error (list):', err);
+    return [];
+  }
+}
+
+/**
+ * Create a workspace. The storage prefix is the slug.
+ * Returns the created workspace, or null on failure (e.g. duplicate slug).
+ */
+export async function createWorkspace(input: { name: string; slug: string }): Promise<Workspace | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .insert({
+        name: input.name.trim(),
+        slug: input.slug,
+        storage_prefix: input.slug,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Failed to create workspace:', error.message);
+      return null;
+    }
+
+    return data as Workspace;
+  } catch (err) {
+    console.error('Workspace DB error (create):', err);
+    return null;
+  }
+}
+
+/**
+ * Update a workspace's name, suppression states, intent packs, AudienceLab key or credit limit.
+ * Returns the updated workspace, or null if not found or on error.
+ */
+export async function updateWorkspace(id: string, input: UpdateWorkspaceInput): Promise<Workspace | null> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const updates: Record<string, unknown> = {};
+    if (input.name !== undefined) updates.name = input.name.trim();
+    if (input.suppressStates !== undefined) updates.suppress_states = input.suppressStates;
+    if (input.intentPacks !== undefined) updates.intent_packs = input.intentPacks;
+    if (input.audienceLabApiKey !== undefined) updates.audiencelab_api_key = input.audienceLabApiKey?.trim() || null;
+    if (input.monthlyLeadCredits !== undefined) updates.monthly_lead_credits = input.monthlyLeadCredits;
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .update(updates)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to update workspace:', error.message);
+      return null;
+    }
+
+    return (data as Workspace | null) ?? null;
+  } catch (err) {
+    console.error('Workspace DB error (update):', err);
+    return null;
+  }
+}
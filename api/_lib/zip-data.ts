@@ -0,0 +1,220 @@
+/**
+ * US ZIP code reference lookups.
+ *
+ * Backed by the bundled GeoNames dataset in ./data/us-zips.ts (regenerate with
+ * scripts/build-zip-data.ts). Works offline: ZIP -> city, state, county (name
+ * and 5-digit FIPS), latitude/longitude and IANA time zone.
+ *
+ * The dataset is parsed lazily on first lookup and cached for the lifetime of
+ * the function instance.
+ */
+
+import type { Lead } from './types.js';
+import { US_ZIP_DATA } from './data/us-zips.js';
+
+/**
+ * Reference record for one ZIP code.
+ * Military (APO/FPO) ZIPs have an empty state, county and countyFips.
+ */
+export interface ZipInfo {
+  zip: string;
+  city: string;
+  state: string;
+  county: string;
+  countyFips: string;
+  latitude: number;
+  longitude: number;
+  timezone?: string;
+}
+
+/**
+ * Result of backfilling lead locations from the ZIP dataset.
+ */
+export interface LocationBackfillResult {
+  leads: Lead[];
+  backfilledCount: number;
+}
+
+/**
+ * State FIPS codes, used to build 5-digit county FIPS from GeoNames' 3-digit codes.
+ */
+const STATE_FIPS: Record<string, string> = {
+  AL: '01', AK: '02', AZ: '04', AR: '05', CA: '06', CO: '08', CT: '09', DE: '10',
+  DC: '11', FL: '12', GA: '13', HI: '15', ID: '16', IL: '17', IN: '18', IA: '19',
+  KS: '20', KY: '21', LA: '22', ME: '23', MD: '24', MA: '25', MI: '26', MN: '27',
+  MS: '28', MO: '29', MT: '30', NE: '31', NV: '32', NH: '33', NJ: '34', NM: '35',
+  NY: '36', NC: '37', ND: '38', OH: '39', OK: '40', OR: '41', PA: '42', RI: '44',
+  SC: '45', SD: '46', TN: '47', TX: '48', UT: '49', VT: '50', VA: '51', WA: '53',
+  WV: '54', WI: '55', WY: '56', AS: '60', GU: '66', MP: '69', PR: '72', VI: '78',
+};
+
+/**
+ * Primary time zone per state (used when the ZIP isn't in a split region).
+ */
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver', PR: 'America/Puerto_Rico',
+  VI: 'America/St_Thomas', GU: 'Pacific/Guam', MP: 'Pacific/Saipan', AS: 'Pacific/Pago_Pago',
+  MH: 'Pacific/Majuro',
+};
+
+/**
+ * ZIP3 prefixes in states split across time zones whose zone differs from
+ * the state's primary zone.
+ */
+const ZIP3_TIMEZONE_OVERRIDES: Record<string, string> = {
+  // Florida panhandle (Pensacola, Panama City)
+  '324': 'America/Chicago',
+  '325': 'America/Chicago',
+  // East Tennessee (Chattanooga, Johnson City, Knoxville)
+  '373': 'America/New_York',
+  '374': 'America/New_York',
+  '376': 'America/New_York',
+  '377': 'America/New_York',
+  '378': 'America/New_York',
+  '379': 'America/New_York',
+  // Western Kentucky (Paducah, Bowling Green)
+  '420': 'America/Chicago',
+  '421': 'America/Chicago',
+  '422': 'America/Chicago',
+  // Northwest and southwest Indiana (Gary, Evansville)
+  '463': 'America/Chicago',
+  '464': 'America/Chicago',
+  '476': 'America/Chicago',
+  '477': 'America/Chicago',
+  // Southwest North Dakota (Dickinson)
+  '586': 'America/Denver',
+  // Western South Dakota (Rapid City)
+  '577': 'America/Denver',
+  // Western Nebraska (North Platte, Scottsbluff, Alliance)
+  '691': 'America/Denver',
+  '693': 'America/Denver',
+  // West Texas (El Paso)
+  '798': 'America/Denver',
+  '799': 'America/Denver',
+  // North Idaho (Coeur d'Alene, Lewiston)
+  '835': 'America/Los_Angeles',
+  '838': 'America/Los_Angeles',
+  // Eastern Oregon (Ontario)
+  '979': 'America/Boise',
+};
+
+/**
+ * ZIP codes on Central time in Michigan's Upper Peninsula (Gogebic, Iron,
+ * Dickinson and Menominee counties), whose ZIP3 prefixes are mostly Eastern.
+ */
+const CENTRAL_MICHIGAN_ZIPS = [
+  // Dickinson (Iron Mountain)
+  '49801', '49802', '49815', '49831', '49834', '49852', '49870', '49876', '49877', '49881', '49892',
+  // Menominee
+  '49812', '49821', '49845', '49847', '49848', '49858', '49863', '49873', '49874', '49886', '49887',
+  '49893', '49896',
+  // Iron (Iron River, Crystal Falls)
+  '49902', '49903', '49915', '49920', '49927', '49935', '49964',
+  // Gogebic (Ironwood)
+  '49911', '49938', '49947', '49959', '49968', '49969',
+];
+
+/**
+ * ZIP codes whose zone differs from their ZIP3 prefix's (or state's) zone.
+ */
+const ZIP5_TIMEZONE_OVERRIDES: Record<string, string> = Object.fromEntries(
+  CENTRAL_MICHIGAN_ZIPS.map((zip) => [zip, 'America/Menominee'])
+);
+
+let zipIndex: Map<string, ZipInfo> | null = null;
+
+/**
+ * Parse the bundled dataset into a ZIP -> record map (once).
+ */
+function getZipIndex(): Map<string, ZipInfo> {
+  if (zipIndex) return zipIndex;
+
+  const index = new Map<string, ZipInfo>();
+  for (const line of US_ZIP_DATA.split('\n')) {
+    const [zip, city, state, countyCode, county, lat, lng] = line.split('|');
+    if (!zip) continue;
+    const stateFips = STATE_FIPS[state];
+    index.set(zip, {
+      zip,
+      city,
+      state,
+      county,
+      countyFips: stateFips && countyCode ? `${stateFips}${countyCode}` : '',
+      latitude: Number(lat),
+      longitude: Number(lng),
+      timezone: resolveTimezone(zip, state),
+    });
+  }
+
+  zipIndex = index;
+  return index;
+}
+
+/**
+ * Resolve an IANA time zone from a ZIP code, then its prefix, then a state.
+ * Returns undefined when none is known.
+ */
+export function resolveTimezone(zip: string | undefined, state: string | undefined): string | undefined {
+  const zip5 = (zip || '').trim().slice(0, 5);
+  return ZIP5_TIMEZONE_OVERRIDES[zip5]
+    ?? ZIP3_TIMEZONE_OVERRIDES[zip5.slice(0, 3)]
+    ?? STATE_TIMEZONES[(state || '').toUpperCase().trim()];
+}
+
+/**
+ * Look up a ZIP code (5 digits; ZIP+4 is accepted and truncated).
+ * Returns null if the ZIP isn't in the dataset.
+ */
+export function lookupZip(zip: string): ZipInfo | null {
+  const zip5 = (zip || '').trim().slice(0, 5);
+  return getZipIndex().get(zip5) ?? null;
+}
+
+/**
+ * True if the ZIP exists in the reference dataset.
+ */
+export function isKnownZip(zip: string): boolean {
+  return lookupZip(zip) !== null;
+}
+
+/**
+ * All ZIP records in the dataset, sorted by ZIP.
+ */
+export function getAllZips(): ZipInfo[] {
+  return [...getZipIndex().values()];
+}
+
+/**
+ * Fill in missing city/state on leads from their ZIP.
+ * Existing values are never overwritten; leads with unknown ZIPs pass through.
+ */
+export function backfillLeadLocations(leads: Lead[]): LocationBackfillResult {
+  let backfilledCount = 0;
+
+  const backfilled = leads.map((lead) => {
+    if (lead.city && lead.state) return lead;
+    const info = lookupZip(lead.zip);
+    if (!info || !info.state) return lead;
+
+    backfilledCount++;
+    return {
+      ...lead,
+      city: lead.city || info.city,
+      state: lead.state || info.state,
+    };
+  });
+
+  return { leads: backfilled, backfilledCount };
+}
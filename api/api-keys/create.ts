@@ -0,0 +1,147 @@
+/**
+ * @file api/api-keys/create.ts
+ * @description POST endpoint to issue an API key for the admin's workspace (admin only).
+ *              The plaintext key is returned once; only its SHA-256 hash is stored.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import { createApiKey, isApiKeyScope, API_KEY_SCOPES, type ApiKeyScope } from '../_lib/api-keys.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface CreateApiKeyRequest {
+  name: string;
+  scopes: string[];
+}
+
+interface CreateApiKeyResponse {
+  ok: true;
+  apiKey: {
+    id: string;
+    createdAt: string;
+    name: string;
+    keyPrefix: string;
+    scopes: ApiKeyScope[];
+  };
+  /** Plaintext key - shown only once */
+  key: string;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                CONSTANTS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Maximum key name length */
+const MAX_NAME_LENGTH = 100;
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (admin only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'admin' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<CreateApiKeyRequest> | undefined;
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: `Missing or invalid name (max ${MAX_NAME_LENGTH} characters)`,
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const scopes = Array.isArray(body?.scopes) ? body.scopes : [];
+  if (scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`,
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Issue key
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const created = await createApiKey({
+      workspaceId: getWorkspaceId(req),
+      name,
+      scopes: [...new Set(scopes)],
+      createdBy: getSessionUser(req)?.userId,
+    });
+
+    if (!created) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Failed to create API key',
+        code: 'INTERNAL_ERROR',
+      };
+      res.status(500).json(errorResp);
+      return;
+    }
+
+    const { apiKey, key } = created;
+
+    console.log(JSON.stringify({
+      event: 'api_key_created',
+      ts: new Date().toISOString(),
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+    }));
+
+    const response: CreateApiKeyResponse = {
+      ok: true,
+      apiKey: {
+        id: apiKey.id,
+        createdAt: apiKey.created_at,
+        name: apiKey.name,
+        keyPrefix: apiKey.key_prefix,
+        scopes: apiKey.scopes,
+      },
+      key,
+    };
+    res.status(201).json(response);
+  } catch (err) {
+    console.error('[api-keys/create] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
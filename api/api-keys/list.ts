@@ -0,0 +1,103 @@
+/**
+ * @file api/api-keys/list.ts
+ * @description GET endpoint to list the workspace's API keys (admin only). Returns prefixes and metadata,
+ *              never key hashes or plaintext.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { listApiKeys, type ApiKey } from '../_lib/api-keys.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface ApiKeyListItem {
+  id: string;
+  createdAt: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  createdBy: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+interface ListApiKeysResponse {
+  ok: true;
+  apiKeys: ApiKeyListItem[];
+  total: number;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HELPERS                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Transform database row to API response format
+ */
+function toListItem(row: ApiKey): ApiKeyListItem {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes,
+    createdBy: row.created_by,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (admin only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'admin' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Fetch keys
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const apiKeys = await listApiKeys(getWorkspaceId(req));
+
+    const response: ListApiKeysResponse = {
+      ok: true,
+      apiKeys: apiKeys.map(toListItem),
+      total: apiKeys.length,
+    };
+
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[api-keys/list] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * @file api/api-keys/revoke.ts
+ * @description POST endpoint to revoke an API key (admin only). Revoked keys are rejected immediately.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { revokeApiKey } from '../_lib/api-keys.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface RevokeApiKeyRequest {
+  id: string;
+}
+
+interface RevokeApiKeyResponse {
+  ok: true;
+  id: string;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (admin only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'admin' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<RevokeApiKeyRequest> | undefined;
+
+  if (!body || typeof body.id !== 'string' || !body.id.trim()) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Missing or invalid id',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const id = body.id.trim();
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Revoke key
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const revoked = await revokeApiKey(getWorkspaceId(req), id);
+
+    if (!revoked) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'API key not found or already revoked',
+        code: 'NOT_FOUND',
+      };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'api_key_revoked',
+      ts: new Date().toISOString(),
+      apiKeyId: id,
+    }));
+
+    const response: RevokeApiKeyResponse = { ok: true, id };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[api-keys/revoke] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @file api/audit/list.ts
+ * @description GET endpoint to query the workspace's audit log (admin only).
+ *              Filters: `action`, `actorId`, `targetId`, `since`, `until`, `limit`.
+ *              `?format=csv` downloads the same rows as a CSV file.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import {
+  listAuditEvents,
+  parseAuditFilters,
+  auditEventsToCsv,
+  type AuditEvent,
+  type AuditAction,
+  type AuditActorType,
+} from '../_lib/audit-log.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface AuditListItem {
+  id: number;
+  createdAt: string;
+  action: AuditAction;
+  actorType: AuditActorType;
+  actorId: string | null;
+  targetId: string | null;
+  metadata: Record<string, unknown>;
+}
+
+interface ListAuditResponse {
+  ok: true;
+  events: AuditListItem[];
+  total: number;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HELPERS                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Transform database row to API response format
+ */
+function toListItem(row: AuditEvent): AuditListItem {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    action: row.action,
+    actorType: row.actor_type,
+    actorId: row.actor_id,
+    targetId: row.target_id,
+    metadata: row.metadata ?? {},
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (admin only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'admin' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse filters
+  // ─────────────────────────────────────────────────────────────────────────
+  const parsed = parseAuditFilters(req.query ?? {});
+  if (!parsed.ok) {
+    const errorResp: ErrorResponse = { ok: false, error: parsed.error, code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const format = req.query?.format === 'csv' ? 'csv' : 'json';
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Query audit log
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const events = await listAuditEvents(getWorkspaceId(req), parsed.filters);
+
+    if (!events) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Audit log unavailable',
+        code: 'INTERNAL_ERROR',
+      };
+      res.status(500).json(errorResp);
+      return;
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.status(200).send(auditEventsToCsv(events));
+      return;
+    }
+
+    const response: ListAuditResponse = {
+      ok: true,
+      events: events.map(toListItem),
+      total: events.length,
+    };
+
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[audit/list] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
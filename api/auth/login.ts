@@ -1,10 +1,14 @@
 /**
  * POST /api/auth/login
- * Authenticate with passcode and set session cookie.
+ * Authenticate with email + password and set session cookie.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { verifyPasscode, setSessionCookie } from '../_lib/auth.js';
+import { setSessionCookie } from '../_lib/auth.js';
+import { authenticateUser, findUserByEmail, normalizeUserEmail } from '../_lib/users.js';
+import { getWorkspace } from '../_lib/workspaces.js';
+import { recordAuditEvent } from '../_lib/audit-log.js';
+import { fingerprintValue } from '../_lib/suppression-ledger.js';
 
 export default async function handler(
   req: VercelRequest,
@@ -20,36 +24,61 @@ export default async function handler(
   }
 
   try {
-    const { passcode } = req.body || {};
+    const { email, password } = req.body || {};
 
-    if (!passcode || typeof passcode !== 'string') {
+    if (!email || typeof email !== 'string' || !password || typeof password !== 'string') {
       res.status(400).json({
         ok: false,
-        error: { code: 'invalid_request', message: 'Passcode is required' },
+        error: { code: 'invalid_request', message: 'Email and password are required' },
       });
       return;
     }
 
-    // Verify passcode
-    const isValid = verifyPasscode(passcode);
+    // Verify credentials (unknown, disabled and wrong-password all look the same)
+    const user = await authenticateUser(email, password);
+
+    if (!user) {
+      // Attribute the attempt to the account if it exists; otherwise keep only a fingerprint
+      const account = await findUserByEmail(email);
+      await recordAuditEvent({
+        workspaceId: account?.workspace_id ?? null,
+        actorType: 'user',
+        actorId: account?.id ?? null,
+        action: 'auth.login_failed',
+        metadata: account
+          ? { disabled: account.disabled }
+          : { emailFingerprint: fingerprintValue('email', normalizeUserEmail(email)) },
+      });
 
-    if (!isValid) {
       res.status(401).json({
         ok: false,
-        error: { code: 'invalid_passcode', message: 'Invalid passcode' },
+        error: { code: 'invalid_credentials', message: 'Invalid email or password' },
       });
       return;
     }
 
     // Set session cookie
-    setSessionCookie(res);
+    setSessionCookie(res, { userId: user.id, email: user.email, role: user.role, workspaceId: user.workspace_id });
 
-    res.status(200).json({ ok: true });
+    await recordAuditEvent({
+      workspaceId: user.workspace_id,
+      actorType: 'user',
+      actorId: user.id,
+      action: 'auth.login',
+      metadata: { role: user.role },
+    });
+
+    const workspace = await getWorkspace(user.workspace_id);
+    res.status(200).json({
+      ok: true,
+      user: { id: user.id, email: user.email, role: user.role, workspaceId: user.workspace_id },
+      workspace: workspace ? { id: workspace.id, name: workspace.name, slug: workspace.slug } : null,
+    });
   } catch (error) {
     console.error('Login error:', error);
     
     // Check for config errors
-    if (error instanceof Error && error.message.includes('environment variable')) {
+    if (error instanceof Error && /SESSION_SECRET|not configured/.test(error.message)) {
       res.status(500).json({
         ok: false,
         error: { 
@@ -1,10 +1,12 @@
 /**
  * GET /api/auth/me
- * Check if current session is valid.
+ * Check if current session is valid and return the signed-in user (with their
+ * current role) and workspace.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { hasValidSession } from '../_lib/auth.js';
+import { requireSession, getSessionUser } from '../_lib/auth.js';
+import { getWorkspace } from '../_lib/workspaces.js';
 
 export default async function handler(
   req: VercelRequest,
@@ -20,10 +22,19 @@ export default async function handler(
   }
 
   try {
-    const isValid = hasValidSession(req);
+    // 401 for missing/expired sessions and users disabled since signing in
+    const sessionGuard = await requireSession(req, res);
+    if (sessionGuard) return;
 
-    if (isValid) {
-      res.status(200).json({ ok: true });
+    const user = getSessionUser(req);
+
+    if (user) {
+      const workspace = await getWorkspace(user.workspaceId);
+      res.status(200).json({
+        ok: true,
+        user: { id: user.userId, email: user.email, role: user.role, workspaceId: user.workspaceId },
+        workspace: workspace ? { id: workspace.id, name: workspace.name, slug: workspace.slug } : null,
+      });
     } else {
       res.status(401).json({
         ok: false,
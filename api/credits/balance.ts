@@ -0,0 +1,85 @@
+/**
+ * @file api/credits/balance.ts
+ * @description GET endpoint for the caller's monthly lead-credit balances: the
+ *              workspace allowance and the user's own cap, with usage so far and
+ *              when they reset. API keys (scope `generate`) see their issuing admin's.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import { getWorkspace } from '../_lib/workspaces.js';
+import { getCreditBalance, type CreditBalance } from '../_lib/lead-credits.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface BalanceResponse extends CreditBalance {
+  ok: true;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Load balances
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const user = getSessionUser(req);
+    const workspace = await getWorkspace(getWorkspaceId(req));
+
+    if (!user || !workspace) {
+      const errorResp: ErrorResponse = { ok: false, error: 'Workspace not found', code: 'NOT_FOUND' };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    const balance = await getCreditBalance(workspace, user.userId);
+    if (!balance) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Lead credits unavailable',
+        code: 'CREDITS_UNAVAILABLE',
+      };
+      res.status(503).json(errorResp);
+      return;
+    }
+
+    const response: BalanceResponse = { ok: true, ...balance };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[credits/balance] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
@@ -13,11 +13,14 @@
  * - maxRows=N: Override max rows per run (500)
  * 
  * Response:
- * { ok, runId, dryRun, scanned, deletedRows, deletedFiles, errorsCount, retentionDays, cutoffDate }
+ * { ok, runId, dryRun, workspaces, scanned, deletedRows, deletedFiles, errorsCount, retentionDays, cutoffDate,
+ *   rateLimitsDeleted, idempotencyKeysDeleted, deliveredLeadsDeleted }
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { runCleanup, cleanupRateLimits } from '../_lib/cleanup.js';
+import { purgeExpiredIdempotencyKeys } from '../_lib/idempotency.js';
+import { purgeOldDeliveredLeads } from '../_lib/suppression-ledger.js';
 import { verifyCronSecret, CRON_AUTH_ERROR_RESPONSE } from '../_lib/cron-auth.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -75,14 +78,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // Also cleanup rate limits (non-blocking, best-effort)
     let rateLimitsDeleted = 0;
+    let idempotencyKeysDeleted = 0;
+    let deliveredLeadsDeleted = 0;
     if (!dryRun) {
       rateLimitsDeleted = await cleanupRateLimits(24).catch(() => 0);
+      idempotencyKeysDeleted = await purgeExpiredIdempotencyKeys().catch(() => 0);
+      // Fingerprints past the longest repeat-suppression lookback (365 days)
+      deliveredLeadsDeleted = await purgeOldDeliveredLeads().catch(() => 0);
     }
 
     // Return result
     const response = {
       ...result,
       rateLimitsDeleted,
+      idempotencyKeysDeleted,
+      deliveredLeadsDeleted,
     };
 
     // Remove errors array if empty
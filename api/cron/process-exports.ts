@@ -1,8 +1,19 @@
 /**
  * GET /api/cron/process-exports
  * 
- * Background processor for long-running export builds.
- * Picks up exports with status 'building' or 'building_long' and processes them.
+ * Background worker for long-running export builds.
+ * Drains the export job queue (see ../_lib/export-jobs.ts): leases due jobs,
+ * finishes exports whose audience is ready and reschedules the rest. The lease
+ * keeps overlapping runs and live status polls from finishing an export twice.
+ * Transient failures (including errors thrown while handling a job) are
+ * retried with backoff; after EXPORT_JOB_MAX_ATTEMPTS the job is
+ * dead-lettered and the export marked as error. Exports whose workspace is
+ * gone are marked as error right away (refunding their credits).
+ * Exports whose audience is still being created by an async AudienceLab job
+ * poll the job first and record the audience once it exists.
+ * Runs across all workspaces, each with its own AudienceLab key and settings;
+ * jobs of workspaces without a usable key are retried like failures, so they
+ * dead-letter if the key is never set.
  * 
  * Authentication:
  * - Vercel Cron: Authorization header with Bearer token
@@ -13,27 +24,25 @@
  * - batchSize=N: Override default batch size (10)
  * 
  * Response:
- * { ok, runId, processed, completed, stillBuilding, failed, errors }
+ * { ok, runId, processed, completed, stillBuilding, noResults, failed, retried, deadLettered, errors }
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
-import { fetchAudienceMembers } from '../_lib/providers/audiencelab.js';
-import { validateProviderConfig, getProviderName } from '../_lib/providers/index.js';
-import { leadsToCsv } from '../_lib/csv.js';
+import { validateProviderConfig, isProviderEnabled } from '../_lib/providers/index.js';
+import { getExportForProcessing, updateExportError } from '../_lib/exports-db.js';
 import {
-  findPendingBackgroundExports,
-  updateExportSuccess,
-  updateExportError,
-  updateNextPollAt,
-  type LeadExport,
-} from '../_lib/exports-db.js';
-import { filterLeadsByStateCompliance } from '../_lib/compliance.js';
+  claimExportJobs,
+  listDueExportJobs,
+  completeExportJob,
+  failExportJob,
+} from '../_lib/export-jobs.js';
+import { runExportJob } from '../_lib/export-processing.js';
+import {
+  getWorkspace,
+  getWorkspaceCredentials,
+  type Workspace,
+} from '../_lib/workspaces.js';
 import { verifyCronSecret, CRON_AUTH_ERROR_RESPONSE } from '../_lib/cron-auth.js';
-import type { LeadScope, UseCase } from '../_lib/types.js';
-
-/** Background poll interval (minutes) */
-const BACKGROUND_POLL_MINUTES = 5;
 
 /** Max items to process per cron run (avoid Vercel function timeout) */
 const DEFAULT_BATCH_SIZE = 10;
@@ -53,161 +62,6 @@ function logEvent(event: string, data: Record<string, unknown>): void {
 }
 
 
-/**
- * Get Supabase client for storage operations.
- */
-function getSupabaseClient() {
-  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
-  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!supabaseUrl || !serviceKey) {
-    throw new Error('Supabase not configured');
-  }
-
-  return createClient(supabaseUrl, serviceKey);
-}
-
-/**
- * Process a single export - check provider, complete if ready.
- */
-async function processExport(exp: LeadExport, runId: string): Promise<{
-  status: 'completed' | 'still_building' | 'failed' | 'no_results';
-  error?: string;
-}> {
-  const exportId = exp.id;
-  
-  // Skip if no audience_id (shouldn't happen, but be safe)
-  if (!exp.audience_id) {
-    logEvent('cron_skip_no_audience', { runId, exportId });
-    return { status: 'failed', error: 'No audience_id' };
-  }
-  
-  // Parse zip codes from array
-  const zips = exp.zip_codes || [];
-  if (zips.length === 0) {
-    logEvent('cron_skip_no_zips', { runId, exportId });
-    return { status: 'failed', error: 'No zip codes' };
-  }
-  
-  // Build input for provider
-  const input = {
-    leadRequest: exp.lead_request,
-    zips,
-    scope: (exp.target === 'Commercial' ? 'commercial' : 'residential') as LeadScope,
-    useCase: (exp.use_case || 'both') as UseCase,
-  };
-  
-  try {
-    // Check provider status
-    const result = await fetchAudienceMembers(exp.audience_id, input, exp.request_id || undefined);
-    
-    if (result.ok) {
-      // Provider ready! Complete the export
-      const useCase = (exp.use_case || 'both') as UseCase;
-      const complianceResult = filterLeadsByStateCompliance(result.leads, useCase);
-      const leads = complianceResult.filteredLeads;
-      const csv = leadsToCsv(leads);
-      
-      // Upload to storage
-      const supabase = getSupabaseClient();
-      const now = new Date();
-      const dateDir = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-      const ts = Date.now();
-      const rand = Math.random().toString(36).slice(2, 8);
-      const path = `${dateDir}/${ts}-${rand}.csv`;
-      const bucket = 'exports';
-      
-      const bytes = new TextEncoder().encode(csv);
-      const uploadRes = await supabase.storage.from(bucket).upload(path, bytes, {
-        contentType: 'text/csv',
-        upsert: false,
-      });
-      
-      if (uploadRes.error) {
-        logEvent('cron_upload_error', { runId, exportId, error: uploadRes.error.message });
-        return { status: 'failed', error: `Upload failed: ${uploadRes.error.message}` };
-      }
-      
-      // Update export record with success
-      await updateExportSuccess(exportId, {
-        status: 'success',
-        totalFetched: result.diagnostics?.totalFetched ?? (leads.length + complianceResult.suppressedCount),
-        kept: leads.length,
-        diagnostics: result.diagnostics ?? null,
-        fieldCoverage: result.fieldCoverage ?? null,
-        bucket,
-        path,
-        suppressedCount: complianceResult.suppressedCount,
-        suppressedStates: complianceResult.suppressedStates,
-      });
-      
-      logEvent('cron_export_completed', {
-        runId,
-        exportId,
-        audienceId: exp.audience_id,
-        count: leads.length,
-        suppressedCount: complianceResult.suppressedCount,
-      });
-      
-      return { status: 'completed' };
-    }
-    
-    // Not ready yet
-    const err = result.error;
-    
-    if (err.code === 'provider_building') {
-      // Still building - schedule next check
-      await updateNextPollAt(exportId, BACKGROUND_POLL_MINUTES);
-      
-      logEvent('cron_still_building', {
-        runId,
-        exportId,
-        audienceId: exp.audience_id,
-        pollAttempts: exp.poll_attempts,
-      });
-      
-      return { status: 'still_building' };
-    }
-    
-    if (err.code === 'provider_no_results') {
-      // No results - mark accordingly
-      await updateExportError(exportId, {
-        status: 'no_results',
-        errorCode: err.code,
-        errorMessage: err.message,
-      });
-      
-      logEvent('cron_no_results', { runId, exportId, audienceId: exp.audience_id });
-      return { status: 'no_results' };
-    }
-    
-    // Other error
-    await updateExportError(exportId, {
-      status: 'error',
-      errorCode: err.code,
-      errorMessage: err.message,
-    });
-    
-    logEvent('cron_provider_error', {
-      runId,
-      exportId,
-      audienceId: exp.audience_id,
-      errorCode: err.code,
-    });
-    
-    return { status: 'failed', error: err.message };
-    
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unknown error';
-    
-    // Don't mark as failed for transient errors - just reschedule
-    await updateNextPollAt(exportId, BACKGROUND_POLL_MINUTES);
-    
-    logEvent('cron_process_error', { runId, exportId, error: message });
-    return { status: 'still_building', error: message };
-  }
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const runId = generateRunId();
   const startTime = Date.now();
@@ -241,9 +95,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   logEvent('cron_process_exports_start', { runId, dryRun, batchSize });
 
   try {
-    // Validate provider configuration
+    // Only works when AudienceLab is the default provider or part of a route
+    // (background builds are always AudienceLab). Keys are checked per workspace below.
+    let audienceLabEnabled = false;
     try {
-      validateProviderConfig();
+      audienceLabEnabled = isProviderEnabled('audiencelab');
     } catch {
       logEvent('cron_provider_config_error', { runId });
       return res.status(500).json({
@@ -252,18 +108,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    // Only works with audiencelab provider
-    if (getProviderName() !== 'audiencelab') {
+    if (!audienceLabEnabled) {
       return res.status(400).json({
         ok: false,
         error: { code: 'invalid_provider', message: 'Background processing only works with AudienceLab provider' },
       });
     }
 
-    // Find pending exports
-    const pendingExports = await findPendingBackgroundExports(batchSize);
+    // Dry run - just report the due jobs, without leasing them
+    if (dryRun) {
+      const due = await listDueExportJobs(batchSize);
+      return res.status(200).json({
+        ok: true,
+        runId,
+        dryRun: true,
+        wouldProcess: due.length,
+        jobs: due.map((job) => ({
+          id: job.id,
+          exportId: job.export_id,
+          workspaceId: job.workspace_id,
+          attempts: job.attempts,
+          runAfter: job.run_after,
+        })),
+      });
+    }
+
+    // Lease due jobs (this run is the worker)
+    const jobs = await claimExportJobs(runId, batchSize);
     
-    if (pendingExports.length === 0) {
+    if (jobs.length === 0) {
       logEvent('cron_no_pending_exports', { runId });
       return res.status(200).json({
         ok: true,
@@ -274,62 +147,109 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         stillBuilding: 0,
         failed: 0,
         noResults: 0,
+        retried: 0,
+        deadLettered: 0,
         message: 'No pending exports to process',
       });
     }
 
-    // Dry run - just report what would be processed
-    if (dryRun) {
-      return res.status(200).json({
-        ok: true,
-        runId,
-        dryRun: true,
-        wouldProcess: pendingExports.length,
-        exports: pendingExports.map(e => ({
-          id: e.id,
-          status: e.status,
-          audienceId: e.audience_id,
-          pollAttempts: e.poll_attempts,
-          createdAt: e.created_at,
-        })),
-      });
-    }
-
-    // Process each export
+    // Process each job
     const results = {
       completed: 0,
       stillBuilding: 0,
       failed: 0,
       noResults: 0,
+      retried: 0,
+      deadLettered: 0,
       errors: [] as string[],
     };
+    const workspaces = new Map<string, Workspace | null>();
 
-    for (const exp of pendingExports) {
-      const result = await processExport(exp, runId);
-      
-      switch (result.status) {
-        case 'completed':
-          results.completed++;
-          break;
-        case 'still_building':
-          results.stillBuilding++;
-          break;
-        case 'no_results':
-          results.noResults++;
-          break;
-        case 'failed':
+    for (const job of jobs) {
+      try {
+        if (!workspaces.has(job.workspace_id)) {
+          workspaces.set(job.workspace_id, await getWorkspace(job.workspace_id));
+        }
+        const workspace = workspaces.get(job.workspace_id);
+        if (!workspace) {
+          // Nothing can finish the export: fail it, refunding its credits
+          logEvent('cron_workspace_not_found', { runId, workspaceId: job.workspace_id, exportId: job.export_id });
+          await updateExportError(job.workspace_id, job.export_id, {
+            status: 'error',
+            errorCode: 'workspace_not_found',
+            errorMessage: 'Workspace no longer exists',
+          });
+          await completeExportJob(job);
           results.failed++;
-          if (result.error) {
-            results.errors.push(`${exp.id}: ${result.error}`);
+          continue;
+        }
+
+        try {
+          validateProviderConfig('audiencelab', getWorkspaceCredentials(workspace));
+        } catch {
+          // Counts as a failed attempt, so a key that never arrives dead-letters the job
+          logEvent('cron_workspace_config_error', { runId, workspaceId: workspace.id, exportId: job.export_id });
+          const state = await failExportJob(job, 'AudienceLab is not configured for the workspace');
+          if (state === 'dead') {
+            results.deadLettered++;
+          } else {
+            results.retried++;
           }
-          break;
+          continue;
+        }
+
+        // Finished elsewhere (or gone) - nothing left for the job to do
+        const exp = await getExportForProcessing(workspace.id, job.export_id);
+        if (!exp || (exp.status !== 'building' && exp.status !== 'building_long')) {
+          logEvent('cron_job_already_finished', { runId, exportId: job.export_id, status: exp?.status });
+          await completeExportJob(job);
+          continue;
+        }
+
+        const result = await runExportJob(job, exp, workspace, runId);
+      
+        switch (result.status) {
+          case 'completed':
+            results.completed++;
+            break;
+          case 'still_building':
+            results.stillBuilding++;
+            break;
+          case 'no_results':
+            results.noResults++;
+            break;
+          case 'failed':
+            results.failed++;
+            break;
+          case 'retry':
+            if (result.deadLettered) {
+              results.deadLettered++;
+            } else {
+              results.retried++;
+            }
+            break;
+        }
+        if (result.error) {
+          results.errors.push(`${exp.id}: ${result.error}`);
+        }
+      } catch (err) {
+        // Count it as a failed attempt so the job is retried, or dead-lettered
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        logEvent('cron_job_error', { runId, exportId: job.export_id, error: message });
+        const state = await failExportJob(job, message);
+        if (state === 'dead') {
+          results.deadLettered++;
+        } else {
+          results.retried++;
+        }
+        results.errors.push(`${job.export_id}: ${message}`);
       }
     }
 
     const durationMs = Date.now() - startTime;
     logEvent('cron_process_exports_complete', {
       runId,
-      processed: pendingExports.length,
+      processed: jobs.length,
       ...results,
       durationMs,
     });
@@ -339,11 +259,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       ok: true,
       runId,
       dryRun: false,
-      processed: pendingExports.length,
+      processed: jobs.length,
       completed: results.completed,
       stillBuilding: results.stillBuilding,
       noResults: results.noResults,
       failed: results.failed,
+      retried: results.retried,
+      deadLettered: results.deadLettered,
       durationMs,
     };
 
@@ -0,0 +1,278 @@
+/**
+ * GET /api/cron/run-saved-searches
+ *
+ * Scheduled pulls for saved searches (see ../_lib/saved-searches.ts).
+ * For each search whose next_run_at is due, claims the run (moving
+ * next_run_at to the following slot, so overlapping runs pull it once) and
+ * runs /api/leads/generate on behalf of the user who created the search: the
+ * export counts against their credits, is tagged with the saved search and
+ * always applies the cross-export dedupe window. Exports whose audience is
+ * still building are finished by process-exports as usual.
+ * Generations run one after another within the function's maxDuration (300s,
+ * vercel.json): once TAKE_DEADLINE_MS has passed no further search is
+ * claimed, leaving the rest due for the next run.
+ *
+ * Authentication:
+ * - Vercel Cron: Authorization header with Bearer token
+ * - Manual trigger: x-cron-secret header or ?secret= query param
+ *
+ * Query params:
+ * - dryRun=1: Preview which searches are due without running them
+ * - batchSize=N: Override default batch size (5)
+ *
+ * Response:
+ * { ok, runId, processed, succeeded, building, failed, skipped, deferred, errors }
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  listDueSavedSearches,
+  claimSavedSearchRun,
+  recordSavedSearchRun,
+  buildScheduledRequest,
+  type SavedSearch,
+  type SavedSearchRunStatus,
+} from '../_lib/saved-searches.js';
+import { getUser } from '../_lib/users.js';
+import { actAsUser } from '../_lib/auth.js';
+import { verifyCronSecret, CRON_AUTH_ERROR_RESPONSE } from '../_lib/cron-auth.js';
+import generateHandler from '../leads/generate.js';
+
+/** Max searches to pull per cron run (each is a full generation) */
+const DEFAULT_BATCH_SIZE = 5;
+
+/**
+ * No search is claimed after this long into the run, so the last generation
+ * still fits in the function's 300s maxDuration
+ */
+const TAKE_DEADLINE_MS = 180_000;
+
+/** Generate unique run ID */
+function generateRunId(): string {
+  const ts = Date.now().toString(36);
+  const rand = Math.random().toString(36).slice(2, 6);
+  return `cron_${ts}_${rand}`;
+}
+
+/**
+ * Structured log entry (safe for Vercel logs - no PII).
+ */
+function logEvent(event: string, data: Record<string, unknown>): void {
+  console.log(JSON.stringify({ event, ts: new Date().toISOString(), ...data }));
+}
+
+interface RunOutcome {
+  status: SavedSearchRunStatus;
+  exportId: string | null;
+  error?: string;
+}
+
+/**
+ * Minimal response that records what the generate handler sends.
+ */
+function createCapturedResponse(): { res: VercelResponse; captured: { statusCode: number; body: unknown } } {
+  const captured: { statusCode: number; body: unknown } = { statusCode: 200, body: undefined };
+  const res = {
+    headersSent: false,
+    setHeader() {
+      return res;
+    },
+    status(code: number) {
+      captured.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      res.headersSent = true;
+      return res;
+    },
+  };
+  return { res: res as unknown as VercelResponse, captured };
+}
+
+/**
+ * Pull one saved search through the generate handler as its creator.
+ */
+async function runSavedSearch(search: SavedSearch): Promise<RunOutcome> {
+  const creator = search.created_by ? await getUser(search.workspace_id, search.created_by) : null;
+  if (!creator || creator.disabled) {
+    return { status: 'error', exportId: null, error: 'Creator of the saved search is no longer active' };
+  }
+
+  const req = {
+    method: 'POST',
+    headers: {},
+    query: {},
+    body: buildScheduledRequest(search),
+  } as unknown as VercelRequest;
+  actAsUser(req, {
+    userId: creator.id,
+    email: creator.email,
+    role: creator.role,
+    workspaceId: search.workspace_id,
+  });
+
+  const { res, captured } = createCapturedResponse();
+  await generateHandler(req, res);
+
+  const body = (captured.body ?? {}) as {
+    ok?: boolean;
+    exportId?: string | null;
+    error?: { code?: string; message?: string; details?: { exportId?: unknown } };
+  };
+  const detailsExportId = typeof body.error?.details?.exportId === 'string' ? body.error.details.exportId : null;
+
+  if (captured.statusCode === 200 && body.ok) {
+    return { status: 'success', exportId: body.exportId ?? null };
+  }
+  if (captured.statusCode === 202 && body.error?.code === 'provider_building') {
+    return { status: 'building', exportId: detailsExportId };
+  }
+  return {
+    status: 'error',
+    exportId: detailsExportId,
+    error: `${body.error?.code ?? 'http_' + captured.statusCode}: ${body.error?.message ?? 'Generation failed'}`,
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const runId = generateRunId();
+  const startTime = Date.now();
+
+  // Only allow GET (Vercel Cron uses GET)
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      ok: false,
+      error: { code: 'method_not_allowed', message: 'Use GET' },
+    });
+  }
+
+  // Verify cron secret
+  if (!verifyCronSecret(req)) {
+    logEvent('cron_auth_failed', {
+      runId,
+      ip: req.headers['x-forwarded-for'] || req.headers['x-real-ip'],
+      userAgent: req.headers['user-agent'],
+    });
+
+    return res.status(401).json(CRON_AUTH_ERROR_RESPONSE);
+  }
+
+  // Parse query params
+  const dryRun = req.query?.dryRun === '1' || req.query?.dryRun === 'true';
+  const batchSize = req.query?.batchSize
+    ? Math.min(parseInt(req.query.batchSize as string, 10) || DEFAULT_BATCH_SIZE, 20)
+    : DEFAULT_BATCH_SIZE;
+
+  logEvent('cron_saved_searches_start', { runId, dryRun, batchSize });
+
+  try {
+    const due = await listDueSavedSearches(batchSize);
+
+    // Dry run - just report the due searches, without claiming them
+    if (dryRun) {
+      return res.status(200).json({
+        ok: true,
+        runId,
+        dryRun: true,
+        wouldProcess: due.length,
+        searches: due.map((search) => ({
+          id: search.id,
+          workspaceId: search.workspace_id,
+          schedule: search.schedule,
+          nextRunAt: search.next_run_at,
+        })),
+      });
+    }
+
+    const results = {
+      succeeded: 0,
+      building: 0,
+      failed: 0,
+      skipped: 0,
+      deferred: 0,
+      errors: [] as string[],
+    };
+
+    for (const search of due) {
+      // Out of time - left unclaimed, so it is still due for the next run
+      if (Date.now() - startTime >= TAKE_DEADLINE_MS) {
+        results.deferred++;
+        continue;
+      }
+
+      // Another run claimed it first
+      if (!(await claimSavedSearchRun(search))) {
+        results.skipped++;
+        continue;
+      }
+
+      let outcome: RunOutcome;
+      try {
+        outcome = await runSavedSearch(search);
+      } catch (err) {
+        outcome = { status: 'error', exportId: null, error: err instanceof Error ? err.message : 'Unknown error' };
+      }
+
+      await recordSavedSearchRun(search.id, outcome.status, outcome.exportId, outcome.error);
+      logEvent('cron_saved_search_run', {
+        runId,
+        searchId: search.id,
+        workspaceId: search.workspace_id,
+        status: outcome.status,
+        exportId: outcome.exportId,
+      });
+
+      switch (outcome.status) {
+        case 'success':
+          results.succeeded++;
+          break;
+        case 'building':
+          results.building++;
+          break;
+        case 'error':
+          results.failed++;
+          results.errors.push(`${search.id}: ${outcome.error}`);
+          break;
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+    logEvent('cron_saved_searches_complete', {
+      runId,
+      processed: due.length,
+      ...results,
+      durationMs,
+    });
+
+    const response: Record<string, unknown> = {
+      ok: true,
+      runId,
+      dryRun: false,
+      processed: due.length,
+      succeeded: results.succeeded,
+      building: results.building,
+      failed: results.failed,
+      skipped: results.skipped,
+      deferred: results.deferred,
+      durationMs,
+    };
+
+    if (results.errors.length > 0) {
+      response.errors = results.errors;
+    }
+
+    return res.status(200).json(response);
+
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    logEvent('cron_saved_searches_error', { runId, error: message });
+
+    return res.status(500).json({
+      ok: false,
+      runId,
+      error: { code: 'internal_error', message },
+    });
+  }
+}
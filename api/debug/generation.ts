@@ -1,7 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { jsonError } from '../_lib/json.js';
-import { requireSession } from '../_lib/auth.js';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
 import { getExport } from '../_lib/exports-db.js';
+import { recordAuditEvent, auditActor } from '../_lib/audit-log.js';
 
 /**
  * GET /api/debug/generation?id={exportId}
@@ -9,11 +10,11 @@ import { getExport } from '../_lib/exports-db.js';
  * Returns the stored AudienceLab request payload for a generation request.
  * Useful for debugging why certain filters produced specific results.
  * 
- * Requires authentication (same as generate endpoint).
+ * Requires authentication (same as generate endpoint). Every view is audited.
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Require authentication
-  if (requireSession(req, res)) return;
+  if (await requireSession(req, res)) return;
   
   if (req.method !== 'GET') {
     res.setHeader('Allow', 'GET');
@@ -33,12 +34,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const exportRecord = await getExport(id);
+    const exportRecord = await getExport(getWorkspaceId(req), id);
     
     if (!exportRecord) {
       return jsonError(res, 404, 'not_found', 'Export not found.');
     }
 
+    const user = getSessionUser(req);
+    if (user) {
+      await recordAuditEvent({ ...auditActor(user), action: 'debug.view_payload', targetId: exportRecord.id });
+    }
+
     // Return debug info including the request payload
     return res.status(200).json({
       ok: true,
@@ -64,6 +70,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // Quality diagnostics
         diagnostics: exportRecord.diagnostics,
         field_coverage: exportRecord.field_coverage,
+        // Compliance audit trail (which rules fired under which rule version)
+        suppressed_count: exportRecord.suppressed_count,
+        compliance_rule_version: exportRecord.compliance_rule_version,
+        compliance_rules_fired: exportRecord.compliance_rules_fired,
         // Storage location (no signed URL - use /api/exports/signed-url for that)
         bucket: exportRecord.bucket,
         path: exportRecord.path,
@@ -0,0 +1,114 @@
+/**
+ * @file api/exports/[id]/cancel.ts
+ * @description POST /api/exports/:id/cancel - Cancel an export that is still
+ *              `building` or `building_long`. The export is marked `cancelled`,
+ *              its reserved credits are refunded and its background job is
+ *              completed, so neither the worker nor a status poll finishes it.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../../_lib/auth.js';
+import { getExport, cancelExport } from '../../_lib/exports-db.js';
+import { cancelExportJob } from '../../_lib/export-jobs.js';
+import { recordAuditEvent, auditActor } from '../../_lib/audit-log.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface CancelResponse {
+  ok: true;
+  exportId: string;
+  status: 'cancelled';
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (cancelling refunds credits, like generate spends them)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  const exportId = typeof req.query?.id === 'string' ? req.query.id.trim() : '';
+  if (!exportId) {
+    const errorResp: ErrorResponse = { ok: false, error: 'Missing or invalid export id', code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const workspaceId = getWorkspaceId(req);
+  const user = getSessionUser(req);
+
+  try {
+    const exp = await getExport(workspaceId, exportId);
+    if (!exp) {
+      const errorResp: ErrorResponse = { ok: false, error: 'Export not found', code: 'NOT_FOUND' };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    // False also when the export finished (or was cancelled) meanwhile
+    if (!(await cancelExport(workspaceId, exportId))) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Export is not building',
+        code: 'NOT_BUILDING',
+      };
+      res.status(409).json(errorResp);
+      return;
+    }
+
+    // Best-effort: a job left behind finds the export cancelled and completes itself
+    await cancelExportJob(exportId);
+
+    if (user) {
+      await recordAuditEvent({
+        ...auditActor(user),
+        action: 'exports.cancelled',
+        targetId: exportId,
+        metadata: { previousStatus: exp.status, pollAttempts: exp.poll_attempts },
+      });
+    }
+
+    console.log(JSON.stringify({
+      event: 'export_cancelled',
+      ts: new Date().toISOString(),
+      workspaceId,
+      exportId,
+      previousStatus: exp.status,
+    }));
+
+    const response: CancelResponse = { ok: true, exportId, status: 'cancelled' };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[exports/cancel] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
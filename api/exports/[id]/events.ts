@@ -0,0 +1,286 @@
+/**
+ * @file api/exports/[id]/events.ts
+ * @description GET /api/exports/:id/events - Server-Sent Events stream of an
+ *              export's progress. Emits building, fetching, filtering and
+ *              uploading events (with counts) as the export record changes,
+ *              then a final done (with a download link) or failed event.
+ *
+ *              While the client is connected and the export is `building`,
+ *              the stream also checks the provider on the usual Fibonacci
+ *              backoff under the export job's lease, so no separate polling is
+ *              needed (API keys need the `generate` scope for this; with
+ *              only `read-exports` they just watch). `building_long` exports
+ *              are left to the background worker. Streams end after ~50s (once a
+ *              provider check in flight has finished); EventSource reconnects
+ *              and the current state is sent again.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../../_lib/auth.js';
+import { recordAuditEvent, auditActor } from '../../_lib/audit-log.js';
+import { checkRateLimit } from '../../_lib/rate-limit.js';
+import { validateProviderConfig, isProviderEnabled } from '../../_lib/providers/index.js';
+import {
+  getExport,
+  incrementPollAttempts,
+  updateExportBuildingLong,
+  createSignedUrlForExport,
+  type LeadExport,
+} from '../../_lib/exports-db.js';
+import { claimExportJob, rescheduleExportJob } from '../../_lib/export-jobs.js';
+import { runExportJob, BACKGROUND_POLL_MINUTES } from '../../_lib/export-processing.js';
+import {
+  exportEventFromRecord,
+  isFinalExportEvent,
+  formatSseEvent,
+  type ExportEvent,
+} from '../../_lib/export-events.js';
+import { calculateBackoffSeconds, hasExceededMaxAttempts } from '../../_lib/compliance.js';
+import { getWorkspace, getWorkspaceCredentials, type Workspace } from '../../_lib/workspaces.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                CONSTANTS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** How often the export record is re-read */
+const TICK_MS = 2000;
+
+/** Comment line sent when nothing changed, so proxies keep the stream open */
+const HEARTBEAT_MS = 15_000;
+
+/** Stream lifetime (below the function's maxDuration); the client reconnects */
+const STREAM_MAX_MS = 50_000;
+
+/** Stream time a provider check needs; with less left the stream ends first */
+const MIN_CHECK_BUDGET_MS = 20_000;
+
+/** EventSource reconnect delay */
+const RECONNECT_MS = 3000;
+
+/** Signed URL lifetime in the done event (24 hours) */
+const SIGNED_URL_EXPIRES_IN = 24 * 60 * 60;
+
+/* -------------------------------------------------------------------------- */
+/*                                 HELPERS                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Structured log entry (safe for Vercel logs - no PII).
+ */
+function logEvent(event: string, data: Record<string, unknown>): void {
+  console.log(JSON.stringify({ event, ts: new Date().toISOString(), ...data }));
+}
+
+function generateStreamId(): string {
+  const ts = Date.now().toString(36);
+  const rand = Math.random().toString(36).slice(2, 6);
+  return `events_${ts}_${rand}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolve with the promise's value, or null once `ms` have passed.
+ */
+function withinBudget<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Whether this stream may check the provider for the workspace's exports.
+ */
+function canCheckProvider(workspace: Workspace): boolean {
+  try {
+    if (!isProviderEnabled('audiencelab')) return false;
+    validateProviderConfig('audiencelab', getWorkspaceCredentials(workspace));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * One provider check under the export job's lease, like a status poll.
+ * Returns the delay in seconds before the next check.
+ */
+async function checkExport(exp: LeadExport, workspace: Workspace, streamId: string): Promise<number> {
+  const claim = await claimExportJob(streamId, workspace.id, exp.id);
+  if (claim && claim.state !== 'claimed') {
+    // Someone else is finishing it - just watch the record
+    return calculateBackoffSeconds(exp.poll_attempts + 1);
+  }
+  const job = claim?.state === 'claimed' ? claim.job : null;
+
+  const attempts = (await incrementPollAttempts(workspace.id, exp.id)) ?? exp.poll_attempts + 1;
+
+  // Too long for interactive checks - hand over to the background worker
+  if (hasExceededMaxAttempts(attempts)) {
+    logEvent('events_transition_to_building_long', { streamId, exportId: exp.id, attempts });
+    await updateExportBuildingLong(workspace.id, exp.id, BACKGROUND_POLL_MINUTES);
+    if (job) await rescheduleExportJob(job, BACKGROUND_POLL_MINUTES);
+    return BACKGROUND_POLL_MINUTES * 60;
+  }
+
+  await runExportJob(job, { ...exp, poll_attempts: attempts }, workspace, streamId, 'events');
+  return calculateBackoffSeconds(attempts + 1);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'read-exports' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // Rate limiting (240 connections/hour per session or API key): each stream
+  // holds a function open and may check the provider
+  const rateLimited = await checkRateLimit(req, res, 'events');
+  if (rateLimited) return;
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  const exportId = typeof req.query?.id === 'string' ? req.query.id.trim() : '';
+  if (!exportId) {
+    const errorResp: ErrorResponse = { ok: false, error: 'Missing or invalid export id', code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const workspaceId = getWorkspaceId(req);
+  const user = getSessionUser(req);
+  // Checking the provider finishes exports, which API keys may only do with the generate scope
+  const canDrive = !user?.apiKeyId || (user.apiKeyScopes?.includes('generate') ?? false);
+  let exp = await getExport(workspaceId, exportId);
+  if (!exp) {
+    const errorResp: ErrorResponse = { ok: false, error: 'Export not found', code: 'NOT_FOUND' };
+    res.status(404).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Stream
+  // ─────────────────────────────────────────────────────────────────────────
+  const streamId = generateStreamId();
+  const startTime = Date.now();
+  let closed = false;
+  req.on?.('close', () => {
+    closed = true;
+  });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+  res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+  logEvent('events_stream_start', { streamId, exportId, status: exp.status });
+
+  let workspace: Workspace | null | undefined;
+  let lastSent = '';
+  let lastWriteAt = Date.now();
+  let eventId = 0;
+  let nextCheckAt = 0;
+  // A provider check that outlived the stream's budget; it holds the export
+  // job's lease, so the function waits for it before ending the response
+  let overrunCheck: Promise<number> | null = null;
+
+  while (!closed) {
+    const event: ExportEvent = exportEventFromRecord(exp);
+
+    if (event.event === 'done' && exp.status === 'success') {
+      const signed = await createSignedUrlForExport(workspaceId, exp.id, SIGNED_URL_EXPIRES_IN);
+      event.data.signedUrl = signed?.signedUrl;
+      event.data.expiresInSeconds = signed?.expiresInSeconds;
+      if (signed && user) {
+        await recordAuditEvent({
+          ...auditActor(user),
+          action: 'exports.signed_url',
+          targetId: exp.id,
+          metadata: { expiresInSeconds: signed.expiresInSeconds, via: 'events' },
+        });
+      }
+    }
+
+    const serialized = JSON.stringify(event);
+    if (serialized !== lastSent) {
+      res.write(formatSseEvent(event, ++eventId));
+      lastSent = serialized;
+      lastWriteAt = Date.now();
+    }
+    if (isFinalExportEvent(event)) break;
+
+    const remainingMs = STREAM_MAX_MS - (Date.now() - startTime);
+    if (remainingMs <= 0) break;
+
+    // Drive interactive builds while someone is watching
+    if (canDrive && exp.status === 'building' && Date.now() >= nextCheckAt) {
+      // Too little time left for a check - the reconnected stream makes it
+      if (remainingMs < MIN_CHECK_BUDGET_MS) break;
+      if (workspace === undefined) {
+        workspace = await getWorkspace(workspaceId);
+      }
+      if (workspace && canCheckProvider(workspace)) {
+        const check = checkExport(exp, workspace, streamId);
+        const delaySeconds = await withinBudget(check, remainingMs);
+        if (delaySeconds === null) {
+          logEvent('events_check_over_budget', { streamId, exportId });
+          overrunCheck = check;
+          break;
+        }
+        nextCheckAt = Date.now() + delaySeconds * 1000;
+      } else {
+        nextCheckAt = Number.POSITIVE_INFINITY;
+      }
+    } else {
+      if (Date.now() - lastWriteAt >= HEARTBEAT_MS) {
+        res.write(': keep-alive\n\n');
+        lastWriteAt = Date.now();
+      }
+      await sleep(Math.min(TICK_MS, remainingMs));
+    }
+
+    // A failed read keeps the last state; the next tick tries again
+    exp = (await getExport(workspaceId, exportId)) ?? exp;
+  }
+
+  if (overrunCheck) {
+    await overrunCheck.catch((err: unknown) => {
+      logEvent('events_check_error', { streamId, exportId, error: err instanceof Error ? err.message : 'Unknown error' });
+    });
+  }
+
+  logEvent('events_stream_end', { streamId, exportId, status: exp.status, closed, events: eventId });
+  res.end();
+}
@@ -0,0 +1,145 @@
+/**
+ * @file api/exports/[id]/retry.ts
+ * @description POST /api/exports/:id/retry - Re-run an export that ended in
+ *              `error` or `no_results`, optionally with a different
+ *              `qualityTier` or `requestedCount`. The original request is
+ *              rebuilt from the export (see export-retry.ts) and handed to
+ *              /api/leads/generate, so the response is exactly a generate
+ *              response for a new export (200 with the CSV, or 202
+ *              provider_building). The original export is left unchanged.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../../_lib/auth.js';
+import { getExport } from '../../_lib/exports-db.js';
+import { buildRetryRequest, isRetryableExport, isQualityTier, type RetryOverrides } from '../../_lib/export-retry.js';
+import { recordAuditEvent, auditActor } from '../../_lib/audit-log.js';
+import generateHandler from '../../leads/generate.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface RetryRequest {
+  /** Default: the export's tier */
+  qualityTier?: string;
+  /** Default: the export's requested count */
+  requestedCount?: number;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (a retry spends credits, like generate)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  const exportId = typeof req.query?.id === 'string' ? req.query.id.trim() : '';
+  if (!exportId) {
+    const errorResp: ErrorResponse = { ok: false, error: 'Missing or invalid export id', code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse overrides (generate checks the count's range)
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = (req.body ?? {}) as Partial<RetryRequest>;
+  const overrides: RetryOverrides = {};
+
+  if (body.qualityTier !== undefined && body.qualityTier !== null) {
+    if (!isQualityTier(body.qualityTier)) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'qualityTier must be hot, balanced or scale',
+        code: 'INVALID_REQUEST',
+      };
+      res.status(400).json(errorResp);
+      return;
+    }
+    overrides.qualityTier = body.qualityTier;
+  }
+
+  if (body.requestedCount !== undefined && body.requestedCount !== null) {
+    if (typeof body.requestedCount !== 'number' || !Number.isInteger(body.requestedCount)) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'requestedCount must be an integer',
+        code: 'INVALID_REQUEST',
+      };
+      res.status(400).json(errorResp);
+      return;
+    }
+    overrides.requestedCount = body.requestedCount;
+  }
+
+  const workspaceId = getWorkspaceId(req);
+  const user = getSessionUser(req);
+
+  try {
+    const exp = await getExport(workspaceId, exportId);
+    if (!exp) {
+      const errorResp: ErrorResponse = { ok: false, error: 'Export not found', code: 'NOT_FOUND' };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    if (!isRetryableExport(exp)) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Only failed or no_results exports can be retried',
+        code: 'NOT_RETRYABLE',
+      };
+      res.status(409).json(errorResp);
+      return;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Run it as a new generation (rate limit, credits and idempotency apply)
+    // ─────────────────────────────────────────────────────────────────────────
+    req.body = buildRetryRequest(exp, overrides);
+    await generateHandler(req, res);
+
+    // Audit only retries generate accepted (200 delivered, 202 building), not
+    // ones it rejected (validation, rate limit, credits)
+    if (user && res.statusCode >= 200 && res.statusCode < 300) {
+      await recordAuditEvent({
+        ...auditActor(user),
+        action: 'exports.retried',
+        targetId: exportId,
+        metadata: { previousStatus: exp.status, status: res.statusCode, ...overrides },
+      });
+    }
+  } catch (err) {
+    console.error('[exports/retry] Error:', err);
+    if (res.headersSent) return;
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
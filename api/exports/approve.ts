@@ -0,0 +1,229 @@
+/**
+ * @file api/exports/approve.ts
+ * @description POST endpoint to approve or discard a staged preview (an export
+ *              generated with `preview: true`). Approving releases the CSV that
+ *              was built from the audience - nothing is rebuilt - charges credits
+ *              for the leads kept and returns a download link. Discarding deletes
+ *              the CSV and refunds the reserved credits.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import {
+  getExport,
+  approveExportPreview,
+  discardExportPreview,
+  createSignedUrlForExport,
+} from '../_lib/exports-db.js';
+import { recordDeliveredFingerprints } from '../_lib/suppression-ledger.js';
+import { recordAuditEvent, auditActor } from '../_lib/audit-log.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+type PreviewAction = 'approve' | 'discard';
+
+interface ApproveRequest {
+  exportId: string;
+  /** Default: approve */
+  action?: PreviewAction;
+}
+
+interface ApproveResponse {
+  ok: true;
+  exportId: string;
+  status: 'success';
+  count: number;
+  signedUrl: string;
+  expiresIn: number; // seconds
+}
+
+interface DiscardResponse {
+  ok: true;
+  exportId: string;
+  status: 'discarded';
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                CONSTANTS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Signed URL expiration in seconds (24 hours, as for a direct generate) */
+const SIGNED_URL_EXPIRES_IN = 24 * 60 * 60;
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (approving spends credits, like generate)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<ApproveRequest> | undefined;
+
+  if (!body || typeof body.exportId !== 'string' || !body.exportId.trim()) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Missing or invalid exportId',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const action = body.action ?? 'approve';
+  if (action !== 'approve' && action !== 'discard') {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'action must be approve or discard',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const exportId = body.exportId.trim();
+  const workspaceId = getWorkspaceId(req);
+  const user = getSessionUser(req);
+
+  try {
+    // ─────────────────────────────────────────────────────────────────────────
+    // Check the export is awaiting approval
+    // ─────────────────────────────────────────────────────────────────────────
+    const exp = await getExport(workspaceId, exportId);
+    if (!exp) {
+      const errorResp: ErrorResponse = { ok: false, error: 'Export not found', code: 'NOT_FOUND' };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    const notAwaiting = () => {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Export is not awaiting approval',
+        code: 'NOT_IN_PREVIEW',
+      };
+      res.status(409).json(errorResp);
+    };
+
+    if (exp.status !== 'preview') {
+      notAwaiting();
+      return;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Discard: delete the staged CSV, refund credits
+    // ─────────────────────────────────────────────────────────────────────────
+    if (action === 'discard') {
+      // False also when another request approved/discarded it first
+      if (!(await discardExportPreview(workspaceId, exportId, user?.userId ?? null))) {
+        notAwaiting();
+        return;
+      }
+
+      if (user) {
+        await recordAuditEvent({
+          ...auditActor(user),
+          action: 'exports.preview_discarded',
+          targetId: exportId,
+          metadata: { kept: exp.kept },
+        });
+      }
+
+      const response: DiscardResponse = { ok: true, exportId, status: 'discarded' };
+      res.status(200).json(response);
+      return;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Approve: release the staged CSV, charge credits, record the leads as delivered
+    // ─────────────────────────────────────────────────────────────────────────
+    const staged = await approveExportPreview(workspaceId, exportId, user?.userId ?? null);
+    if (!staged) {
+      notAwaiting();
+      return;
+    }
+
+    await recordDeliveredFingerprints(workspaceId, exportId, staged.preview_fingerprints ?? []);
+
+    if (user) {
+      await recordAuditEvent({
+        ...auditActor(user),
+        action: 'exports.preview_approved',
+        targetId: exportId,
+        metadata: { kept: staged.kept },
+      });
+    }
+
+    console.log(JSON.stringify({
+      event: 'export_preview_approved',
+      ts: new Date().toISOString(),
+      workspaceId,
+      exportId,
+      kept: staged.kept,
+    }));
+
+    const signed = await createSignedUrlForExport(workspaceId, exportId, SIGNED_URL_EXPIRES_IN);
+    if (!signed) {
+      // Approved; the file can still be fetched via /api/exports/signed-url
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Export approved, but a download link could not be created',
+        code: 'SIGNED_URL_ERROR',
+      };
+      res.status(500).json(errorResp);
+      return;
+    }
+    if (user) {
+      await recordAuditEvent({
+        ...auditActor(user),
+        action: 'exports.signed_url',
+        targetId: exportId,
+        metadata: { expiresInSeconds: signed.expiresInSeconds, via: 'approve' },
+      });
+    }
+
+    const response: ApproveResponse = {
+      ok: true,
+      exportId,
+      status: 'success',
+      count: staged.kept ?? 0,
+      signedUrl: signed.signedUrl,
+      expiresIn: signed.expiresInSeconds,
+    };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[exports/approve] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
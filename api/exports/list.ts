@@ -1,11 +1,16 @@
 /**
  * @file api/exports/list.ts
- * @description GET endpoint to list recent exports for the authenticated user.
- *              Returns export metadata (no PII) with status, counts, and timestamps.
+ * @description GET endpoint to list recent exports.
+ *              `?view=mine` returns only the signed-in user's exports; the default
+ *              (`view=team`) returns everyone's. Returns export metadata (no PII)
+ *              with status, counts, and timestamps; staged previews include their
+ *              masked sample rows.
  */
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { requireSession } from '../_lib/auth.js';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
 import { listExports, type LeadExport } from '../_lib/exports-db.js';
+import type { GeoTarget } from '../_lib/types.js';
+import type { PreviewLead } from '../_lib/lead-preview.js';
 
 /* -------------------------------------------------------------------------- */
 /*                                  TYPES                                     */
@@ -17,19 +22,33 @@ interface ExportListItem {
   provider: string;
   leadRequest: string;
   zipCodes: string[];
+  geoTarget: GeoTarget | null;
+  createdBy: string | null;
+  isMine: boolean;
   target: number;
   useCase: string | null;
+  qualityTier: string | null;
+  requestedCount: number | null;
   status: string;
   errorCode: string | null;
   errorMessage: string | null;
   totalFetched: number | null;
   kept: number | null;
+  suppressedCount: number;
+  repeatSuppressedCount: number;
+  customerSuppressedCount: number;
   hasFile: boolean;
   lastSignedUrlAt: string | null;
+  /** Masked sample while the export awaits approval (status 'preview') */
+  preview: PreviewLead[] | null;
+  /** Members came from an earlier export's audience */
+  audienceReused: boolean;
+  reusedFromExportId: string | null;
 }
 
 interface ListExportsResponse {
   ok: true;
+  view: 'mine' | 'team';
   exports: ExportListItem[];
   total: number;
 }
@@ -46,22 +65,33 @@ interface ErrorResponse {
 /**
  * Transform database row to API response format
  */
-function toListItem(row: LeadExport): ExportListItem {
+function toListItem(row: LeadExport, userId: string | undefined): ExportListItem {
   return {
     id: row.id,
     createdAt: row.created_at,
     provider: row.provider,
     leadRequest: row.lead_request,
     zipCodes: row.zip_codes,
+    geoTarget: row.geo_target ?? null,
+    createdBy: row.created_by ?? null,
+    isMine: !!userId && row.created_by === userId,
     target: parseInt(row.target, 10) || 0,
     useCase: row.use_case,
+    qualityTier: row.quality_tier,
+    requestedCount: row.requested_count,
     status: row.status,
     errorCode: row.error_code,
     errorMessage: row.error_message,
     totalFetched: row.total_fetched,
     kept: row.kept,
-    hasFile: !!(row.bucket && row.path),
+    suppressedCount: row.suppressed_count ?? 0,
+    repeatSuppressedCount: row.repeat_suppressed_count ?? 0,
+    customerSuppressedCount: row.customer_suppressed_count ?? 0,
+    hasFile: !!(row.bucket && row.path) && row.status !== 'discarded',
     lastSignedUrlAt: row.last_signed_url_at,
+    preview: row.status === 'preview' ? row.preview_rows ?? [] : null,
+    audienceReused: row.audience_reused ?? false,
+    reusedFromExportId: row.reused_from_export_id ?? null,
   };
 }
 
@@ -76,7 +106,7 @@ export default async function handler(
   // ─────────────────────────────────────────────────────────────────────────
   // Session guard
   // ─────────────────────────────────────────────────────────────────────────
-  const sessionGuard = requireSession(req, res);
+  const sessionGuard = await requireSession(req, res, { scope: 'read-exports' });
   if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -101,15 +131,19 @@ export default async function handler(
     }
   }
 
+  const view = req.query.view === 'mine' ? 'mine' : 'team';
+  const userId = getSessionUser(req)?.userId;
+
   // ─────────────────────────────────────────────────────────────────────────
   // Fetch exports
   // ─────────────────────────────────────────────────────────────────────────
   try {
-    const exports = await listExports(limit);
+    const exports = await listExports(getWorkspaceId(req), limit, view === 'mine' ? userId : undefined);
     
     const response: ListExportsResponse = {
       ok: true,
-      exports: exports.map(toListItem),
+      view,
+      exports: exports.map((row) => toListItem(row, userId)),
       total: exports.length,
     };
 
@@ -4,9 +4,10 @@
  *              Allows users to re-download exports after the original signed URL expires.
  */
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { requireSession } from '../_lib/auth.js';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
 import { checkRateLimit } from '../_lib/rate-limit.js';
 import { createSignedUrlForExport } from '../_lib/exports-db.js';
+import { recordAuditEvent, auditActor } from '../_lib/audit-log.js';
 
 /* -------------------------------------------------------------------------- */
 /*                                  TYPES                                     */
@@ -46,7 +47,7 @@ export default async function handler(
   // ─────────────────────────────────────────────────────────────────────────
   // Session guard
   // ─────────────────────────────────────────────────────────────────────────
-  const sessionGuard = requireSession(req, res);
+  const sessionGuard = await requireSession(req, res, { scope: 'read-exports' });
   if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -86,7 +87,7 @@ export default async function handler(
   // Generate signed URL (function handles all validation internally)
   // ─────────────────────────────────────────────────────────────────────────
   try {
-    const result = await createSignedUrlForExport(exportId, SIGNED_URL_EXPIRES_IN);
+    const result = await createSignedUrlForExport(getWorkspaceId(req), exportId, SIGNED_URL_EXPIRES_IN);
 
     if (!result) {
       const errorResp: ErrorResponse = {
@@ -98,6 +99,16 @@ export default async function handler(
       return;
     }
 
+    const user = getSessionUser(req);
+    if (user) {
+      await recordAuditEvent({
+        ...auditActor(user),
+        action: 'exports.signed_url',
+        targetId: exportId,
+        metadata: { expiresInSeconds: result.expiresInSeconds },
+      });
+    }
+
     // ─────────────────────────────────────────────────────────────────────────
     // Return success
     // ─────────────────────────────────────────────────────────────────────────
@@ -4,16 +4,23 @@
  * Dependency health check. Tests connectivity to external services.
  * Does NOT require authentication - this is a public health check.
  * Does NOT expose any secrets or sensitive data.
+ *
+ * Also reports the AudienceLab circuit breaker of the instance serving the
+ * request. An open breaker doesn't fail the check (Supabase is the only hard
+ * dependency) but is listed in `error`.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { getAudienceLabCircuitStatus } from '../_lib/providers/audiencelab.js';
+import type { CircuitBreakerStatus } from '../_lib/http-client.js';
 
 interface DepsHealth {
   ok: boolean;
   time: string;
   supabase: boolean;
   supabaseLatencyMs?: number;
+  audiencelabCircuit: Pick<CircuitBreakerStatus, 'state' | 'consecutiveFailures' | 'retryAt'>;
   error?: string;
 }
 
@@ -61,17 +68,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const supabaseCheck = await checkSupabase();
+  const { state, consecutiveFailures, retryAt } = getAudienceLabCircuitStatus();
 
   const response: DepsHealth = {
     ok: supabaseCheck.ok,
     time: new Date().toISOString(),
     supabase: supabaseCheck.ok,
     supabaseLatencyMs: supabaseCheck.latencyMs,
+    audiencelabCircuit: { state, consecutiveFailures, retryAt },
   };
 
   // Include error details only if there's a problem
+  const errors: string[] = [];
   if (!supabaseCheck.ok && supabaseCheck.error) {
-    response.error = `supabase: ${supabaseCheck.error}`;
+    errors.push(`supabase: ${supabaseCheck.error}`);
+  }
+  if (state !== 'closed') {
+    errors.push(`audiencelab: circuit ${state}`);
+  }
+  if (errors.length > 0) {
+    response.error = errors.join('; ');
   }
 
   // Return 200 if all deps are healthy, 503 if any are down
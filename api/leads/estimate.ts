@@ -0,0 +1,244 @@
+/**
+ * @file api/leads/estimate.ts
+ * @description POST endpoint to preview a lead request without pulling it:
+ *              resolves the intent pack, packed keywords, expanded geo filters and
+ *              contact filters that `generate` would send, and - when the primary
+ *              provider can estimate for free - projects how many leads would
+ *              survive state suppression and the quality gate.
+ *              Creates no export or paid audience and uses no lead credits.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  estimateAudience,
+  getProviderChain,
+  type ProviderName,
+} from '../_lib/providers/index.js';
+import { buildAudiencePayload } from '../_lib/providers/audiencelab.js';
+import { validatePayload } from '../_lib/validation.js';
+import { jsonError } from '../_lib/json.js';
+import { ProviderConfigError, type Lead, type QualityTier, type UseCase } from '../_lib/types.js';
+import { ConfigError } from '../_lib/bytestring.js';
+import { generateRequestId } from '../_lib/audiencelab-response.js';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { checkRateLimit } from '../_lib/rate-limit.js';
+import { applyComplianceRules, type ComplianceRuleSet } from '../_lib/compliance-rules.js';
+import { runQualityPipeline } from '../_lib/quality-gate.js';
+import { backfillLeadLocations } from '../_lib/zip-data.js';
+import {
+  getWorkspace,
+  getWorkspaceCredentials,
+  getWorkspaceComplianceRuleSet,
+} from '../_lib/workspaces.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Projected counts for a request, scaled from the provider's sample.
+ */
+export interface LeadEstimate {
+  /** Audience size reported by the provider */
+  available: number;
+  /** Leads in the sample the pass rates were measured on */
+  sampleSize: number;
+  /** Projected leads left after compliance (state) suppression */
+  afterSuppression: number;
+  /** Projected leads left after the quality gate */
+  afterQualityGate: number;
+  /** What a pull would deliver: afterQualityGate capped at the requested count */
+  estimatedDeliverable: number;
+  requestedCount: number;
+  suppressedStates: string[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HELPERS                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Structured log entry (safe for Vercel logs - no PII).
+ */
+function logEvent(event: string, data: Record<string, unknown>): void {
+  console.log(JSON.stringify({ event, ts: new Date().toISOString(), ...data }));
+}
+
+/**
+ * Scale a count measured on the sample up to the full audience.
+ */
+function project(available: number, kept: number, sampleSize: number): number {
+  if (sampleSize === 0) return 0;
+  return Math.floor((available * kept) / sampleSize);
+}
+
+/**
+ * Run the sample through the same suppression and quality steps as a pull
+ * and project the pass rates onto the available audience.
+ *
+ * Customer suppression lists and repeat suppression depend on the real leads
+ * and are not reflected; actual deliveries can only be lower.
+ */
+export function projectLeadEstimate(
+  available: number,
+  sample: Lead[],
+  useCase: UseCase,
+  ruleSet: ComplianceRuleSet,
+  qualityTier: QualityTier,
+  requestedCount: number
+): LeadEstimate {
+  const located = backfillLeadLocations(sample);
+  const compliance = applyComplianceRules(located.leads, useCase, ruleSet);
+  const quality = runQualityPipeline(compliance.filteredLeads, qualityTier, requestedCount, useCase);
+
+  const afterQualityGate = project(available, quality.leads.length, sample.length);
+
+  return {
+    available,
+    sampleSize: sample.length,
+    afterSuppression: project(available, compliance.filteredLeads.length, sample.length),
+    afterQualityGate,
+    estimatedDeliverable: Math.min(afterQualityGate, requestedCount),
+    requestedCount,
+    suppressedStates: compliance.suppressedStates,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Same access as generate: a session or an API key with the generate scope
+  if (await requireSession(req, res, { scope: 'generate' })) return;
+
+  // Rate limiting (120/hour)
+  const rateLimited = await checkRateLimit(req, res, 'estimate');
+  if (rateLimited) return;
+
+  const requestId = generateRequestId();
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return jsonError(res, 405, 'invalid_method', 'Method not allowed. Use POST.');
+  }
+
+  if (!req.body || typeof req.body !== 'object') {
+    return jsonError(res, 400, 'invalid_body', 'Request body is required JSON.');
+  }
+
+  const validation = validatePayload(req.body as Record<string, unknown>);
+  if (!validation.ok) {
+    const err = validation.error;
+    return jsonError(res, 400, err.code, err.message, err.details);
+  }
+
+  const { leadRequest, zips, geo, scope, useCase, minMatchScore, requestedCount } = validation.data;
+  const effectiveRequestedCount = requestedCount ?? 200;
+
+  const workspace = await getWorkspace(getWorkspaceId(req));
+  if (!workspace) {
+    return jsonError(res, 404, 'workspace_not_found', 'Workspace not found.');
+  }
+  const intentPacks = workspace.intent_packs ?? undefined;
+
+  let complianceRuleSet: ComplianceRuleSet;
+  try {
+    complianceRuleSet = getWorkspaceComplianceRuleSet(workspace);
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      logEvent('estimate_config_error', { requestId, code: err.code });
+      return jsonError(res, 500, err.code, err.message, { ...err.toSafeContext(), hint: err.hint });
+    }
+    throw err;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Resolve the filters generate would send
+  // ─────────────────────────────────────────────────────────────────────────
+  const generateInput = {
+    leadRequest,
+    zips,
+    geo,
+    scope,
+    useCase,
+    minMatchScore,
+    requestedCount,
+    qualityTier: validation.data.qualityTier,
+    credentials: getWorkspaceCredentials(workspace),
+    intentPacks,
+  };
+  const { payload, intentPack, qualityTier, intentFilters, geoFilters, contactFilters } =
+    buildAudiencePayload(generateInput);
+
+  let provider: ProviderName;
+  try {
+    provider = getProviderChain(scope)[0];
+  } catch (err) {
+    if (err instanceof ProviderConfigError) {
+      logEvent('estimate_config_error', { requestId, provider: err.provider });
+      return jsonError(res, 500, err.code, err.message, { ...err.toSafeContext(), hint: err.hint });
+    }
+    throw err;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Estimate deliverable leads (free providers only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const warnings: string[] = [];
+  let estimate: LeadEstimate | null = null;
+
+  const providerEstimate = await estimateAudience(provider, generateInput);
+  if (!providerEstimate) {
+    warnings.push(`The ${provider} provider can't estimate audience size without running a paid pull; only the filters are shown.`);
+  } else if (!providerEstimate.ok) {
+    logEvent('estimate_provider_error', { requestId, provider, code: providerEstimate.error.code });
+    return jsonError(res, 502, providerEstimate.error.code, providerEstimate.error.message, providerEstimate.error.details);
+  } else {
+    estimate = projectLeadEstimate(
+      providerEstimate.available,
+      providerEstimate.sample,
+      useCase,
+      complianceRuleSet,
+      qualityTier,
+      effectiveRequestedCount
+    );
+    if (estimate.estimatedDeliverable < effectiveRequestedCount) {
+      warnings.push(
+        `Only about ${estimate.estimatedDeliverable} of ${effectiveRequestedCount} requested leads are expected to be delivered. ` +
+        'Try a broader area, a lower quality tier or a different lead request.'
+      );
+    }
+  }
+
+  logEvent('estimate_complete', {
+    requestId,
+    workspaceId: workspace.id,
+    provider,
+    zipCount: zips.length,
+    geoType: geo?.type,
+    scope,
+    useCase,
+    qualityTier,
+    intentPack,
+    requestedCount: effectiveRequestedCount,
+    estimatedDeliverable: estimate?.estimatedDeliverable ?? null,
+  });
+
+  return res.status(200).json({
+    ok: true,
+    requestId,
+    provider,
+    intentPack,
+    qualityTier,
+    keywords: intentFilters.keywords,
+    filters: {
+      intent: intentFilters,
+      geo: geoFilters,
+      contact: contactFilters,
+    },
+    zipCount: zips.length,
+    audienceSize: payload.size,
+    estimate,
+    warnings,
+  });
+}
@@ -1,7 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
-import { generateLeads, getProviderName } from '../_lib/providers/index.js';
-import { buildAudiencePayload } from '../_lib/providers/audiencelab.js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  generateLeadsRouted,
+  generateLeadsBlended,
+  getProviderName,
+  getProviderChain,
+  type ProviderName,
+} from '../_lib/providers/index.js';
+import { buildAudiencePayload, fetchAudienceMembers } from '../_lib/providers/audiencelab.js';
 import { leadsToCsv } from '../_lib/csv.js';
 import { validatePayload } from '../_lib/validation.js';
 import { jsonError } from '../_lib/json.js';
@@ -11,18 +17,46 @@ import {
   AudienceLabContractError,
   AudienceLabAsyncError,
   ProviderConfigError,
+  PDLAuthError,
+  PDLUpstreamError,
+  CustomerSuppressionError,
 } from '../_lib/types.js';
 import { ConfigError } from '../_lib/bytestring.js';
 import { generateRequestId } from '../_lib/audiencelab-response.js';
-import { requireSession } from '../_lib/auth.js';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import { recordAuditEvent, auditActor } from '../_lib/audit-log.js';
+import { reserveExportCredits } from '../_lib/lead-credits.js';
 import { checkRateLimit } from '../_lib/rate-limit.js';
+import { beginIdempotentRequest, attachIdempotencyExport, type IdempotencyClaim } from '../_lib/idempotency.js';
 import {
   createExport,
+  getExport,
   updateExportSuccess,
   updateExportError,
   updateExportAudienceId,
+  updateExportProviderJobId,
+  clearExportAudienceReuse,
+  updateExportProvider,
+  qualityReportToExportFields,
+  complianceResultToExportFields,
+  leadPreviewToExportFields,
 } from '../_lib/exports-db.js';
-import { filterLeadsByStateCompliance } from '../_lib/compliance.js';
+import { applyComplianceRules, complianceSummary, type ComplianceRuleSet } from '../_lib/compliance-rules.js';
+import { filterLeadsByCustomerLists, type CustomerSuppressionResult } from '../_lib/customer-suppression.js';
+import { runQualityPipeline } from '../_lib/quality-gate.js';
+import { applyCallingHours } from '../_lib/calling-hours.js';
+import { backfillLeadLocations } from '../_lib/zip-data.js';
+import { resolveDedupeWindowDays, suppressRepeatLeads, recordDeliveredLeads } from '../_lib/suppression-ledger.js';
+import { findReusableAudience, hashAudiencePayload } from '../_lib/audience-reuse.js';
+import { enqueueExportJob } from '../_lib/export-jobs.js';
+import { deleteStorageFile } from '../_lib/cleanup.js';
+import { getSavedSearch } from '../_lib/saved-searches.js';
+import {
+  getWorkspace,
+  getWorkspaceCredentials,
+  getWorkspaceComplianceRuleSet,
+  buildExportPath,
+} from '../_lib/workspaces.js';
 
 /**
  * Structured log entry (safe for Vercel logs - no PII).
@@ -32,13 +66,29 @@ function logEvent(event: string, data: Record<string, unknown>): void {
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Require authentication (returns non-null if 401 sent)
-  if (requireSession(req, res)) return;
+  // Require a session or an API key with the generate scope (returns non-null if 401/403 sent)
+  if (await requireSession(req, res, { scope: 'generate' })) return;
   
   // Rate limiting (20/hour)
   const rateLimited = await checkRateLimit(req, res, 'generate');
   if (rateLimited) return;
-  
+
+  // Idempotency-Key: replays, in-progress and conflicting retries are answered here
+  const idempotency = await beginIdempotentRequest(req, res);
+  if (!idempotency) return;
+
+  try {
+    await generateLeadsForRequest(req, res, idempotency.claim);
+  } finally {
+    await idempotency.finish();
+  }
+}
+
+async function generateLeadsForRequest(
+  req: VercelRequest,
+  res: VercelResponse,
+  idempotencyClaim: IdempotencyClaim | null
+) {
   const requestId = generateRequestId();
   const startTime = Date.now();
   
@@ -57,9 +107,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return jsonError(res, 400, err.code, err.message, err.details);
   }
 
-  const { leadRequest, zips, scope, useCase, minMatchScore, requestedCount } = validation.data;
+  const { leadRequest, zips, geo, scope, useCase, minMatchScore, requestedCount, blend, sortCallableNow, preview, savedSearchId } = validation.data;
+  const dedupeWindowDays = resolveDedupeWindowDays(validation.data.dedupeWindowDays);
   
-  logEvent('generate_start', { requestId, zipCount: zips.length, scope, useCase, requestedCount });
+  // Workspace settings: AudienceLab key, suppression states, intent packs, storage prefix
+  const workspace = await getWorkspace(getWorkspaceId(req));
+  if (!workspace) {
+    return jsonError(res, 404, 'workspace_not_found', 'Workspace not found.');
+  }
+  const intentPacks = workspace.intent_packs ?? undefined;
+
+  // A saved search is recorded on the export, so it must be one of the workspace's
+  if (savedSearchId && !(await getSavedSearch(workspace.id, savedSearchId))) {
+    return jsonError(res, 400, 'invalid_saved_search', 'Saved search not found.');
+  }
+
+  logEvent('generate_start', { requestId, workspaceId: workspace.id, zipCount: zips.length, geoType: geo?.type, scope, useCase, requestedCount, qualityTier: validation.data.qualityTier, blend, preview, savedSearchId });
 
   // ─────────────────────────────────────────────────────────────────────────
   // Build AudienceLab payload for debugging/observability
@@ -67,49 +130,182 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const { payload: audiencePayload, intentPack, qualityTier } = buildAudiencePayload({
     leadRequest,
     zips,
+    geo,
     scope,
     useCase,
     minMatchScore,
     requestedCount,
-    qualityTier: (validation.data as { qualityTier?: 'hot' | 'balanced' | 'scale' }).qualityTier,
+    qualityTier: validation.data.qualityTier,
+    intentPacks,
   });
   
+  // Resolve the compliance rule set up front so a malformed COMPLIANCE_RULES fails fast
+  let complianceRuleSet: ComplianceRuleSet;
+  try {
+    complianceRuleSet = getWorkspaceComplianceRuleSet(workspace);
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      logEvent('generate_config_error', { requestId, code: err.code });
+      return jsonError(res, 500, err.code, err.message, { ...err.toSafeContext(), hint: err.hint });
+    }
+    throw err;
+  }
+
+  // Primary provider for this scope; a bad routing policy is reported by generateLeadsRouted below
+  let primaryProvider: ProviderName = getProviderName();
+  try {
+    primaryProvider = getProviderChain(scope)[0];
+  } catch {
+    // Ignore - surfaced as a config error when generating
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
-  // Create export record in database (status=building)
+  // Audience reuse: an identical AudienceLab request in this workspace within
+  // the TTL already has an audience - fetch its members instead of creating one
   // ─────────────────────────────────────────────────────────────────────────
-  let exportId: string | null = null;
-  try {
-    exportId = await createExport({
-      provider: getProviderName(),
-      leadRequest,
-      zipCodes: zips,
-      target: String(zips.length), // Target count as string
-      useCase,
-      requestId,
-      status: 'building',
-      requestPayload: audiencePayload,
-      requestedCount: requestedCount ?? 200,
-      qualityTier,
-      intentPack,
+  const audienceHash = hashAudiencePayload(audiencePayload);
+  const reusable = !blend && primaryProvider === 'audiencelab'
+    ? await findReusableAudience(workspace.id, audienceHash)
+    : null;
+  if (reusable) {
+    logEvent('generate_audience_reuse', { requestId, audienceId: reusable.audienceId, reusedFromExportId: reusable.exportId });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Create export record (status=building) and reserve its lead credits: the
+  // requested count must fit the workspace and user allowances. The export
+  // holds the reservation, so without it nothing is generated.
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionUser = getSessionUser(req);
+  const creditsNeeded = requestedCount ?? 200;
+  const exportId = await createExport({
+    workspaceId: workspace.id,
+    provider: primaryProvider,
+    leadRequest,
+    zipCodes: zips,
+    geoTarget: geo,
+    createdBy: sessionUser?.userId,
+    target: String(zips.length), // Target count as string
+    useCase,
+    requestId,
+    status: 'building',
+    requestPayload: audiencePayload,
+    requestedCount: creditsNeeded,
+    qualityTier,
+    intentPack,
+    dedupeWindowDays,
+    sortCallableNow,
+    previewRequested: preview,
+    audienceHash,
+    audienceId: reusable?.audienceId,
+    reusedFromExportId: reusable?.exportId,
+    savedSearchId,
+    leadScope: scope,
+    blend,
+  });
+  if (!exportId) {
+    logEvent('generate_export_unavailable', { requestId });
+    return jsonError(res, 503, 'export_unavailable', 'Could not record the export. Please try again.');
+  }
+  logEvent('export_created', { requestId, exportId });
+
+  // Checked and reserved in one locked step, so concurrent requests can't overspend
+  const reservation = await reserveExportCredits(exportId, creditsNeeded);
+  if (!reservation) {
+    logEvent('generate_credits_unavailable', { requestId, exportId });
+    updateExportError(workspace.id, exportId, {
+      status: 'error',
+      errorCode: 'credits_unavailable',
+      errorMessage: 'Could not reserve lead credits',
+    }).catch(console.error);
+    return jsonError(res, 503, 'credits_unavailable', 'Could not check lead credits. Please try again.');
+  }
+  if (!reservation.ok) {
+    // The export row was removed with the failed reservation
+    const { shortfall } = reservation;
+    logEvent('generate_insufficient_credits', { requestId, ...shortfall });
+    const whose = shortfall.scope === 'workspace' ? 'Your workspace has' : 'You have';
+    return jsonError(
+      res,
+      402,
+      'insufficient_credits',
+      `${whose} ${shortfall.remaining} of ${shortfall.limit} monthly lead credits left; this request needs ${creditsNeeded}.`,
+      { ...shortfall, resetsAt: reservation.resetsAt }
+    );
+  }
+
+  if (idempotencyClaim) {
+    await attachIdempotencyExport(idempotencyClaim, exportId);
+  }
+
+  if (sessionUser) {
+    await recordAuditEvent({
+      ...auditActor(sessionUser),
+      action: 'leads.generate',
+      targetId: exportId,
+      metadata: {
+        requestId,
+        provider: primaryProvider,
+        blend,
+        scope,
+        useCase,
+        geoType: geo?.type ?? 'zips',
+        zipCount: zips.length,
+        requestedCount: creditsNeeded,
+        qualityTier,
+        preview,
+        savedSearchId,
+      },
     });
-    logEvent('export_created', { requestId, exportId });
-  } catch (dbErr) {
-    // Log but don't fail - export tracking is non-critical
-    console.error('[generate] Failed to create export record:', dbErr);
   }
 
-  // Generate leads using configured provider
+  // Generate leads along the scope's provider chain (falls back on no results / upstream errors),
+  // or query the whole chain and merge when blend mode is requested
   let result;
+  let provider: string;
+  let providersAttempted: ProviderName[];
+  let reusedFromExportId: string | null = null;
   try {
-    result = await generateLeads({ leadRequest, zips, scope, useCase, minMatchScore, requestedCount });
+    const generateInput = {
+      leadRequest,
+      zips,
+      geo,
+      scope,
+      useCase,
+      minMatchScore,
+      requestedCount,
+      qualityTier,
+      credentials: getWorkspaceCredentials(workspace),
+      intentPacks,
+    };
+    const reuseResult = reusable
+      ? await fetchAudienceMembers(reusable.audienceId, generateInput, requestId)
+      : null;
+
+    if (reuseResult && (reuseResult.ok || reuseResult.error.code === 'provider_building')) {
+      result = reuseResult;
+      provider = 'audiencelab';
+      providersAttempted = ['audiencelab'];
+      reusedFromExportId = reusable?.exportId ?? null;
+    } else {
+      // The reused audience couldn't be read (e.g. deleted upstream): build a new one
+      if (reuseResult && !reuseResult.ok) {
+        logEvent('generate_audience_reuse_failed', { requestId, audienceId: reusable?.audienceId, code: reuseResult.error.code });
+        await clearExportAudienceReuse(workspace.id, exportId);
+      }
+      const routed = blend
+        ? await generateLeadsBlended(generateInput)
+        : await generateLeadsRouted(generateInput);
+      result = routed.result;
+      provider = routed.provider;
+      providersAttempted = routed.attempted;
+    }
   } catch (err) {
     // Handle provider configuration errors (missing API key when audiencelab expected)
     if (err instanceof ProviderConfigError) {
       logEvent('generate_config_error', { requestId, provider: err.provider });
       // Update export record with error
-      if (exportId) {
-        updateExportError(exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
-      }
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
       return jsonError(
         res,
         500,
@@ -121,9 +317,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Handle typed AudienceLab errors with standardized response
     if (err instanceof AudienceLabAuthError) {
       logEvent('generate_auth_error', { requestId, status: err.status });
-      if (exportId) {
-        updateExportError(exportId, { status: 'error', errorCode: err.code, errorMessage: 'AudienceLab auth error' }).catch(console.error);
-      }
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: 'AudienceLab auth error' }).catch(console.error);
       return jsonError(
         res,
         502,
@@ -133,24 +327,48 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       );
     }
     if (err instanceof AudienceLabUpstreamError) {
-      logEvent('generate_upstream_error', { requestId, status: err.status });
-      if (exportId) {
-        updateExportError(exportId, { status: 'error', errorCode: err.code, errorMessage: 'AudienceLab upstream error' }).catch(console.error);
+      logEvent('generate_upstream_error', { requestId, status: err.status, circuitOpen: err.circuitOpen });
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: 'AudienceLab upstream error' }).catch(console.error);
+      if (err.circuitOpen && err.retryAfterSeconds) {
+        res.setHeader('Retry-After', String(err.retryAfterSeconds));
       }
       return jsonError(
         res,
         502,
         err.code,
-        'AudienceLab upstream service error.',
+        err.circuitOpen
+          ? 'AudienceLab is unavailable after repeated errors. Try again shortly.'
+          : 'AudienceLab upstream service error.',
+        err.toSafeContext()
+      );
+    }
+    // Handle typed PDL errors
+    if (err instanceof PDLAuthError) {
+      logEvent('generate_auth_error', { requestId, provider: 'pdl', status: err.status });
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: 'PDL auth error' }).catch(console.error);
+      return jsonError(
+        res,
+        502,
+        err.code,
+        'Unauthorized: invalid or revoked PDL key.',
+        { ...err.toSafeContext(), hint: err.hint }
+      );
+    }
+    if (err instanceof PDLUpstreamError) {
+      logEvent('generate_upstream_error', { requestId, provider: 'pdl', status: err.status });
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: 'PDL upstream error' }).catch(console.error);
+      return jsonError(
+        res,
+        502,
+        err.code,
+        'PDL upstream service error.',
         err.toSafeContext()
       );
     }
     // Handle contract errors (response shape mismatch)
     if (err instanceof AudienceLabContractError) {
       logEvent('generate_contract_error', { requestId, code: err.code });
-      if (exportId) {
-        updateExportError(exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
-      }
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
       return jsonError(
         res,
         502,
@@ -162,9 +380,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Handle async/job responses
     if (err instanceof AudienceLabAsyncError) {
       logEvent('generate_async_error', { requestId });
-      if (exportId) {
-        updateExportError(exportId, { status: 'error', errorCode: err.code, errorMessage: 'AudienceLab async error' }).catch(console.error);
-      }
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: 'AudienceLab async error' }).catch(console.error);
       return jsonError(
         res,
         502,
@@ -176,9 +392,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Handle configuration errors (e.g. BOM in API key)
     if (err instanceof ConfigError) {
       logEvent('generate_config_error', { requestId, code: err.code });
-      if (exportId) {
-        updateExportError(exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
-      }
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
       return jsonError(
         res,
         500,
@@ -190,24 +404,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Unknown errors
     const message = err instanceof Error ? err.message : 'Unknown error';
     logEvent('generate_unknown_error', { requestId, message });
-    if (exportId) {
-      updateExportError(exportId, { status: 'error', errorCode: 'internal_error', errorMessage: message }).catch(console.error);
-    }
+    updateExportError(workspace.id, exportId, { status: 'error', errorCode: 'internal_error', errorMessage: message }).catch(console.error);
     return jsonError(res, 500, 'internal_error', message);
   }
 
+  if (providersAttempted.length > 1) {
+    logEvent(blend ? 'generate_provider_blend' : 'generate_provider_fallback', { requestId, attempted: providersAttempted, provider });
+  }
+  if (provider !== primaryProvider) {
+    updateExportProvider(workspace.id, exportId, provider).catch(console.error);
+  }
+
   if (!result.ok) {
     const err = result.error;
     
     // Handle provider_building: return HTTP 202 Accepted (audience building async)
     if (err.code === 'provider_building') {
-      const audienceId = (err.details as Record<string, unknown>)?.audienceId as string;
-      logEvent('generate_building', { requestId, audienceId });
+      const audienceId = (err.details as Record<string, unknown>)?.audienceId as string | undefined;
+      // Async create: AudienceLab returned a job that will produce the audience
+      const jobId = (err.details as Record<string, unknown>)?.jobId as string | undefined;
+      logEvent('generate_building', { requestId, audienceId, jobId });
       
-      // Update export with audienceId so status.ts can find it later
-      if (exportId && audienceId) {
-        updateExportAudienceId(exportId, audienceId).catch(console.error);
+      // Update export with audienceId (or the job) so status.ts and the cron can find it later
+      if (audienceId) {
+        updateExportAudienceId(workspace.id, exportId, audienceId).catch(console.error);
+      } else if (jobId) {
+        updateExportProviderJobId(workspace.id, exportId, jobId).catch(console.error);
       }
+      // Whoever holds the job's lease (a status poll or the worker) finishes the export
+      await enqueueExportJob(workspace.id, exportId);
       
       return res.status(202).json({
         ok: false,
@@ -216,6 +441,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           message: 'Audience is building. Poll /api/leads/status for results.',
           details: {
             audienceId,
+            jobId,
             leadRequest,
             zipCodes: zips.join(','),
             leadScope: scope,
@@ -223,132 +449,250 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             requestId,
             retryAfterSeconds: 2,
             exportId, // Include exportId for status.ts to update
+            provider,
+            reusedFromExportId: reusedFromExportId ?? undefined,
+            preview, // Status polling stages the export instead of releasing it
           },
         },
       });
     }
     
-    // Map provider errors: 404 for no results, 502 for other upstream failures
-    const status = err.code === 'provider_no_results' ? 404 : 502;
+    // Map provider errors: 404 for no results, 409 for a blend with a building
+    // provider, 502 for other upstream failures
+    const status = err.code === 'provider_no_results' ? 404 : err.code === 'provider_blend_building' ? 409 : 502;
     logEvent('generate_error', { requestId, code: err.code, status });
     
     // Update export with error
-    if (exportId) {
-      const errStatus = err.code === 'provider_no_results' ? 'no_results' : 'error';
-      updateExportError(exportId, { status: errStatus, errorCode: err.code, errorMessage: err.message }).catch(console.error);
-    }
+    const errStatus = err.code === 'provider_no_results' ? 'no_results' : 'error';
+    updateExportError(workspace.id, exportId, { status: errStatus, errorCode: err.code, errorMessage: err.message }).catch(console.error);
     
-    return jsonError(res, status, err.code, err.message, err.details);
+    return jsonError(res, status, err.code, err.message, { ...err.details, providersAttempted });
   }
 
-  // ─────────────────────────────────────────────────────────────────────────
-  // Apply compliance suppression for CALL exports
-  // ─────────────────────────────────────────────────────────────────────────
-  const complianceResult = filterLeadsByStateCompliance(result.leads, useCase);
-  const leads = complianceResult.filteredLeads;
+  // Anything that throws from here on must release the reserved credits; the
+  // export is settled once it is recorded as finished (or cancelled)
+  let settled = false;
+  let uploaded: { supabase: SupabaseClient; bucket: string; path: string } | null = null;
+  try {
+    // ─────────────────────────────────────────────────────────────────────────
+    // Backfill missing city/state from ZIP, then apply compliance rules
+    // (suppress / flag / require consent) - state rules need the state
+    // ─────────────────────────────────────────────────────────────────────────
+    const located = backfillLeadLocations(result.leads);
+    if (located.backfilledCount > 0) {
+      logEvent('generate_location_backfill', { requestId, backfilledCount: located.backfilledCount });
+    }
+
+    const complianceResult = applyComplianceRules(located.leads, useCase, complianceRuleSet);
   
-  if (complianceResult.suppressedCount > 0) {
-    logEvent('generate_suppression', {
+    if (complianceResult.rulesFired.length > 0) {
+      logEvent('generate_suppression', {
+        requestId,
+        originalCount: result.leads.length,
+        suppressedCount: complianceResult.suppressedCount,
+        suppressedStates: complianceResult.suppressedStates,
+        keptCount: complianceResult.filteredLeads.length,
+        ruleVersion: complianceResult.ruleVersion,
+        rulesFired: complianceResult.rulesFired,
+      });
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Drop leads on customer suppression lists (DNC / existing customers)
+    // ─────────────────────────────────────────────────────────────────────────
+    let customerResult: CustomerSuppressionResult;
+    try {
+      customerResult = await filterLeadsByCustomerLists(workspace.id, complianceResult.filteredLeads);
+    } catch (err) {
+      if (err instanceof CustomerSuppressionError) {
+        logEvent('generate_customer_suppression_error', { requestId, code: err.code });
+        updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
+        return jsonError(res, 503, err.code, 'Suppression lists unavailable; no leads were delivered.', {
+          ...err.toSafeContext(),
+          exportId,
+        });
+      }
+      throw err;
+    }
+
+    if (customerResult.suppressedCount > 0) {
+      logEvent('generate_customer_suppression', {
+        requestId,
+        suppressedByCustomerList: customerResult.suppressedCount,
+        keptCount: customerResult.filteredLeads.length,
+      });
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Drop leads already delivered within the dedupe window (hashed ledger)
+    // ─────────────────────────────────────────────────────────────────────────
+    const repeats = await suppressRepeatLeads(workspace.id, customerResult.filteredLeads, dedupeWindowDays);
+    if (repeats.repeatCount > 0) {
+      logEvent('generate_repeat_suppression', { requestId, repeatCount: repeats.repeatCount, dedupeWindowDays });
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Score, sort and apply the quality gate for the selected tier, then
+    // annotate call exports with time zone and local calling window
+    // ─────────────────────────────────────────────────────────────────────────
+    const effectiveRequestedCount = requestedCount ?? 200;
+    const quality = runQualityPipeline(repeats.leads, qualityTier, effectiveRequestedCount, useCase);
+    const leads = applyCallingHours(quality.leads, useCase, sortCallableNow);
+
+    logEvent('generate_quality_gate', {
       requestId,
-      originalCount: result.leads.length,
-      suppressedCount: complianceResult.suppressedCount,
-      suppressedStates: complianceResult.suppressedStates,
-      keptCount: leads.length,
+      qualityTier,
+      deliveredCount: quality.report.deliveredCount,
+      rejectedByQualityCount: quality.report.rejectedByQualityCount,
+      minQualityScoreUsed: quality.report.minQualityScoreUsed,
     });
-  }
 
-  const csv = leadsToCsv(leads);
+    const csv = leadsToCsv(leads);
 
-  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
-  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-  if (!supabaseUrl || !serviceKey) {
-    return jsonError(res, 500, 'server_config_error', 'Missing Supabase configuration on server.', {
-      missing: {
-        SUPABASE_URL_or_VITE_SUPABASE_URL: !supabaseUrl,
-        SUPABASE_SERVICE_ROLE_KEY: !serviceKey,
-      },
+    if (!supabaseUrl || !serviceKey) {
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: 'server_config_error', errorMessage: 'Missing Supabase configuration' }).catch(console.error);
+      return jsonError(res, 500, 'server_config_error', 'Missing Supabase configuration on server.', {
+        missing: {
+          SUPABASE_URL_or_VITE_SUPABASE_URL: !supabaseUrl,
+          SUPABASE_SERVICE_ROLE_KEY: !serviceKey,
+        },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    // Each workspace's CSVs live under its own storage prefix
+    const path = buildExportPath(workspace);
+    const bucket = 'exports';
+
+    const bytes = new TextEncoder().encode(csv);
+    const uploadRes = await supabase.storage.from(bucket).upload(path, bytes, {
+      contentType: 'text/csv',
+      upsert: false,
     });
-  }
 
-  const supabase = createClient(supabaseUrl, serviceKey);
-
-  const now = new Date();
-  const yyyy = now.getFullYear();
-  const mm = String(now.getMonth() + 1).padStart(2, '0');
-  const dd = String(now.getDate()).padStart(2, '0');
-  const dateDir = `${yyyy}-${mm}-${dd}`;
-  const ts = Date.now();
-  const rand = Math.random().toString(36).slice(2, 8);
-  const path = `${dateDir}/${ts}-${rand}.csv`;
-  const bucket = 'exports';
-
-  const bytes = new TextEncoder().encode(csv);
-  const uploadRes = await supabase.storage.from(bucket).upload(path, bytes, {
-    contentType: 'text/csv',
-    upsert: false,
-  });
+    if (uploadRes.error) {
+      logEvent('generate_upload_error', { requestId, error: uploadRes.error.message });
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: 'upload_error', errorMessage: uploadRes.error.message }).catch(console.error);
+      return jsonError(res, 500, 'upload_error', 'Failed to upload CSV to storage.', { message: uploadRes.error.message });
+    }
+    uploaded = { supabase, bucket, path };
 
-  if (uploadRes.error) {
-    logEvent('generate_upload_error', { requestId, error: uploadRes.error.message });
-    return jsonError(res, 500, 'upload_error', 'Failed to upload CSV to storage.', { message: uploadRes.error.message });
-  }
+    // Previews stay staged without a download link until approved (POST /api/exports/approve)
+    const expiresInSeconds = 24 * 60 * 60;
+    let signedUrl: string | undefined;
+    if (!preview) {
+      const signedRes = await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds);
 
-  const expiresInSeconds = 24 * 60 * 60;
-  const signedRes = await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds);
+      if (signedRes.error || !signedRes.data) {
+        logEvent('generate_signed_url_error', { requestId, error: signedRes.error?.message });
+        await deleteStorageFile(supabase, bucket, path);
+        updateExportError(workspace.id, exportId, { status: 'error', errorCode: 'signed_url_error', errorMessage: signedRes.error?.message ?? 'Failed to generate signed URL' }).catch(console.error);
+        return jsonError(res, 500, 'signed_url_error', 'Failed to generate signed URL.', { message: signedRes.error?.message });
+      }
+      signedUrl = signedRes.data.signedUrl;
+    }
+    const previewFields = preview ? leadPreviewToExportFields(leads) : undefined;
 
-  if (signedRes.error || !signedRes.data) {
-    logEvent('generate_signed_url_error', { requestId, error: signedRes.error?.message });
-    return jsonError(res, 500, 'signed_url_error', 'Failed to generate signed URL.', { message: signedRes.error?.message });
-  }
+    const durationMs = Date.now() - startTime;
+    logEvent('generate_success', { 
+      requestId, 
+      provider,
+      preview,
+      audienceId: result.audienceId,
+      count: leads.length,
+      suppressedCount: complianceResult.suppressedCount,
+      suppressedByCustomerList: customerResult.suppressedCount,
+      repeatSuppressedCount: repeats.repeatCount,
+      rejectedByQualityCount: quality.report.rejectedByQualityCount,
+      durationMs,
+      diagnostics: result.diagnostics,
+      fieldCoverage: result.fieldCoverage,
+    });
 
-  const durationMs = Date.now() - startTime;
-  logEvent('generate_success', { 
-    requestId, 
-    audienceId: result.audienceId,
-    count: leads.length,
-    suppressedCount: complianceResult.suppressedCount,
-    durationMs,
-    diagnostics: result.diagnostics,
-    fieldCoverage: result.fieldCoverage,
-  });
+    // ─────────────────────────────────────────────────────────────────────────
+    // Update export record with success. Not updated (cancelled meanwhile, or
+    // the update failed): nothing is delivered and the CSV is removed.
+    // ─────────────────────────────────────────────────────────────────────────
+    const updated = await updateExportSuccess(workspace.id, exportId, {
+      status: preview ? 'preview' : 'success',
+      totalFetched: result.diagnostics?.totalFetched ?? result.leads.length,
+      kept: leads.length,
+      diagnostics: result.diagnostics ?? null,
+      fieldCoverage: result.fieldCoverage ?? null,
+      bucket,
+      path,
+      suppressedCount: complianceResult.suppressedCount,
+      suppressedStates: complianceResult.suppressedStates,
+      ...complianceResultToExportFields(complianceResult),
+      customerSuppressedCount: customerResult.suppressedCount,
+      repeatSuppressedCount: repeats.repeatCount,
+      ...qualityReportToExportFields(quality.report, quality.stats),
+      ...previewFields,
+    });
+    if (!updated) {
+      await deleteStorageFile(supabase, bucket, path);
+      const current = await getExport(workspace.id, exportId);
+      logEvent('generate_export_not_updated', { requestId, exportId, status: current?.status });
+      if (current?.status === 'cancelled') {
+        return jsonError(res, 409, 'export_cancelled', 'This export was cancelled.', { exportId });
+      }
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: 'export_update_failed', errorMessage: 'Could not record the finished export' }).catch(console.error);
+      return jsonError(res, 500, 'export_update_failed', 'Could not record the export. Please try again.', { exportId });
+    }
+    settled = true;
+    logEvent('export_updated', { requestId, exportId, status: preview ? 'preview' : 'success' });
 
-  // ─────────────────────────────────────────────────────────────────────────
-  // Update export record with success
-  // ─────────────────────────────────────────────────────────────────────────
-  if (exportId) {
-    try {
-      await updateExportSuccess(exportId, {
-        status: 'success',
-        totalFetched: result.diagnostics?.totalFetched ?? (leads.length + complianceResult.suppressedCount),
-        kept: leads.length,
-        diagnostics: result.diagnostics ?? null,
-        fieldCoverage: result.fieldCoverage ?? null,
-        bucket,
-        path,
-        suppressedCount: complianceResult.suppressedCount,
-        suppressedStates: complianceResult.suppressedStates,
+    // Staged leads count as delivered once the preview is approved
+    if (!preview) {
+      await recordDeliveredLeads(workspace.id, exportId, leads);
+    }
+    if (signedUrl && sessionUser) {
+      await recordAuditEvent({
+        ...auditActor(sessionUser),
+        action: 'exports.signed_url',
+        targetId: exportId,
+        metadata: { expiresInSeconds, via: 'generate' },
       });
-      logEvent('export_updated', { requestId, exportId, status: 'success' });
-    } catch (dbErr) {
-      console.error('[generate] Failed to update export record:', dbErr);
     }
-  }
 
-  return res.status(200).json({
-    ok: true,
-    count: leads.length,
-    bucket,
-    path,
-    signedUrl: signedRes.data.signedUrl,
-    expiresInSeconds,
-    audienceId: result.audienceId,
-    requestId,
-    exportId,
-    quality: result.diagnostics,
-    fieldCoverage: result.fieldCoverage,
-    // Compliance info
-    suppressedCount: complianceResult.suppressedCount,
-    suppressedStates: complianceResult.suppressedStates.length > 0 ? complianceResult.suppressedStates : undefined,
-  });
+    return res.status(200).json({
+      ok: true,
+      status: preview ? 'preview' : 'success',
+      count: leads.length,
+      bucket,
+      path,
+      signedUrl,
+      expiresInSeconds: signedUrl ? expiresInSeconds : undefined,
+      preview: previewFields?.previewRows,
+      audienceId: result.audienceId,
+      requestId,
+      exportId,
+      provider,
+      providersAttempted,
+      reusedFromExportId: reusedFromExportId ?? undefined,
+      quality: result.diagnostics,
+      fieldCoverage: result.fieldCoverage,
+      // Compliance info
+      suppressedCount: complianceResult.suppressedCount,
+      suppressedStates: complianceResult.suppressedStates.length > 0 ? complianceResult.suppressedStates : undefined,
+      suppressedByCustomerList: customerResult.suppressedCount,
+      repeatSuppressedCount: repeats.repeatCount,
+      compliance: complianceSummary(complianceResult),
+      // Quality gate report
+      qualityGate: { ...quality.report, requestedCount: effectiveRequestedCount },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    logEvent('generate_pipeline_error', { requestId, exportId, settled, message });
+    if (settled) throw err;
+    if (uploaded) {
+      await deleteStorageFile(uploaded.supabase, uploaded.bucket, uploaded.path);
+    }
+    updateExportError(workspace.id, exportId, { status: 'error', errorCode: 'internal_error', errorMessage: message }).catch(console.error);
+    return jsonError(res, 500, 'internal_error', message);
+  }
 }
@@ -1,7 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
-import { fetchAudienceMembers } from '../_lib/providers/audiencelab.js';
-import { validateProviderConfig, getProviderName } from '../_lib/providers/index.js';
+import { fetchAudienceMembers, fetchAudienceJobMembers } from '../_lib/providers/audiencelab.js';
+import { validateProviderConfig, isProviderEnabled } from '../_lib/providers/index.js';
 import { leadsToCsv } from '../_lib/csv.js';
 import { jsonError } from '../_lib/json.js';
 import {
@@ -10,27 +10,56 @@ import {
   AudienceLabContractError,
   AudienceLabAsyncError,
   ProviderConfigError,
+  CustomerSuppressionError,
   type LeadScope,
+  type QualityTier,
   type UseCase,
 } from '../_lib/types.js';
 import { ConfigError } from '../_lib/bytestring.js';
 import { generateRequestId } from '../_lib/audiencelab-response.js';
-import { requireSession } from '../_lib/auth.js';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import { recordAuditEvent, auditActor } from '../_lib/audit-log.js';
 import { checkRateLimit } from '../_lib/rate-limit.js';
 import {
   findExportByAudienceId,
+  findExportByProviderJobId,
+  updateExportAudienceId,
   updateExportSuccess,
   updateExportError,
   incrementPollAttempts,
   getExport,
   updateExportBuildingLong,
+  qualityReportToExportFields,
+  complianceResultToExportFields,
+  leadPreviewToExportFields,
+  createSignedUrlForExport,
+  updateExportProgress,
+  type LeadExport,
 } from '../_lib/exports-db.js';
 import {
-  filterLeadsByStateCompliance,
+  claimExportJob,
+  completeExportJob,
+  rescheduleExportJob,
+  type ExportJob,
+} from '../_lib/export-jobs.js';
+import {
   calculateBackoffSeconds,
   hasExceededMaxAttempts,
   MAX_POLL_ATTEMPTS,
 } from '../_lib/compliance.js';
+import { applyComplianceRules, complianceSummary } from '../_lib/compliance-rules.js';
+import { runQualityPipeline } from '../_lib/quality-gate.js';
+import { applyCallingHours } from '../_lib/calling-hours.js';
+import { backfillLeadLocations } from '../_lib/zip-data.js';
+import { filterLeadsByCustomerLists } from '../_lib/customer-suppression.js';
+import { suppressRepeatLeads, recordDeliveredLeads } from '../_lib/suppression-ledger.js';
+import { deleteStorageFile } from '../_lib/cleanup.js';
+import {
+  getWorkspace,
+  getWorkspaceCredentials,
+  getWorkspaceComplianceRuleSet,
+  buildExportPath,
+} from '../_lib/workspaces.js';
 
 /**
  * Structured log entry (safe for Vercel logs - no PII).
@@ -42,6 +71,67 @@ function logEvent(event: string, data: Record<string, unknown>): void {
 /** Background poll interval for long builds (5 minutes) */
 const BACKGROUND_POLL_MINUTES = 5;
 
+/** Signed URL lifetime for finished exports (24 hours) */
+const SIGNED_URL_EXPIRES_IN = 24 * 60 * 60;
+
+/**
+ * Answer a poll for an export that was already finished (by the background
+ * worker or an earlier poll) from its record, without fetching members again.
+ */
+async function respondWithFinishedExport(
+  req: VercelRequest,
+  res: VercelResponse,
+  workspaceId: string,
+  exp: LeadExport,
+  requestId: string
+) {
+  if (exp.status === 'success' || exp.status === 'preview') {
+    const signed = exp.status === 'success'
+      ? await createSignedUrlForExport(workspaceId, exp.id, SIGNED_URL_EXPIRES_IN)
+      : null;
+    const user = getSessionUser(req);
+    if (signed && user) {
+      await recordAuditEvent({
+        ...auditActor(user),
+        action: 'exports.signed_url',
+        targetId: exp.id,
+        metadata: { expiresInSeconds: signed.expiresInSeconds, via: 'status' },
+      });
+    }
+    return res.status(200).json({
+      ok: true,
+      status: exp.status,
+      count: exp.kept ?? 0,
+      bucket: exp.bucket,
+      path: exp.path,
+      signedUrl: signed?.signedUrl,
+      expiresInSeconds: signed?.expiresInSeconds,
+      preview: exp.status === 'preview' ? exp.preview_rows ?? [] : undefined,
+      audienceId: exp.audience_id,
+      requestId,
+      exportId: exp.id,
+      quality: exp.diagnostics,
+      fieldCoverage: exp.field_coverage,
+      suppressedCount: exp.suppressed_count ?? 0,
+      suppressedStates: exp.suppressed_states?.length ? exp.suppressed_states : undefined,
+      suppressedByCustomerList: exp.customer_suppressed_count ?? 0,
+      repeatSuppressedCount: exp.repeat_suppressed_count ?? 0,
+      provider: 'audiencelab',
+      pollAttempts: exp.poll_attempts,
+    });
+  }
+  if (exp.status === 'no_results') {
+    return jsonError(res, 404, exp.error_code || 'provider_no_results', exp.error_message || 'No leads found.', { exportId: exp.id });
+  }
+  if (exp.status === 'discarded') {
+    return jsonError(res, 409, 'export_discarded', 'This preview was discarded.', { exportId: exp.id });
+  }
+  if (exp.status === 'cancelled') {
+    return jsonError(res, 409, 'export_cancelled', 'This export was cancelled.', { exportId: exp.id });
+  }
+  return jsonError(res, 502, exp.error_code || 'export_failed', exp.error_message || 'Export failed.', { exportId: exp.id });
+}
+
 /**
  * POST /api/leads/status
  * 
@@ -49,21 +139,22 @@ const BACKGROUND_POLL_MINUTES = 5;
  * Implements exponential backoff polling with compliance filtering.
  * 
  * Request body:
- *   { audienceId: string, leadRequest: string, zipCodes: string, leadScope: string, useCase: string, requestId?: string, exportId?: string }
+ *   { audienceId: string, leadRequest: string, zipCodes: string, leadScope: string, useCase: string, requestId?: string, exportId?: string, preview?: boolean }
+ *   jobId replaces audienceId while an async AudienceLab job is still creating the audience.
  * 
  * Responses:
- *   200: Success with signedUrl, count, suppressedCount
+ *   200: Success with signedUrl, count, suppressedCount (previews: status 'preview' and masked rows, no signedUrl)
  *   202: Still building (includes nextPollSeconds with exponential backoff)
  *   202: Building long - exceeded max attempts, moved to background processing
- *   404: Definitively no results
+ *   404: Definitively no results, or export_not_found (no export of the workspace for the audience)
  *   4xx/5xx: Various errors (only for terminal failures)
  * 
  * Polling uses Fibonacci-based backoff: 3, 5, 8, 13, 21, 34, 55, 60s (capped)
  * After 30 attempts, transitions to 'building_long' for background processing (NOT error).
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Require authentication (returns non-null if 401 sent)
-  if (requireSession(req, res)) return;
+  // Require a session or an API key with the generate scope (returns non-null if 401/403 sent)
+  if (await requireSession(req, res, { scope: 'generate' })) return;
   
   // Rate limiting (120/hour)
   const rateLimited = await checkRateLimit(req, res, 'status');
@@ -82,7 +173,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const body = req.body as Record<string, unknown>;
-  const audienceId = typeof body.audienceId === 'string' ? body.audienceId.trim() : '';
+  let audienceId = typeof body.audienceId === 'string' ? body.audienceId.trim() : '';
+  const jobIdFromBody = typeof body.jobId === 'string' ? body.jobId.trim() : '';
   const leadRequest = typeof body.leadRequest === 'string' ? body.leadRequest.trim() : '';
   const zipCodesRaw = typeof body.zipCodes === 'string' ? body.zipCodes : '';
   const leadScope = typeof body.leadScope === 'string' ? body.leadScope.toLowerCase().trim() : '';
@@ -92,8 +184,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const exportIdFromBody = typeof body.exportId === 'string' ? body.exportId.trim() : undefined;
 
   // Validate required fields
-  if (!audienceId) {
-    return jsonError(res, 400, 'invalid_audience_id', 'audienceId is required.');
+  if (!audienceId && !jobIdFromBody) {
+    return jsonError(res, 400, 'invalid_audience_id', 'audienceId (or jobId) is required.');
   }
   if (!leadRequest) {
     return jsonError(res, 400, 'invalid_lead_request', 'leadRequest is required.');
@@ -108,34 +200,61 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return jsonError(res, 400, 'invalid_zip_codes', 'At least one valid 5-digit ZIP code required.');
   }
 
-  logEvent('status_start', { requestId, audienceId, originalRequestId });
+  // Exports, settings and the AudienceLab key all belong to the caller's workspace
+  const workspace = await getWorkspace(getWorkspaceId(req));
+  if (!workspace) {
+    return jsonError(res, 404, 'workspace_not_found', 'Workspace not found.');
+  }
+  const credentials = getWorkspaceCredentials(workspace);
+
+  logEvent('status_start', { requestId, workspaceId: workspace.id, audienceId, jobId: jobIdFromBody || undefined, originalRequestId });
 
   // ─────────────────────────────────────────────────────────────────────────
   // Resolve export record (by exportId or audienceId)
   // ─────────────────────────────────────────────────────────────────────────
-  let exportId: string | null = exportIdFromBody ?? null;
-  let currentPollAttempts = 0;
-  
-  if (!exportId) {
+  let exportRecord: LeadExport | null = null;
+
+  if (!exportIdFromBody) {
     try {
-      const found = await findExportByAudienceId(audienceId);
-      exportId = found?.id ?? null;
-      currentPollAttempts = found?.poll_attempts ?? 0;
+      exportRecord = audienceId
+        ? await findExportByAudienceId(workspace.id, audienceId)
+        : await findExportByProviderJobId(workspace.id, jobIdFromBody);
     } catch (err) {
-      console.error('[status] Failed to find export by audienceId:', err);
+      console.error('[status] Failed to find export by audienceId/jobId:', err);
     }
   } else {
-    // Get current poll attempts from export record
     try {
-      const exp = await getExport(exportId);
-      currentPollAttempts = exp?.poll_attempts ?? 0;
-    } catch {
-      // Ignore - will default to 0
+      exportRecord = await getExport(workspace.id, exportIdFromBody);
+    } catch (err) {
+      console.error('[status] Failed to load export:', err);
     }
   }
-  
-  if (exportId) {
-    logEvent('status_export_found', { requestId, exportId, currentPollAttempts });
+
+  // No export of the caller's workspace: nothing holds credits for these leads or
+  // records their delivery, so never fetch the audience (or touch another's job)
+  if (!exportRecord) {
+    logEvent('status_export_not_found', { requestId, audienceId, jobId: jobIdFromBody || undefined });
+    return jsonError(res, 404, 'export_not_found', 'Export not found.');
+  }
+  const exportId = exportRecord.id;
+  let currentPollAttempts = exportRecord.poll_attempts ?? 0;
+
+  // Quality tier and requested count were recorded on the export at generate time
+  const qualityTier = (exportRecord.quality_tier || 'balanced') as QualityTier;
+  const requestedCount = exportRecord.requested_count ?? 200;
+  const dedupeWindowDays = exportRecord.dedupe_window_days ?? 0;
+  const sortCallableNow = exportRecord.sort_callable_now ?? false;
+  const preview = exportRecord.preview_requested ?? body.preview === true;
+  // An async job may already have produced the audience on an earlier poll (or in the cron)
+  audienceId = audienceId || exportRecord.audience_id || '';
+  const jobId = jobIdFromBody || exportRecord.provider_job_id || '';
+
+  logEvent('status_export_found', { requestId, exportId, currentPollAttempts });
+
+  // Already finished (e.g. by the background worker): never build it twice
+  if (exportRecord.status !== 'building' && exportRecord.status !== 'building_long') {
+    logEvent('status_already_finished', { requestId, exportId, status: exportRecord.status });
+    return respondWithFinishedExport(req, res, workspace.id, exportRecord, requestId);
   }
   
   // ─────────────────────────────────────────────────────────────────────────
@@ -146,9 +265,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     logEvent('status_transition_to_building_long', { requestId, exportId, attempts: currentPollAttempts });
     
     // Transition to building_long status for background processing
-    if (exportId) {
-      await updateExportBuildingLong(exportId, BACKGROUND_POLL_MINUTES);
-    }
+    await updateExportBuildingLong(workspace.id, exportId, BACKGROUND_POLL_MINUTES);
     
     // Return 202 with building_long status - NOT an error
     return res.status(202).json({
@@ -156,7 +273,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       status: 'building_long',
       message: 'Still building in provider. We\'ll keep checking in the background. You can close this page and check Export History later.',
       exportId,
-      audienceId,
+      audienceId: audienceId || undefined,
+      jobId: jobId || undefined,
       pollAttempts: currentPollAttempts,
       maxAttempts: MAX_POLL_ATTEMPTS,
       nextPollSeconds: BACKGROUND_POLL_MINUTES * 60, // 5 minutes for background
@@ -164,9 +282,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 
-  // Validate provider configuration
+  // Building audiences are always AudienceLab: it must be the default provider
+  // or part of a route, and its key must be configured
   try {
-    validateProviderConfig();
+    if (!isProviderEnabled('audiencelab')) {
+      return jsonError(res, 400, 'invalid_provider', 'Status polling only works with AudienceLab provider.');
+    }
+    validateProviderConfig('audiencelab', credentials);
   } catch (err) {
     if (err instanceof ProviderConfigError) {
       logEvent('status_config_error', { requestId, provider: err.provider });
@@ -175,16 +297,53 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     throw err;
   }
 
-  // Only works with audiencelab provider
-  if (getProviderName() !== 'audiencelab') {
-    return jsonError(res, 400, 'invalid_provider', 'Status polling only works with AudienceLab provider.');
-  }
-
   const input = {
     leadRequest,
     zips,
     scope: leadScope as LeadScope,
     useCase,
+    requestedCount,
+    qualityTier,
+    credentials,
+    intentPacks: workspace.intent_packs ?? undefined,
+  };
+
+  // Only the holder of the export job's lease may finish the export
+  // (no job - e.g. no queue - polls unguarded)
+  const claim = await claimExportJob(requestId, workspace.id, exportId);
+  if (claim?.state === 'busy') {
+    const nextPollSeconds = calculateBackoffSeconds(currentPollAttempts + 1);
+    logEvent('status_job_busy', { requestId, exportId, nextPollSeconds });
+    return res.status(202).json({
+      ok: false,
+      error: {
+        code: 'provider_building',
+        message: 'Export is being processed. Continue polling.',
+        details: {
+          audienceId: audienceId || undefined,
+          jobId: jobId || undefined,
+          requestId,
+          exportId,
+          pollAttempts: currentPollAttempts,
+          maxAttempts: MAX_POLL_ATTEMPTS,
+          nextPollSeconds,
+        },
+      },
+    });
+  }
+  if (claim?.state === 'finished') {
+    const finished = await getExport(workspace.id, exportId);
+    if (finished && finished.status !== 'building' && finished.status !== 'building_long') {
+      return respondWithFinishedExport(req, res, workspace.id, finished, requestId);
+    }
+    return jsonError(res, 502, 'job_dead_lettered', 'Background processing failed repeatedly.', { exportId });
+  }
+  let jobLease: ExportJob | null = claim?.state === 'claimed' ? claim.job : null;
+  // Give the lease back: done for good, or until the next check
+  const settleLease = async (done: boolean) => {
+    if (!jobLease) return;
+    await (done ? completeExportJob(jobLease) : rescheduleExportJob(jobLease, BACKGROUND_POLL_MINUTES));
+    jobLease = null;
   };
 
   // Single poll attempt per request (client handles retry with backoff)
@@ -192,116 +351,183 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   let lastResult;
 
   // Increment poll attempts
-  if (exportId) {
-    const newAttempts = await incrementPollAttempts(exportId);
-    if (newAttempts !== null) {
-      currentPollAttempts = newAttempts;
-    }
+  const newAttempts = await incrementPollAttempts(workspace.id, exportId);
+  if (newAttempts !== null) {
+    currentPollAttempts = newAttempts;
   }
   
   try {
-    lastResult = await fetchAudienceMembers(audienceId, input, originalRequestId || requestId);
+    await updateExportProgress(workspace.id, exportId, 'fetching', { pollAttempts: currentPollAttempts });
+    lastResult = audienceId
+      ? await fetchAudienceMembers(audienceId, input, originalRequestId || requestId)
+      : await fetchAudienceJobMembers(jobId, input, originalRequestId || requestId);
+
+    // Job resolved to an audience: record it so later polls fetch the audience directly
+    if (!audienceId) {
+      const resolvedAudienceId = lastResult.ok
+        ? lastResult.audienceId
+        : (lastResult.error.details as Record<string, unknown> | undefined)?.audienceId as string | undefined;
+      if (resolvedAudienceId) {
+        audienceId = resolvedAudienceId;
+        logEvent('status_job_resolved', { requestId, jobId, audienceId });
+        await updateExportAudienceId(workspace.id, exportId, audienceId);
+      }
+    }
 
     if (lastResult.ok) {
-      // Success! Apply compliance filtering, then generate CSV and upload
-      const complianceResult = filterLeadsByStateCompliance(lastResult.leads, useCase);
-      const leads = complianceResult.filteredLeads;
+      // Success! Apply compliance filtering and the quality gate, then generate CSV and upload
+      await updateExportProgress(workspace.id, exportId, 'filtering', { fetched: lastResult.leads.length });
+      const located = backfillLeadLocations(lastResult.leads);
+      const complianceResult = applyComplianceRules(located.leads, useCase, getWorkspaceComplianceRuleSet(workspace));
+      const customerResult = await filterLeadsByCustomerLists(workspace.id, complianceResult.filteredLeads);
+      const repeats = await suppressRepeatLeads(workspace.id, customerResult.filteredLeads, dedupeWindowDays);
+      const quality = runQualityPipeline(repeats.leads, qualityTier, requestedCount, useCase);
+      const leads = applyCallingHours(quality.leads, useCase, sortCallableNow);
       const csv = leadsToCsv(leads);
 
-        const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
-        const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-        if (!supabaseUrl || !serviceKey) {
-          return jsonError(res, 500, 'server_config_error', 'Missing Supabase configuration.', {
-            missing: {
-              SUPABASE_URL_or_VITE_SUPABASE_URL: !supabaseUrl,
-              SUPABASE_SERVICE_ROLE_KEY: !serviceKey,
-            },
-          });
-        }
+      if (!supabaseUrl || !serviceKey) {
+        await settleLease(false);
+        return jsonError(res, 500, 'server_config_error', 'Missing Supabase configuration.', {
+          missing: {
+            SUPABASE_URL_or_VITE_SUPABASE_URL: !supabaseUrl,
+            SUPABASE_SERVICE_ROLE_KEY: !serviceKey,
+          },
+        });
+      }
 
-        const supabase = createClient(supabaseUrl, serviceKey);
+      const supabase = createClient(supabaseUrl, serviceKey);
+      await updateExportProgress(workspace.id, exportId, 'uploading', { fetched: lastResult.leads.length, kept: leads.length });
 
-        const now = new Date();
-        const dateDir = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-        const ts = Date.now();
-        const rand = Math.random().toString(36).slice(2, 8);
-        const path = `${dateDir}/${ts}-${rand}.csv`;
-        const bucket = 'exports';
+      const path = buildExportPath(workspace);
+      const bucket = 'exports';
 
-        const bytes = new TextEncoder().encode(csv);
-        const uploadRes = await supabase.storage.from(bucket).upload(path, bytes, {
-          contentType: 'text/csv',
-          upsert: false,
-        });
+      const bytes = new TextEncoder().encode(csv);
+      const uploadRes = await supabase.storage.from(bucket).upload(path, bytes, {
+        contentType: 'text/csv',
+        upsert: false,
+      });
 
-        if (uploadRes.error) {
-          logEvent('status_upload_error', { requestId, error: uploadRes.error.message });
-          return jsonError(res, 500, 'upload_error', 'Failed to upload CSV.', { message: uploadRes.error.message });
-        }
+      if (uploadRes.error) {
+        logEvent('status_upload_error', { requestId, error: uploadRes.error.message });
+        await settleLease(false);
+        return jsonError(res, 500, 'upload_error', 'Failed to upload CSV.', { message: uploadRes.error.message });
+      }
 
-        const expiresInSeconds = 24 * 60 * 60;
+      // Previews stay staged without a download link until approved
+      const expiresInSeconds = 24 * 60 * 60;
+      let signedUrl: string | undefined;
+      if (!preview) {
         const signedRes = await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds);
 
         if (signedRes.error || !signedRes.data) {
           logEvent('status_signed_url_error', { requestId, error: signedRes.error?.message });
+          await settleLease(false);
           return jsonError(res, 500, 'signed_url_error', 'Failed to generate signed URL.', { message: signedRes.error?.message });
         }
+        signedUrl = signedRes.data.signedUrl;
+      }
+      const previewFields = preview ? leadPreviewToExportFields(leads) : undefined;
+
+      const durationMs = Date.now() - startTime;
+      logEvent('status_success', {
+        requestId,
+        audienceId,
+        pollAttempts: currentPollAttempts,
+        preview,
+        count: leads.length,
+        suppressedCount: complianceResult.suppressedCount,
+        suppressedByCustomerList: customerResult.suppressedCount,
+        repeatSuppressedCount: repeats.repeatCount,
+        rejectedByQualityCount: quality.report.rejectedByQualityCount,
+        durationMs,
+        diagnostics: lastResult.diagnostics,
+        fieldCoverage: lastResult.fieldCoverage,
+      });
 
-        const durationMs = Date.now() - startTime;
-        logEvent('status_success', {
-          requestId,
-          audienceId,
-          pollAttempts: currentPollAttempts,
-          count: leads.length,
-          suppressedCount: complianceResult.suppressedCount,
-          durationMs,
-          diagnostics: lastResult.diagnostics,
-          fieldCoverage: lastResult.fieldCoverage,
-        });
-
-        // ─────────────────────────────────────────────────────────────────────
-        // Update export record with success
-        // ─────────────────────────────────────────────────────────────────────
-        if (exportId) {
-          try {
-            await updateExportSuccess(exportId, {
-              status: 'success',
-              totalFetched: lastResult.diagnostics?.totalFetched ?? (leads.length + complianceResult.suppressedCount),
-              kept: leads.length,
-              diagnostics: lastResult.diagnostics ?? null,
-              fieldCoverage: lastResult.fieldCoverage ?? null,
-              bucket,
-              path,
-              suppressedCount: complianceResult.suppressedCount,
-              suppressedStates: complianceResult.suppressedStates,
-            });
-            logEvent('export_updated', { requestId, exportId, status: 'success' });
-          } catch (dbErr) {
-            console.error('[status] Failed to update export record:', dbErr);
-          }
+      // ─────────────────────────────────────────────────────────────────────
+      // Update export record with success
+      // ─────────────────────────────────────────────────────────────────────
+      const updated = await updateExportSuccess(workspace.id, exportId, {
+        status: preview ? 'preview' : 'success',
+        totalFetched: lastResult.diagnostics?.totalFetched ?? lastResult.leads.length,
+        kept: leads.length,
+        diagnostics: lastResult.diagnostics ?? null,
+        fieldCoverage: lastResult.fieldCoverage ?? null,
+        bucket,
+        path,
+        suppressedCount: complianceResult.suppressedCount,
+        suppressedStates: complianceResult.suppressedStates,
+        ...complianceResultToExportFields(complianceResult),
+        customerSuppressedCount: customerResult.suppressedCount,
+        repeatSuppressedCount: repeats.repeatCount,
+        ...qualityReportToExportFields(quality.report, quality.stats),
+        ...previewFields,
+      });
+      // Finished elsewhere meanwhile (e.g. cancelled): drop this CSV and answer from the record
+      if (!updated) {
+        await deleteStorageFile(supabase, bucket, path);
+        const current = await getExport(workspace.id, exportId);
+        logEvent('status_export_not_updated', { requestId, exportId, status: current?.status });
+        if (current && current.status !== 'building' && current.status !== 'building_long') {
+          await settleLease(true);
+          return respondWithFinishedExport(req, res, workspace.id, current, requestId);
         }
-
-        return res.status(200).json({
-          ok: true,
-          count: leads.length,
-          bucket,
-          path,
-          signedUrl: signedRes.data.signedUrl,
-          expiresInSeconds,
-          audienceId,
-          requestId,
-          exportId,
-          quality: lastResult.diagnostics,
-          fieldCoverage: lastResult.fieldCoverage,
-          // Compliance info
-          suppressedCount: complianceResult.suppressedCount,
-          suppressedStates: complianceResult.suppressedStates.length > 0 ? complianceResult.suppressedStates : undefined,
-          pollAttempts: currentPollAttempts,
+        await settleLease(false);
+        return preview
+          ? jsonError(res, 500, 'preview_unavailable', 'Could not stage the preview. Please try again.', { exportId })
+          : jsonError(res, 500, 'export_update_failed', 'Could not record the export. Please try again.', { exportId });
+      }
+      // Staged leads count as delivered once the preview is approved
+      if (!preview) {
+        await recordDeliveredLeads(workspace.id, exportId, leads);
+      }
+      await settleLease(true);
+      logEvent('export_updated', { requestId, exportId, status: preview ? 'preview' : 'success' });
+
+      const sessionUser = getSessionUser(req);
+      if (signedUrl && sessionUser) {
+        await recordAuditEvent({
+          ...auditActor(sessionUser),
+          action: 'exports.signed_url',
+          targetId: exportId,
+          metadata: { expiresInSeconds, via: 'status' },
         });
+      }
+
+      return res.status(200).json({
+        ok: true,
+        status: preview ? 'preview' : 'success',
+        count: leads.length,
+        bucket,
+        path,
+        signedUrl,
+        expiresInSeconds: signedUrl ? expiresInSeconds : undefined,
+        preview: previewFields?.previewRows,
+        audienceId,
+        requestId,
+        exportId,
+        quality: lastResult.diagnostics,
+        fieldCoverage: lastResult.fieldCoverage,
+        // Compliance info
+        suppressedCount: complianceResult.suppressedCount,
+        suppressedStates: complianceResult.suppressedStates.length > 0 ? complianceResult.suppressedStates : undefined,
+        suppressedByCustomerList: customerResult.suppressedCount,
+        repeatSuppressedCount: repeats.repeatCount,
+        compliance: complianceSummary(complianceResult),
+        // Quality gate report
+        qualityGate: { ...quality.report, requestedCount },
+        provider: 'audiencelab',
+        pollAttempts: currentPollAttempts,
+      });
     }
 
   } catch (err) {
+    // A failed async job is final; anything else can be retried later
+    await settleLease(err instanceof AudienceLabAsyncError);
+
     // Handle typed errors
     if (err instanceof ProviderConfigError) {
       logEvent('status_config_error', { requestId, provider: err.provider });
@@ -312,16 +538,34 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return jsonError(res, 502, err.code, 'Unauthorized.', { ...err.toSafeContext(), hint: err.hint });
     }
     if (err instanceof AudienceLabUpstreamError) {
-      logEvent('status_upstream_error', { requestId, status: err.status });
-      return jsonError(res, 502, err.code, 'AudienceLab upstream error.', err.toSafeContext());
+      logEvent('status_upstream_error', { requestId, status: err.status, circuitOpen: err.circuitOpen });
+      if (err.circuitOpen && err.retryAfterSeconds) {
+        res.setHeader('Retry-After', String(err.retryAfterSeconds));
+      }
+      return jsonError(
+        res,
+        502,
+        err.code,
+        err.circuitOpen ? 'AudienceLab is unavailable after repeated errors. Try again shortly.' : 'AudienceLab upstream error.',
+        err.toSafeContext()
+      );
     }
     if (err instanceof AudienceLabContractError) {
       logEvent('status_contract_error', { requestId, code: err.code });
       return jsonError(res, 502, err.code, err.message, { ...err.toSafeContext(), hint: err.hint });
     }
     if (err instanceof AudienceLabAsyncError) {
-      logEvent('status_async_error', { requestId });
-      return jsonError(res, 502, err.code, 'AudienceLab async response.', { ...err.toSafeContext(), hint: err.hint });
+      logEvent('status_async_error', { requestId, jobId, jobStatus: err.jobStatus });
+      updateExportError(workspace.id, exportId, { status: 'error', errorCode: err.code, errorMessage: err.message }).catch(console.error);
+      return jsonError(res, 502, err.code, err.jobStatus ? 'AudienceLab job failed.' : 'AudienceLab async response.', { ...err.toSafeContext(), hint: err.hint });
+    }
+    if (err instanceof CustomerSuppressionError) {
+      // Audience is still ready - the client can poll again once lists are reachable
+      logEvent('status_customer_suppression_error', { requestId, code: err.code });
+      return jsonError(res, 503, err.code, 'Suppression lists unavailable; no leads were delivered.', {
+        ...err.toSafeContext(),
+        exportId,
+      });
     }
     if (err instanceof ConfigError) {
       logEvent('status_config_error', { requestId, code: err.code });
@@ -340,7 +584,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Still building - return 202 with backoff recommendation
     if (err.code === 'provider_building') {
       const nextPollSeconds = calculateBackoffSeconds(currentPollAttempts + 1);
-      logEvent('status_still_building', { requestId, audienceId, pollAttempts: currentPollAttempts, nextPollSeconds });
+      logEvent('status_still_building', { requestId, audienceId, jobId, pollAttempts: currentPollAttempts, nextPollSeconds });
+      await updateExportProgress(workspace.id, exportId, 'building', { pollAttempts: currentPollAttempts });
+      await settleLease(false);
       
       return res.status(202).json({
         ok: false,
@@ -348,7 +594,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           code: 'provider_building',
           message: 'Audience is still building. Continue polling.',
           details: {
-            audienceId,
+            audienceId: audienceId || undefined,
+            jobId: jobId || undefined,
             requestId,
             exportId,
             pollAttempts: currentPollAttempts,
@@ -361,16 +608,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // provider_no_results after building is complete - definitively no results
     logEvent('status_no_results', { requestId, audienceId, code: err.code });
+    await settleLease(true);
     
     // Update export with no_results error
-    if (exportId) {
-      updateExportError(exportId, { status: 'no_results', errorCode: err.code, errorMessage: err.message }).catch(console.error);
-    }
+    updateExportError(workspace.id, exportId, { status: 'no_results', errorCode: err.code, errorMessage: err.message }).catch(console.error);
     
     return jsonError(res, 404, err.code, err.message, err.details);
   }
 
   // Shouldn't reach here, but handle gracefully
   logEvent('status_unexpected', { requestId, audienceId });
+  await settleLease(false);
   return jsonError(res, 500, 'internal_error', 'Unexpected state in status handler.');
 }
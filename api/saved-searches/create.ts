@@ -0,0 +1,118 @@
+/**
+ * @file api/saved-searches/create.ts
+ * @description POST endpoint to save a search: a named lead request with an
+ *              optional cron schedule (UTC) for recurring pulls. Lead request
+ *              fields are validated as /api/leads/generate validates them.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import {
+  parseSavedSearchInput,
+  createSavedSearch,
+  toSavedSearchItem,
+  type SavedSearchItem,
+} from '../_lib/saved-searches.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface CreateSavedSearchRequest {
+  name: string;
+  leadRequest: string;
+  zipCodes: string;
+  leadScope: string;
+  useCase?: string;
+  qualityTier?: string;
+  requestedCount?: number;
+  dedupeWindowDays?: number | null;
+  /** 5-field cron expression (UTC); omit or null for no schedule */
+  schedule?: string | null;
+}
+
+interface SavedSearchResponse {
+  ok: true;
+  search: SavedSearchItem;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (scheduled pulls spend the creator's credits, like generate)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<CreateSavedSearchRequest> | undefined;
+  const parsed = parseSavedSearchInput((body ?? {}) as Record<string, unknown>);
+  if (!parsed.ok) {
+    const errorResp: ErrorResponse = { ok: false, error: parsed.error, code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Store search
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const search = await createSavedSearch(
+      getWorkspaceId(req),
+      getSessionUser(req)?.userId || null,
+      parsed.value
+    );
+
+    if (!search) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Failed to save search',
+        code: 'INTERNAL_ERROR',
+      };
+      res.status(500).json(errorResp);
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'saved_search_created',
+      ts: new Date().toISOString(),
+      searchId: search.id,
+      zipCount: search.zip_codes.length,
+      scheduled: !!search.schedule,
+    }));
+
+    const response: SavedSearchResponse = { ok: true, search: toSavedSearchItem(search) };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[saved-searches/create] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @file api/saved-searches/delete.ts
+ * @description POST endpoint to delete a saved search (and its schedule).
+ *              Exports it produced are kept. Only the search's creator or a
+ *              manager/admin may delete it.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import { getSavedSearch, deleteSavedSearch, canEditSavedSearch } from '../_lib/saved-searches.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface DeleteSavedSearchRequest {
+  id: string;
+}
+
+interface DeleteSavedSearchResponse {
+  ok: true;
+  id: string;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<DeleteSavedSearchRequest> | undefined;
+
+  if (!body || typeof body.id !== 'string' || !body.id.trim()) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Missing or invalid id',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const id = body.id.trim();
+  const workspaceId = getWorkspaceId(req);
+  const user = getSessionUser(req);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Delete search (exports keep their data; saved_search_id is cleared)
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const existing = await getSavedSearch(workspaceId, id);
+    if (!existing) {
+      const errorResp: ErrorResponse = { ok: false, error: 'Saved search not found', code: 'NOT_FOUND' };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    if (!user || !canEditSavedSearch(existing, user.userId, user.role)) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Only the creator or a manager can delete this search',
+        code: 'FORBIDDEN',
+      };
+      res.status(403).json(errorResp);
+      return;
+    }
+
+    if (!(await deleteSavedSearch(workspaceId, id))) {
+      const errorResp: ErrorResponse = { ok: false, error: 'Saved search not found', code: 'NOT_FOUND' };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'saved_search_deleted',
+      ts: new Date().toISOString(),
+      searchId: id,
+    }));
+
+    const response: DeleteSavedSearchResponse = { ok: true, id };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[saved-searches/delete] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
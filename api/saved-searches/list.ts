@@ -0,0 +1,70 @@
+/**
+ * @file api/saved-searches/list.ts
+ * @description GET endpoint to list the workspace's saved searches (by name),
+ *              with their schedule and the outcome of the last scheduled run.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { listSavedSearches, toSavedSearchItem, type SavedSearchItem } from '../_lib/saved-searches.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface ListSavedSearchesResponse {
+  ok: true;
+  searches: SavedSearchItem[];
+  total: number;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Fetch searches
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const searches = await listSavedSearches(getWorkspaceId(req));
+
+    const response: ListSavedSearchesResponse = {
+      ok: true,
+      searches: searches.map(toSavedSearchItem),
+      total: searches.length,
+    };
+
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[saved-searches/list] Database error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Failed to fetch saved searches',
+    };
+    res.status(500).json(errorResp);
+  }
+}
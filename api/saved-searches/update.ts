@@ -0,0 +1,148 @@
+/**
+ * @file api/saved-searches/update.ts
+ * @description POST endpoint to replace a saved search's fields (same body as
+ *              create, plus `id`). Changing the schedule recomputes the next
+ *              run. Only the search's creator or a manager/admin may edit it;
+ *              the editor becomes its creator, so scheduled pulls spend their
+ *              credits rather than the previous creator's.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import {
+  parseSavedSearchInput,
+  getSavedSearch,
+  updateSavedSearch,
+  canEditSavedSearch,
+  toSavedSearchItem,
+  type SavedSearchItem,
+} from '../_lib/saved-searches.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface UpdateSavedSearchRequest {
+  id: string;
+  name: string;
+  leadRequest: string;
+  zipCodes: string;
+  leadScope: string;
+  useCase?: string;
+  qualityTier?: string;
+  requestedCount?: number;
+  dedupeWindowDays?: number | null;
+  schedule?: string | null;
+}
+
+interface SavedSearchResponse {
+  ok: true;
+  search: SavedSearchItem;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { scope: 'generate' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<UpdateSavedSearchRequest> | undefined;
+
+  if (!body || typeof body.id !== 'string' || !body.id.trim()) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Missing or invalid id',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const parsed = parseSavedSearchInput(body as Record<string, unknown>);
+  if (!parsed.ok) {
+    const errorResp: ErrorResponse = { ok: false, error: parsed.error, code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const id = body.id.trim();
+  const workspaceId = getWorkspaceId(req);
+  const user = getSessionUser(req);
+
+  try {
+    const existing = await getSavedSearch(workspaceId, id);
+    if (!existing) {
+      const errorResp: ErrorResponse = { ok: false, error: 'Saved search not found', code: 'NOT_FOUND' };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    if (!user || !canEditSavedSearch(existing, user.userId, user.role)) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Only the creator or a manager can change this search',
+        code: 'FORBIDDEN',
+      };
+      res.status(403).json(errorResp);
+      return;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Replace fields
+    // ─────────────────────────────────────────────────────────────────────────
+    const search = await updateSavedSearch(workspaceId, id, parsed.value, user.userId);
+    if (!search) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Failed to update saved search',
+        code: 'INTERNAL_ERROR',
+      };
+      res.status(500).json(errorResp);
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'saved_search_updated',
+      ts: new Date().toISOString(),
+      searchId: search.id,
+      scheduled: !!search.schedule,
+    }));
+
+    const response: SavedSearchResponse = { ok: true, search: toSavedSearchItem(search) };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[saved-searches/update] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
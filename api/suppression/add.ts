@@ -0,0 +1,199 @@
+/**
+ * @file api/suppression/add.ts
+ * @description POST endpoint to upload a customer suppression list (DNC / existing customers).
+ *              Accepts CSV text of phones and/or emails; values are normalized and stored
+ *              only as SHA-256 fingerprints.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { checkRateLimit } from '../_lib/rate-limit.js';
+import {
+  parseSuppressionCsv,
+  createSuppressionList,
+  MAX_LIST_ENTRIES,
+  SUPPRESSION_LIST_KINDS,
+  type SuppressionListKind,
+} from '../_lib/customer-suppression.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface AddSuppressionListRequest {
+  name: string;
+  kind: SuppressionListKind;
+  csv: string;
+}
+
+interface AddSuppressionListResponse {
+  ok: true;
+  list: {
+    id: string;
+    createdAt: string;
+    name: string;
+    kind: string;
+    entryCount: number;
+  };
+  phoneCount: number;
+  emailCount: number;
+  skippedCount: number;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                CONSTANTS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Maximum list name length */
+const MAX_NAME_LENGTH = 100;
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (manager or admin)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'manager' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Rate limiting (20/hour)
+  // ─────────────────────────────────────────────────────────────────────────
+  const rateLimited = await checkRateLimit(req, res, 'suppression-upload');
+  if (rateLimited) return;
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<AddSuppressionListRequest> | undefined;
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: `Missing or invalid name (max ${MAX_NAME_LENGTH} characters)`,
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const kind = body?.kind;
+  if (typeof kind !== 'string' || !(SUPPRESSION_LIST_KINDS as readonly string[]).includes(kind)) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: `kind must be one of: ${SUPPRESSION_LIST_KINDS.join(', ')}`,
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  if (typeof body?.csv !== 'string' || !body.csv.trim()) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Missing or invalid csv',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const parsed = parseSuppressionCsv(body.csv);
+
+  if (parsed.fingerprints.length === 0) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'No valid phones or emails found in csv',
+      code: 'EMPTY_LIST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  if (parsed.fingerprints.length > MAX_LIST_ENTRIES) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: `List exceeds ${MAX_LIST_ENTRIES} entries; split it into several uploads`,
+      code: 'LIST_TOO_LARGE',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Store hashed list
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const list = await createSuppressionList(
+      getWorkspaceId(req),
+      name,
+      kind as SuppressionListKind,
+      parsed.fingerprints
+    );
+
+    if (!list) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Failed to store suppression list',
+        code: 'INTERNAL_ERROR',
+      };
+      res.status(500).json(errorResp);
+      return;
+    }
+
+    // Log counts only (no PII)
+    console.log(JSON.stringify({
+      event: 'suppression_list_created',
+      ts: new Date().toISOString(),
+      listId: list.id,
+      kind: list.kind,
+      entryCount: list.entry_count,
+      skippedCount: parsed.skippedCount,
+    }));
+
+    const response: AddSuppressionListResponse = {
+      ok: true,
+      list: {
+        id: list.id,
+        createdAt: list.created_at,
+        name: list.name,
+        kind: list.kind,
+        entryCount: list.entry_count,
+      },
+      phoneCount: parsed.phoneCount,
+      emailCount: parsed.emailCount,
+      skippedCount: parsed.skippedCount,
+    };
+
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[suppression/add] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
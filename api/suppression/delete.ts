@@ -0,0 +1,102 @@
+/**
+ * @file api/suppression/delete.ts
+ * @description POST endpoint to delete a customer suppression list and all its entries.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { deleteSuppressionList } from '../_lib/customer-suppression.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface DeleteSuppressionListRequest {
+  id: string;
+}
+
+interface DeleteSuppressionListResponse {
+  ok: true;
+  id: string;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (manager or admin)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'manager' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<DeleteSuppressionListRequest> | undefined;
+
+  if (!body || typeof body.id !== 'string' || !body.id.trim()) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Missing or invalid id',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  const id = body.id.trim();
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Delete list (entries cascade)
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const deleted = await deleteSuppressionList(getWorkspaceId(req), id);
+
+    if (!deleted) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Suppression list not found',
+        code: 'NOT_FOUND',
+      };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'suppression_list_deleted',
+      ts: new Date().toISOString(),
+      listId: id,
+    }));
+
+    const response: DeleteSuppressionListResponse = { ok: true, id };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[suppression/delete] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
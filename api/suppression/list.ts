@@ -0,0 +1,95 @@
+/**
+ * @file api/suppression/list.ts
+ * @description GET endpoint to list customer suppression lists (DNC / existing customers).
+ *              Returns list metadata only - entries are stored hashed and never returned.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { listSuppressionLists, type SuppressionList } from '../_lib/customer-suppression.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface SuppressionListItem {
+  id: string;
+  createdAt: string;
+  name: string;
+  kind: string;
+  entryCount: number;
+}
+
+interface ListSuppressionListsResponse {
+  ok: true;
+  lists: SuppressionListItem[];
+  total: number;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HELPERS                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Transform database row to API response format
+ */
+function toListItem(row: SuppressionList): SuppressionListItem {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    name: row.name,
+    kind: row.kind,
+    entryCount: row.entry_count,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res);
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Fetch lists
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const lists = await listSuppressionLists(getWorkspaceId(req));
+
+    const response: ListSuppressionListsResponse = {
+      ok: true,
+      lists: lists.map(toListItem),
+      total: lists.length,
+    };
+
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[suppression/list] Database error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Failed to fetch suppression lists',
+    };
+    res.status(500).json(errorResp);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * @file api/users/create.ts
+ * @description POST endpoint to create an app user (admin only).
+ *              The password is hashed with scrypt before storage.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import {
+  createUser,
+  findUserByEmail,
+  isUserRole,
+  toUserListItem,
+  MIN_PASSWORD_LENGTH,
+  USER_ROLES,
+  type UserListItem,
+} from '../_lib/users.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface CreateUserRequest {
+  email: string;
+  password: string;
+  role: string;
+  name?: string;
+}
+
+interface CreateUserResponse {
+  ok: true;
+  user: UserListItem;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                CONSTANTS                                   */
+/* -------------------------------------------------------------------------- */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (admin only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'admin' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<CreateUserRequest> | undefined;
+
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Missing or invalid email',
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  if (typeof body?.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  if (!isUserRole(body?.role)) {
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: `role must be one of: ${USER_ROLES.join(', ')}`,
+      code: 'INVALID_REQUEST',
+    };
+    res.status(400).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Create user
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    if (await findUserByEmail(email)) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'A user with this email already exists',
+        code: 'USER_EXISTS',
+      };
+      res.status(409).json(errorResp);
+      return;
+    }
+
+    const user = await createUser({
+      workspaceId: getWorkspaceId(req),
+      email,
+      password: body.password,
+      role: body.role,
+      name: typeof body.name === 'string' ? body.name : undefined,
+    });
+
+    if (!user) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'Failed to create user',
+        code: 'INTERNAL_ERROR',
+      };
+      res.status(500).json(errorResp);
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'user_created',
+      ts: new Date().toISOString(),
+      userId: user.id,
+      role: user.role,
+    }));
+
+    const response: CreateUserResponse = { ok: true, user: toUserListItem(user) };
+    res.status(201).json(response);
+  } catch (err) {
+    console.error('[users/create] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
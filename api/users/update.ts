@@ -0,0 +1,171 @@
+/**
+ * @file api/users/update.ts
+ * @description POST endpoint to change a user's role, name, password, disabled flag or monthly
+ *              lead-credit cap (admin only).
+ *              Admins cannot demote or disable themselves, so at least one admin always remains.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getSessionUser, getWorkspaceId } from '../_lib/auth.js';
+import { isCreditLimit } from '../_lib/lead-credits.js';
+import {
+  updateUser,
+  isUserRole,
+  toUserListItem,
+  MIN_PASSWORD_LENGTH,
+  USER_ROLES,
+  type UpdateUserInput,
+  type UserListItem,
+} from '../_lib/users.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface UpdateUserRequest {
+  id: string;
+  role?: string;
+  name?: string;
+  password?: string;
+  disabled?: boolean;
+  monthlyLeadCredits?: number | null;
+}
+
+interface UpdateUserResponse {
+  ok: true;
+  user: UserListItem;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (admin only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'admin' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<UpdateUserRequest> | undefined;
+
+  const badRequest = (error: string) => {
+    const errorResp: ErrorResponse = { ok: false, error, code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+  };
+
+  if (!body || typeof body.id !== 'string' || !body.id.trim()) {
+    badRequest('Missing or invalid id');
+    return;
+  }
+
+  const id = body.id.trim();
+  const updates: UpdateUserInput = {};
+
+  if (body.role !== undefined) {
+    if (!isUserRole(body.role)) {
+      badRequest(`role must be one of: ${USER_ROLES.join(', ')}`);
+      return;
+    }
+    updates.role = body.role;
+  }
+
+  if (body.disabled !== undefined) {
+    if (typeof body.disabled !== 'boolean') {
+      badRequest('disabled must be a boolean');
+      return;
+    }
+    updates.disabled = body.disabled;
+  }
+
+  if (body.password !== undefined) {
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      badRequest(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    updates.password = body.password;
+  }
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string') {
+      badRequest('name must be a string');
+      return;
+    }
+    updates.name = body.name;
+  }
+
+  if (body.monthlyLeadCredits !== undefined) {
+    if (!isCreditLimit(body.monthlyLeadCredits)) {
+      badRequest('monthlyLeadCredits must be a non-negative integer, or null for no personal cap');
+      return;
+    }
+    updates.monthlyLeadCredits = body.monthlyLeadCredits;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    badRequest('Nothing to update');
+    return;
+  }
+
+  const currentUser = getSessionUser(req);
+  if (currentUser?.userId === id && (updates.disabled === true || (updates.role && updates.role !== 'admin'))) {
+    badRequest('Admins cannot demote or disable themselves');
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Update user
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const user = await updateUser(getWorkspaceId(req), id, updates);
+
+    if (!user) {
+      const errorResp: ErrorResponse = {
+        ok: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      };
+      res.status(404).json(errorResp);
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'user_updated',
+      ts: new Date().toISOString(),
+      userId: user.id,
+      fields: Object.keys(updates),
+    }));
+
+    const response: UpdateUserResponse = { ok: true, user: toUserListItem(user) };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[users/update] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * @file api/workspaces/settings.ts
+ * @description GET/POST endpoint for the current workspace's settings (admin only):
+ *              name, call suppression states, custom intent packs, AudienceLab key and
+ *              monthly lead-credit limit.
+ *              The key is write-only; responses only say whether one is set.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession, getWorkspaceId } from '../_lib/auth.js';
+import { sanitizeByteString, ConfigError } from '../_lib/bytestring.js';
+import { isCreditLimit } from '../_lib/lead-credits.js';
+import {
+  getWorkspace,
+  updateWorkspace,
+  toWorkspaceSettings,
+  parseSuppressStates,
+  parseIntentPacks,
+  MAX_WORKSPACE_INTENT_PACKS,
+  type UpdateWorkspaceInput,
+  type WorkspaceSettings,
+} from '../_lib/workspaces.js';
+
+/* -------------------------------------------------------------------------- */
+/*                                  TYPES                                     */
+/* -------------------------------------------------------------------------- */
+
+interface UpdateSettingsRequest {
+  name?: string;
+  suppressStates?: unknown;
+  intentPacks?: unknown;
+  audienceLabApiKey?: string | null;
+  monthlyLeadCredits?: number | null;
+}
+
+interface SettingsResponse {
+  ok: true;
+  workspace: WorkspaceSettings;
+}
+
+interface ErrorResponse {
+  ok: false;
+  error: string;
+  code?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 HANDLER                                    */
+/* -------------------------------------------------------------------------- */
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session guard (admin only)
+  // ─────────────────────────────────────────────────────────────────────────
+  const sessionGuard = await requireSession(req, res, { role: 'admin' });
+  if (sessionGuard) return; // sessionGuard is truthy (response sent) when session invalid
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Method check
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    const errorResp: ErrorResponse = { ok: false, error: 'Method not allowed' };
+    res.status(405).json(errorResp);
+    return;
+  }
+
+  const workspaceId = getWorkspaceId(req);
+
+  const notFound = () => {
+    const errorResp: ErrorResponse = { ok: false, error: 'Workspace not found', code: 'NOT_FOUND' };
+    res.status(404).json(errorResp);
+  };
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // GET: current settings
+  // ─────────────────────────────────────────────────────────────────────────
+  if (req.method === 'GET') {
+    const workspace = await getWorkspace(workspaceId);
+    if (!workspace) {
+      notFound();
+      return;
+    }
+
+    const response: SettingsResponse = { ok: true, workspace: toWorkspaceSettings(workspace) };
+    res.status(200).json(response);
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Parse request body (null clears a setting)
+  // ─────────────────────────────────────────────────────────────────────────
+  const body = req.body as Partial<UpdateSettingsRequest> | undefined;
+
+  const badRequest = (error: string) => {
+    const errorResp: ErrorResponse = { ok: false, error, code: 'INVALID_REQUEST' };
+    res.status(400).json(errorResp);
+  };
+
+  if (!body || typeof body !== 'object') {
+    badRequest('Missing request body');
+    return;
+  }
+
+  const updates: UpdateWorkspaceInput = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      badRequest('name must be a non-empty string');
+      return;
+    }
+    updates.name = body.name;
+  }
+
+  if (body.suppressStates !== undefined) {
+    const states = body.suppressStates === null ? null : parseSuppressStates(body.suppressStates);
+    if (body.suppressStates !== null && !states) {
+      badRequest('suppressStates must be an array of two-letter state codes, or null');
+      return;
+    }
+    updates.suppressStates = states;
+  }
+
+  if (body.intentPacks !== undefined) {
+    const packs = body.intentPacks === null ? null : parseIntentPacks(body.intentPacks);
+    if (body.intentPacks !== null && !packs) {
+      badRequest(
+        `intentPacks must be an array of up to ${MAX_WORKSPACE_INTENT_PACKS} packs ` +
+        'with id, name, keywords and matchPatterns, or null'
+      );
+      return;
+    }
+    updates.intentPacks = packs;
+  }
+
+  if (body.audienceLabApiKey !== undefined) {
+    if (body.audienceLabApiKey === null || body.audienceLabApiKey === '') {
+      updates.audienceLabApiKey = null;
+    } else if (typeof body.audienceLabApiKey !== 'string') {
+      badRequest('audienceLabApiKey must be a string, or null');
+      return;
+    } else {
+      try {
+        updates.audienceLabApiKey = sanitizeByteString(body.audienceLabApiKey, 'audienceLabApiKey');
+      } catch (err) {
+        badRequest(err instanceof ConfigError ? err.message : 'Invalid audienceLabApiKey');
+        return;
+      }
+    }
+  }
+
+  if (body.monthlyLeadCredits !== undefined) {
+    if (!isCreditLimit(body.monthlyLeadCredits)) {
+      badRequest('monthlyLeadCredits must be a non-negative integer, or null for unlimited');
+      return;
+    }
+    updates.monthlyLeadCredits = body.monthlyLeadCredits;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    badRequest('Nothing to update');
+    return;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Update workspace
+  // ─────────────────────────────────────────────────────────────────────────
+  try {
+    const workspace = await updateWorkspace(workspaceId, updates);
+
+    if (!workspace) {
+      notFound();
+      return;
+    }
+
+    console.log(JSON.stringify({
+      event: 'workspace_settings_updated',
+      ts: new Date().toISOString(),
+      workspaceId,
+      fields: Object.keys(updates),
+    }));
+
+    const response: SettingsResponse = { ok: true, workspace: toWorkspaceSettings(workspace) };
+    res.status(200).json(response);
+  } catch (err) {
+    console.error('[workspaces/settings] Error:', err);
+    const errorResp: ErrorResponse = {
+      ok: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    };
+    res.status(500).json(errorResp);
+  }
+}
@@ -0,0 +1,61 @@
+#!/usr/bin/env npx tsx
+/**
+ * Build the bundled US ZIP reference dataset (api/_lib/data/us-zips.ts).
+ *
+ * Input is the GeoNames US postal code dump (tab-separated, CC BY 4.0):
+ *   https://download.geonames.org/export/zip/US.zip  ->  US.txt
+ *
+ * Usage:
+ *   npx tsx scripts/build-zip-data.ts path/to/US.txt
+ *
+ * Output format (one ZIP per line, sorted):
+ *   zip|city|state|countyFips3|county|lat|lng
+ * Military APO/FPO ZIPs have no state or county. When a ZIP appears twice,
+ * the row with a state wins.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+
+const OUTPUT_PATH = 'api/_lib/data/us-zips.ts';
+
+function main(): void {
+  const inputPath = process.argv[2];
+  if (!inputPath) {
+    console.error('Usage: npx tsx scripts/build-zip-data.ts path/to/US.txt');
+    process.exit(1);
+  }
+
+  const rows = new Map<string, string[]>();
+  for (const line of readFileSync(inputPath, 'utf8').split('\n')) {
+    const cols = line.split('\t');
+    if (cols.length < 11 || cols[0] !== 'US') continue;
+
+    const [, zip, city, , state, county, countyCode, , , lat, lng] = cols;
+    if (!/^\d{5}$/.test(zip)) continue;
+
+    const existing = rows.get(zip);
+    if (existing && existing[2]) continue; // keep the first row that has a state
+
+    const clean = (v: string) => v.replace(/[|`$\\\r]/g, '').trim();
+    rows.set(zip, [zip, clean(city), clean(state), clean(countyCode), clean(county), clean(lat), clean(lng)]);
+  }
+
+  const body = [...rows.keys()].sort().map((zip) => rows.get(zip)!.join('|')).join('\n');
+
+  const output = `/**
+ * US ZIP code reference data - GENERATED by scripts/build-zip-data.ts, do not edit.
+ *
+ * Source: GeoNames postal code data (https://www.geonames.org), licensed under
+ * Creative Commons Attribution 4.0 (https://creativecommons.org/licenses/by/4.0/).
+ *
+ * One ZIP per line: zip|city|state|countyFips3|county|lat|lng
+ * ${rows.size} ZIPs.
+ */
+export const US_ZIP_DATA = \`${body}\`;
+`;
+
+  writeFileSync(OUTPUT_PATH, output);
+  console.log(`Wrote ${rows.size} ZIPs to ${OUTPUT_PATH}`);
+}
+
+main();
@@ -0,0 +1,61 @@
+#!/usr/bin/env npx tsx
+/**
+ * Create an app user (use this to bootstrap the first admin).
+ *
+ * Usage:
+ *   USER_PASSWORD='...' npx tsx scripts/create-user.ts <email> <admin|manager|rep> [name]
+ *
+ * Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY. The password is read
+ * from USER_PASSWORD so it doesn't end up in shell history. The user joins the
+ * default workspace unless USER_WORKSPACE names another (id or slug).
+ */
+
+import { createUser, findUserByEmail, isUserRole, MIN_PASSWORD_LENGTH, USER_ROLES } from '../api/_lib/users.js';
+import { getWorkspace, getWorkspaceBySlug, DEFAULT_WORKSPACE_ID } from '../api/_lib/workspaces.js';
+
+/**
+ * Resolve USER_WORKSPACE (id or slug) to a workspace id.
+ */
+async function resolveWorkspaceId(ref: string | undefined): Promise<string | null> {
+  if (!ref) return DEFAULT_WORKSPACE_ID;
+
+  const isId = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(ref);
+  const workspace = isId ? await getWorkspace(ref) : await getWorkspaceBySlug(ref);
+  return workspace?.id ?? null;
+}
+
+async function main(): Promise<void> {
+  const [email, role, name] = process.argv.slice(2);
+  const password = process.env.USER_PASSWORD || '';
+
+  if (!email || !isUserRole(role)) {
+    console.error(`Usage: USER_PASSWORD=... npx tsx scripts/create-user.ts <email> <${USER_ROLES.join('|')}> [name]`);
+    process.exit(1);
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`❌ USER_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    process.exit(1);
+  }
+
+  if (await findUserByEmail(email)) {
+    console.error(`❌ A user with email ${email} already exists`);
+    process.exit(1);
+  }
+
+  const workspaceId = await resolveWorkspaceId(process.env.USER_WORKSPACE);
+  if (!workspaceId) {
+    console.error(`❌ Workspace ${process.env.USER_WORKSPACE} not found`);
+    process.exit(1);
+  }
+
+  const user = await createUser({ workspaceId, email, password, role, name });
+  if (!user) {
+    console.error('❌ Failed to create user (see error above)');
+    process.exit(1);
+  }
+
+  console.log(`✅ Created ${user.role} ${user.email} (${user.id})`);
+}
+
+main();
@@ -0,0 +1,35 @@
+#!/usr/bin/env npx tsx
+/**
+ * Create a workspace (one per client). Add its first admin with
+ * scripts/create-user.ts, then set its AudienceLab key in the app
+ * (POST /api/workspaces/settings).
+ *
+ * Usage:
+ *   npx tsx scripts/create-workspace.ts <slug> <name>
+ *
+ * Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY. The slug is also the
+ * workspace's folder in the exports bucket.
+ */
+
+import { createWorkspace, isWorkspaceSlug } from '../api/_lib/workspaces.js';
+
+async function main(): Promise<void> {
+  const [slug, ...nameParts] = process.argv.slice(2);
+  const name = nameParts.join(' ').trim();
+
+  if (!isWorkspaceSlug(slug) || !name) {
+    console.error('Usage: npx tsx scripts/create-workspace.ts <slug> <name>');
+    console.error('  slug: 2-40 lowercase letters, digits or dashes');
+    process.exit(1);
+  }
+
+  const workspace = await createWorkspace({ slug, name });
+  if (!workspace) {
+    console.error('❌ Failed to create workspace (see error above)');
+    process.exit(1);
+  }
+
+  console.log(`✅ Created workspace ${workspace.name} (${workspace.slug}, ${workspace.id})`);
+}
+
+main();
@@ -74,10 +74,23 @@ function getErrorMessage(error: unknown, fallback: string): string {
 type Scope = 'Residential' | 'Commercial' | 'Both'
 type UseCase = 'call' | 'email' | 'both'
 type QualityTier = 'hot' | 'balanced' | 'scale'
+type GeoMode = 'zips' | 'radius' | 'city' | 'county'
+type HistoryView = 'team' | 'mine'
+
+type GeoTarget =
+  | { type: 'radius'; center: string | { latitude: number; longitude: number }; radiusMiles: number }
+  | { type: 'city'; city: string; state: string }
+  | { type: 'county'; countyFips: string }
 type AppStatus = 'idle' | 'loading' | 'building' | 'building_long' | 'success' | 'error'
 type AuthStatus = 'checking' | 'authenticated' | 'unauthenticated'
 type CoverageFieldName = 'first_name' | 'last_name' | 'address' | 'city' | 'state' | 'zip' | 'phone' | 'email'
 
+interface CurrentUser {
+  id: string
+  email: string
+  role: 'admin' | 'manager' | 'rep'
+}
+
 interface MatchByTierCounts {
   high: number
   medium: number
@@ -118,17 +131,22 @@ interface FieldCoverage {
 
 interface BuildingDetails {
   audienceId: string
-  leadRequest: string
-  zipCodes: string
-  leadScope: string
-  useCase: UseCase
-  requestId: string
+  /** AudienceLab job creating the audience (async create); audienceId is empty until it resolves */
+  jobId?: string
   exportId?: string
 }
 
+/** Progress event from /api/exports/:id/events while the export builds */
+interface BuildProgress {
+  stage: 'building' | 'fetching' | 'filtering' | 'uploading'
+  counts: { fetched?: number; kept?: number }
+}
+
 interface SuppressionInfo {
   suppressedCount: number
   suppressedStates: string[]
+  suppressedByCustomerList: number
+  repeatSuppressedCount: number
 }
 
 interface QualityGateInfo {
@@ -143,32 +161,94 @@ interface QualityGateInfo {
   warning?: string
 }
 
+// Body of a /api/leads/generate response (200, 202 provider_building or an error)
+interface GenerateResponse {
+  ok: boolean
+  error?: { code: string; message: string; details?: { audienceId?: string; jobId?: string; exportId?: string } }
+  count?: number
+  signedUrl?: string
+  quality?: QualitySummary
+  fieldCoverage?: FieldCoverage
+  suppressedCount?: number
+  suppressedStates?: string[]
+  suppressedByCustomerList?: number
+  repeatSuppressedCount?: number
+  qualityGate?: QualityGateInfo
+  provider?: string
+}
+
 interface ExportItem {
   id: string
   createdAt: string
   provider: string
   leadRequest: string
   zipCodes: string[]
+  geoTarget: GeoTarget | null
+  createdBy: string | null
+  isMine: boolean
   target: number
   useCase: string | null
+  qualityTier: QualityTier | null
+  requestedCount: number | null
   status: string
   errorCode: string | null
   errorMessage: string | null
   totalFetched: number | null
   kept: number | null
+  suppressedCount: number
+  repeatSuppressedCount: number
+  customerSuppressedCount: number
   hasFile: boolean
   lastSignedUrlAt: string | null
 }
 
-const MAX_POLL_ATTEMPTS = 30 // Hard cap on poll attempts
-const DEFAULT_POLL_SECONDS = 3 // Default backoff if server doesn't specify
+interface SavedSearch {
+  id: string
+  createdBy: string | null
+  name: string
+  leadRequest: string
+  zipCodes: string[]
+  leadScope: 'residential' | 'commercial' | 'both'
+  useCase: UseCase
+  qualityTier: QualityTier
+  requestedCount: number
+  dedupeWindowDays: number | null
+  schedule: string | null
+  nextRunAt: string | null
+  lastRunStatus: string | null
+}
+
+const SCOPE_LABELS: Record<SavedSearch['leadScope'], Scope> = {
+  residential: 'Residential',
+  commercial: 'Commercial',
+  both: 'Both',
+}
+
+const MAX_POLL_ATTEMPTS = 30 // Provider checks before the export moves to background processing
+const PROGRESS_STAGES: BuildProgress['stage'][] = ['building', 'fetching', 'filtering', 'uploading']
+
+function describeProgress(progress: BuildProgress | null): string {
+  switch (progress?.stage) {
+    case 'fetching':
+      return 'Fetching members'
+    case 'filtering':
+      return `Filtering ${progress.counts.fetched ?? 0} leads`
+    case 'uploading':
+      return `Uploading ${progress.counts.kept ?? 0} leads`
+    default:
+      return 'Provider is building the audience'
+  }
+}
 
 function App() {
   // ─────────────────────────────────────────────────────────────────────────
   // Auth state
   // ─────────────────────────────────────────────────────────────────────────
   const [authStatus, setAuthStatus] = useState<AuthStatus>('checking')
-  const [passcode, setPasscode] = useState('')
+  const [loginEmail, setLoginEmail] = useState('')
+  const [loginPassword, setLoginPassword] = useState('')
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null)
+  const [workspaceName, setWorkspaceName] = useState<string | null>(null)
   const [loginError, setLoginError] = useState('')
   const [loginLoading, setLoginLoading] = useState(false)
 
@@ -179,17 +259,40 @@ function App() {
   const [exportsLoading, setExportsLoading] = useState(false)
   const [exportsError, setExportsError] = useState('')
   const [showHistory, setShowHistory] = useState(false)
+  const [historyView, setHistoryView] = useState<HistoryView>('team')
   const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set())
+  const [updatingExportIds, setUpdatingExportIds] = useState<Set<string>>(new Set())
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Saved searches state
+  // ─────────────────────────────────────────────────────────────────────────
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [selectedSearchId, setSelectedSearchId] = useState('') // '' = none picked
+  const [requestedCount, setRequestedCount] = useState<number | null>(null) // null = server default
+  const [showSaveSearch, setShowSaveSearch] = useState(false)
+  const [saveSearchName, setSaveSearchName] = useState('')
+  const [saveSearchSchedule, setSaveSearchSchedule] = useState('')
+  const [saveSearchError, setSaveSearchError] = useState('')
+  const [savingSearch, setSavingSearch] = useState(false)
 
   // ─────────────────────────────────────────────────────────────────────────
   // Form state
   // ─────────────────────────────────────────────────────────────────────────
   const [leadRequest, setLeadRequest] = useState('')
   const [zipCodes, setZipCodes] = useState('')
+  const [geoMode, setGeoMode] = useState<GeoMode>('zips')
+  const [radiusCenter, setRadiusCenter] = useState('')
+  const [radiusMiles, setRadiusMiles] = useState('25')
+  const [geoCity, setGeoCity] = useState('')
+  const [geoState, setGeoState] = useState('')
+  const [countyFips, setCountyFips] = useState('')
   const [scope, setScope] = useState<Scope>('Residential')
   const [useCase, setUseCase] = useState<UseCase>('both')
   const [qualityTier, setQualityTier] = useState<QualityTier>('balanced')
   const [minMatchScore, setMinMatchScore] = useState<number>(3) // Default 3 for call leads
+  const [blendProviders, setBlendProviders] = useState(false)
+  const [sortCallableNow, setSortCallableNow] = useState(false)
+  const [dedupeWindowDays, setDedupeWindowDays] = useState<string>('') // '' = server default
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [status, setStatus] = useState<AppStatus>('idle')
   const [errorMessage, setErrorMessage] = useState('')
@@ -201,12 +304,13 @@ function App() {
   const [buildingDetails, setBuildingDetails] = useState<BuildingDetails | null>(null)
   const [pollElapsed, setPollElapsed] = useState(0)
   const [pollAttempts, setPollAttempts] = useState(0)
-  const [nextPollSeconds, setNextPollSeconds] = useState(DEFAULT_POLL_SECONDS)
+  const [buildProgress, setBuildProgress] = useState<BuildProgress | null>(null)
   const [suppressionInfo, setSuppressionInfo] = useState<SuppressionInfo | null>(null)
   const [qualityGateInfo, setQualityGateInfo] = useState<QualityGateInfo | null>(null)
+  const [providerUsed, setProviderUsed] = useState<string>('')
   
   const pollStartRef = useRef<number>(0)
-  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const eventSourceRef = useRef<EventSource | null>(null)
 
   // ─────────────────────────────────────────────────────────────────────────
   // Check auth status on mount
@@ -216,6 +320,9 @@ function App() {
       try {
         const res = await fetch('/api/auth/me', { credentials: 'include' })
         if (res.ok) {
+          const data = await res.json()
+          setCurrentUser(data.user ?? null)
+          setWorkspaceName(data.workspace?.name ?? null)
           setAuthStatus('authenticated')
         } else {
           setAuthStatus('unauthenticated')
@@ -240,15 +347,17 @@ function App() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ passcode }),
+        body: JSON.stringify({ email: loginEmail.trim(), password: loginPassword }),
       })
 
+      const data = await res.json()
       if (res.ok) {
+        setCurrentUser(data.user ?? null)
+        setWorkspaceName(data.workspace?.name ?? null)
         setAuthStatus('authenticated')
-        setPasscode('')
+        setLoginPassword('')
       } else {
-        const data = await res.json()
-        setLoginError(getErrorMessage(data.error, 'Invalid passcode'))
+        setLoginError(getErrorMessage(data.error, 'Invalid email or password'))
       }
     } catch {
       setLoginError('Network error. Please try again.')
@@ -260,12 +369,12 @@ function App() {
   // ─────────────────────────────────────────────────────────────────────────
   // Load export history
   // ─────────────────────────────────────────────────────────────────────────
-  const loadExports = async () => {
+  const loadExports = async (view: HistoryView = historyView) => {
     setExportsLoading(true)
     setExportsError('')
 
     try {
-      const res = await fetch('/api/exports/list', { credentials: 'include' })
+      const res = await fetch(`/api/exports/list?view=${view}`, { credentials: 'include' })
       const data = await res.json()
 
       if (res.ok && data.ok) {
@@ -280,6 +389,120 @@ function App() {
     }
   }
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // Saved searches: load, pick, save and delete
+  // ─────────────────────────────────────────────────────────────────────────
+  const loadSavedSearches = async () => {
+    try {
+      const res = await fetch('/api/saved-searches/list', { credentials: 'include' })
+      const data = await res.json()
+
+      if (res.ok && data.ok) {
+        setSavedSearches(data.searches || [])
+      }
+    } catch {
+      // The picker just stays empty
+    }
+  }
+
+  useEffect(() => {
+    if (authStatus === 'authenticated') {
+      loadSavedSearches()
+    }
+  }, [authStatus])
+
+  // Fill the form from a saved search ('' clears the selection only)
+  const applySavedSearch = (searchId: string) => {
+    setSelectedSearchId(searchId)
+    const search = savedSearches.find(s => s.id === searchId)
+    if (!search) {
+      setRequestedCount(null)
+      return
+    }
+
+    setLeadRequest(search.leadRequest)
+    setGeoMode('zips')
+    setZipCodes(search.zipCodes.join(', '))
+    setScope(SCOPE_LABELS[search.leadScope])
+    setUseCase(search.useCase)
+    setQualityTier(search.qualityTier)
+    setRequestedCount(search.requestedCount)
+    setDedupeWindowDays(search.dedupeWindowDays === null ? '' : String(search.dedupeWindowDays))
+  }
+
+  const saveSearch = async () => {
+    if (!saveSearchName.trim()) {
+      setSaveSearchError('Name is required')
+      return
+    }
+
+    setSavingSearch(true)
+    setSaveSearchError('')
+
+    try {
+      const body: Record<string, unknown> = {
+        name: saveSearchName.trim(),
+        leadRequest: leadRequest.trim(),
+        zipCodes,
+        leadScope: scope.toLowerCase(),
+        useCase,
+        qualityTier,
+        schedule: saveSearchSchedule.trim() || null,
+      }
+      if (requestedCount !== null) {
+        body.requestedCount = requestedCount
+      }
+      if (dedupeWindowDays !== '') {
+        body.dedupeWindowDays = parseInt(dedupeWindowDays, 10)
+      }
+
+      const res = await fetch('/api/saved-searches/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+
+      if (res.ok && data.ok) {
+        setSavedSearches(prev => [...prev, data.search].sort((a, b) => a.name.localeCompare(b.name)))
+        setSelectedSearchId(data.search.id)
+        setShowSaveSearch(false)
+        setSaveSearchName('')
+        setSaveSearchSchedule('')
+      } else {
+        setSaveSearchError(getErrorMessage(data.error, 'Failed to save search'))
+      }
+    } catch {
+      setSaveSearchError('Network error. Please try again.')
+    } finally {
+      setSavingSearch(false)
+    }
+  }
+
+  const deleteSavedSearch = async (searchId: string) => {
+    if (!confirm('Delete this saved search? Its schedule stops; past exports are kept.')) return
+
+    try {
+      const res = await fetch('/api/saved-searches/delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ id: searchId }),
+      })
+      const data = await res.json()
+
+      if (res.ok && data.ok) {
+        setSavedSearches(prev => prev.filter(s => s.id !== searchId))
+        applySavedSearch('')
+      } else {
+        alert(getErrorMessage(data.error, 'Failed to delete saved search'))
+      }
+    } catch {
+      alert('Network error. Please try again.')
+    }
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Regenerate signed URL for an export
   // ─────────────────────────────────────────────────────────────────────────
@@ -313,131 +536,127 @@ function App() {
     }
   }
 
-  const stopPolling = useCallback(() => {
-    if (pollTimerRef.current) {
-      clearTimeout(pollTimerRef.current)
-      pollTimerRef.current = null
+  const closeEventStream = useCallback(() => {
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
     }
   }, [])
 
-  // Use a ref to break the circular dependency between pollStatus and scheduleNextPoll
-  const pollStatusRef = useRef<(details: BuildingDetails) => Promise<void>>()
-
-  const scheduleNextPoll = useCallback((details: BuildingDetails, delaySeconds: number) => {
-    pollTimerRef.current = setTimeout(() => {
-      pollStatusRef.current?.(details)
-    }, delaySeconds * 1000)
-  }, [])
-
-  const pollStatus = useCallback(async (details: BuildingDetails) => {
-    const elapsed = Date.now() - pollStartRef.current
-    setPollElapsed(Math.floor(elapsed / 1000))
+  // Close the stream when the app unmounts
+  useEffect(() => closeEventStream, [closeEventStream])
 
-    try {
-      const res = await fetch('/api/leads/status', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          audienceId: details.audienceId,
-          leadRequest: details.leadRequest,
-          zipCodes: details.zipCodes,
-          leadScope: details.leadScope,
-          useCase: details.useCase,
-          requestId: details.requestId,
-          exportId: details.exportId,
-        }),
-      })
-
-      const data = await res.json()
+  // Follow a building export over Server-Sent Events; the server checks the
+  // provider while the stream is open and ends with a done or failed event
+  const watchExport = useCallback((details: BuildingDetails) => {
+    closeEventStream()
+    setBuildingDetails(details)
+    pollStartRef.current = Date.now()
+    setPollElapsed(0)
+    setPollAttempts(0)
+    setBuildProgress(null)
+    setStatus('building')
 
-      // Success!
-      if (res.ok && data.ok) {
-        stopPolling()
-        setLeadCount(data.count || 0)
-        setSignedUrl(data.signedUrl || '')
-        setQualitySummary(data.quality || null)
-        setFieldCoverage(data.fieldCoverage || null)
-        // Set suppression info if present
-        if (data.suppressedCount > 0) {
-          setSuppressionInfo({
-            suppressedCount: data.suppressedCount,
-            suppressedStates: data.suppressedStates || [],
-          })
-        }
-        // Set quality gate info if present
-        if (data.qualityGate) {
-          setQualityGateInfo(data.qualityGate)
-        }
-        setStatus('success')
-        setBuildingDetails(null)
-        return
-      }
+    if (!details.exportId) {
+      const id = details.audienceId || details.jobId
+      setErrorMessage(`Export tracking is unavailable for this request${id ? ` (Audience ID: ${id})` : ''}. Check Export History later.`)
+      setStatus('error')
+      setBuildingDetails(null)
+      return
+    }
 
-      // Still building - continue polling with server-recommended backoff
-      if (res.status === 202 && data.error?.code === 'provider_building') {
-        const serverPollAttempts = data.error?.details?.pollAttempts ?? 0
-        const serverNextPoll = data.error?.details?.nextPollSeconds ?? DEFAULT_POLL_SECONDS
-        
-        setPollAttempts(serverPollAttempts)
-        setNextPollSeconds(serverNextPoll)
-        
-        // Schedule next poll with exponential backoff from server
-        scheduleNextPoll(details, serverNextPoll)
-        return
+    const source = new EventSource(`/api/exports/${encodeURIComponent(details.exportId)}/events`)
+    eventSourceRef.current = source
+
+    const onProgress = (e: MessageEvent) => {
+      const data = JSON.parse(e.data)
+      setPollElapsed(Math.floor((Date.now() - pollStartRef.current) / 1000))
+      setPollAttempts(data.pollAttempts ?? 0)
+      setBuildProgress({ stage: e.type as BuildProgress['stage'], counts: data.counts ?? {} })
+      // Show the audience once an async job has produced one
+      if (data.audienceId) {
+        setBuildingDetails(prev => prev && !prev.audienceId ? { ...prev, audienceId: data.audienceId } : prev)
       }
-
-      // Building long - exceeded max interactive attempts, moved to background processing
-      if (res.status === 202 && data.status === 'building_long') {
-        stopPolling()
-        setPollAttempts(data.pollAttempts ?? MAX_POLL_ATTEMPTS)
-        setNextPollSeconds(data.nextPollSeconds ?? 300)
+      // Exceeded max interactive checks - moved to background processing
+      if (data.background) {
+        closeEventStream()
         setStatus('building_long')
-        // Keep buildingDetails for display but stop active polling
-        return
       }
+    }
+    PROGRESS_STAGES.forEach(stage => source.addEventListener(stage, onProgress))
 
-      // Hard error (404 no results, or other error)
-      stopPolling()
-      const msg = data?.error?.message || 'Failed to generate leads'
-      const audienceId = data?.error?.details?.audienceId || details.audienceId
-      setErrorMessage(`${msg} (Audience ID: ${audienceId})`)
+    source.addEventListener('done', (e) => {
+      closeEventStream()
+      const data = JSON.parse((e as MessageEvent).data)
+      setLeadCount(data.count || 0)
+      setSignedUrl(data.signedUrl || '')
+      setQualitySummary(data.quality || null)
+      setFieldCoverage(data.fieldCoverage || null)
+      // Set suppression info if present
+      if (data.suppressedCount > 0 || data.suppressedByCustomerList > 0 || data.repeatSuppressedCount > 0) {
+        setSuppressionInfo({
+          suppressedCount: data.suppressedCount || 0,
+          suppressedStates: data.suppressedStates || [],
+          suppressedByCustomerList: data.suppressedByCustomerList || 0,
+          repeatSuppressedCount: data.repeatSuppressedCount || 0,
+        })
+      }
+      // Set quality gate info if present
+      if (data.qualityGate) {
+        setQualityGateInfo(data.qualityGate)
+      }
+      setProviderUsed(data.provider || '')
+      setStatus('success')
+      setBuildingDetails(null)
+    })
+
+    // No results, or other error
+    source.addEventListener('failed', (e) => {
+      closeEventStream()
+      const data = JSON.parse((e as MessageEvent).data)
+      const msg = data.errorMessage || 'Failed to generate leads'
+      const audienceId = details.audienceId
+      setErrorMessage(audienceId ? `${msg} (Audience ID: ${audienceId})` : msg)
       setStatus('error')
       setBuildingDetails(null)
-    } catch {
-      stopPolling()
-      setErrorMessage('Network error while polling. Try again.')
+    })
+
+    // EventSource reconnects by itself when a stream ends; give up only once it stopped
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return
+      closeEventStream()
+      setErrorMessage('Lost connection while building. Check Export History later.')
       setStatus('error')
       setBuildingDetails(null)
     }
-  }, [stopPolling, scheduleNextPoll])
+  }, [closeEventStream])
 
-  // Keep the ref up to date with the latest pollStatus
-  useEffect(() => {
-    pollStatusRef.current = pollStatus
-  }, [pollStatus])
-
-  const startPolling = useCallback((details: BuildingDetails) => {
-    setBuildingDetails(details)
-    pollStartRef.current = Date.now()
-    setPollElapsed(0)
-    setPollAttempts(0)
-    setNextPollSeconds(DEFAULT_POLL_SECONDS)
-    setStatus('building')
+  // Geo target for the selected location mode (null = plain ZIP list)
+  const buildGeoTarget = (): GeoTarget | null => {
+    if (geoMode === 'radius') {
+      return { type: 'radius', center: radiusCenter.trim(), radiusMiles: parseFloat(radiusMiles) }
+    }
+    if (geoMode === 'city') {
+      return { type: 'city', city: geoCity.trim(), state: geoState.trim().toUpperCase() }
+    }
+    if (geoMode === 'county') {
+      return { type: 'county', countyFips: countyFips.trim() }
+    }
+    return null
+  }
 
-    // Poll immediately - subsequent polls will use server-recommended backoff
-    pollStatus(details)
-  }, [pollStatus])
+  const hasLocation = (): boolean => {
+    if (geoMode === 'radius') return !!radiusCenter.trim() && !!radiusMiles.trim()
+    if (geoMode === 'city') return !!geoCity.trim() && !!geoState.trim()
+    if (geoMode === 'county') return !!countyFips.trim()
+    return !!zipCodes.trim()
+  }
 
-  const handleGenerate = async () => {
-    if (!leadRequest.trim() || !zipCodes.trim()) {
-      setErrorMessage('Please fill in both fields')
-      setStatus('error')
-      return
-    }
+  // Clear the previous result before a new generation starts
+  const startRequest = () => {
+    // Stop following any earlier export
+    closeEventStream()
 
-    // Stop any existing polling
-    stopPolling()
-    
     setStatus('loading')
     setErrorMessage('')
     setSignedUrl('')
@@ -448,21 +667,97 @@ function App() {
     setBuildingDetails(null)
     setSuppressionInfo(null)
     setQualityGateInfo(null)
+    setProviderUsed('')
     setPollAttempts(0)
-    setNextPollSeconds(DEFAULT_POLL_SECONDS)
+    setBuildProgress(null)
+  }
+
+  // Show a /api/leads/generate response (also returned by export retries)
+  const showGenerateResponse = (res: Response, data: GenerateResponse) => {
+    // Handle 202 building response - follow the export's progress
+    if (res.status === 202 && data.error?.code === 'provider_building') {
+      const details: BuildingDetails = {
+        audienceId: data.error.details?.audienceId || '',
+        jobId: data.error.details?.jobId,
+        exportId: data.error.details?.exportId,
+      }
+      watchExport(details)
+      return
+    }
+
+    // Handle error responses
+    if (!res.ok || !data.ok) {
+      const msg = data?.error?.message || 'Failed to generate leads'
+      const audienceId = data?.error?.details?.audienceId
+      setErrorMessage(audienceId ? `${msg} (Audience ID: ${audienceId})` : msg)
+      setStatus('error')
+      return
+    }
+
+    // Immediate success
+    setLeadCount(data.count || 0)
+    setSignedUrl(data.signedUrl || '')
+    setQualitySummary(data.quality || null)
+    setFieldCoverage(data.fieldCoverage || null)
+    // Set suppression info if present
+    if (data.suppressedCount || data.suppressedByCustomerList || data.repeatSuppressedCount) {
+      setSuppressionInfo({
+        suppressedCount: data.suppressedCount || 0,
+        suppressedStates: data.suppressedStates || [],
+        suppressedByCustomerList: data.suppressedByCustomerList || 0,
+        repeatSuppressedCount: data.repeatSuppressedCount || 0,
+      })
+    }
+    // Set quality gate info if present
+    if (data.qualityGate) {
+      setQualityGateInfo(data.qualityGate)
+    }
+    setProviderUsed(data.provider || '')
+    setStatus('success')
+  }
+
+  const handleGenerate = async () => {
+    if (!leadRequest.trim() || !hasLocation()) {
+      setErrorMessage('Please fill in both fields')
+      setStatus('error')
+      return
+    }
+
+    startRequest()
 
     try {
       // Build request body - only include minMatchScore for call useCase if it differs from default
       const requestBody: Record<string, unknown> = {
         leadRequest: leadRequest.trim(),
-        zipCodes: zipCodes,
         leadScope: scope.toLowerCase(),
         useCase: useCase,
         qualityTier: qualityTier,
       }
+      const geo = buildGeoTarget()
+      if (geo) {
+        requestBody.geo = geo
+      } else {
+        requestBody.zipCodes = zipCodes
+      }
       // Include minMatchScore if useCase is 'call' (explicit control) or if user changed it
       if (useCase === 'call') {
         requestBody.minMatchScore = minMatchScore
+        if (sortCallableNow) {
+          requestBody.sortCallableNow = true
+        }
+      }
+      if (blendProviders) {
+        requestBody.blend = true
+      }
+      if (dedupeWindowDays !== '') {
+        requestBody.dedupeWindowDays = parseInt(dedupeWindowDays, 10)
+      }
+      if (requestedCount !== null) {
+        requestBody.requestedCount = requestedCount
+      }
+      // Tag the export with the picked saved search (saved searches are ZIP lists)
+      if (selectedSearchId && !geo) {
+        requestBody.savedSearchId = selectedSearchId
       }
       
       const res = await fetch('/api/leads/generate', {
@@ -471,55 +766,99 @@ function App() {
         body: JSON.stringify(requestBody),
       })
 
+      showGenerateResponse(res, await res.json())
+    } catch {
+      setErrorMessage('Failed to generate leads')
+      setStatus('error')
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Cancel a building export / retry a failed one from Export History
+  // ─────────────────────────────────────────────────────────────────────────
+  const setExportUpdating = (exportId: string, updating: boolean) => {
+    setUpdatingExportIds(prev => {
+      const next = new Set(prev)
+      if (updating) {
+        next.add(exportId)
+      } else {
+        next.delete(exportId)
+      }
+      return next
+    })
+  }
+
+  const cancelExport = async (exportId: string) => {
+    setExportUpdating(exportId, true)
+
+    try {
+      const res = await fetch(`/api/exports/${encodeURIComponent(exportId)}/cancel`, {
+        method: 'POST',
+        credentials: 'include',
+      })
       const data = await res.json()
 
-      // Handle 202 building response - start polling
-      if (res.status === 202 && data.error?.code === 'provider_building') {
-        const details: BuildingDetails = {
-          audienceId: data.error.details?.audienceId || '',
-          leadRequest: data.error.details?.leadRequest || leadRequest.trim(),
-          zipCodes: data.error.details?.zipCodes || zipCodes,
-          leadScope: data.error.details?.leadScope || scope.toLowerCase(),
-          useCase: data.error.details?.useCase || useCase,
-          requestId: data.error.details?.requestId || '',
-          exportId: data.error.details?.exportId,
+      if (res.ok && data.ok) {
+        // Stop following it if it is the export on screen
+        if (buildingDetails?.exportId === exportId) {
+          closeEventStream()
+          setBuildingDetails(null)
+          setErrorMessage('Export cancelled.')
+          setStatus('error')
         }
-        startPolling(details)
-        return
+        await loadExports()
+      } else {
+        alert(getErrorMessage(data.error, 'Failed to cancel export'))
       }
+    } catch {
+      alert('Network error. Please try again.')
+    } finally {
+      setExportUpdating(exportId, false)
+    }
+  }
 
-      // Handle error responses
-      if (!res.ok || !data.ok) {
-        const msg = data?.error?.message || 'Failed to generate leads'
-        const audienceId = data?.error?.details?.audienceId
-        setErrorMessage(audienceId ? `${msg} (Audience ID: ${audienceId})` : msg)
-        setStatus('error')
-        return
-      }
+  const retryExport = async (exportId: string, overrides: { qualityTier?: QualityTier } = {}) => {
+    setExportUpdating(exportId, true)
+    startRequest()
 
-      // Immediate success
-      setLeadCount(data.count || 0)
-      setSignedUrl(data.signedUrl || '')
-      setQualitySummary(data.quality || null)
-      setFieldCoverage(data.fieldCoverage || null)
-      // Set suppression info if present
-      if (data.suppressedCount > 0) {
-        setSuppressionInfo({
-          suppressedCount: data.suppressedCount,
-          suppressedStates: data.suppressedStates || [],
-        })
-      }
-      // Set quality gate info if present
-      if (data.qualityGate) {
-        setQualityGateInfo(data.qualityGate)
+    try {
+      const res = await fetch(`/api/exports/${encodeURIComponent(exportId)}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(overrides),
+      })
+      const data = await res.json()
+
+      // Errors from the retry route itself (not found, not retryable) use a string error
+      if (typeof data?.error === 'string') {
+        setErrorMessage(data.error)
+        setStatus('error')
+      } else {
+        showGenerateResponse(res, data)
       }
-      setStatus('success')
+      await loadExports()
     } catch {
-      setErrorMessage('Failed to generate leads')
+      setErrorMessage('Failed to retry export')
       setStatus('error')
+    } finally {
+      setExportUpdating(exportId, false)
     }
   }
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // Format provider name for display
+  // ─────────────────────────────────────────────────────────────────────────
+  const formatProvider = (provider: string) => {
+    const labels: Record<string, string> = {
+      audiencelab: 'AudienceLab',
+      pdl: 'People Data Labs',
+      mock: 'Mock',
+    }
+    // Blended exports list every contributing provider, e.g. 'audiencelab+pdl'
+    return provider.split('+').map((p) => labels[p] ?? p).join(' + ')
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Format date for display
   // ─────────────────────────────────────────────────────────────────────────
@@ -528,6 +867,20 @@ function App() {
     return d.toLocaleString()
   }
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // Format geo target for display
+  // ─────────────────────────────────────────────────────────────────────────
+  const formatGeoTarget = (geo: GeoTarget) => {
+    if (geo.type === 'radius') {
+      const center = typeof geo.center === 'string'
+        ? geo.center
+        : `${geo.center.latitude.toFixed(3)}, ${geo.center.longitude.toFixed(3)}`
+      return `${geo.radiusMiles} mi around ${center}`
+    }
+    if (geo.type === 'city') return `${geo.city}, ${geo.state}`
+    return `County ${geo.countyFips}`
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Render auth checking state
   // ─────────────────────────────────────────────────────────────────────────
@@ -550,22 +903,32 @@ function App() {
         </header>
         <main className="main">
           <div className="login-container">
-            <h2>Enter Passcode</h2>
+            <h2>Sign In</h2>
             <form onSubmit={handleLogin}>
               <div className="form-group">
                 <input
-                  type="password"
-                  placeholder="Passcode"
-                  value={passcode}
-                  onChange={(e) => setPasscode(e.target.value)}
+                  type="email"
+                  placeholder="Email"
+                  autoComplete="username"
+                  value={loginEmail}
+                  onChange={(e) => setLoginEmail(e.target.value)}
                   autoFocus
                 />
               </div>
+              <div className="form-group">
+                <input
+                  type="password"
+                  placeholder="Password"
+                  autoComplete="current-password"
+                  value={loginPassword}
+                  onChange={(e) => setLoginPassword(e.target.value)}
+                />
+              </div>
               {loginError && <div className="error">{loginError}</div>}
               <button
                 type="submit"
                 className="btn-primary"
-                disabled={loginLoading || !passcode.trim()}
+                disabled={loginLoading || !loginEmail.trim() || !loginPassword}
               >
                 {loginLoading ? 'Logging in...' : 'Login'}
               </button>
@@ -576,6 +939,8 @@ function App() {
     )
   }
 
+  const selectedSearch = savedSearches.find(s => s.id === selectedSearchId)
+
   // ─────────────────────────────────────────────────────────────────────────
   // Render authenticated app
   // ─────────────────────────────────────────────────────────────────────────
@@ -583,6 +948,11 @@ function App() {
     <div className="app">
       <header className="header">
         <h1>Lead Request</h1>
+        {currentUser && (
+          <span className="current-user">
+            {workspaceName && `${workspaceName} · `}{currentUser.email} ({currentUser.role})
+          </span>
+        )}
         <button
           className="btn-history"
           onClick={() => {
@@ -598,6 +968,79 @@ function App() {
 
       <main className="main">
         <div className="form">
+          <div className="form-group">
+            <label htmlFor="savedSearch">Saved Search</label>
+            <select
+              id="savedSearch"
+              value={selectedSearchId}
+              onChange={(e) => applySavedSearch(e.target.value)}
+            >
+              <option value="">None</option>
+              {savedSearches.map(search => (
+                <option key={search.id} value={search.id}>
+                  {search.name}{search.schedule ? ' ⏱' : ''}
+                </option>
+              ))}
+            </select>
+            <div className="export-actions">
+              <button
+                type="button"
+                className="btn-export-action"
+                onClick={() => setShowSaveSearch(!showSaveSearch)}
+                disabled={geoMode !== 'zips'}
+                title={geoMode !== 'zips' ? 'Only ZIP code searches can be saved' : undefined}
+              >
+                Save current search
+              </button>
+              {selectedSearchId && (
+                <button
+                  type="button"
+                  className="btn-export-action"
+                  onClick={() => deleteSavedSearch(selectedSearchId)}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+            {selectedSearch?.schedule && (
+              <p className="preset-helper">
+                Pulls on schedule <code>{selectedSearch.schedule}</code> (UTC)
+                {selectedSearch.nextRunAt && `, next ${new Date(selectedSearch.nextRunAt).toLocaleString()}`}
+                {selectedSearch.lastRunStatus && ` · last run: ${selectedSearch.lastRunStatus}`}
+              </p>
+            )}
+            {showSaveSearch && geoMode === 'zips' && (
+              <div className="saved-search-form">
+                <input
+                  id="saveSearchName"
+                  type="text"
+                  placeholder="Name, e.g. Miami roofing weekly"
+                  value={saveSearchName}
+                  onChange={(e) => setSaveSearchName(e.target.value)}
+                />
+                <input
+                  id="saveSearchSchedule"
+                  type="text"
+                  placeholder="Schedule (optional), e.g. 0 13 * * 1"
+                  value={saveSearchSchedule}
+                  onChange={(e) => setSaveSearchSchedule(e.target.value)}
+                />
+                <p className="preset-helper">
+                  Cron expression in UTC, at most hourly. Scheduled pulls always skip previously delivered leads.
+                </p>
+                {saveSearchError && <p className="error">{saveSearchError}</p>}
+                <button
+                  type="button"
+                  className="btn-export-action"
+                  onClick={saveSearch}
+                  disabled={savingSearch}
+                >
+                  {savingSearch ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+          </div>
+
           <div className="form-group">
             <label htmlFor="leadRequest">Lead Request</label>
             <input
@@ -610,16 +1053,88 @@ function App() {
           </div>
 
           <div className="form-group">
-            <label htmlFor="zipCodes">ZIP Codes</label>
-            <input
-              id="zipCodes"
-              type="text"
-              placeholder="33101,33130"
-              value={zipCodes}
-              onChange={(e) => setZipCodes(e.target.value)}
-            />
+            <label htmlFor="geoMode">Location</label>
+            <select
+              id="geoMode"
+              value={geoMode}
+              onChange={(e) => setGeoMode(e.target.value as GeoMode)}
+            >
+              <option value="zips">ZIP Codes</option>
+              <option value="radius">Radius around a ZIP</option>
+              <option value="city">City / State</option>
+              <option value="county">County (FIPS)</option>
+            </select>
           </div>
 
+          {geoMode === 'zips' && (
+            <div className="form-group">
+              <label htmlFor="zipCodes">ZIP Codes</label>
+              <input
+                id="zipCodes"
+                type="text"
+                placeholder="33101,33130"
+                value={zipCodes}
+                onChange={(e) => setZipCodes(e.target.value)}
+              />
+            </div>
+          )}
+
+          {geoMode === 'radius' && (
+            <div className="form-group">
+              <label htmlFor="radiusCenter">Center ZIP / Miles</label>
+              <input
+                id="radiusCenter"
+                type="text"
+                placeholder="33602"
+                value={radiusCenter}
+                onChange={(e) => setRadiusCenter(e.target.value)}
+              />
+              <input
+                id="radiusMiles"
+                type="number"
+                min="1"
+                max="100"
+                placeholder="25"
+                value={radiusMiles}
+                onChange={(e) => setRadiusMiles(e.target.value)}
+              />
+            </div>
+          )}
+
+          {geoMode === 'city' && (
+            <div className="form-group">
+              <label htmlFor="geoCity">City / State</label>
+              <input
+                id="geoCity"
+                type="text"
+                placeholder="Tampa"
+                value={geoCity}
+                onChange={(e) => setGeoCity(e.target.value)}
+              />
+              <input
+                id="geoState"
+                type="text"
+                placeholder="FL"
+                maxLength={2}
+                value={geoState}
+                onChange={(e) => setGeoState(e.target.value)}
+              />
+            </div>
+          )}
+
+          {geoMode === 'county' && (
+            <div className="form-group">
+              <label htmlFor="countyFips">County FIPS Code</label>
+              <input
+                id="countyFips"
+                type="text"
+                placeholder="12057"
+                value={countyFips}
+                onChange={(e) => setCountyFips(e.target.value)}
+              />
+            </div>
+          )}
+
           <div className="form-group">
             <label htmlFor="useCase">Quality Preset</label>
             <select
@@ -699,6 +1214,52 @@ function App() {
                       Default is 3 (High) for best dialer results.
                     </p>
                   </div>
+                  <div className="form-group">
+                    <label htmlFor="dedupeWindowDays">Skip Previously Delivered Leads</label>
+                    <select
+                      id="dedupeWindowDays"
+                      value={dedupeWindowDays}
+                      onChange={(e) => setDedupeWindowDays(e.target.value)}
+                    >
+                      <option value="">Server default</option>
+                      <option value="0">Off</option>
+                      <option value="30">Last 30 days</option>
+                      <option value="60">Last 60 days</option>
+                      <option value="90">Last 90 days</option>
+                    </select>
+                    <p className="preset-helper">
+                      Drop leads already delivered in an earlier export within this window.
+                    </p>
+                  </div>
+                  <div className="form-group">
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={blendProviders}
+                        onChange={(e) => setBlendProviders(e.target.checked)}
+                      />
+                      {' '}Blend providers
+                    </label>
+                    <p className="preset-helper">
+                      Query every configured provider and merge results, removing duplicates.
+                      Use when one provider falls short on large ZIP sets.
+                    </p>
+                  </div>
+                  {useCase === 'call' && (
+                    <div className="form-group">
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={sortCallableNow}
+                          onChange={(e) => setSortCallableNow(e.target.checked)}
+                        />
+                        {' '}Callable now first
+                      </label>
+                      <p className="preset-helper">
+                        Put leads inside their local calling window right now at the top of the CSV.
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -726,10 +1287,10 @@ function App() {
             <div className="loading">
               <p>Building audience... ({pollElapsed}s)</p>
               <p style={{ fontSize: '0.875rem', color: '#666', marginTop: '0.5rem' }}>
-                Poll {pollAttempts}/{MAX_POLL_ATTEMPTS} • Next check in {nextPollSeconds}s
+                {describeProgress(buildProgress)} • Check {pollAttempts}/{MAX_POLL_ATTEMPTS}
               </p>
               <p style={{ fontSize: '0.75rem', color: '#999', marginTop: '0.25rem' }}>
-                ID: {buildingDetails.audienceId.slice(0, 8)}...
+                ID: {(buildingDetails.audienceId || buildingDetails.jobId || '').slice(0, 8)}...
               </p>
             </div>
           )}
@@ -744,7 +1305,7 @@ function App() {
                 You can close this page — check <strong>Export History</strong> later to download your leads.
               </p>
               <p style={{ fontSize: '0.75rem', color: '#666', marginTop: '0.75rem' }}>
-                Export ID: {buildingDetails.exportId?.slice(0, 8) || buildingDetails.audienceId.slice(0, 8)}...
+                Export ID: {buildingDetails.exportId?.slice(0, 8) || (buildingDetails.audienceId || buildingDetails.jobId || '').slice(0, 8)}...
               </p>
               <button
                 className="btn-secondary"
@@ -783,6 +1344,9 @@ function App() {
               ) : (
                 <p>Generated {leadCount} leads</p>
               )}
+              {providerUsed && (
+                <p className="provider-used">Source: {formatProvider(providerUsed)}</p>
+              )}
               {suppressionInfo && suppressionInfo.suppressedCount > 0 && (
                 <p className="suppression-notice">
                   {suppressionInfo.suppressedCount} lead{suppressionInfo.suppressedCount !== 1 ? 's' : ''} suppressed
@@ -791,6 +1355,16 @@ function App() {
                   )}
                 </p>
               )}
+              {suppressionInfo && suppressionInfo.suppressedByCustomerList > 0 && (
+                <p className="suppression-notice">
+                  {suppressionInfo.suppressedByCustomerList} lead{suppressionInfo.suppressedByCustomerList !== 1 ? 's' : ''} removed (on your suppression lists)
+                </p>
+              )}
+              {suppressionInfo && suppressionInfo.repeatSuppressedCount > 0 && (
+                <p className="suppression-notice">
+                  {suppressionInfo.repeatSuppressedCount} repeat lead{suppressionInfo.repeatSuppressedCount !== 1 ? 's' : ''} removed (already delivered recently)
+                </p>
+              )}
               <a className="btn-download" href={signedUrl} target="_blank" rel="noopener noreferrer">
                 Download CSV
               </a>
@@ -926,9 +1500,21 @@ function App() {
           <div className="export-history">
             <div className="export-history-header">
               <h3>Export History</h3>
+              <select
+                aria-label="Export history view"
+                value={historyView}
+                onChange={(e) => {
+                  const view = e.target.value as HistoryView
+                  setHistoryView(view)
+                  loadExports(view)
+                }}
+              >
+                <option value="team">Team exports</option>
+                <option value="mine">My exports</option>
+              </select>
               <button
                 className="btn-refresh"
-                onClick={loadExports}
+                onClick={() => loadExports()}
                 disabled={exportsLoading}
               >
                 {exportsLoading ? 'Loading...' : 'Refresh'}
@@ -954,9 +1540,14 @@ function App() {
                     <div className="export-item-details">
                       <div className="export-request">{exp.leadRequest}</div>
                       <div className="export-meta">
+                        {exp.geoTarget && `${formatGeoTarget(exp.geoTarget)} • `}
                         ZIPs: {exp.zipCodes.slice(0, 3).join(', ')}
                         {exp.zipCodes.length > 3 && ` +${exp.zipCodes.length - 3} more`}
                         {exp.kept !== null && ` • ${exp.kept} leads`}
+                        {exp.suppressedCount > 0 && ` • ${exp.suppressedCount} suppressed`}
+                        {exp.customerSuppressedCount > 0 && ` • ${exp.customerSuppressedCount} on suppression lists`}
+                        {exp.repeatSuppressedCount > 0 && ` • ${exp.repeatSuppressedCount} repeats removed`}
+                        {exp.provider && ` • via ${formatProvider(exp.provider)}`}
                       </div>
                     </div>
                     {exp.status === 'success' && exp.hasFile && (
@@ -971,6 +1562,36 @@ function App() {
                     {exp.status === 'error' && exp.errorMessage && (
                       <div className="export-error">{exp.errorMessage}</div>
                     )}
+                    {(exp.status === 'building' || exp.status === 'building_long') && (
+                      <button
+                        className="btn-export-action"
+                        onClick={() => cancelExport(exp.id)}
+                        disabled={updatingExportIds.has(exp.id)}
+                      >
+                        {updatingExportIds.has(exp.id) ? 'Cancelling...' : 'Cancel'}
+                      </button>
+                    )}
+                    {(exp.status === 'error' || exp.status === 'no_results') && (
+                      <div className="export-actions">
+                        <button
+                          className="btn-export-action"
+                          onClick={() => retryExport(exp.id)}
+                          disabled={updatingExportIds.has(exp.id) || status === 'loading'}
+                        >
+                          {updatingExportIds.has(exp.id) ? 'Retrying...' : 'Retry'}
+                        </button>
+                        {/* No results: offer the broadest tier */}
+                        {exp.status === 'no_results' && exp.qualityTier !== 'scale' && (
+                          <button
+                            className="btn-export-action"
+                            onClick={() => retryExport(exp.id, { qualityTier: 'scale' })}
+                            disabled={updatingExportIds.has(exp.id) || status === 'loading'}
+                          >
+                            Retry with Scale tier
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import handler from '../../../api/exports/approve';
+
+interface ApiResponse {
+  ok: boolean;
+  error?: string;
+  code?: string;
+}
+
+function makeRes() {
+  return {
+    statusCode: 0 as number,
+    jsonBody: null as ApiResponse | null,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: ApiResponse) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+async function callApprove(body: unknown, method = 'POST') {
+  const res = makeRes();
+  await handler(
+    { method, body } as unknown as Parameters<typeof handler>[0],
+    res as unknown as Parameters<typeof handler>[1]
+  );
+  return res;
+}
+
+describe('API /api/exports/approve', () => {
+  it('rejects non-POST methods', async () => {
+    const res = await callApprove(undefined, 'GET');
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe('POST');
+  });
+
+  it('requires an exportId', async () => {
+    const res = await callApprove({});
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects unknown actions', async () => {
+    const res = await callApprove({ exportId: 'exp-1', action: 'publish' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.error).toContain('approve or discard');
+  });
+
+  it('returns 404 when the export cannot be found', async () => {
+    const res = await callApprove({ exportId: 'exp-missing' });
+
+    expect(res.statusCode).toBe(404);
+    expect(res.jsonBody?.code).toBe('NOT_FOUND');
+  });
+});
@@ -1,12 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { generateLeads } from '../../../api/_lib/providers/audiencelab';
+import { generateLeads, fetchAudienceJobMembers, getAudienceLabCircuitStatus } from '../../../api/_lib/providers/audiencelab';
 import type { GenerateInput } from '../../../api/_lib/types';
 import {
   AudienceLabAuthError,
   AudienceLabUpstreamError,
   AudienceLabContractError,
+  AudienceLabAsyncError,
 } from '../../../api/_lib/types';
 import { ConfigError } from '../../../api/_lib/bytestring';
+import { resetCircuitBreakers } from '../../../api/_lib/http-client';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -24,7 +26,9 @@ describe('AudienceLab provider error handling', () => {
     vi.resetModules();
     process.env = { ...originalEnv };
     process.env.AUDIENCELAB_API_KEY = 'test-api-key';
+    process.env.AUDIENCELAB_MAX_RETRIES = '0';
     mockFetch.mockReset();
+    resetCircuitBreakers();
   });
 
   afterEach(() => {
@@ -180,6 +184,33 @@ describe('AudienceLab provider error handling', () => {
     }
   });
 
+  it('returns provider_building with the job id when creation is async', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: new Map(),
+      json: async () => ({ job_id: 'job-789', status: 'queued' }),
+    });
+
+    const result = await generateLeads(testInput);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('provider_building');
+      expect(result.error.details).toMatchObject({ jobId: 'job-789' });
+    }
+  });
+
+  it('throws AudienceLabAsyncError for an async response without a job id', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: new Map(),
+      json: async () => ({ job_id: null }),
+    });
+
+    await expect(generateLeads(testInput)).rejects.toThrow(AudienceLabAsyncError);
+  });
+
   it('returns provider_error on network failure', async () => {
     mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
@@ -324,6 +355,192 @@ describe('AudienceLab provider error handling', () => {
   });
 });
 
+describe('fetchAudienceJobMembers', () => {
+  const originalEnv = process.env;
+  const testInput: GenerateInput = {
+    leadRequest: 'roofing',
+    zips: ['33101'],
+    scope: 'residential',
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    process.env.AUDIENCELAB_API_KEY = 'test-api-key';
+    process.env.AUDIENCELAB_MAX_RETRIES = '0';
+    mockFetch.mockReset();
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('returns provider_building while the job is running', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'job-789', status: 'running' }),
+    });
+
+    const result = await fetchAudienceJobMembers('job-789', testInput);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/jobs/job-789');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('provider_building');
+      expect(result.error.details).toMatchObject({ jobId: 'job-789', jobStatus: 'running' });
+    }
+  });
+
+  it('fetches members of the audience the job produced', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ status: 'completed', audience_id: 'audience-123' }),
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [{ first_name: 'John', last_name: 'Doe', email: 'john@example.com', phone: '305-555-1234' }],
+      }),
+    });
+
+    const result = await fetchAudienceJobMembers('job-789', testInput);
+
+    expect(mockFetch.mock.calls[1][0]).toContain('/audiences/audience-123');
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.audienceId).toBe('audience-123');
+      expect(result.leads).toHaveLength(1);
+    }
+  });
+
+  it('keeps the resolved audience id while its members are still populating', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ status: 'completed', audience_id: 'audience-123' }),
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: [] }),
+    });
+
+    const result = await fetchAudienceJobMembers('job-789', testInput);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('provider_building');
+      expect(result.error.details).toMatchObject({ audienceId: 'audience-123', jobId: 'job-789' });
+    }
+  });
+
+  it('throws AudienceLabAsyncError when the job fails', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ status: 'failed', error: 'Filter rejected' }),
+    });
+
+    try {
+      await fetchAudienceJobMembers('job-789', testInput);
+      expect.fail('should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(AudienceLabAsyncError);
+      if (err instanceof AudienceLabAsyncError) {
+        expect(err.jobId).toBe('job-789');
+        expect(err.jobStatus).toBe('failed');
+        expect(err.toSafeContext()).toMatchObject({ upstreamMessage: 'Filter rejected' });
+      }
+    }
+  });
+
+  it('throws AudienceLabUpstreamError on 5xx from the job endpoint', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 503,
+      headers: new Map(),
+    });
+
+    await expect(fetchAudienceJobMembers('job-789', testInput)).rejects.toThrow(AudienceLabUpstreamError);
+  });
+});
+
+describe('AudienceLab retries and circuit breaker', () => {
+  const originalEnv = process.env;
+  const testInput: GenerateInput = {
+    leadRequest: 'roofing',
+    zips: ['33101'],
+    scope: 'residential',
+  };
+  const contacts = {
+    data: [{ first_name: 'John', last_name: 'Doe', email: 'john@example.com', phone: '305-555-1234' }],
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    process.env.AUDIENCELAB_API_KEY = 'test-api-key';
+    process.env.AUDIENCELAB_MAX_RETRIES = '2';
+    process.env.AUDIENCELAB_BREAKER_THRESHOLD = '2';
+    mockFetch.mockReset();
+    resetCircuitBreakers();
+    vi.spyOn(Math, 'random').mockReturnValue(0); // no backoff delay
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.restoreAllMocks();
+  });
+
+  it('retries a transient 502 on the members fetch', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'audience-123' }) });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 502, headers: new Map() });
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => contacts });
+
+    const result = await generateLeads(testInput);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(result.ok).toBe(true);
+  });
+
+  it('does not retry a 5xx on audience creation (not idempotent)', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503, headers: new Map() });
+
+    await expect(generateLeads(testInput)).rejects.toThrow(AudienceLabUpstreamError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries audience creation after a 429 with Retry-After', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'retry-after': '0' }) });
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'audience-123' }) });
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => contacts });
+
+    const result = await generateLeads(testInput);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(result.ok).toBe(true);
+  });
+
+  it('opens the circuit after repeated failures and fails fast', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503, headers: new Map() });
+
+    await expect(generateLeads(testInput)).rejects.toThrow(AudienceLabUpstreamError);
+    await expect(generateLeads(testInput)).rejects.toThrow(AudienceLabUpstreamError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(getAudienceLabCircuitStatus().state).toBe('open');
+
+    try {
+      await generateLeads(testInput);
+      expect.fail('should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(AudienceLabUpstreamError);
+      if (err instanceof AudienceLabUpstreamError) {
+        expect(err.circuitOpen).toBe(true);
+        expect(err.toSafeContext()).toMatchObject({ circuit: 'open' });
+        expect(err.retryAfterSeconds).toBeGreaterThan(0);
+      }
+    }
+    // Failed fast without calling AudienceLab
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
 describe('AudienceLabAuthError', () => {
   it('never includes API key in error message or context', () => {
     const testKey = 'sk_live_supersecret123456';
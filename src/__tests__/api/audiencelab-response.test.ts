@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   extractAudienceId,
+  parseAudienceJobStatus,
   describeShape,
   generateRequestId,
 } from '../../../api/_lib/audiencelab-response';
@@ -159,6 +160,36 @@ describe('extractAudienceId', () => {
     });
   });
 
+  describe('parseAudienceJobStatus', () => {
+    it('reports a running job as pending', () => {
+      expect(parseAudienceJobStatus({ id: 'job_123', status: 'Processing' })).toEqual({ state: 'pending', status: 'processing' });
+      expect(parseAudienceJobStatus({ data: { state: 'queued' } })).toEqual({ state: 'pending', status: 'queued' });
+    });
+
+    it('returns the audience id of a finished job, not the job id', () => {
+      expect(parseAudienceJobStatus({ id: 'job_123', status: 'completed', audience_id: 'aud_1' }))
+        .toEqual({ state: 'ready', audienceId: 'aud_1' });
+      expect(parseAudienceJobStatus({ status: 'done', result: { audienceId: 'aud_2' } }))
+        .toEqual({ state: 'ready', audienceId: 'aud_2' });
+      expect(parseAudienceJobStatus({ data: { status: 'completed', audience: { id: 'aud_3' } } }))
+        .toEqual({ state: 'ready', audienceId: 'aud_3' });
+      expect(parseAudienceJobStatus({ id: 'job_123', status: 'completed' }))
+        .toEqual({ state: 'pending', status: 'completed' });
+    });
+
+    it('reports failed jobs with the upstream message', () => {
+      expect(parseAudienceJobStatus({ status: 'failed', error: 'No matching contacts' }))
+        .toEqual({ state: 'failed', status: 'failed', errorMessage: 'No matching contacts' });
+      expect(parseAudienceJobStatus({ status: 'cancelled' }))
+        .toEqual({ state: 'failed', status: 'cancelled', errorMessage: undefined });
+    });
+
+    it('treats unparseable bodies as pending', () => {
+      expect(parseAudienceJobStatus(null)).toEqual({ state: 'pending', status: 'unknown' });
+      expect(parseAudienceJobStatus([])).toEqual({ state: 'pending', status: 'unknown' });
+    });
+  });
+
   describe('error payloads (200 with error)', () => {
     it('detects error field', () => {
       const result = extractAudienceId({ error: 'Something went wrong' });
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  signSession,
+  decodeSession,
+  verifySession,
+  requireSession,
+  getSessionUser,
+  type SessionUser,
+} from '../../../api/_lib/auth';
+import { hashPassword, verifyPassword, hasRole, getUser, type AppUser } from '../../../api/_lib/users';
+import { getBearerToken, looksLikeApiKey, hashApiKey, verifyApiKey, type ApiKey } from '../../../api/_lib/api-keys';
+
+vi.mock('../../../api/_lib/api-keys', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../api/_lib/api-keys')>();
+  return { ...actual, verifyApiKey: vi.fn() };
+});
+
+vi.mock('../../../api/_lib/users', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../api/_lib/users')>();
+  return { ...actual, getUser: vi.fn() };
+});
+
+function makeRes() {
+  return {
+    statusCode: 0 as number,
+    jsonBody: null as { ok: boolean; error?: { code: string } } | null,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: { ok: boolean; error?: { code: string } }) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+type Req = Parameters<typeof requireSession>[0];
+type Res = Parameters<typeof requireSession>[1];
+
+const REP: SessionUser = { userId: 'user-1', email: 'rep@example.com', role: 'rep', workspaceId: 'ws-1' };
+
+describe('auth', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    process.env.SESSION_SECRET = 'x'.repeat(32);
+    delete process.env.AUTH_DISABLED_FOR_TESTS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('session tokens', () => {
+    it('round-trips the user id and role', () => {
+      const token = signSession(REP);
+      expect(decodeSession(token)).toEqual(REP);
+      expect(verifySession(token)).toBe(true);
+    });
+
+    it('rejects tokens without a workspace', async () => {
+      const { createHmac } = await import('crypto');
+      const payload = Buffer.from(JSON.stringify({ sub: 'user-1', email: '', role: 'rep', iat: 0, exp: 9e9 }))
+        .toString('base64url');
+      const sig = createHmac('sha256', process.env.SESSION_SECRET!).update(payload).digest('base64url');
+      expect(decodeSession(`${payload}.${sig}`)).toBeNull();
+    });
+
+    it('rejects tampered tokens', () => {
+      const [, signature] = signSession(REP).split('.');
+      const forged = Buffer.from(JSON.stringify({ sub: 'user-1', email: '', role: 'admin', iat: 0, exp: 9e9 }))
+        .toString('base64url');
+      expect(decodeSession(`${forged}.${signature}`)).toBeNull();
+    });
+
+    it('rejects legacy passcode sessions without a user', async () => {
+      const { createHmac } = await import('crypto');
+      const payload = Buffer.from(JSON.stringify({ iat: 0, exp: 9e9 })).toString('base64url');
+      const sig = createHmac('sha256', process.env.SESSION_SECRET!).update(payload).digest('base64url');
+      expect(decodeSession(`${payload}.${sig}`)).toBeNull();
+    });
+  });
+
+  describe('requireSession', () => {
+    const reqWith = (user: SessionUser) =>
+      ({ headers: { cookie: `lr_session=${signSession(user)}` } }) as unknown as Req;
+    const appUser = (user: SessionUser, overrides: Partial<AppUser> = {}): AppUser => ({
+      id: user.userId,
+      created_at: '2026-01-01T00:00:00Z',
+      workspace_id: user.workspaceId,
+      email: user.email,
+      name: null,
+      role: user.role,
+      disabled: false,
+      monthly_lead_credits: null,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.mocked(getUser).mockImplementation(async (workspaceId, id) =>
+        appUser({ ...REP, userId: id, workspaceId, role: id === 'admin-1' ? 'admin' : 'rep' })
+      );
+    });
+
+    it('returns 401 without a session', async () => {
+      const res = makeRes();
+      expect(await requireSession({ headers: {} } as unknown as Req, res as unknown as Res)).not.toBeNull();
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('enforces the required role', async () => {
+      const res = makeRes();
+      expect(await requireSession(reqWith(REP), res as unknown as Res, { role: 'manager' })).not.toBeNull();
+      expect(res.statusCode).toBe(403);
+      expect(res.jsonBody?.error?.code).toBe('forbidden');
+
+      expect(await requireSession(reqWith(REP), makeRes() as unknown as Res)).toBeNull();
+      expect(
+        await requireSession(
+          reqWith({ ...REP, userId: 'admin-1', role: 'admin' }),
+          makeRes() as unknown as Res,
+          { role: 'manager' }
+        )
+      ).toBeNull();
+    });
+
+    it('applies role changes made after sign-in', async () => {
+      // Signed in as admin, since demoted to rep
+      const req = reqWith({ ...REP, role: 'admin' });
+      const res = makeRes();
+      expect(await requireSession(req, res as unknown as Res, { role: 'manager' })).not.toBeNull();
+      expect(res.statusCode).toBe(403);
+      expect(getSessionUser(req)?.role).toBe('rep');
+      expect(getUser).toHaveBeenCalledWith('ws-1', 'user-1');
+    });
+
+    it('rejects sessions of users disabled or removed after sign-in', async () => {
+      vi.mocked(getUser).mockResolvedValueOnce(appUser(REP, { disabled: true }));
+      const disabled = makeRes();
+      expect(await requireSession(reqWith(REP), disabled as unknown as Res)).not.toBeNull();
+      expect(disabled.statusCode).toBe(401);
+
+      vi.mocked(getUser).mockResolvedValueOnce(null);
+      const removed = makeRes();
+      expect(await requireSession(reqWith(REP), removed as unknown as Res)).not.toBeNull();
+      expect(removed.statusCode).toBe(401);
+    });
+  });
+
+  describe('API keys', () => {
+    const KEY = 'lr_' + 'a'.repeat(43);
+    const API_KEY: ApiKey = {
+      id: 'key-1',
+      created_at: '2026-01-01T00:00:00Z',
+      workspace_id: 'ws-2',
+      name: 'CRM',
+      key_prefix: 'lr_aaaaaaaa',
+      scopes: ['read-exports'],
+      created_by: 'admin-1',
+      last_used_at: null,
+      revoked_at: null,
+    };
+    const CREATOR: AppUser = {
+      id: 'admin-1',
+      created_at: '2026-01-01T00:00:00Z',
+      workspace_id: 'ws-2',
+      email: 'admin@example.com',
+      name: null,
+      role: 'admin',
+      disabled: false,
+      monthly_lead_credits: null,
+    };
+    const bearerReq = () => ({ headers: { authorization: `Bearer ${KEY}` } }) as unknown as Req;
+
+    beforeEach(() => {
+      vi.mocked(getUser).mockResolvedValue(CREATOR);
+    });
+
+    it('parses bearer tokens and recognizes key format', () => {
+      expect(getBearerToken(`Bearer ${KEY}`)).toBe(KEY);
+      expect(getBearerToken('Basic abc')).toBeNull();
+      expect(getBearerToken(undefined)).toBeNull();
+      expect(looksLikeApiKey(KEY)).toBe(true);
+      expect(looksLikeApiKey('lr_short')).toBe(false);
+      expect(hashApiKey(KEY)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('accepts a key with the route scope', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValueOnce(API_KEY);
+      const req = bearerReq();
+      expect(await requireSession(req, makeRes() as unknown as Res, { scope: 'read-exports' })).toBeNull();
+      expect(getSessionUser(req)).toMatchObject({ userId: 'admin-1', role: 'admin', apiKeyId: 'key-1', workspaceId: 'ws-2' });
+    });
+
+    it('acts with the creator\'s current role', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValueOnce(API_KEY);
+      vi.mocked(getUser).mockResolvedValueOnce({ ...CREATOR, role: 'rep' });
+      const req = bearerReq();
+      expect(await requireSession(req, makeRes() as unknown as Res, { scope: 'read-exports' })).toBeNull();
+      expect(getSessionUser(req)?.role).toBe('rep');
+      expect(getUser).toHaveBeenCalledWith('ws-2', 'admin-1');
+    });
+
+    it('rejects missing scopes, cookie-only routes and revoked keys', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValue(API_KEY);
+      const res = makeRes();
+      expect(await requireSession(bearerReq(), res as unknown as Res, { scope: 'generate' })).not.toBeNull();
+      expect(res.statusCode).toBe(403);
+
+      const cookieOnly = makeRes();
+      expect(await requireSession(bearerReq(), cookieOnly as unknown as Res)).not.toBeNull();
+      expect(cookieOnly.statusCode).toBe(403);
+
+      vi.mocked(verifyApiKey).mockResolvedValue(null);
+      const revoked = makeRes();
+      expect(await requireSession(bearerReq(), revoked as unknown as Res, { scope: 'read-exports' })).not.toBeNull();
+      expect(revoked.statusCode).toBe(401);
+      expect(revoked.jsonBody?.error?.code).toBe('invalid_api_key');
+    });
+
+    it('rejects keys whose creator was deleted', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValueOnce({ ...API_KEY, created_by: null });
+      const res = makeRes();
+      expect(await requireSession(bearerReq(), res as unknown as Res, { scope: 'read-exports' })).not.toBeNull();
+      expect(res.statusCode).toBe(401);
+      expect(res.jsonBody?.error?.code).toBe('invalid_api_key');
+
+      vi.mocked(verifyApiKey).mockResolvedValueOnce(API_KEY);
+      vi.mocked(getUser).mockResolvedValueOnce(null);
+      const missing = makeRes();
+      expect(await requireSession(bearerReq(), missing as unknown as Res, { scope: 'read-exports' })).not.toBeNull();
+      expect(missing.statusCode).toBe(401);
+    });
+
+    it('rejects keys whose creator was disabled', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValueOnce(API_KEY);
+      vi.mocked(getUser).mockResolvedValueOnce({ ...CREATOR, disabled: true });
+      const req = bearerReq();
+      const res = makeRes();
+      expect(await requireSession(req, res as unknown as Res, { scope: 'read-exports' })).not.toBeNull();
+      expect(res.statusCode).toBe(401);
+      expect(res.jsonBody?.error?.code).toBe('invalid_api_key');
+      expect(getSessionUser(req)).toBeNull();
+    });
+  });
+
+  describe('passwords and roles', () => {
+    it('verifies scrypt hashes', async () => {
+      const hash = await hashPassword('correct horse battery');
+      expect(hash).toMatch(/^scrypt\$/);
+      expect(await verifyPassword('correct horse battery', hash)).toBe(true);
+      expect(await verifyPassword('wrong password!', hash)).toBe(false);
+      expect(await verifyPassword('anything', 'plaintext')).toBe(false);
+    });
+
+    it('ranks admin > manager > rep', () => {
+      expect(hasRole('admin', 'manager')).toBe(true);
+      expect(hasRole('manager', 'manager')).toBe(true);
+      expect(hasRole('rep', 'manager')).toBe(false);
+    });
+  });
+});
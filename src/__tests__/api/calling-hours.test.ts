@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getLeadTimezone,
+  getCallWindow,
+  isCallableNow,
+  annotateCallWindows,
+  applyCallingHours,
+} from '../../../api/_lib/calling-hours';
+import type { Lead } from '../../../api/_lib/types';
+
+/**
+ * Factory for creating test leads with defaults.
+ */
+function createLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    address: '1 Ocean Dr',
+    city: 'Miami',
+    state: 'FL',
+    zip: '33101',
+    phone: '3055550100',
+    email: '',
+    lead_type: 'residential',
+    tags: 'roofing',
+    source: 'audiencelab',
+    best_phone: '3055550100',
+    phones_all: '3055550100',
+    wireless_phones: '3055550100',
+    landline_phones: '',
+    match_score: 3,
+    quality_score: 80,
+    quality_tier: 'balanced',
+    dnc_status: '',
+    email_validation_status: '',
+    ...overrides,
+  };
+}
+
+// Wednesday 2026-01-14 15:00 UTC = 10:00 in New York, 07:00 in Los Angeles
+const WEDNESDAY_15_UTC = new Date('2026-01-14T15:00:00Z');
+// Sunday 2026-01-18 18:00 UTC = 13:00 in New York / 12:00 in Chicago
+const SUNDAY_18_UTC = new Date('2026-01-18T18:00:00Z');
+
+describe('getLeadTimezone', () => {
+  it('uses the embedded ZIP lookup first', () => {
+    expect(getLeadTimezone({ zip: '90210', state: '' })).toBe('America/Los_Angeles');
+  });
+
+  it('handles split-zone ZIP prefixes', () => {
+    expect(getLeadTimezone({ zip: '32501', state: 'FL' })).toBe('America/Chicago'); // Pensacola
+    expect(getLeadTimezone({ zip: '37902', state: 'TN' })).toBe('America/New_York'); // Knoxville
+    expect(getLeadTimezone({ zip: '79901', state: 'TX' })).toBe('America/Denver'); // El Paso
+  });
+
+  it('falls back to the state zone', () => {
+    expect(getLeadTimezone({ zip: '30301', state: 'ga' })).toBe('America/New_York');
+    expect(getLeadTimezone({ zip: '', state: 'AZ' })).toBe('America/Phoenix');
+  });
+
+  it('returns undefined when nothing is known', () => {
+    expect(getLeadTimezone({ zip: '', state: '' })).toBeUndefined();
+  });
+});
+
+describe('getCallWindow', () => {
+  it('defaults to the federal window', () => {
+    expect(getCallWindow('NY')).toEqual({ start: '08:00', end: '21:00' });
+  });
+
+  it('applies stricter state windows', () => {
+    expect(getCallWindow('FL')).toEqual({ start: '08:00', end: '20:00' });
+    expect(getCallWindow('RI')).toEqual({ start: '09:00', end: '18:00' });
+  });
+
+  it('handles Sunday rules', () => {
+    expect(getCallWindow('AL', 0)).toBeNull();
+    expect(getCallWindow('TX', 0)).toEqual({ start: '12:00', end: '21:00' });
+    expect(getCallWindow('NY', 0)).toEqual({ start: '08:00', end: '21:00' });
+  });
+});
+
+describe('isCallableNow', () => {
+  it('compares local time with the window', () => {
+    expect(isCallableNow(createLead(), WEDNESDAY_15_UTC)).toBe(true);
+    expect(isCallableNow(createLead({ state: 'CA', zip: '90210' }), WEDNESDAY_15_UTC)).toBe(false);
+  });
+
+  it('blocks states without Sunday calling', () => {
+    expect(isCallableNow(createLead({ state: 'AL', zip: '35203' }), SUNDAY_18_UTC)).toBe(false);
+    expect(isCallableNow(createLead({ state: 'TX', zip: '75201' }), SUNDAY_18_UTC)).toBe(true);
+  });
+
+  it('treats unknown time zones as not callable', () => {
+    expect(isCallableNow(createLead({ state: '', zip: '' }), WEDNESDAY_15_UTC)).toBe(false);
+  });
+});
+
+describe('applyCallingHours', () => {
+  it('annotates timezone and window columns', () => {
+    const [lead] = annotateCallWindows([createLead({ state: 'CT', zip: '06103' })]);
+    expect(lead.timezone).toBe('America/New_York');
+    expect(lead.local_call_window_start).toBe('09:00');
+    expect(lead.local_call_window_end).toBe('20:00');
+  });
+
+  it('leaves non-call exports untouched', () => {
+    const leads = [createLead()];
+    expect(applyCallingHours(leads, 'email', true, WEDNESDAY_15_UTC)).toBe(leads);
+  });
+
+  it('sorts callable-now leads first, keeping order within groups', () => {
+    const leads = [
+      createLead({ first_name: 'A', state: 'CA', zip: '90210' }),
+      createLead({ first_name: 'B' }),
+      createLead({ first_name: 'C', state: 'WA', zip: '98101' }),
+      createLead({ first_name: 'D', state: 'NY', zip: '10001' }),
+    ];
+
+    const sorted = applyCallingHours(leads, 'call', true, WEDNESDAY_15_UTC);
+    expect(sorted.map((l) => l.first_name)).toEqual(['B', 'D', 'A', 'C']);
+
+    const unsorted = applyCallingHours(leads, 'call', false, WEDNESDAY_15_UTC);
+    expect(unsorted.map((l) => l.first_name)).toEqual(['A', 'B', 'C', 'D']);
+  });
+});
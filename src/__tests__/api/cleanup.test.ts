@@ -7,7 +7,89 @@ import {
   getCleanupConfig,
   getCutoffDate,
   generateRunId,
+  runCleanup,
 } from '../../../api/_lib/cleanup.js';
+import { getCreditBalance } from '../../../api/_lib/lead-credits.js';
+import type { Workspace } from '../../../api/_lib/workspaces.js';
+
+type Row = Record<string, unknown>;
+
+/** In-memory tables behind the mocked Supabase client. */
+const db: Record<string, Row[]> = {};
+
+/** Evaluate one PostgREST condition (`col.op.value`) used by cleanup. */
+function matches(row: Row, condition: string): boolean {
+  const [col, op, ...rest] = condition.split('.');
+  const value = rest.join('.');
+  if (op === 'is' && value === 'null') return row[col] === null || row[col] === undefined;
+  if (op === 'lt') return String(row[col]) < value;
+  throw new Error(`Unsupported condition: ${condition}`);
+}
+
+/** Minimal query builder: filters are applied when the query is awaited. */
+function query(table: string) {
+  const filters: Array<(row: Row) => boolean> = [];
+  let action: 'select' | 'delete' = 'select';
+  const run = () => {
+    const rows = (db[table] ??= []).filter((row) => filters.every((f) => f(row)));
+    if (action === 'delete') {
+      db[table] = db[table].filter((row) => !rows.includes(row));
+      return { data: null, error: null, count: rows.length };
+    }
+    return { data: rows, error: null };
+  };
+  const builder = {
+    select: () => builder,
+    order: () => builder,
+    limit: () => builder,
+    delete: () => {
+      action = 'delete';
+      return builder;
+    },
+    insert: (row: Row) => {
+      (db[table] ??= []).push(row);
+      return Promise.resolve({ error: null });
+    },
+    eq: (col: string, value: unknown) => {
+      filters.push((row) => row[col] === value);
+      return builder;
+    },
+    in: (col: string, values: unknown[]) => {
+      filters.push((row) => values.includes(row[col]));
+      return builder;
+    },
+    not: (col: string, op: string, list: string) => {
+      if (op !== 'in') throw new Error(`Unsupported not: ${op}`);
+      const values = list.slice(1, -1).split(',');
+      filters.push((row) => !values.includes(String(row[col])));
+      return builder;
+    },
+    or: (conditions: string) => {
+      filters.push((row) => conditions.split(',').some((c) => matches(row, c)));
+      return builder;
+    },
+    maybeSingle: () => Promise.resolve({ data: run().data?.[0] ?? null, error: null }),
+    then: (resolve: (value: ReturnType<typeof run>) => unknown) => resolve(run()),
+  };
+  return builder;
+}
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: query,
+    storage: { from: () => ({ remove: () => Promise.resolve({ error: null }) }) },
+    // lead_credit_usage() as defined in Migration 024: a sum over the ledger
+    rpc: (fn: string, args: { p_workspace_id: string; p_since: string; p_user_id: string | null }) => {
+      if (fn !== 'lead_credit_usage') throw new Error(`Unexpected rpc: ${fn}`);
+      const used = (db.lead_credit_ledger ?? [])
+        .filter((e) => e.workspace_id === args.p_workspace_id)
+        .filter((e) => String(e.export_created_at) >= args.p_since)
+        .filter((e) => args.p_user_id === null || e.user_id === args.p_user_id)
+        .reduce((sum, e) => sum + Number(e.credits), 0);
+      return Promise.resolve({ data: used, error: null });
+    },
+  }),
+}));
 
 describe('getCleanupConfig', () => {
   const originalEnv = process.env;
@@ -133,3 +215,72 @@ describe('CleanupResult shape', () => {
     expect(result.errorsCount).toBe(1);
   });
 });
+
+describe('runCleanup and lead credits', () => {
+  const originalEnv = process.env;
+  const WORKSPACE_ID = 'ws-1';
+  const workspace = { id: WORKSPACE_ID, monthly_lead_credits: 1000 } as Workspace;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, SUPABASE_URL: 'https://db.test', SUPABASE_SERVICE_ROLE_KEY: 'service-key' };
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+    const row = (id: string, status: string, file: boolean) => ({
+      id,
+      workspace_id: WORKSPACE_ID,
+      created_by: 'user-1',
+      created_at: monthStart,
+      status,
+      bucket: file ? 'exports' : null,
+      path: file ? `${id}.csv` : null,
+    });
+    db.workspaces = [{ id: WORKSPACE_ID }];
+    db.app_users = [{ id: 'user-1', workspace_id: WORKSPACE_ID, monthly_lead_credits: null }];
+    db.audit_log = [];
+    db.lead_exports = [
+      row('exp-success', 'success', true),
+      row('exp-error', 'error', false),
+      row('exp-building', 'building', false),
+    ];
+    const entry = (exportId: string, credits: number, reason: string) => ({
+      workspace_id: WORKSPACE_ID,
+      user_id: 'user-1',
+      export_id: exportId,
+      export_created_at: monthStart,
+      credits,
+      reason,
+    });
+    db.lead_credit_ledger = [
+      entry('exp-success', 200, 'reserve'),
+      entry('exp-success', -50, 'charge'),
+      entry('exp-error', 200, 'reserve'),
+      entry('exp-error', -200, 'refund'),
+      entry('exp-building', 300, 'reserve'),
+    ];
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('keeps the month\'s usage when exports are deleted', async () => {
+    const before = await getCreditBalance(workspace, 'user-1');
+    expect(before?.workspace).toEqual({ limit: 1000, used: 450, remaining: 550 });
+
+    // Retention shorter than the credit period: every finished export expires
+    const result = await runCleanup({ retentionDays: 0 });
+
+    expect(result.deletedRows).toBe(2);
+    expect(db.lead_exports.map((e) => e.id)).toEqual(['exp-building']);
+
+    const after = await getCreditBalance(workspace, 'user-1');
+    expect(after?.workspace).toEqual(before?.workspace);
+    expect(after?.user).toEqual(before?.user);
+  });
+
+  it('never deletes exports that are still building', async () => {
+    await runCleanup({ retentionDays: 3650 });
+
+    expect(db.lead_exports.map((e) => e.id).sort()).toEqual(['exp-building', 'exp-success']);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  parseComplianceRuleSet,
+  getComplianceRuleSet,
+  getDefaultComplianceRuleSet,
+  getLeadPhoneType,
+  applyComplianceRules,
+  type ComplianceRuleSet,
+} from '../../../api/_lib/compliance-rules';
+import { ConfigError } from '../../../api/_lib/bytestring';
+import type { Lead } from '../../../api/_lib/types';
+
+/**
+ * Factory for creating test leads with defaults.
+ */
+function createLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    address: '1 Ocean Dr',
+    city: 'Miami',
+    state: 'FL',
+    zip: '33101',
+    phone: '3055550100',
+    email: 'jane@example.com',
+    lead_type: 'residential',
+    tags: 'roofing',
+    source: 'audiencelab',
+    best_phone: '3055550100',
+    phones_all: '3055550100|3055550101',
+    wireless_phones: '3055550100',
+    landline_phones: '3055550101',
+    match_score: 3,
+    quality_score: 0,
+    quality_tier: 'balanced',
+    dnc_status: '',
+    email_validation_status: '',
+    ...overrides,
+  };
+}
+
+const RULES: ComplianceRuleSet = {
+  version: 'test-1',
+  rules: [
+    { id: 'tx-call', action: 'suppress', match: { states: ['TX'], useCases: ['call'] } },
+    { id: 'fl-wireless', action: 'require_consent', match: { states: ['FL'], phoneTypes: ['wireless'] } },
+    { id: 'nyc-commercial', action: 'flag', match: { zipPrefixes: ['100'], leadTypes: ['commercial'] } },
+  ],
+};
+
+describe('compliance rules', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    delete process.env.COMPLIANCE_RULES;
+    delete process.env.CALL_SUPPRESS_STATES;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('rule set resolution', () => {
+    it('defaults to suppressing CALL_SUPPRESS_STATES for call exports', () => {
+      const ruleSet = getDefaultComplianceRuleSet();
+      expect(ruleSet.version).toBe('default-1:TX');
+      expect(ruleSet.rules).toHaveLength(1);
+      expect(ruleSet.rules[0].match).toEqual({ states: ['TX'], useCases: ['call'] });
+    });
+
+    it('changes the default version when CALL_SUPPRESS_STATES changes', () => {
+      process.env.CALL_SUPPRESS_STATES = 'tx,ca';
+      expect(getDefaultComplianceRuleSet().version).toBe('default-1:TX,CA');
+
+      process.env.CALL_SUPPRESS_STATES = 'none';
+      const off = getDefaultComplianceRuleSet();
+      expect(off.version).toBe('default-1:none');
+      expect(off.rules).toEqual([]);
+    });
+
+    it('prefers COMPLIANCE_RULES when set', () => {
+      process.env.COMPLIANCE_RULES = JSON.stringify({
+        version: 'legal-2026',
+        rules: [{ id: 'ny', action: 'flag', match: { states: ['ny'] } }],
+      });
+      const ruleSet = getComplianceRuleSet();
+      expect(ruleSet.version).toBe('legal-2026');
+      expect(ruleSet.rules[0].match.states).toEqual(['NY']);
+    });
+  });
+
+  describe('parseComplianceRuleSet', () => {
+    it('rejects invalid JSON and missing version', () => {
+      expect(() => parseComplianceRuleSet('{')).toThrow(ConfigError);
+      expect(() => parseComplianceRuleSet('{"rules": []}')).toThrow(/version/);
+    });
+
+    it('rejects unknown actions and match values', () => {
+      const badAction = JSON.stringify({ version: '1', rules: [{ id: 'a', action: 'block', match: {} }] });
+      expect(() => parseComplianceRuleSet(badAction)).toThrow(/action/);
+
+      const badPhoneType = JSON.stringify({
+        version: '1',
+        rules: [{ id: 'a', action: 'flag', match: { phoneTypes: ['voip'] } }],
+      });
+      expect(() => parseComplianceRuleSet(badPhoneType)).toThrow(/voip/);
+    });
+
+    it('rejects duplicate rule ids', () => {
+      const dup = JSON.stringify({
+        version: '1',
+        rules: [
+          { id: 'a', action: 'flag', match: {} },
+          { id: 'a', action: 'suppress', match: {} },
+        ],
+      });
+      expect(() => parseComplianceRuleSet(dup)).toThrow(/duplicate/);
+    });
+  });
+
+  describe('getLeadPhoneType', () => {
+    it('classifies the best phone', () => {
+      expect(getLeadPhoneType(createLead())).toBe('wireless');
+      expect(getLeadPhoneType(createLead({ best_phone: '(305) 555-0101' }))).toBe('landline');
+      expect(getLeadPhoneType(createLead({ best_phone: '3055559999', phone: '' }))).toBeUndefined();
+    });
+  });
+
+  describe('applyComplianceRules', () => {
+    it('suppresses matching leads only for the listed useCase', () => {
+      const leads = [createLead({ state: 'TX', wireless_phones: '' }), createLead({ state: 'GA' })];
+
+      const call = applyComplianceRules(leads, 'call', RULES);
+      expect(call.suppressedCount).toBe(1);
+      expect(call.suppressedStates).toEqual(['TX']);
+      expect(call.filteredLeads).toHaveLength(1);
+
+      const both = applyComplianceRules(leads, 'both', RULES);
+      expect(both.suppressedCount).toBe(0);
+      expect(both.rulesFired).toEqual([]);
+    });
+
+    it('annotates require_consent and flag leads', () => {
+      const leads = [
+        createLead(),
+        createLead({ state: 'NY', zip: '10001', lead_type: 'commercial' }),
+        createLead({ state: 'GA' }),
+      ];
+
+      const result = applyComplianceRules(leads, 'call', RULES);
+
+      expect(result.filteredLeads).toHaveLength(3);
+      expect(result.consentRequiredCount).toBe(1);
+      expect(result.flaggedCount).toBe(1);
+      expect(result.filteredLeads[0].consent_required).toBe('yes');
+      expect(result.filteredLeads[0].compliance_flags).toBe('fl-wireless');
+      expect(result.filteredLeads[1].compliance_flags).toBe('nyc-commercial');
+      expect(result.filteredLeads[1].consent_required).toBe('');
+      expect(result.filteredLeads[2].compliance_flags).toBeUndefined();
+    });
+
+    it('records the rule version and every rule that fired', () => {
+      const leads = [
+        createLead({ state: 'TX' }),
+        createLead({ state: 'TX' }),
+        createLead({ state: 'FL' }),
+      ];
+
+      const result = applyComplianceRules(leads, 'call', RULES);
+
+      expect(result.ruleVersion).toBe('test-1');
+      expect(result.rulesFired).toEqual([
+        { ruleId: 'tx-call', action: 'suppress', count: 2 },
+        { ruleId: 'fl-wireless', action: 'require_consent', count: 1 },
+      ]);
+    });
+
+    it('lets suppress win when several rules match', () => {
+      const ruleSet: ComplianceRuleSet = {
+        version: 'test-2',
+        rules: [
+          { id: 'flag-all', action: 'flag', match: {} },
+          { id: 'tx', action: 'suppress', match: { states: ['TX'] } },
+        ],
+      };
+
+      const result = applyComplianceRules([createLead({ state: 'TX' })], 'email', ruleSet);
+
+      expect(result.filteredLeads).toEqual([]);
+      expect(result.flaggedCount).toBe(0);
+      expect(result.rulesFired.map((r) => r.ruleId)).toEqual(['flag-all', 'tx']);
+    });
+
+    it('matches the legacy state filter with the default rule set', () => {
+      const leads = [createLead({ state: 'TX' }), createLead({ state: 'FL' })];
+      const result = applyComplianceRules(leads, 'call');
+      expect(result.suppressedCount).toBe(1);
+      expect(result.ruleVersion).toBe('default-1:TX');
+    });
+  });
+});
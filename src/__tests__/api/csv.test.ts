@@ -98,7 +98,7 @@ describe('leadsToCsv', () => {
 
     // Rich export header with quality columns
     expect(lines[0]).toBe(
-      'first_name,last_name,address,city,state,zip,phone,email,best_phone,wireless_phones,landline_phones,phones_all,quality_score,quality_tier,match_score,dnc_status,email_validation_status,lead_type,tags,source'
+      'first_name,last_name,address,city,state,zip,phone,email,best_phone,wireless_phones,landline_phones,phones_all,quality_score,quality_tier,match_score,dnc_status,email_validation_status,lead_type,tags,source,compliance_flags,consent_required,timezone,local_call_window_start,local_call_window_end'
     );
     expect(lines[1]).toContain('"John"');
     expect(lines[1]).toContain('"Doe"');
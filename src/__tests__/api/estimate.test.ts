@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import handler, { projectLeadEstimate } from '../../../api/leads/estimate';
+import { generateLeads as mockGenerateLeads } from '../../../api/_lib/providers/mock';
+import { getDefaultComplianceRuleSet, type ComplianceRuleSet } from '../../../api/_lib/compliance-rules';
+import type { Lead } from '../../../api/_lib/types';
+
+interface ApiResponse {
+  ok: boolean;
+  error?: { code: string; message: string; details?: Record<string, unknown> };
+  provider?: string;
+  intentPack?: string;
+  qualityTier?: string;
+  keywords?: string[];
+  filters?: {
+    intent: Record<string, unknown>;
+    geo: Record<string, unknown>;
+    contact: Record<string, unknown>;
+  };
+  zipCount?: number;
+  estimate?: {
+    available: number;
+    sampleSize: number;
+    afterSuppression: number;
+    afterQualityGate: number;
+    estimatedDeliverable: number;
+    requestedCount: number;
+    suppressedStates: string[];
+  } | null;
+  warnings?: string[];
+}
+
+function makeRes() {
+  return {
+    statusCode: 0 as number,
+    jsonBody: null as ApiResponse | null,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: ApiResponse) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+async function callEstimate(body: unknown, method = 'POST') {
+  const res = makeRes();
+  await handler(
+    { method, body } as unknown as Parameters<typeof handler>[0],
+    res as unknown as Parameters<typeof handler>[1]
+  );
+  return res;
+}
+
+describe('API /api/leads/estimate', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LEAD_PROVIDER;
+    delete process.env.LEAD_PROVIDER_ROUTES;
+    delete process.env.COMPLIANCE_RULES;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('rejects non-POST methods', async () => {
+    const res = await callEstimate(undefined, 'GET');
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe('POST');
+  });
+
+  it('validates the payload like generate', async () => {
+    const res = await callEstimate({ leadRequest: 'roofing', zipCodes: 'abc', leadScope: 'residential' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.error?.code).toBe('invalid_zip_codes');
+  });
+
+  it('returns the resolved intent pack and filters', async () => {
+    const res = await callEstimate({
+      leadRequest: 'roof repair',
+      zipCodes: '33101,33130',
+      leadScope: 'residential',
+      useCase: 'call',
+      qualityTier: 'hot',
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.jsonBody?.ok).toBe(true);
+    expect(res.jsonBody?.intentPack).toBe('roofing');
+    expect(res.jsonBody?.qualityTier).toBe('hot');
+    expect(res.jsonBody?.keywords).toContain('roof repair');
+    expect(res.jsonBody?.filters?.intent.keywords).toEqual(res.jsonBody?.keywords);
+    expect(res.jsonBody?.filters?.geo.zip_codes).toEqual(['33101', '33130']);
+    expect(res.jsonBody?.filters?.contact.wireless_phone_required).toBe(true);
+    expect(res.jsonBody?.zipCount).toBe(2);
+  });
+
+  it('returns the ZIPs a geo target expands to', async () => {
+    const res = await callEstimate({
+      leadRequest: 'roofing',
+      geo: { center: '33101', radiusMiles: 5 },
+      leadScope: 'residential',
+    });
+
+    expect(res.statusCode).toBe(200);
+    const zips = res.jsonBody?.filters?.geo.zip_codes as string[];
+    expect(zips).toContain('33101');
+    expect(zips.length).toBeGreaterThan(1);
+    expect(res.jsonBody?.zipCount).toBe(zips.length);
+  });
+
+  it('estimates deliverable leads with the mock provider and warns on shortfalls', async () => {
+    const res = await callEstimate({
+      leadRequest: 'roofing',
+      zipCodes: '33101',
+      leadScope: 'residential',
+      requestedCount: 500,
+    });
+
+    const estimate = res.jsonBody?.estimate;
+    expect(res.jsonBody?.provider).toBe('mock');
+    expect(estimate?.available).toBe(50);
+    expect(estimate?.requestedCount).toBe(500);
+    expect(estimate?.estimatedDeliverable).toBeLessThanOrEqual(estimate?.afterSuppression ?? 0);
+    expect(estimate?.afterSuppression).toBeLessThanOrEqual(50);
+    expect(res.jsonBody?.warnings?.some((w) => w.includes('of 500 requested'))).toBe(true);
+  });
+
+  it('returns filters without an estimate for providers that cannot estimate', async () => {
+    process.env.LEAD_PROVIDER = 'pdl';
+
+    const res = await callEstimate({ leadRequest: 'roofing', zipCodes: '33101', leadScope: 'residential' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.jsonBody?.provider).toBe('pdl');
+    expect(res.jsonBody?.estimate).toBeNull();
+    expect(res.jsonBody?.filters?.geo.zip_codes).toEqual(['33101']);
+    expect(res.jsonBody?.warnings?.[0]).toContain("can't estimate");
+  });
+});
+
+describe('projectLeadEstimate', () => {
+  const sample = (): Lead[] => {
+    const result = mockGenerateLeads({ leadRequest: 'roofing', zips: ['33101'], scope: 'residential' });
+    if (!result.ok) throw new Error('mock failed');
+    return result.leads;
+  };
+
+  it('projects sample pass rates onto the available audience', () => {
+    const leads = sample();
+    const gaCount = leads.filter((l) => l.state === 'GA').length;
+    const ruleSet: ComplianceRuleSet = {
+      version: 'test-1',
+      rules: [{ id: 'no-ga', action: 'suppress', match: { states: ['GA'], useCases: ['call'] } }],
+    };
+
+    const estimate = projectLeadEstimate(1000, leads, 'call', ruleSet, 'scale', 200);
+
+    expect(estimate.sampleSize).toBe(50);
+    expect(estimate.afterSuppression).toBe(Math.floor((1000 * (50 - gaCount)) / 50));
+    expect(estimate.afterQualityGate).toBeLessThanOrEqual(estimate.afterSuppression);
+    expect(estimate.estimatedDeliverable).toBe(Math.min(estimate.afterQualityGate, 200));
+  });
+
+  it('returns zeros for an empty sample', () => {
+    const estimate = projectLeadEstimate(0, [], 'call', getDefaultComplianceRuleSet(), 'balanced', 200);
+
+    expect(estimate.afterSuppression).toBe(0);
+    expect(estimate.afterQualityGate).toBe(0);
+    expect(estimate.estimatedDeliverable).toBe(0);
+  });
+});
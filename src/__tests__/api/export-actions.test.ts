@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import cancelHandler from '../../../api/exports/[id]/cancel';
+import retryHandler from '../../../api/exports/[id]/retry';
+
+interface ApiResponse {
+  ok: boolean;
+  error?: string;
+  code?: string;
+}
+
+type Handler = typeof cancelHandler;
+
+function makeRes() {
+  return {
+    statusCode: 0 as number,
+    jsonBody: null as ApiResponse | null,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: ApiResponse) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+async function call(handler: Handler, query: Record<string, unknown>, body: unknown = {}, method = 'POST') {
+  const res = makeRes();
+  await handler(
+    { method, query, body, headers: {} } as unknown as Parameters<Handler>[0],
+    res as unknown as Parameters<Handler>[1]
+  );
+  return res;
+}
+
+describe('API /api/exports/:id/cancel', () => {
+  it('rejects non-POST methods', async () => {
+    const res = await call(cancelHandler, { id: 'exp-1' }, {}, 'GET');
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe('POST');
+  });
+
+  it('requires an export id', async () => {
+    const res = await call(cancelHandler, {});
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('returns 404 when the export cannot be found', async () => {
+    const res = await call(cancelHandler, { id: 'missing-export' });
+
+    expect(res.statusCode).toBe(404);
+    expect(res.jsonBody?.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('API /api/exports/:id/retry', () => {
+  it('rejects non-POST methods', async () => {
+    const res = await call(retryHandler, { id: 'exp-1' }, {}, 'GET');
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe('POST');
+  });
+
+  it('requires an export id', async () => {
+    const res = await call(retryHandler, {});
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects an unknown quality tier', async () => {
+    const res = await call(retryHandler, { id: 'exp-1' }, { qualityTier: 'warm' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects a non-integer requested count', async () => {
+    const res = await call(retryHandler, { id: 'exp-1' }, { requestedCount: '500' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('returns 404 when the export cannot be found', async () => {
+    const res = await call(retryHandler, { id: 'missing-export' }, { qualityTier: 'scale' });
+
+    expect(res.statusCode).toBe(404);
+    expect(res.jsonBody?.code).toBe('NOT_FOUND');
+  });
+});
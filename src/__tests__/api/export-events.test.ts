@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import handler from '../../../api/exports/[id]/events';
+
+interface ApiResponse {
+  ok: boolean;
+  error?: string;
+  code?: string;
+}
+
+function makeRes() {
+  return {
+    statusCode: 0 as number,
+    jsonBody: null as ApiResponse | null,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: ApiResponse) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+async function callEvents(query: Record<string, unknown>, method = 'GET') {
+  const res = makeRes();
+  await handler(
+    { method, query, headers: {} } as unknown as Parameters<typeof handler>[0],
+    res as unknown as Parameters<typeof handler>[1]
+  );
+  return res;
+}
+
+describe('API /api/exports/:id/events', () => {
+  it('rejects non-GET methods', async () => {
+    const res = await callEvents({ id: 'exp-1' }, 'POST');
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe('GET');
+  });
+
+  it('requires an export id', async () => {
+    const res = await callEvents({});
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('returns 404 before streaming when the export cannot be found', async () => {
+    const res = await callEvents({ id: 'missing-export' });
+
+    expect(res.statusCode).toBe(404);
+    expect(res.jsonBody?.code).toBe('NOT_FOUND');
+  });
+});
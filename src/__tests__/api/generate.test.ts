@@ -84,4 +84,18 @@ describe('API /api/leads/generate', () => {
     // Should not be a useCase validation error (defaults to 'both')
     expect(res.jsonBody?.error?.code).not.toBe('invalid_use_case');
   });
+
+  it('refuses to generate when the export cannot be recorded', async () => {
+    // No Supabase in tests: the export (which holds the credit reservation) can't be written
+    const req = {
+      method: 'POST',
+      body: { leadRequest: 'roofing', zipCodes: '33101', leadScope: 'residential' },
+    };
+    const res = makeRes();
+
+    await handler(req as unknown as Parameters<typeof handler>[0], res as unknown as Parameters<typeof handler>[1]);
+
+    expect(res.statusCode).toBe(503);
+    expect(res.jsonBody?.error?.code).toBe('export_unavailable');
+  });
 });
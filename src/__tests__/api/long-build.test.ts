@@ -116,7 +116,7 @@ describe('ExportStatus type', () => {
 
 describe('Background processor query logic', () => {
   it('query selects jobs with status building or building_long', () => {
-    // This tests the logic of findPendingBackgroundExports
+    // Jobs are only finished while their export is still building
     const eligibleStatuses = ['building', 'building_long'];
     const mockExports = [
       { id: '1', status: 'pending' },
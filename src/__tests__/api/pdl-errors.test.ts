@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { generateLeads, pdlFetchSize } from '../../../api/_lib/providers/pdl';
+import type { GenerateInput } from '../../../api/_lib/types';
+import { PDLAuthError, PDLUpstreamError } from '../../../api/_lib/types';
+import { ConfigError } from '../../../api/_lib/bytestring';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('PDL provider error handling', () => {
+  const originalEnv = process.env;
+  const testInput: GenerateInput = {
+    leadRequest: 'roofing',
+    zips: ['33101'],
+    scope: 'commercial',
+  };
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    process.env.PDL_API_KEY = 'test-pdl-key';
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('throws ConfigError when API key is missing', async () => {
+    delete process.env.PDL_API_KEY;
+
+    await expect(generateLeads(testInput)).rejects.toThrow(ConfigError);
+  });
+
+  it('throws PDLAuthError on 401', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401, text: async () => '' });
+
+    await expect(generateLeads(testInput)).rejects.toThrow(PDLAuthError);
+  });
+
+  it('throws PDLUpstreamError on 5xx', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503, text: async () => '' });
+
+    await expect(generateLeads(testInput)).rejects.toThrow(PDLUpstreamError);
+  });
+
+  it('throws PDLUpstreamError when the request fails', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(generateLeads(testInput)).rejects.toThrow(PDLUpstreamError);
+  });
+
+  it('returns provider_no_results on 404', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404, text: async () => '' });
+
+    const result = await generateLeads(testInput);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('provider_no_results');
+    }
+  });
+
+  it('returns leads with field coverage on success', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        status: 200,
+        data: [
+          { first_name: 'Ann', last_name: 'Lee', work_email: 'ann@acme.com', location_postal_code: '33101' },
+          { first_name: 'Bob', mobile_phone: '3055550100', location_postal_code: '33101' },
+        ],
+      }),
+    });
+
+    const result = await generateLeads(testInput);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.leads).toHaveLength(2);
+      expect(result.fieldCoverage?.coverageKept.total).toBe(2);
+      expect(result.fieldCoverage?.coverageKept.pct.email).toBe(50);
+      expect(result.fieldCoverage?.coverageKept.pct.zip).toBe(100);
+    }
+  });
+
+  it('sizes the search from the requested count, with overfetch', async () => {
+    const person = { first_name: 'Ann', location_postal_code: '33101' };
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ status: 200, data: Array(100).fill(person), scroll_token: 'next' }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ status: 200, data: Array(50).fill(person), scroll_token: 'last' }),
+      });
+
+    const result = await generateLeads({ ...testInput, requestedCount: 100 });
+
+    expect(pdlFetchSize(100)).toBe(150);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const first = JSON.parse(mockFetch.mock.calls[0][1].body);
+    const second = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(first.sql).toContain('LIMIT 150');
+    expect(first.size).toBe(100);
+    expect(second).toMatchObject({ size: 50, scroll_token: 'next' });
+    expect(result.ok && result.leads).toHaveLength(150);
+  });
+});
+
+describe('PDL typed errors', () => {
+  it('never include the API key or upstream body in safe context', () => {
+    const auth = new PDLAuthError({ status: 403, endpoint: '/v5/person/search', method: 'POST' });
+    const upstream = new PDLUpstreamError({ status: 502, endpoint: '/v5/person/search', method: 'POST' });
+
+    expect(auth.toSafeContext().code).toBe('PDL_UNAUTHORIZED');
+    expect(auth.hint).toContain('PDL_API_KEY');
+    expect(upstream.toSafeContext()).toEqual({
+      code: 'PDL_UPSTREAM_ERROR',
+      status: 502,
+      endpoint: '/v5/person/search',
+      method: 'POST',
+    });
+  });
+});
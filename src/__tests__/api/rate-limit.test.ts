@@ -119,6 +119,7 @@ describe('DEFAULT_LIMITS', () => {
     expect(DEFAULT_LIMITS).toHaveProperty('generate');
     expect(DEFAULT_LIMITS).toHaveProperty('status');
     expect(DEFAULT_LIMITS).toHaveProperty('signed-url');
+    expect(DEFAULT_LIMITS).toHaveProperty('events');
   });
 
   it('has reasonable default values', () => {
@@ -129,6 +130,7 @@ describe('DEFAULT_LIMITS', () => {
     expect(DEFAULT_LIMITS.generate.windowSeconds).toBe(3600);
     expect(DEFAULT_LIMITS.status.windowSeconds).toBe(3600);
     expect(DEFAULT_LIMITS['signed-url'].windowSeconds).toBe(3600);
+    expect(DEFAULT_LIMITS.events.windowSeconds).toBe(3600);
   });
 });
 
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import listHandler from '../../../api/saved-searches/list';
+import createHandler from '../../../api/saved-searches/create';
+import updateHandler from '../../../api/saved-searches/update';
+import deleteHandler from '../../../api/saved-searches/delete';
+import cronHandler from '../../../api/cron/run-saved-searches';
+
+interface ApiResponse {
+  ok: boolean;
+  error?: string | { code: string };
+  code?: string;
+}
+
+type Handler = (req: Parameters<typeof listHandler>[0], res: Parameters<typeof listHandler>[1]) => Promise<unknown>;
+
+function makeRes() {
+  return {
+    statusCode: 0 as number,
+    jsonBody: null as ApiResponse | null,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: ApiResponse) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+async function call(handler: Handler, body: unknown = {}, method = 'POST', query: Record<string, unknown> = {}) {
+  const res = makeRes();
+  await handler(
+    { method, query, body, headers: {} } as unknown as Parameters<Handler>[0],
+    res as unknown as Parameters<Handler>[1]
+  );
+  return res;
+}
+
+const validSearch = {
+  name: 'Miami roofing weekly',
+  leadRequest: 'roofing',
+  zipCodes: '33101, 33130',
+  leadScope: 'residential',
+  schedule: '0 13 * * 1',
+};
+
+describe('API /api/saved-searches', () => {
+  it('rejects wrong methods', async () => {
+    const list = await call(listHandler, {}, 'POST');
+    expect(list.statusCode).toBe(405);
+    expect(list.headers.Allow).toBe('GET');
+
+    for (const handler of [createHandler, updateHandler, deleteHandler]) {
+      const res = await call(handler, {}, 'GET');
+      expect(res.statusCode).toBe(405);
+      expect(res.headers.Allow).toBe('POST');
+    }
+  });
+
+  it('validates the search on create', async () => {
+    const res = await call(createHandler, { ...validSearch, schedule: '*/10 * * * *' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('requires an id on update and delete', async () => {
+    const update = await call(updateHandler, validSearch);
+    expect(update.statusCode).toBe(400);
+    expect(update.jsonBody?.code).toBe('INVALID_REQUEST');
+
+    const del = await call(deleteHandler, {});
+    expect(del.statusCode).toBe(400);
+    expect(del.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('validates the fields on update', async () => {
+    const res = await call(updateHandler, { ...validSearch, id: 'search-1', name: '' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody?.code).toBe('INVALID_REQUEST');
+  });
+});
+
+describe('API /api/cron/run-saved-searches', () => {
+  const originalSecret = process.env.CRON_SECRET;
+
+  beforeEach(() => {
+    process.env.CRON_SECRET = 'cron-secret';
+  });
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env.CRON_SECRET;
+    } else {
+      process.env.CRON_SECRET = originalSecret;
+    }
+  });
+
+  it('only accepts GET', async () => {
+    const res = await call(cronHandler, {}, 'POST');
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe('GET');
+  });
+
+  it('requires the cron secret', async () => {
+    const res = await call(cronHandler, {}, 'GET', { secret: 'wrong' });
+
+    expect(res.statusCode).toBe(401);
+  });
+});
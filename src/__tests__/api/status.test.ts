@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import handler from '../../../api/leads/status';
+
+interface ApiResponse {
+  ok: boolean;
+  error?: { code: string; message: string };
+}
+
+function makeRes() {
+  return {
+    statusCode: 0 as number,
+    jsonBody: null as ApiResponse | null,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: ApiResponse) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+describe('API /api/leads/status', () => {
+  it('refuses audiences without an export of the workspace', async () => {
+    const res = makeRes();
+    await handler(
+      {
+        method: 'POST',
+        headers: {},
+        body: { audienceId: 'aud-unknown', leadRequest: 'roofing', zipCodes: '33101', leadScope: 'residential' },
+      } as unknown as Parameters<typeof handler>[0],
+      res as unknown as Parameters<typeof handler>[1]
+    );
+
+    expect(res.statusCode).toBe(404);
+    expect(res.jsonBody?.error?.code).toBe('export_not_found');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  hashAudiencePayload,
+  getAudienceReuseTtlHours,
+  findReusableAudience,
+  DEFAULT_AUDIENCE_REUSE_TTL_HOURS,
+} from '../../../api/_lib/audience-reuse';
+import { buildAudiencePayload } from '../../../api/_lib/providers/audiencelab';
+import type { GenerateInput, LeadScope, UseCase } from '../../../api/_lib/types';
+
+const baseInput: GenerateInput = {
+  leadRequest: 'roofing repair',
+  zips: ['33101', '33130'],
+  scope: 'residential' as LeadScope,
+  useCase: 'call' as UseCase,
+};
+
+describe('hashAudiencePayload', () => {
+  it('hashes identical requests identically', () => {
+    const a = buildAudiencePayload(baseInput).payload;
+    const b = buildAudiencePayload({ ...baseInput }).payload;
+    expect(hashAudiencePayload(a)).toBe(hashAudiencePayload(b));
+  });
+
+  it('ignores key order', () => {
+    expect(hashAudiencePayload({ a: 1, b: { c: [1, 2], d: 'x' } }))
+      .toBe(hashAudiencePayload({ b: { d: 'x', c: [1, 2] }, a: 1 }));
+  });
+
+  it('differs when the zips change', () => {
+    const a = buildAudiencePayload(baseInput).payload;
+    const b = buildAudiencePayload({ ...baseInput, zips: ['33101'] }).payload;
+    expect(hashAudiencePayload(a)).not.toBe(hashAudiencePayload(b));
+  });
+
+  it('differs when the requested count changes', () => {
+    const a = buildAudiencePayload({ ...baseInput, requestedCount: 200 } as GenerateInput).payload;
+    const b = buildAudiencePayload({ ...baseInput, requestedCount: 500 } as GenerateInput).payload;
+    expect(hashAudiencePayload(a)).not.toBe(hashAudiencePayload(b));
+  });
+});
+
+describe('getAudienceReuseTtlHours', () => {
+  const original = process.env.AUDIENCE_REUSE_TTL_HOURS;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.AUDIENCE_REUSE_TTL_HOURS;
+    else process.env.AUDIENCE_REUSE_TTL_HOURS = original;
+  });
+
+  it('defaults to 24 hours', () => {
+    delete process.env.AUDIENCE_REUSE_TTL_HOURS;
+    expect(getAudienceReuseTtlHours()).toBe(DEFAULT_AUDIENCE_REUSE_TTL_HOURS);
+  });
+
+  it('reads the env var, including 0 (off)', () => {
+    process.env.AUDIENCE_REUSE_TTL_HOURS = '6';
+    expect(getAudienceReuseTtlHours()).toBe(6);
+    process.env.AUDIENCE_REUSE_TTL_HOURS = '0';
+    expect(getAudienceReuseTtlHours()).toBe(0);
+  });
+
+  it('falls back to the default for invalid values', () => {
+    process.env.AUDIENCE_REUSE_TTL_HOURS = 'soon';
+    expect(getAudienceReuseTtlHours()).toBe(DEFAULT_AUDIENCE_REUSE_TTL_HOURS);
+    process.env.AUDIENCE_REUSE_TTL_HOURS = '-3';
+    expect(getAudienceReuseTtlHours()).toBe(DEFAULT_AUDIENCE_REUSE_TTL_HOURS);
+  });
+});
+
+describe('findReusableAudience', () => {
+  const saved = {
+    url: process.env.SUPABASE_URL,
+    viteUrl: process.env.VITE_SUPABASE_URL,
+    key: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    ttl: process.env.AUDIENCE_REUSE_TTL_HOURS,
+  };
+
+  beforeEach(() => {
+    delete process.env.SUPABASE_URL;
+    delete process.env.VITE_SUPABASE_URL;
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  });
+
+  afterEach(() => {
+    const restore = (name: string, value: string | undefined) => {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    };
+    restore('SUPABASE_URL', saved.url);
+    restore('VITE_SUPABASE_URL', saved.viteUrl);
+    restore('SUPABASE_SERVICE_ROLE_KEY', saved.key);
+    restore('AUDIENCE_REUSE_TTL_HOURS', saved.ttl);
+  });
+
+  it('returns null without Supabase (creates a new audience)', async () => {
+    expect(await findReusableAudience('ws-1', 'abc')).toBeNull();
+  });
+
+  it('returns null when reuse is disabled', async () => {
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-key';
+    process.env.AUDIENCE_REUSE_TTL_HOURS = '0';
+    expect(await findReusableAudience('ws-1', 'abc')).toBeNull();
+  });
+});
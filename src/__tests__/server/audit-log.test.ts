@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  auditActor,
+  parseAuditFilters,
+  recordAuditEvent,
+  auditEventsToCsv,
+  DEFAULT_AUDIT_LIMIT,
+  MAX_AUDIT_LIMIT,
+  type AuditEvent,
+} from '../../../api/_lib/audit-log';
+
+describe('audit log', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('auditActor', () => {
+    it('attributes session requests to the user', () => {
+      expect(auditActor({ userId: 'u1', email: 'a@b.co', role: 'rep', workspaceId: 'ws-1' })).toEqual({
+        workspaceId: 'ws-1',
+        actorType: 'user',
+        actorId: 'u1',
+      });
+    });
+
+    it('attributes API-key requests to the key', () => {
+      expect(
+        auditActor({ userId: 'admin-1', email: '', role: 'rep', workspaceId: 'ws-1', apiKeyId: 'key-1' })
+      ).toEqual({ workspaceId: 'ws-1', actorType: 'api_key', actorId: 'key-1' });
+    });
+  });
+
+  describe('parseAuditFilters', () => {
+    it('defaults the limit and ignores blank params', () => {
+      expect(parseAuditFilters({ actorId: ' ' })).toEqual({ ok: true, filters: { limit: DEFAULT_AUDIT_LIMIT } });
+    });
+
+    it('parses action, actor, dates and limit', () => {
+      const result = parseAuditFilters({
+        action: 'exports.signed_url',
+        actorId: 'u1',
+        since: '2026-03-01',
+        until: ['2026-03-02T12:00:00Z'],
+        limit: '50',
+      });
+      expect(result).toEqual({
+        ok: true,
+        filters: {
+          action: 'exports.signed_url',
+          actorId: 'u1',
+          since: '2026-03-01T00:00:00.000Z',
+          until: '2026-03-02T12:00:00.000Z',
+          limit: 50,
+        },
+      });
+    });
+
+    it('rejects unknown actions, bad dates and out-of-range limits', () => {
+      expect(parseAuditFilters({ action: 'users.delete' }).ok).toBe(false);
+      expect(parseAuditFilters({ since: 'yesterday' }).ok).toBe(false);
+      expect(parseAuditFilters({ limit: String(MAX_AUDIT_LIMIT + 1) }).ok).toBe(false);
+      expect(parseAuditFilters({ limit: '1.5' }).ok).toBe(false);
+    });
+  });
+
+  describe('recordAuditEvent', () => {
+    it('never throws when the store is unavailable', async () => {
+      delete process.env.SUPABASE_URL;
+      delete process.env.VITE_SUPABASE_URL;
+      delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const recorded = await recordAuditEvent({
+        workspaceId: 'ws-1',
+        actorType: 'system',
+        actorId: null,
+        action: 'exports.deleted',
+      });
+
+      expect(recorded).toBe(false);
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('auditEventsToCsv', () => {
+    it('writes one row per event with metadata as JSON', () => {
+      const events: AuditEvent[] = [
+        {
+          id: 1,
+          created_at: '2026-03-01T10:00:00Z',
+          workspace_id: 'ws-1',
+          actor_type: 'user',
+          actor_id: 'u1',
+          action: 'leads.generate',
+          target_id: 'exp-1',
+          metadata: { zipCount: 3 },
+        },
+      ];
+
+      const lines = auditEventsToCsv(events).split('\n');
+      expect(lines[0]).toBe('created_at,action,actor_type,actor_id,target_id,metadata');
+      expect(lines[1]).toBe('"2026-03-01T10:00:00Z","leads.generate","user","u1","exp-1","{""zipCount"":3}"');
+    });
+  });
+});
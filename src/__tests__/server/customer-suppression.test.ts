@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  parseSuppressionCsv,
+  filterLeadsByCustomerLists,
+} from '../../../api/_lib/customer-suppression';
+import { DEFAULT_WORKSPACE_ID } from '../../../api/_lib/workspaces';
+import { fingerprintValue, getLeadFingerprints } from '../../../api/_lib/suppression-ledger';
+import type { Lead } from '../../../api/_lib/types';
+
+/**
+ * Factory for creating test leads with defaults.
+ */
+function createLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    address: '1 Ocean Dr',
+    city: 'Miami',
+    state: 'FL',
+    zip: '33101',
+    phone: '(305) 555-0100',
+    email: 'jane@example.com',
+    lead_type: 'residential',
+    tags: 'roofing',
+    source: 'audiencelab',
+    best_phone: '3055550100',
+    phones_all: '3055550100',
+    wireless_phones: '3055550100',
+    landline_phones: '',
+    match_score: 3,
+    quality_score: 0,
+    quality_tier: 'balanced',
+    dnc_status: '',
+    email_validation_status: '',
+    ...overrides,
+  };
+}
+
+describe('customer suppression lists', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    delete process.env.SUPPRESSION_HASH_SALT;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('parseSuppressionCsv', () => {
+    it('extracts phones and emails from any column layout', () => {
+      const csv = [
+        'name,phone,email',
+        'Jane,(305) 555-0100,Jane@Example.com',
+        '"Bob","+1 305-555-0199",""',
+      ].join('\n');
+
+      const parsed = parseSuppressionCsv(csv);
+
+      expect(parsed.phoneCount).toBe(2);
+      expect(parsed.emailCount).toBe(1);
+      expect(parsed.fingerprints).toContain(fingerprintValue('phone', '3055550100'));
+      expect(parsed.fingerprints).toContain(fingerprintValue('phone', '3055550199'));
+      expect(parsed.fingerprints).toContain(fingerprintValue('email', 'jane@example.com'));
+    });
+
+    it('counts cells that are neither phone nor email as skipped', () => {
+      const parsed = parseSuppressionCsv('phone\n12345\nnot a phone\n3055550100');
+      expect(parsed.phoneCount).toBe(1);
+      expect(parsed.skippedCount).toBe(3);
+    });
+
+    it('dedupes repeated values', () => {
+      const parsed = parseSuppressionCsv('3055550100\n305-555-0100\r\n13055550100');
+      expect(parsed.fingerprints).toHaveLength(1);
+      expect(parsed.phoneCount).toBe(1);
+    });
+
+    it('stores only hashes, never raw values', () => {
+      const parsed = parseSuppressionCsv('3055550100,jane@example.com');
+      for (const fp of parsed.fingerprints) {
+        expect(fp).toMatch(/^[a-f0-9]{64}$/);
+      }
+    });
+
+    it('matches lead fingerprints from the ledger', () => {
+      const lead = createLead();
+      const parsed = parseSuppressionCsv('jane@example.com');
+      expect(getLeadFingerprints(lead)).toContain(parsed.fingerprints[0]);
+    });
+  });
+
+  describe('filterLeadsByCustomerLists', () => {
+    it('passes leads through when Supabase is not configured', async () => {
+      delete process.env.SUPABASE_URL;
+      delete process.env.VITE_SUPABASE_URL;
+      delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+      const leads = [createLead(), createLead({ email: 'bob@example.com', best_phone: '3055550199' })];
+      const result = await filterLeadsByCustomerLists(DEFAULT_WORKSPACE_ID, leads);
+
+      expect(result.filteredLeads).toHaveLength(2);
+      expect(result.suppressedCount).toBe(0);
+    });
+
+    it('returns empty input unchanged', async () => {
+      const result = await filterLeadsByCustomerLists(DEFAULT_WORKSPACE_ID, []);
+      expect(result.filteredLeads).toEqual([]);
+      expect(result.suppressedCount).toBe(0);
+    });
+  });
+});
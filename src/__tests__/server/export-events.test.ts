@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportEventFromRecord,
+  isFinalExportEvent,
+  formatSseEvent,
+} from '../../../api/_lib/export-events';
+import type { LeadExport } from '../../../api/_lib/exports-db';
+
+function makeExport(fields: Partial<LeadExport>): LeadExport {
+  return {
+    id: 'exp-1',
+    status: 'building',
+    provider: 'audiencelab',
+    audience_id: 'aud-1',
+    provider_job_id: null,
+    poll_attempts: 3,
+    progress_stage: null,
+    progress_counts: null,
+    kept: null,
+    total_fetched: null,
+    diagnostics: null,
+    field_coverage: null,
+    suppressed_count: 0,
+    suppressed_states: null,
+    customer_suppressed_count: null,
+    repeat_suppressed_count: null,
+    delivered_count: null,
+    requested_count: 200,
+    error_code: null,
+    error_message: null,
+    preview_rows: null,
+    ...fields,
+  } as LeadExport;
+}
+
+describe('exportEventFromRecord', () => {
+  it('reports building while the export has no progress yet', () => {
+    const event = exportEventFromRecord(makeExport({}));
+
+    expect(event.event).toBe('building');
+    expect(event.data).toMatchObject({ exportId: 'exp-1', pollAttempts: 3, counts: {}, background: false });
+  });
+
+  it('reports the recorded stage with its counts', () => {
+    const event = exportEventFromRecord(makeExport({
+      progress_stage: 'uploading',
+      progress_counts: { fetched: 412, kept: 200 },
+    }));
+
+    expect(event.event).toBe('uploading');
+    expect(event.data.counts).toEqual({ fetched: 412, kept: 200 });
+  });
+
+  it('flags building_long exports as handed to the background worker', () => {
+    const event = exportEventFromRecord(makeExport({ status: 'building_long', progress_stage: 'building' }));
+
+    expect(event.event).toBe('building');
+    expect(event.data.background).toBe(true);
+  });
+
+  it('reports done with delivery counts and the quality gate', () => {
+    const event = exportEventFromRecord(makeExport({
+      status: 'success',
+      progress_stage: 'uploading',
+      kept: 180,
+      total_fetched: 412,
+      customer_suppressed_count: 4,
+      repeat_suppressed_count: 9,
+      delivered_count: 180,
+      rejected_by_quality_count: 20,
+    }));
+
+    expect(event.event).toBe('done');
+    expect(event.data).toMatchObject({
+      status: 'success',
+      count: 180,
+      totalFetched: 412,
+      suppressedByCustomerList: 4,
+      repeatSuppressedCount: 9,
+      qualityGate: { deliveredCount: 180, requestedCount: 200, rejectedByQualityCount: 20 },
+    });
+    expect(event.data.preview).toBeUndefined();
+  });
+
+  it('includes masked rows for previews', () => {
+    const event = exportEventFromRecord(makeExport({ status: 'preview', kept: 0, preview_rows: [] }));
+
+    expect(event.event).toBe('done');
+    expect(event.data.preview).toEqual([]);
+  });
+
+  it('reports failed for errors, no results, discarded previews and cancelled exports', () => {
+    expect(exportEventFromRecord(makeExport({
+      status: 'no_results',
+      error_code: 'provider_no_results',
+      error_message: 'No leads found.',
+    }))).toEqual({
+      event: 'failed',
+      data: { exportId: 'exp-1', status: 'no_results', errorCode: 'provider_no_results', errorMessage: 'No leads found.' },
+    });
+
+    expect(exportEventFromRecord(makeExport({ status: 'error', error_code: 'job_dead_lettered' })).data.errorCode)
+      .toBe('job_dead_lettered');
+    expect(exportEventFromRecord(makeExport({ status: 'discarded' })).data.errorCode).toBe('export_discarded');
+    expect(exportEventFromRecord(makeExport({ status: 'cancelled' })).data).toMatchObject({
+      errorCode: 'export_cancelled',
+      errorMessage: 'This export was cancelled.',
+    });
+  });
+});
+
+describe('isFinalExportEvent', () => {
+  it('is true only for done and failed', () => {
+    expect(isFinalExportEvent({ event: 'done', data: {} })).toBe(true);
+    expect(isFinalExportEvent({ event: 'failed', data: {} })).toBe(true);
+    expect(isFinalExportEvent({ event: 'uploading', data: {} })).toBe(false);
+  });
+});
+
+describe('formatSseEvent', () => {
+  it('serializes an event with its id', () => {
+    expect(formatSseEvent({ event: 'fetching', data: { exportId: 'exp-1' } }, 7))
+      .toBe('id: 7\nevent: fetching\ndata: {"exportId":"exp-1"}\n\n');
+  });
+
+  it('omits the id line when none is given', () => {
+    expect(formatSseEvent({ event: 'building', data: {} })).toBe('event: building\ndata: {}\n\n');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getExportJobMaxAttempts,
+  retryDelayMinutes,
+  enqueueExportJob,
+  claimExportJobs,
+  claimExportJob,
+  failExportJob,
+  DEFAULT_EXPORT_JOB_MAX_ATTEMPTS,
+  type ExportJob,
+} from '../../../api/_lib/export-jobs';
+
+const job: ExportJob = {
+  id: 'job-1',
+  workspace_id: 'ws-1',
+  export_id: 'exp-1',
+  status: 'running',
+  attempts: 0,
+  max_attempts: 5,
+  run_after: '2026-01-01T00:00:00.000Z',
+  locked_by: 'cron_abc',
+  lease_expires_at: '2026-01-01T00:05:00.000Z',
+  last_error: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  finished_at: null,
+};
+
+describe('getExportJobMaxAttempts', () => {
+  const original = process.env.EXPORT_JOB_MAX_ATTEMPTS;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.EXPORT_JOB_MAX_ATTEMPTS;
+    else process.env.EXPORT_JOB_MAX_ATTEMPTS = original;
+  });
+
+  it('defaults to 5', () => {
+    delete process.env.EXPORT_JOB_MAX_ATTEMPTS;
+    expect(getExportJobMaxAttempts()).toBe(DEFAULT_EXPORT_JOB_MAX_ATTEMPTS);
+  });
+
+  it('reads the env var', () => {
+    process.env.EXPORT_JOB_MAX_ATTEMPTS = '3';
+    expect(getExportJobMaxAttempts()).toBe(3);
+  });
+
+  it('ignores zero, negative and invalid values', () => {
+    for (const value of ['0', '-2', 'many']) {
+      process.env.EXPORT_JOB_MAX_ATTEMPTS = value;
+      expect(getExportJobMaxAttempts()).toBe(DEFAULT_EXPORT_JOB_MAX_ATTEMPTS);
+    }
+  });
+});
+
+describe('retryDelayMinutes', () => {
+  it('doubles per failed attempt', () => {
+    expect([1, 2, 3, 4].map((n) => retryDelayMinutes(n))).toEqual([5, 10, 20, 40]);
+  });
+
+  it('is capped at an hour', () => {
+    expect(retryDelayMinutes(5)).toBe(60);
+    expect(retryDelayMinutes(20)).toBe(60);
+  });
+
+  it('never goes below the base delay', () => {
+    expect(retryDelayMinutes(0)).toBe(5);
+  });
+});
+
+describe('export job queue without Supabase', () => {
+  const saved = {
+    url: process.env.SUPABASE_URL,
+    viteUrl: process.env.VITE_SUPABASE_URL,
+    key: process.env.SUPABASE_SERVICE_ROLE_KEY,
+  };
+
+  beforeEach(() => {
+    delete process.env.SUPABASE_URL;
+    delete process.env.VITE_SUPABASE_URL;
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  });
+
+  afterEach(() => {
+    const restore = (name: string, value: string | undefined) => {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    };
+    restore('SUPABASE_URL', saved.url);
+    restore('VITE_SUPABASE_URL', saved.viteUrl);
+    restore('SUPABASE_SERVICE_ROLE_KEY', saved.key);
+  });
+
+  it('does not enqueue', async () => {
+    expect(await enqueueExportJob('ws-1', 'exp-1')).toBe(false);
+  });
+
+  it('leases nothing to the worker', async () => {
+    expect(await claimExportJobs('cron_abc', 10)).toEqual([]);
+  });
+
+  it('lets status polls run unguarded (no claim)', async () => {
+    expect(await claimExportJob('req_abc', 'ws-1', 'exp-1')).toBeNull();
+  });
+
+  it('reports a failed update instead of a new job status', async () => {
+    expect(await failExportJob(job, 'Upload failed')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { buildRetryRequest, isRetryableExport, isQualityTier } from '../../../api/_lib/export-retry';
+import type { LeadExport } from '../../../api/_lib/exports-db';
+
+function makeExport(fields: Partial<LeadExport>): LeadExport {
+  return {
+    id: 'exp-1',
+    status: 'no_results',
+    provider: 'audiencelab',
+    lead_request: 'roofing leads',
+    zip_codes: ['33101', '33102'],
+    geo_target: null,
+    use_case: 'call',
+    requested_count: 200,
+    quality_tier: 'hot',
+    dedupe_window_days: null,
+    sort_callable_now: false,
+    preview_requested: false,
+    request_payload: { persona_type: 'B2C', filters: { min_match_score: 2 } },
+    lead_scope: 'residential',
+    blend: false,
+    ...fields,
+  } as LeadExport;
+}
+
+describe('isRetryableExport', () => {
+  it('allows only error and no_results exports', () => {
+    expect(isRetryableExport({ status: 'error' })).toBe(true);
+    expect(isRetryableExport({ status: 'no_results' })).toBe(true);
+    expect(isRetryableExport({ status: 'building' })).toBe(false);
+    expect(isRetryableExport({ status: 'success' })).toBe(false);
+    expect(isRetryableExport({ status: 'cancelled' })).toBe(false);
+  });
+});
+
+describe('isQualityTier', () => {
+  it('accepts the known tiers only', () => {
+    expect(isQualityTier('scale')).toBe(true);
+    expect(isQualityTier('warm')).toBe(false);
+    expect(isQualityTier(3)).toBe(false);
+  });
+});
+
+describe('buildRetryRequest', () => {
+  it('rebuilds the generate body from the export and its payload', () => {
+    expect(buildRetryRequest(makeExport({}))).toEqual({
+      leadRequest: 'roofing leads',
+      leadScope: 'residential',
+      useCase: 'call',
+      zipCodes: '33101, 33102',
+      minMatchScore: 2,
+      qualityTier: 'hot',
+      requestedCount: 200,
+    });
+  });
+
+  it('applies tier and count overrides', () => {
+    const body = buildRetryRequest(makeExport({}), { qualityTier: 'scale', requestedCount: 500 });
+
+    expect(body.qualityTier).toBe('scale');
+    expect(body.requestedCount).toBe(500);
+  });
+
+  it('uses the geo target instead of the expanded ZIP list', () => {
+    const geo = { type: 'city' as const, city: 'Miami', state: 'FL' };
+    const body = buildRetryRequest(makeExport({ geo_target: geo }));
+
+    expect(body.geo).toEqual(geo);
+    expect(body.zipCodes).toBeUndefined();
+  });
+
+  it('carries over scope, blend and delivery options', () => {
+    const body = buildRetryRequest(makeExport({
+      lead_scope: 'commercial',
+      blend: true,
+      request_payload: { persona_type: 'B2B', filters: {} },
+      dedupe_window_days: 30,
+      sort_callable_now: true,
+      preview_requested: true,
+    }));
+
+    expect(body).toMatchObject({
+      leadScope: 'commercial',
+      blend: true,
+      dedupeWindowDays: 30,
+      sortCallableNow: true,
+      preview: true,
+    });
+    expect(body.minMatchScore).toBeUndefined();
+  });
+
+  it('keeps both scopes and blend mode of exports that failed before blending', () => {
+    // The provider name is still the primary one when the provider call threw
+    const body = buildRetryRequest(makeExport({
+      provider: 'audiencelab',
+      lead_scope: 'both',
+      blend: true,
+      request_payload: { persona_type: 'B2C', filters: {} },
+    }));
+
+    expect(body.leadScope).toBe('both');
+    expect(body.blend).toBe(true);
+  });
+
+  it('falls back to the payload and provider name for exports without stored options', () => {
+    const body = buildRetryRequest(makeExport({
+      provider: 'audiencelab+pdl',
+      lead_scope: null,
+      blend: null,
+      request_payload: { persona_type: 'B2B', filters: {} },
+    }));
+
+    expect(body.leadScope).toBe('commercial');
+    expect(body.blend).toBe(true);
+  });
+});
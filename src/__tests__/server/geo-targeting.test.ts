@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseGeoTarget,
+  expandGeoTarget,
+  distanceMiles,
+  MAX_GEO_ZIPS,
+} from '../../../api/_lib/geo-targeting';
+import { validatePayload } from '../../../api/_lib/validation';
+import type { GeoTarget } from '../../../api/_lib/types';
+
+function expand(target: GeoTarget): string[] {
+  const result = expandGeoTarget(target);
+  if (!result.ok) throw new Error(result.error.code);
+  return result.value;
+}
+
+describe('distanceMiles', () => {
+  it('computes great-circle distance', () => {
+    // Tampa -> Orlando is roughly 80 miles
+    const miles = distanceMiles(27.9614, -82.4597, 28.5383, -81.3792);
+    expect(miles).toBeGreaterThan(70);
+    expect(miles).toBeLessThan(90);
+    expect(distanceMiles(27.9, -82.4, 27.9, -82.4)).toBe(0);
+  });
+});
+
+describe('parseGeoTarget', () => {
+  it('infers the target type from its keys', () => {
+    expect(parseGeoTarget({ center: '33602', radiusMiles: 25 })).toEqual({
+      ok: true,
+      value: { type: 'radius', center: '33602', radiusMiles: 25 },
+    });
+    expect(parseGeoTarget({ city: ' Tampa ', state: 'fl' })).toEqual({
+      ok: true,
+      value: { type: 'city', city: 'Tampa', state: 'FL' },
+    });
+    expect(parseGeoTarget({ countyFips: '12057' })).toEqual({
+      ok: true,
+      value: { type: 'county', countyFips: '12057' },
+    });
+  });
+
+  it('accepts a lat/long center', () => {
+    const res = parseGeoTarget({ center: { latitude: 27.95, longitude: -82.46 }, radiusMiles: 10 });
+    expect(res.ok).toBe(true);
+  });
+
+  it('rejects bad shapes', () => {
+    const cases: unknown[] = [
+      'tampa',
+      {},
+      { center: '33602', radiusMiles: 0 },
+      { center: '33602', radiusMiles: 500 },
+      { center: 'tampa', radiusMiles: 5 },
+      { center: { latitude: 200, longitude: 0 }, radiusMiles: 5 },
+      { city: 'Tampa', state: 'Florida' },
+      { countyFips: '123' },
+    ];
+    for (const raw of cases) {
+      const res = parseGeoTarget(raw);
+      expect(res.ok).toBe(false);
+      if (!res.ok) expect(res.error.code).toBe('invalid_geo_target');
+    }
+  });
+});
+
+describe('expandGeoTarget', () => {
+  it('expands a radius around a ZIP', () => {
+    const zips = expand({ type: 'radius', center: '33602', radiusMiles: 5 });
+    expect(zips).toContain('33602');
+    expect(zips).toContain('33606');
+    expect(zips).not.toContain('33101'); // Miami
+    expect(zips).toEqual([...zips].sort());
+  });
+
+  it('expands a city/state pair case-insensitively', () => {
+    const zips = expand({ type: 'city', city: 'tampa', state: 'FL' });
+    expect(zips).toContain('33602');
+    expect(zips.length).toBeGreaterThan(20);
+  });
+
+  it('expands a county FIPS code', () => {
+    const zips = expand({ type: 'county', countyFips: '12057' }); // Hillsborough, FL
+    expect(zips).toContain('33602');
+    expect(zips).not.toContain('33101');
+  });
+
+  it('reports unknown centers, empty and oversized targets', () => {
+    const unknown = expandGeoTarget({ type: 'radius', center: '99999', radiusMiles: 5 });
+    expect(!unknown.ok && unknown.error.code).toBe('unknown_zip_codes');
+
+    const empty = expandGeoTarget({ type: 'city', city: 'Nowhere', state: 'FL' });
+    expect(!empty.ok && empty.error.code).toBe('geo_no_zips');
+
+    const huge = expandGeoTarget({ type: 'radius', center: '10001', radiusMiles: 100 });
+    expect(!huge.ok && huge.error.code).toBe('geo_too_many_zips');
+    if (!huge.ok) expect(huge.error.details?.max).toBe(MAX_GEO_ZIPS);
+  });
+});
+
+describe('validatePayload with geo', () => {
+  it('expands geo into zips and keeps the target', () => {
+    const res = validatePayload({ leadRequest: 'roofing', leadScope: 'both', geo: { countyFips: '12057' } });
+    expect(res.ok).toBe(true);
+    if (res.ok) {
+      expect(res.data.geo).toEqual({ type: 'county', countyFips: '12057' });
+      expect(res.data.zips).toContain('33602');
+    }
+  });
+
+  it('rejects zipCodes and geo together', () => {
+    const res = validatePayload({
+      leadRequest: 'roofing',
+      leadScope: 'both',
+      zipCodes: '33602',
+      geo: { countyFips: '12057' },
+    });
+    expect(res.ok).toBe(false);
+    if (!res.ok) expect(res.error.code).toBe('invalid_geo_target');
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  backoffDelayMs,
+  parseRetryAfterMs,
+  CircuitBreaker,
+  CircuitOpenError,
+  createHttpClient,
+  getCircuitBreakerStatuses,
+  resetCircuitBreakers,
+} from '../../../api/_lib/http-client';
+
+const retry = { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe('backoffDelayMs', () => {
+  it('grows exponentially and is capped', () => {
+    const max = () => 0.999999;
+    expect(backoffDelayMs(0, retry, max)).toBe(99);
+    expect(backoffDelayMs(2, retry, max)).toBe(399);
+    expect(backoffDelayMs(10, retry, max)).toBe(999);
+  });
+
+  it('applies full jitter', () => {
+    expect(backoffDelayMs(3, retry, () => 0)).toBe(0);
+    expect(backoffDelayMs(3, retry, () => 0.5)).toBe(400);
+  });
+});
+
+describe('parseRetryAfterMs', () => {
+  it('parses delta seconds', () => {
+    expect(parseRetryAfterMs('3')).toBe(3000);
+  });
+
+  it('parses HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfterMs('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfterMs('Wed, 31 Dec 2025 00:00:00 GMT', now)).toBe(0);
+  });
+
+  it('returns null when missing or invalid', () => {
+    expect(parseRetryAfterMs(null)).toBeNull();
+    expect(parseRetryAfterMs('soon')).toBeNull();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const options = () => ({ failureThreshold: 3, cooldownMs: 10_000 });
+
+  it('opens after consecutive failures and fails fast', () => {
+    const breaker = new CircuitBreaker('test', options);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(() => breaker.assertCanRequest(0)).not.toThrow();
+
+    breaker.recordFailure(1000);
+    expect(breaker.getStatus().state).toBe('open');
+    expect(breaker.getStatus().retryAt).toBe(new Date(11_000).toISOString());
+    expect(() => breaker.assertCanRequest(2000)).toThrow(CircuitOpenError);
+    try {
+      breaker.assertCanRequest(2000);
+    } catch (err) {
+      expect((err as CircuitOpenError).retryAfterSeconds).toBe(9);
+    }
+  });
+
+  it('lets one trial call through after the cooldown', () => {
+    const breaker = new CircuitBreaker('test', options);
+    [0, 0, 0].forEach((t) => breaker.recordFailure(t));
+
+    breaker.assertCanRequest(10_000);
+    expect(breaker.getStatus().state).toBe('half_open');
+    // Second caller while the trial is in flight
+    expect(() => breaker.assertCanRequest(10_001)).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+  });
+
+  it('reopens when the trial call fails', () => {
+    const breaker = new CircuitBreaker('test', options);
+    [0, 0, 0].forEach((t) => breaker.recordFailure(t));
+    breaker.assertCanRequest(10_000);
+
+    breaker.recordFailure(10_500);
+    expect(breaker.getStatus().state).toBe('open');
+    expect(() => breaker.assertCanRequest(11_000)).toThrow(CircuitOpenError);
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker('test', options);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+    expect(breaker.getStatus().state).toBe('closed');
+  });
+});
+
+describe('createHttpClient', () => {
+  const mockFetch = vi.fn();
+  const originalFetch = global.fetch;
+  const sleep = vi.fn(async () => {});
+
+  const response = (status: number, headers: Record<string, string> = {}) =>
+    ({ ok: status < 400, status, headers: new Headers(headers) }) as Response;
+
+  const makeClient = (name: string) =>
+    createHttpClient({
+      name,
+      retry: () => retry,
+      breaker: () => ({ failureThreshold: 2, cooldownMs: 30_000 }),
+      sleep,
+    });
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    sleep.mockClear();
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('retries GETs on 5xx and network errors', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(200));
+
+    const res = await makeClient('get-retry').request('https://x.test/a', { method: 'GET' });
+
+    expect(res.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns the last response once retries are exhausted', async () => {
+    mockFetch.mockResolvedValue(response(502));
+
+    const res = await makeClient('exhausted').request('https://x.test/a', { method: 'GET' });
+
+    expect(res.status).toBe(502);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry POST 5xx unless marked idempotent', async () => {
+    mockFetch.mockResolvedValue(response(503));
+    const client = makeClient('post');
+
+    expect((await client.request('https://x.test/a', { method: 'POST' })).status).toBe(503);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    resetCircuitBreakers();
+    mockFetch.mockClear();
+    await client.request('https://x.test/a', { method: 'POST' }, { idempotent: true });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries 429 for any method, waiting for Retry-After', async () => {
+    mockFetch
+      .mockResolvedValueOnce(response(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(response(429, { 'retry-after': '1' }))
+      .mockResolvedValueOnce(response(201));
+
+    const res = await makeClient('rate-limited').request('https://x.test/a', { method: 'POST' });
+
+    expect(res.status).toBe(201);
+    expect(sleep).toHaveBeenNthCalledWith(1, 0);
+    expect(sleep).toHaveBeenNthCalledWith(2, 1000);
+  });
+
+  it('returns a 429 whose Retry-After exceeds the max delay without retrying', async () => {
+    mockFetch.mockResolvedValueOnce(response(429, { 'retry-after': '120' }));
+
+    const res = await makeClient('rate-limited-long').request('https://x.test/a', { method: 'POST' });
+
+    expect(res.status).toBe(429);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('opens the breaker after repeated failures and reports it', async () => {
+    mockFetch.mockResolvedValue(response(500));
+    const client = makeClient('breaker');
+
+    await client.request('https://x.test/a', { method: 'POST' });
+    await client.request('https://x.test/a', { method: 'POST' });
+    await expect(client.request('https://x.test/a', { method: 'POST' })).rejects.toThrow(CircuitOpenError);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(getCircuitBreakerStatuses().find((b) => b.name === 'breaker')?.state).toBe('open');
+  });
+
+  it('treats 4xx as a healthy upstream', async () => {
+    mockFetch.mockResolvedValueOnce(response(500)).mockResolvedValueOnce(response(404));
+    const client = makeClient('client-error');
+
+    await client.request('https://x.test/a', { method: 'POST' });
+    await client.request('https://x.test/a', { method: 'POST' });
+
+    expect(client.breaker.getStatus().consecutiveFailures).toBe(0);
+  });
+});
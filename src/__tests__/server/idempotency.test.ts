@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  parseIdempotencyKey,
+  hashRequestBody,
+  classifyIdempotencyRecord,
+  beginIdempotentRequest,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from '../../../api/_lib/idempotency';
+
+type Req = Parameters<typeof beginIdempotentRequest>[0];
+type Res = Parameters<typeof beginIdempotentRequest>[1];
+
+function makeRes() {
+  return {
+    statusCode: 200 as number,
+    jsonBody: null as unknown,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.jsonBody = body;
+      return this;
+    },
+  };
+}
+
+describe('parseIdempotencyKey', () => {
+  it('treats a missing header as no key', () => {
+    expect(parseIdempotencyKey(undefined)).toEqual({ ok: true, key: null });
+  });
+
+  it('accepts and trims a visible ASCII key', () => {
+    expect(parseIdempotencyKey('  3f2b-41c8:retry_1 ')).toEqual({ ok: true, key: '3f2b-41c8:retry_1' });
+    expect(parseIdempotencyKey(['first', 'second'])).toEqual({ ok: true, key: 'first' });
+  });
+
+  it('rejects empty, too long or non-printable keys', () => {
+    expect(parseIdempotencyKey('   ').ok).toBe(false);
+    expect(parseIdempotencyKey('a'.repeat(MAX_IDEMPOTENCY_KEY_LENGTH + 1)).ok).toBe(false);
+    expect(parseIdempotencyKey('has space').ok).toBe(false);
+    expect(parseIdempotencyKey('café').ok).toBe(false);
+  });
+});
+
+describe('hashRequestBody', () => {
+  it('ignores key order and undefined values', () => {
+    const a = hashRequestBody({ leadRequest: 'roofing', zipCodes: '33101', geo: { radiusMiles: 5, center: '33101' } });
+    const b = hashRequestBody({ geo: { center: '33101', radiusMiles: 5 }, zipCodes: '33101', leadRequest: 'roofing', preview: undefined });
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('differs when the body differs', () => {
+    expect(hashRequestBody({ requestedCount: 100 })).not.toBe(hashRequestBody({ requestedCount: 200 }));
+    expect(hashRequestBody({ zips: ['33101', '33130'] })).not.toBe(hashRequestBody({ zips: ['33130', '33101'] }));
+  });
+});
+
+describe('classifyIdempotencyRecord', () => {
+  const record = {
+    request_hash: 'abc',
+    export_id: 'exp-1',
+    status_code: null as number | null,
+    response: null as unknown,
+    created_at: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('reports a conflict for a different body', () => {
+    expect(classifyIdempotencyRecord(record, 'other')).toEqual({ state: 'mismatch' });
+  });
+
+  it('reports an unfinished request as in progress with its export', () => {
+    expect(classifyIdempotencyRecord(record, 'abc')).toEqual({ state: 'in_progress', exportId: 'exp-1' });
+  });
+
+  it('replays a stored response', () => {
+    const done = { ...record, status_code: 202, response: { ok: false, error: { code: 'provider_building' } } };
+
+    expect(classifyIdempotencyRecord(done, 'abc')).toEqual({
+      state: 'replay',
+      statusCode: 202,
+      response: done.response,
+    });
+  });
+});
+
+describe('beginIdempotentRequest', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.SUPABASE_URL;
+    delete process.env.VITE_SUPABASE_URL;
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('rejects an invalid header with 400', async () => {
+    const res = makeRes();
+    const result = await beginIdempotentRequest(
+      { method: 'POST', headers: { 'idempotency-key': '' }, body: {} } as unknown as Req,
+      res as unknown as Res
+    );
+
+    expect(result).toBeNull();
+    expect(res.statusCode).toBe(400);
+    expect((res.jsonBody as { error: { code: string } }).error.code).toBe('invalid_idempotency_key');
+  });
+
+  it('passes through without a key', async () => {
+    const res = makeRes();
+    const result = await beginIdempotentRequest({ method: 'POST', headers: {}, body: {} } as unknown as Req, res as unknown as Res);
+
+    expect(result?.claim).toBeNull();
+    expect(res.jsonBody).toBeNull();
+  });
+
+  it('passes through when the store is not configured', async () => {
+    const res = makeRes();
+    const result = await beginIdempotentRequest(
+      { method: 'POST', headers: { 'idempotency-key': 'key-1' }, body: { leadRequest: 'roofing' } } as unknown as Req,
+      res as unknown as Res
+    );
+
+    expect(result?.claim).toBeNull();
+    await result?.finish();
+    expect(res.jsonBody).toBeNull();
+  });
+});
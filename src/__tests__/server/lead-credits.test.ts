@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getCreditPeriod,
+  toCreditAllowance,
+  isCreditLimit,
+  findCreditShortfall,
+  getCreditBalance,
+  type CreditBalance,
+} from '../../../api/_lib/lead-credits';
+import { DEFAULT_WORKSPACE_ID, type Workspace } from '../../../api/_lib/workspaces';
+
+function balanceWith(workspace: [number | null, number], user: [number | null, number]): CreditBalance {
+  return {
+    periodStart: '2026-03-01T00:00:00.000Z',
+    resetsAt: '2026-04-01T00:00:00.000Z',
+    workspace: toCreditAllowance(...workspace),
+    user: toCreditAllowance(...user),
+  };
+}
+
+describe('lead credits', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('uses calendar months in UTC', () => {
+    const { start, resetsAt } = getCreditPeriod(new Date('2026-12-31T23:30:00Z'));
+    expect(start.toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    expect(resetsAt.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('computes remaining credits (never negative, null when unlimited)', () => {
+    expect(toCreditAllowance(1000, 250)).toEqual({ limit: 1000, used: 250, remaining: 750 });
+    expect(toCreditAllowance(100, 130).remaining).toBe(0);
+    expect(toCreditAllowance(null, 5000).remaining).toBeNull();
+  });
+
+  it('validates limits from requests', () => {
+    expect(isCreditLimit(0)).toBe(true);
+    expect(isCreditLimit(null)).toBe(true);
+    expect(isCreditLimit(-1)).toBe(false);
+    expect(isCreditLimit(10.5)).toBe(false);
+    expect(isCreditLimit('100')).toBe(false);
+  });
+
+  describe('findCreditShortfall', () => {
+    it('allows requests both allowances cover', () => {
+      expect(findCreditShortfall(balanceWith([1000, 800], [null, 0]), 200)).toBeNull();
+      expect(findCreditShortfall(balanceWith([null, 0], [null, 0]), 1000)).toBeNull();
+    });
+
+    it('reports the user cap when only it falls short', () => {
+      expect(findCreditShortfall(balanceWith([5000, 0], [300, 250]), 200)).toEqual({
+        scope: 'user',
+        limit: 300,
+        remaining: 50,
+        requested: 200,
+      });
+    });
+
+    it('reports the workspace allowance first', () => {
+      expect(findCreditShortfall(balanceWith([1000, 900], [100, 100]), 200)?.scope).toBe('workspace');
+    });
+  });
+
+  it('is unlimited without Supabase', async () => {
+    delete process.env.SUPABASE_URL;
+    delete process.env.VITE_SUPABASE_URL;
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    const workspace = { id: DEFAULT_WORKSPACE_ID, monthly_lead_credits: null } as Workspace;
+    const balance = await getCreditBalance(workspace, 'user-1', new Date('2026-03-15T00:00:00Z'));
+    expect(balance).toMatchObject({
+      periodStart: '2026-03-01T00:00:00.000Z',
+      workspace: { limit: null, remaining: null },
+      user: { limit: null, remaining: null },
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeLeadsFromSources,
+  normalizePhone,
+  normalizeEmail,
+  normalizeAddress,
+  buildLeadKeys,
+} from '../../../api/_lib/lead-merge';
+import type { Lead } from '../../../api/_lib/types';
+
+/**
+ * Factory for creating test leads with defaults.
+ */
+function createLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    address: '',
+    city: 'Miami',
+    state: 'FL',
+    zip: '33101',
+    phone: '',
+    email: '',
+    lead_type: 'residential',
+    tags: 'roofing',
+    source: 'audiencelab',
+    best_phone: '',
+    phones_all: '',
+    wireless_phones: '',
+    landline_phones: '',
+    match_score: 3,
+    quality_score: 0,
+    quality_tier: 'balanced',
+    dnc_status: '',
+    email_validation_status: '',
+    ...overrides,
+  };
+}
+
+describe('normalization', () => {
+  it('normalizes phones to 10 digits', () => {
+    expect(normalizePhone('+1 (305) 555-0100')).toBe('3055550100');
+    expect(normalizePhone('305.555.0100')).toBe('3055550100');
+    expect(normalizePhone('555-0100')).toBe('');
+  });
+
+  it('normalizes emails', () => {
+    expect(normalizeEmail('  Jane@Example.COM ')).toBe('jane@example.com');
+    expect(normalizeEmail('not-an-email')).toBe('');
+  });
+
+  it('normalizes addresses and abbreviates suffixes', () => {
+    expect(normalizeAddress('123 Main Street, Apt. 4')).toBe('123 main st apt 4');
+    expect(normalizeAddress('123 MAIN ST APT 4')).toBe('123 main st apt 4');
+  });
+
+  it('builds no keys for a lead without contact data', () => {
+    expect(buildLeadKeys(createLead())).toEqual([]);
+  });
+});
+
+describe('mergeLeadsFromSources', () => {
+  it('dedupes on phone across sources and unions phones_all and source', () => {
+    const al = createLead({
+      best_phone: '3055550100',
+      phones_all: '3055550100|3055550101',
+      wireless_phones: '3055550100',
+      address: '1 Ocean Dr',
+      source: 'audiencelab',
+    });
+    const pdl = createLead({
+      phone: '(305) 555-0100',
+      phones_all: '305-555-0100|3055550199',
+      source: 'pdl',
+    });
+
+    const result = mergeLeadsFromSources([
+      { provider: 'audiencelab', leads: [al] },
+      { provider: 'pdl', leads: [pdl] },
+    ]);
+
+    expect(result.leads).toHaveLength(1);
+    expect(result.duplicateCount).toBe(1);
+    expect(result.leads[0].address).toBe('1 Ocean Dr');
+    expect(result.leads[0].phones_all).toBe('3055550100|3055550101|3055550199');
+    expect(result.leads[0].source).toBe('audiencelab|pdl');
+    expect(result.bySource).toEqual({
+      audiencelab: { kept: 1, duplicates: 0 },
+      pdl: { kept: 0, duplicates: 1 },
+    });
+  });
+
+  it('keeps the higher quality_score record when the later source is better', () => {
+    const weak = createLead({ email: 'jane@example.com', source: 'pdl' });
+    const strong = createLead({
+      email: 'JANE@example.com',
+      best_phone: '3055550100',
+      phones_all: '3055550100',
+      wireless_phones: '3055550100',
+      address: '1 Ocean Dr',
+      source: 'audiencelab',
+    });
+
+    const result = mergeLeadsFromSources([
+      { provider: 'pdl', leads: [weak] },
+      { provider: 'audiencelab', leads: [strong] },
+    ]);
+
+    expect(result.leads).toHaveLength(1);
+    expect(result.leads[0].best_phone).toBe('3055550100');
+    expect(result.leads[0].source).toBe('pdl|audiencelab');
+    expect(result.bySource.audiencelab).toEqual({ kept: 1, duplicates: 0 });
+    expect(result.bySource.pdl).toEqual({ kept: 0, duplicates: 1 });
+  });
+
+  it('matches on address but not across different household members', () => {
+    const a = createLead({ address: '9 Palm Avenue', zip: '33101', last_name: 'Smith' });
+    const b = createLead({ address: '9 palm ave', zip: '33101-1234', last_name: 'Smith', source: 'pdl' });
+    const c = createLead({ address: '9 Palm Ave', zip: '33101', last_name: 'Jones', source: 'pdl' });
+
+    const result = mergeLeadsFromSources([
+      { provider: 'audiencelab', leads: [a] },
+      { provider: 'pdl', leads: [b, c] },
+    ]);
+
+    expect(result.leads).toHaveLength(2);
+    expect(result.bySource.pdl).toEqual({ kept: 1, duplicates: 1 });
+  });
+
+  it('keeps leads without identity keys', () => {
+    const result = mergeLeadsFromSources([
+      { provider: 'mock', leads: [createLead(), createLead()] },
+    ]);
+
+    expect(result.leads).toHaveLength(2);
+    expect(result.duplicateCount).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { toPreviewLead, buildLeadPreview, PREVIEW_ROW_COUNT } from '../../../api/_lib/lead-preview';
+import { leadPreviewToExportFields } from '../../../api/_lib/exports-db';
+import { getLeadFingerprints } from '../../../api/_lib/suppression-ledger';
+import { generateLeads as mockGenerateLeads } from '../../../api/_lib/providers/mock';
+import type { Lead } from '../../../api/_lib/types';
+
+function makeLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    address: '123 Main St',
+    city: 'Miami',
+    state: 'FL',
+    zip: '33101',
+    phone: '(305) 555-1234',
+    email: 'jane.smith@example.com',
+    lead_type: 'residential',
+    tags: 'roofing',
+    source: 'audiencelab',
+    best_phone: '(305) 555-1234',
+    phones_all: '(305) 555-1234',
+    wireless_phones: '(305) 555-1234',
+    landline_phones: '',
+    match_score: 3,
+    quality_score: 82,
+    quality_tier: 'hot',
+    dnc_status: 'clean',
+    email_validation_status: 'valid',
+    ...overrides,
+  };
+}
+
+describe('lead previews', () => {
+  it('masks phones and emails and drops names and addresses', () => {
+    const row = toPreviewLead(makeLead());
+
+    expect(row).toEqual({
+      phone: '(30…234',
+      email: 'jan…com',
+      city: 'Miami',
+      state: 'FL',
+      lead_type: 'residential',
+      quality_score: 82,
+      match_score: 3,
+      phone_type: 'wireless',
+    });
+    expect(JSON.stringify(row)).not.toContain('Smith');
+    expect(JSON.stringify(row)).not.toContain('Main St');
+  });
+
+  it('reports landline and unknown phone types, and empty contacts', () => {
+    expect(toPreviewLead(makeLead({ wireless_phones: '', landline_phones: '(305) 555-1234' })).phone_type).toBe('landline');
+
+    const bare = toPreviewLead(makeLead({ phone: '', best_phone: '', email: '', match_score: null }));
+    expect(bare.phone).toBe('');
+    expect(bare.email).toBe('');
+    expect(bare.phone_type).toBeNull();
+    expect(bare.match_score).toBe(0);
+  });
+
+  it('samples the top leads in export order', () => {
+    const leads = Array.from({ length: 25 }, (_, i) => makeLead({ quality_score: 100 - i }));
+
+    const preview = buildLeadPreview(leads);
+
+    expect(preview).toHaveLength(PREVIEW_ROW_COUNT);
+    expect(preview[0].quality_score).toBe(100);
+    expect(buildLeadPreview(leads.slice(0, 3))).toHaveLength(3);
+  });
+
+  it('stages masked rows and every ledger fingerprint on the export', () => {
+    const result = mockGenerateLeads({ leadRequest: 'roofing', zips: ['33101'], scope: 'residential' });
+    if (!result.ok) throw new Error('mock failed');
+
+    const fields = leadPreviewToExportFields(result.leads);
+
+    expect(fields.previewRows).toHaveLength(PREVIEW_ROW_COUNT);
+    expect(fields.previewFingerprints).toEqual(result.leads.flatMap(getLeadFingerprints));
+  });
+});
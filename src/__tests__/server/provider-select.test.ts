@@ -1,6 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { getProviderName, validateProviderConfig } from '../../../api/_lib/providers';
-import { ProviderConfigError } from '../../../api/_lib/types';
+import {
+  getProviderName,
+  validateProviderConfig,
+  parseProviderRoutes,
+  getProviderChain,
+  isProviderEnabled,
+  generateLeadsRouted,
+  generateLeadsBlended,
+} from '../../../api/_lib/providers';
+import { ProviderConfigError, PDLAuthError } from '../../../api/_lib/types';
 
 describe('getProviderName', () => {
   const originalEnv = process.env;
@@ -56,6 +64,12 @@ describe('getProviderName', () => {
     expect(getProviderName()).toBe('audiencelab');
   });
 
+  it('returns pdl when LEAD_PROVIDER=pdl', () => {
+    process.env.LEAD_PROVIDER = ' PDL ';
+    
+    expect(getProviderName()).toBe('pdl');
+  });
+
   it('returns mock for unknown provider values', () => {
     process.env.LEAD_PROVIDER = 'unknown';
     
@@ -109,4 +123,214 @@ describe('validateProviderConfig', () => {
       }
     }
   });
+
+  it('throws ProviderConfigError when LEAD_PROVIDER=pdl but key is missing', () => {
+    process.env.LEAD_PROVIDER = 'pdl';
+    delete process.env.PDL_API_KEY;
+    
+    try {
+      validateProviderConfig();
+      expect.unreachable('expected ProviderConfigError');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ProviderConfigError);
+      if (err instanceof ProviderConfigError) {
+        expect(err.provider).toBe('pdl');
+        expect(err.hint).toContain('PDL_API_KEY');
+      }
+    }
+  });
+
+  it('does not throw when pdl key is set', () => {
+    process.env.LEAD_PROVIDER = 'pdl';
+    process.env.PDL_API_KEY = 'test-key';
+    
+    expect(() => validateProviderConfig()).not.toThrow();
+  });
+});
+
+describe('provider routing', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LEAD_PROVIDER;
+    delete process.env.LEAD_PROVIDER_ROUTES;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('parses scope chains and dedupes providers', () => {
+    expect(parseProviderRoutes('commercial=PDL>audiencelab>pdl; residential = audiencelab')).toEqual({
+      commercial: ['pdl', 'audiencelab'],
+      residential: ['audiencelab'],
+    });
+  });
+
+  it('rejects unknown providers and scopes', () => {
+    expect(() => parseProviderRoutes('commercial=acme')).toThrow(ProviderConfigError);
+    expect(() => parseProviderRoutes('b2b=pdl')).toThrow(ProviderConfigError);
+  });
+
+  it('uses LEAD_PROVIDER for scopes without a route', () => {
+    process.env.LEAD_PROVIDER = 'audiencelab';
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=pdl>audiencelab';
+
+    expect(getProviderChain('commercial')).toEqual(['pdl', 'audiencelab']);
+    expect(getProviderChain('residential')).toEqual(['audiencelab']);
+  });
+
+  it('reports providers enabled via routes', () => {
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=pdl>audiencelab';
+
+    expect(isProviderEnabled('audiencelab')).toBe(true);
+    expect(isProviderEnabled('mock')).toBe(true);
+  });
+
+  it('falls back to the next provider on no results', async () => {
+    process.env.PDL_API_KEY = 'test-key';
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=pdl>mock';
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      text: async () => '',
+    } as Response);
+
+    const routed = await generateLeadsRouted({ leadRequest: 'roofing', zips: ['33101'], scope: 'commercial' });
+
+    expect(routed.provider).toBe('mock');
+    expect(routed.attempted).toEqual(['pdl', 'mock']);
+    expect(routed.result.ok).toBe(true);
+    fetchSpy.mockRestore();
+  });
+
+  it('falls back to the next provider on upstream errors', async () => {
+    process.env.PDL_API_KEY = 'test-key';
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=pdl>mock';
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+      ok: false,
+      status: 503,
+      text: async () => '',
+    } as Response);
+
+    const routed = await generateLeadsRouted({ leadRequest: 'roofing', zips: ['33101'], scope: 'commercial' });
+
+    expect(routed.provider).toBe('mock');
+    fetchSpy.mockRestore();
+  });
+
+  it('does not fall back on auth errors', async () => {
+    process.env.PDL_API_KEY = 'test-key';
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=pdl>mock';
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      text: async () => '',
+    } as Response);
+
+    await expect(
+      generateLeadsRouted({ leadRequest: 'roofing', zips: ['33101'], scope: 'commercial' })
+    ).rejects.toThrow(PDLAuthError);
+    fetchSpy.mockRestore();
+  });
+
+  it('throws ProviderConfigError when a fallback provider is missing its key', async () => {
+    delete process.env.AUDIENCELAB_API_KEY;
+    process.env.LEAD_PROVIDER_ROUTES = 'residential=mock>audiencelab';
+
+    await expect(
+      generateLeadsRouted({ leadRequest: 'roofing', zips: ['33101'], scope: 'residential' })
+    ).rejects.toThrow(ProviderConfigError);
+  });
+});
+
+describe('blend mode', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LEAD_PROVIDER;
+    delete process.env.LEAD_PROVIDER_ROUTES;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('merges every provider in the chain and reports per-source counts', async () => {
+    process.env.PDL_API_KEY = 'test-key';
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=mock>pdl';
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        status: 200,
+        data: [{ first_name: 'Ann', work_email: 'ann@acme.com', location_postal_code: '33101' }],
+      }),
+    } as Response);
+
+    const blended = await generateLeadsBlended({ leadRequest: 'roofing', zips: ['33101'], scope: 'commercial' });
+
+    expect(blended.provider).toBe('mock+pdl');
+    expect(blended.attempted).toEqual(['mock', 'pdl']);
+    expect(blended.result.ok).toBe(true);
+    if (blended.result.ok) {
+      const bySource = blended.result.diagnostics?.bySource;
+      expect(bySource?.pdl.kept).toBe(1);
+      expect(bySource?.mock.kept).toBe(blended.result.leads.length - 1);
+      expect(blended.result.diagnostics?.kept).toBe(blended.result.leads.length);
+    }
+    fetchSpy.mockRestore();
+  });
+
+  it('skips providers that return no results', async () => {
+    process.env.PDL_API_KEY = 'test-key';
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=pdl>mock';
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      text: async () => '',
+    } as Response);
+
+    const blended = await generateLeadsBlended({ leadRequest: 'roofing', zips: ['33101'], scope: 'commercial' });
+
+    expect(blended.provider).toBe('mock');
+    expect(blended.result.ok).toBe(true);
+    fetchSpy.mockRestore();
+  });
+
+  it('rejects the blend when one provider is building and another returned leads', async () => {
+    process.env.PDL_API_KEY = 'test-key';
+    process.env.AUDIENCELAB_API_KEY = 'test-key';
+    process.env.LEAD_PROVIDER_ROUTES = 'commercial=audiencelab>pdl';
+    const fetchSpy = vi.spyOn(global, 'fetch').mockImplementation(async (url) =>
+      String(url).includes('peopledatalabs')
+        ? ({
+            ok: true,
+            status: 200,
+            json: async () => ({ status: 200, data: [{ first_name: 'Ann', work_email: 'ann@acme.com' }] }),
+          } as Response)
+        : ({
+            ok: true,
+            status: 202,
+            headers: new Headers(),
+            json: async () => ({ job_id: 'job-1' }),
+          } as Response)
+    );
+
+    const blended = await generateLeadsBlended({ leadRequest: 'roofing', zips: ['33101'], scope: 'commercial' });
+
+    expect(blended.provider).toBe('audiencelab');
+    expect(blended.result.ok).toBe(false);
+    if (!blended.result.ok) {
+      expect(blended.result.error.code).toBe('provider_blend_building');
+      expect(blended.result.error.details).toMatchObject({
+        buildingProvider: 'audiencelab',
+        completedProviders: ['pdl'],
+        jobId: 'job-1',
+      });
+    }
+    fetchSpy.mockRestore();
+  });
 });
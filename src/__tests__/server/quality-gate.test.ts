@@ -7,6 +7,7 @@ import {
   calculateMatchScoreDistribution,
   generateQualityReport,
   getTierLabel,
+  runQualityPipeline,
   QUALITY_GATE_THRESHOLDS,
 } from '../../../api/_lib/quality-gate';
 import type { Lead } from '../../../api/_lib/types';
@@ -462,4 +463,39 @@ describe('Quality Gate Module', () => {
       expect(getTierLabel('scale')).toBe('Scale (≥30)');
     });
   });
+
+  describe('runQualityPipeline', () => {
+    it('scores leads, applies the tier gate, and reports the shortfall', () => {
+      const strong = createLead({ quality_score: undefined, quality_tier: undefined });
+      const weak = createLead({
+        quality_score: undefined,
+        quality_tier: undefined,
+        address: '',
+        email: '',
+        best_phone: '',
+        phones_all: '',
+        wireless_phones: '',
+        match_score: 0,
+      });
+
+      const result = runQualityPipeline([weak, strong], 'balanced', 5, 'both');
+
+      expect(result.leads.every(l => typeof l.quality_score === 'number')).toBe(true);
+      expect(result.leads.every(l => (l.quality_score ?? 0) >= 50)).toBe(true);
+      expect(result.report.deliveredCount).toBe(result.leads.length);
+      expect(result.report.deliveredCount + result.report.rejectedByQualityCount).toBe(2);
+      expect(result.report.minQualityScoreUsed).toBe(50);
+      expect(result.report.warning).toContain('of 5 requested');
+      const { highQualityCount, mediumQualityCount, lowQualityCount } = result.stats;
+      expect(highQualityCount + mediumQualityCount + lowQualityCount).toBe(result.leads.length);
+    });
+
+    it('returns an empty report when no leads are supplied', () => {
+      const result = runQualityPipeline([], 'hot', 10, 'call');
+
+      expect(result.leads).toEqual([]);
+      expect(result.report.deliveredCount).toBe(0);
+      expect(result.report.rejectedByQualityCount).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,208 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  parseCronSchedule,
+  nextScheduledRun,
+  parseScheduleInput,
+  parseSavedSearchInput,
+  canEditSavedSearch,
+  scheduledDedupeWindowDays,
+  buildScheduledRequest,
+  DEFAULT_SCHEDULED_DEDUPE_WINDOW_DAYS,
+  type SavedSearch,
+} from '../../../api/_lib/saved-searches';
+
+function makeSearch(fields: Partial<SavedSearch> = {}): SavedSearch {
+  return {
+    id: 'search-1',
+    workspace_id: 'ws-1',
+    created_by: 'user-1',
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+    name: 'Miami roofing weekly',
+    lead_request: 'roofing',
+    zip_codes: ['33101', '33130'],
+    lead_scope: 'residential',
+    use_case: 'call',
+    quality_tier: 'hot',
+    requested_count: 300,
+    dedupe_window_days: null,
+    schedule: '0 13 * * 1',
+    next_run_at: '2026-10-19T13:00:00.000Z',
+    last_run_at: null,
+    last_run_status: null,
+    last_export_id: null,
+    last_error: null,
+    ...fields,
+  };
+}
+
+function next(expression: string, after: string): string | undefined {
+  const schedule = parseCronSchedule(expression);
+  if (!schedule) throw new Error(`invalid schedule ${expression}`);
+  return nextScheduledRun(schedule, new Date(after))?.toISOString();
+}
+
+describe('parseCronSchedule', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const schedule = parseCronSchedule('0 9-17/4 1,15 * 1-5');
+
+    expect(schedule?.minutes).toEqual([0]);
+    expect(schedule?.hours).toEqual([9, 13, 17]);
+    expect(schedule?.daysOfMonth).toEqual([1, 15]);
+    expect(schedule?.months).toHaveLength(12);
+    expect(schedule?.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats day-of-week 7 as Sunday', () => {
+    expect(parseCronSchedule('0 0 * * 7')?.daysOfWeek).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(parseCronSchedule('0 13 * *')).toBeNull();
+    expect(parseCronSchedule('60 13 * * *')).toBeNull();
+    expect(parseCronSchedule('0 13 0 * *')).toBeNull();
+    expect(parseCronSchedule('0 13 * * mon')).toBeNull();
+    expect(parseCronSchedule('0 17-9 * * *')).toBeNull();
+  });
+});
+
+describe('nextScheduledRun', () => {
+  it('finds the next weekly slot', () => {
+    // 2026-10-19 is a Monday
+    expect(next('0 13 * * 1', '2026-10-19T12:59:30Z')).toBe('2026-10-19T13:00:00.000Z');
+    expect(next('0 13 * * 1', '2026-10-19T13:00:00Z')).toBe('2026-10-26T13:00:00.000Z');
+  });
+
+  it('rolls over hours, months and years', () => {
+    expect(next('30 * * * *', '2026-10-19T23:45:00Z')).toBe('2026-10-20T00:30:00.000Z');
+    expect(next('0 6 1 * *', '2026-12-15T00:00:00Z')).toBe('2027-01-01T06:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th or any Monday, whichever comes first
+    expect(next('0 0 15 * 1', '2026-10-20T00:00:00Z')).toBe('2026-10-26T00:00:00.000Z');
+    expect(next('0 0 15 * 1', '2026-11-10T00:00:00Z')).toBe('2026-11-15T00:00:00.000Z');
+  });
+
+  it('returns null for a schedule that never fires', () => {
+    expect(next('0 0 31 2 *', '2026-10-19T00:00:00Z')).toBeUndefined();
+  });
+});
+
+describe('parseScheduleInput', () => {
+  it('returns the next run for a valid schedule', () => {
+    const result = parseScheduleInput('0 13 * * 1', new Date('2026-10-20T00:00:00Z'));
+
+    expect(result).toEqual({ ok: true, nextRunAt: new Date('2026-10-26T13:00:00Z') });
+  });
+
+  it('allows at most one run per hour', () => {
+    const result = parseScheduleInput('*/15 * * * *');
+
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects invalid and never-firing schedules', () => {
+    expect(parseScheduleInput('weekly').ok).toBe(false);
+    expect(parseScheduleInput('0 0 30 2 *').ok).toBe(false);
+  });
+});
+
+describe('parseSavedSearchInput', () => {
+  const body = {
+    name: '  Miami roofing weekly ',
+    leadRequest: 'roofing',
+    zipCodes: ['33101', '33130'],
+    leadScope: 'residential',
+    useCase: 'call',
+    qualityTier: 'hot',
+    requestedCount: 300,
+    schedule: ' 0  13 * *   1 ',
+  };
+
+  it('validates the lead fields like generate and normalizes the schedule', () => {
+    const result = parseSavedSearchInput(body);
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        name: 'Miami roofing weekly',
+        leadRequest: 'roofing',
+        zips: ['33101', '33130'],
+        scope: 'residential',
+        useCase: 'call',
+        qualityTier: 'hot',
+        requestedCount: 300,
+        dedupeWindowDays: null,
+        schedule: '0 13 * * 1',
+      },
+    });
+  });
+
+  it('defaults tier and count, and treats an empty schedule as none', () => {
+    const result = parseSavedSearchInput({ ...body, qualityTier: undefined, requestedCount: undefined, schedule: '' });
+
+    expect(result.ok && result.value).toMatchObject({ qualityTier: 'balanced', requestedCount: 200, schedule: null });
+  });
+
+  it('requires a name', () => {
+    expect(parseSavedSearchInput({ ...body, name: ' ' }).ok).toBe(false);
+    expect(parseSavedSearchInput({ ...body, name: 'x'.repeat(101) }).ok).toBe(false);
+  });
+
+  it('rejects invalid lead fields and schedules', () => {
+    expect(parseSavedSearchInput({ ...body, zipCodes: 'abc' }).ok).toBe(false);
+    expect(parseSavedSearchInput({ ...body, schedule: '* * * * *' }).ok).toBe(false);
+    expect(parseSavedSearchInput({ ...body, schedule: 5 }).ok).toBe(false);
+  });
+});
+
+describe('canEditSavedSearch', () => {
+  it('allows the creator and managers', () => {
+    const search = makeSearch();
+
+    expect(canEditSavedSearch(search, 'user-1', 'rep')).toBe(true);
+    expect(canEditSavedSearch(search, 'user-2', 'rep')).toBe(false);
+    expect(canEditSavedSearch(search, 'user-2', 'manager')).toBe(true);
+    expect(canEditSavedSearch(search, 'user-2', 'admin')).toBe(true);
+  });
+});
+
+describe('scheduledDedupeWindowDays', () => {
+  const originalWindow = process.env.DEDUPE_WINDOW_DAYS;
+
+  afterEach(() => {
+    if (originalWindow === undefined) {
+      delete process.env.DEDUPE_WINDOW_DAYS;
+    } else {
+      process.env.DEDUPE_WINDOW_DAYS = originalWindow;
+    }
+  });
+
+  it('uses the search window, then DEDUPE_WINDOW_DAYS, then the scheduled default', () => {
+    delete process.env.DEDUPE_WINDOW_DAYS;
+    expect(scheduledDedupeWindowDays({ dedupe_window_days: 90 })).toBe(90);
+    expect(scheduledDedupeWindowDays({ dedupe_window_days: 0 })).toBe(0);
+    expect(scheduledDedupeWindowDays({ dedupe_window_days: null })).toBe(DEFAULT_SCHEDULED_DEDUPE_WINDOW_DAYS);
+
+    process.env.DEDUPE_WINDOW_DAYS = '60';
+    expect(scheduledDedupeWindowDays({ dedupe_window_days: null })).toBe(60);
+  });
+});
+
+describe('buildScheduledRequest', () => {
+  it('builds a generate body tagged with the saved search', () => {
+    delete process.env.DEDUPE_WINDOW_DAYS;
+
+    expect(buildScheduledRequest(makeSearch())).toEqual({
+      leadRequest: 'roofing',
+      zipCodes: '33101, 33130',
+      leadScope: 'residential',
+      useCase: 'call',
+      qualityTier: 'hot',
+      requestedCount: 300,
+      dedupeWindowDays: DEFAULT_SCHEDULED_DEDUPE_WINDOW_DAYS,
+      savedSearchId: 'search-1',
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  resolveDedupeWindowDays,
+  fingerprintValue,
+  getLeadFingerprints,
+  suppressRepeatLeads,
+} from '../../../api/_lib/suppression-ledger';
+import { DEFAULT_WORKSPACE_ID } from '../../../api/_lib/workspaces';
+import type { Lead } from '../../../api/_lib/types';
+
+/**
+ * Factory for creating test leads with defaults.
+ */
+function createLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    address: '1 Ocean Dr',
+    city: 'Miami',
+    state: 'FL',
+    zip: '33101',
+    phone: '(305) 555-0100',
+    email: 'Jane@Example.com',
+    lead_type: 'residential',
+    tags: 'roofing',
+    source: 'audiencelab',
+    best_phone: '3055550100',
+    phones_all: '3055550100|3055550101',
+    wireless_phones: '3055550100',
+    landline_phones: '3055550101',
+    match_score: 3,
+    quality_score: 0,
+    quality_tier: 'balanced',
+    dnc_status: '',
+    email_validation_status: '',
+    ...overrides,
+  };
+}
+
+describe('suppression ledger', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    delete process.env.DEDUPE_WINDOW_DAYS;
+    delete process.env.SUPPRESSION_HASH_SALT;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('resolveDedupeWindowDays', () => {
+    it('prefers the requested window, including 0', () => {
+      process.env.DEDUPE_WINDOW_DAYS = '90';
+      expect(resolveDedupeWindowDays(30)).toBe(30);
+      expect(resolveDedupeWindowDays(0)).toBe(0);
+    });
+
+    it('falls back to DEDUPE_WINDOW_DAYS, then off', () => {
+      expect(resolveDedupeWindowDays()).toBe(0);
+      process.env.DEDUPE_WINDOW_DAYS = '45';
+      expect(resolveDedupeWindowDays()).toBe(45);
+      process.env.DEDUPE_WINDOW_DAYS = 'bogus';
+      expect(resolveDedupeWindowDays()).toBe(0);
+    });
+  });
+
+  describe('fingerprints', () => {
+    it('never contains raw PII', () => {
+      const fingerprints = getLeadFingerprints(createLead());
+      const joined = fingerprints.join(',');
+
+      expect(fingerprints.every((fp) => /^[0-9a-f]{64}$/.test(fp))).toBe(true);
+      expect(joined).not.toContain('3055550100');
+      expect(joined.toLowerCase()).not.toContain('jane');
+    });
+
+    it('normalizes phones and emails before hashing', () => {
+      const a = getLeadFingerprints(createLead());
+      const b = getLeadFingerprints(createLead({
+        phone: '',
+        best_phone: '+1 305-555-0100',
+        phones_all: '305.555.0101',
+        email: '  jane@example.com ',
+      }));
+
+      expect(new Set(b)).toEqual(new Set(a));
+      // 2 distinct phones + 1 email
+      expect(a).toHaveLength(3);
+    });
+
+    it('separates kinds and depends on the salt', () => {
+      expect(fingerprintValue('phone', 'x')).not.toBe(fingerprintValue('email', 'x'));
+
+      const unsalted = fingerprintValue('phone', '3055550100');
+      process.env.SUPPRESSION_HASH_SALT = 'pepper';
+      expect(fingerprintValue('phone', '3055550100')).not.toBe(unsalted);
+    });
+  });
+
+  describe('suppressRepeatLeads', () => {
+    it('is a no-op when the window is 0', async () => {
+      const leads = [createLead()];
+      const result = await suppressRepeatLeads(DEFAULT_WORKSPACE_ID, leads, 0);
+
+      expect(result.leads).toBe(leads);
+      expect(result.repeatCount).toBe(0);
+    });
+
+    it('fails open when the ledger is unavailable', async () => {
+      delete process.env.SUPABASE_URL;
+      delete process.env.VITE_SUPABASE_URL;
+      delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const leads = [createLead(), createLead({ email: 'other@example.com', phones_all: '', best_phone: '', phone: '' })];
+      const result = await suppressRepeatLeads(DEFAULT_WORKSPACE_ID, leads, 30);
+
+      expect(result.leads).toHaveLength(2);
+      expect(result.repeatCount).toBe(0);
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -28,4 +28,93 @@ describe('payload validation', () => {
       expect(res.data.scope).toBe('both');
     }
   });
-});
\ No newline at end of file
+
+  it('rejects ZIP codes that do not exist', () => {
+    const res = validatePayload({ leadRequest: 'roofing', zipCodes: '33101,99999,00000', leadScope: 'both' });
+    expect(res.ok).toBe(false);
+    if (!res.ok) {
+      expect(res.error.code).toBe('unknown_zip_codes');
+      expect(res.error.details).toEqual({ unknownZips: ['99999', '00000'], count: 2 });
+    }
+  });
+
+  it('normalizes qualityTier', () => {
+    const res = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', qualityTier: ' HOT ' });
+    expect(res.ok).toBe(true);
+    if (res.ok) {
+      expect(res.data.qualityTier).toBe('hot');
+    }
+  });
+
+  it('rejects unknown qualityTier', () => {
+    const res = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', qualityTier: 'ultra' });
+    expect(res.ok).toBe(false);
+    if (!res.ok) {
+      expect(res.error.code).toBe('invalid_quality_tier');
+    }
+  });
+
+  it('rejects non-boolean blend', () => {
+    const res = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', blend: 'yes' });
+    expect(res.ok).toBe(false);
+    if (!res.ok) {
+      expect(res.error.code).toBe('invalid_blend');
+    }
+  });
+
+  it('validates dedupeWindowDays range', () => {
+    const ok = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', dedupeWindowDays: '30' });
+    expect(ok.ok).toBe(true);
+    if (ok.ok) {
+      expect(ok.data.dedupeWindowDays).toBe(30);
+    }
+
+    const bad = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', dedupeWindowDays: 400 });
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      expect(bad.error.code).toBe('invalid_dedupe_window');
+    }
+  });
+
+  it('validates savedSearchId', () => {
+    const ok = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', savedSearchId: ' search-1 ' });
+    expect(ok.ok).toBe(true);
+    if (ok.ok) {
+      expect(ok.data.savedSearchId).toBe('search-1');
+    }
+
+    const bad = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', savedSearchId: 42 });
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      expect(bad.error.code).toBe('invalid_saved_search');
+    }
+  });
+
+  it('validates sortCallableNow', () => {
+    const ok = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', useCase: 'call', sortCallableNow: true });
+    expect(ok.ok).toBe(true);
+    if (ok.ok) {
+      expect(ok.data.sortCallableNow).toBe(true);
+    }
+
+    const bad = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', sortCallableNow: 'yes' });
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      expect(bad.error.code).toBe('invalid_sort_callable_now');
+    }
+  });
+
+  it('validates preview', () => {
+    const ok = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', preview: true });
+    expect(ok.ok).toBe(true);
+    if (ok.ok) {
+      expect(ok.data.preview).toBe(true);
+    }
+
+    const bad = validatePayload({ leadRequest: 'roofing', zipCodes: '12345', leadScope: 'both', preview: 'yes' });
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      expect(bad.error.code).toBe('invalid_preview');
+    }
+  });
+});
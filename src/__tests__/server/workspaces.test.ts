@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_WORKSPACE_ID,
+  MAX_WORKSPACE_INTENT_PACKS,
+  isWorkspaceSlug,
+  parseSuppressStates,
+  parseIntentPacks,
+  toWorkspaceSettings,
+  getWorkspaceCredentials,
+  getWorkspaceComplianceRuleSet,
+  buildExportPath,
+  getWorkspace,
+  type Workspace,
+} from '../../../api/_lib/workspaces';
+import { resolveIntentPack, type IntentPack } from '../../../api/_lib/intent-packs';
+import { validateProviderConfig } from '../../../api/_lib/providers/index';
+import { getAudienceLabApiKey } from '../../../api/_lib/providers/audiencelab';
+
+/**
+ * Factory for creating test workspaces with defaults.
+ */
+function createWorkspace(overrides: Partial<Workspace> = {}): Workspace {
+  return {
+    id: 'ws-acme',
+    created_at: '2026-01-01T00:00:00Z',
+    name: 'Acme Roofing',
+    slug: 'acme',
+    storage_prefix: 'acme',
+    suppress_states: null,
+    intent_packs: null,
+    audiencelab_api_key: null,
+    monthly_lead_credits: null,
+    ...overrides,
+  };
+}
+
+const SOLAR_PACK: IntentPack = {
+  id: 'solar',
+  name: 'Solar',
+  keywords: ['solar panel installation quote'],
+  matchPatterns: ['solar'],
+};
+
+describe('workspaces', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    process.env.AUDIENCELAB_API_KEY = 'env-key';
+    delete process.env.COMPLIANCE_RULES;
+    delete process.env.CALL_SUPPRESS_STATES;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('settings validation', () => {
+    it('accepts lowercase slugs only', () => {
+      expect(isWorkspaceSlug('acme-roofing')).toBe(true);
+      expect(isWorkspaceSlug('Acme')).toBe(false);
+      expect(isWorkspaceSlug('-acme')).toBe(false);
+      expect(isWorkspaceSlug('a')).toBe(false);
+    });
+
+    it('normalizes suppression states and rejects bad codes', () => {
+      expect(parseSuppressStates([' tx', 'FL', 'tx'])).toEqual(['TX', 'FL']);
+      expect(parseSuppressStates([])).toEqual([]);
+      expect(parseSuppressStates(['Texas'])).toBeNull();
+      expect(parseSuppressStates('TX')).toBeNull();
+    });
+
+    it('validates intent packs', () => {
+      expect(parseIntentPacks([{ ...SOLAR_PACK, matchPatterns: [' Solar '] }])).toEqual([SOLAR_PACK]);
+      expect(parseIntentPacks([{ ...SOLAR_PACK, keywords: [] }])).toBeNull();
+      expect(parseIntentPacks([{ name: 'No id', keywords: ['x'], matchPatterns: ['x'] }])).toBeNull();
+      expect(parseIntentPacks(Array(MAX_WORKSPACE_INTENT_PACKS + 1).fill(SOLAR_PACK))).toBeNull();
+    });
+
+    it('never returns the AudienceLab key in settings', () => {
+      const settings = toWorkspaceSettings(createWorkspace({ audiencelab_api_key: 'secret' }));
+      expect(settings.hasAudienceLabKey).toBe(true);
+      expect(JSON.stringify(settings)).not.toContain('secret');
+    });
+  });
+
+  describe('AudienceLab key', () => {
+    it('falls back to AUDIENCELAB_API_KEY for the default workspace only', () => {
+      const defaultWs = createWorkspace({ id: DEFAULT_WORKSPACE_ID });
+      expect(getWorkspaceCredentials(defaultWs)).toBeUndefined();
+      expect(getAudienceLabApiKey({ credentials: getWorkspaceCredentials(defaultWs) })).toBe('env-key');
+
+      const other = getWorkspaceCredentials(createWorkspace());
+      expect(other).toEqual({ audienceLabApiKey: undefined });
+      expect(() => validateProviderConfig('audiencelab', other)).toThrow(/workspace has no AudienceLab API key/);
+    });
+
+    it('uses the workspace key when set', () => {
+      const credentials = getWorkspaceCredentials(createWorkspace({ audiencelab_api_key: '\uFEFFws-key ' }));
+      expect(() => validateProviderConfig('audiencelab', credentials)).not.toThrow();
+      expect(getAudienceLabApiKey({ credentials })).toBe('ws-key');
+    });
+  });
+
+  describe('workspace settings in the pipeline', () => {
+    it('prefers workspace suppression states over the environment', () => {
+      process.env.CALL_SUPPRESS_STATES = 'TX';
+      expect(getWorkspaceComplianceRuleSet(createWorkspace()).version).toMatch(/TX$/);
+      expect(getWorkspaceComplianceRuleSet(createWorkspace({ suppress_states: ['CA', 'NY'] })).version).toMatch(/CA,NY$/);
+      expect(getWorkspaceComplianceRuleSet(createWorkspace({ suppress_states: [] })).rules).toEqual([]);
+    });
+
+    it('matches custom intent packs before built-in packs', () => {
+      expect(resolveIntentPack('solar roofing', [SOLAR_PACK]).id).toBe('solar');
+      expect(resolveIntentPack('roofing', [SOLAR_PACK]).id).toBe('roofing');
+    });
+
+    it('writes exports under the workspace storage prefix', () => {
+      const path = buildExportPath(createWorkspace(), new Date(2026, 2, 5));
+      expect(path).toMatch(/^acme\/2026-03-05\/\d+-[a-z0-9]+\.csv$/);
+    });
+  });
+
+  describe('getWorkspace', () => {
+    it('returns the environment-backed default workspace without Supabase', async () => {
+      delete process.env.SUPABASE_URL;
+      delete process.env.VITE_SUPABASE_URL;
+      delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+      expect((await getWorkspace(DEFAULT_WORKSPACE_ID))?.storage_prefix).toBe('default');
+      expect(await getWorkspace('ws-acme')).toBeNull();
+    });
+  });
+});
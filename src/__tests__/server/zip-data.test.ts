@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  lookupZip,
+  isKnownZip,
+  getAllZips,
+  resolveTimezone,
+  backfillLeadLocations,
+} from '../../../api/_lib/zip-data';
+import type { Lead } from '../../../api/_lib/types';
+
+/**
+ * Factory for creating test leads with defaults.
+ */
+function createLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    address: '1 Ocean Dr',
+    city: '',
+    state: '',
+    zip: '33101',
+    phone: '3055550100',
+    email: '',
+    lead_type: 'residential',
+    tags: 'roofing',
+    source: 'audiencelab',
+    best_phone: '3055550100',
+    phones_all: '3055550100',
+    wireless_phones: '3055550100',
+    landline_phones: '',
+    match_score: 3,
+    quality_score: 80,
+    quality_tier: 'balanced',
+    dnc_status: '',
+    email_validation_status: '',
+    ...overrides,
+  };
+}
+
+describe('lookupZip', () => {
+  it('returns the full reference record', () => {
+    const info = lookupZip('33101');
+    expect(info).toMatchObject({
+      zip: '33101',
+      city: 'Miami',
+      state: 'FL',
+      county: 'Miami-Dade',
+      countyFips: '12086',
+      timezone: 'America/New_York',
+    });
+    expect(info?.latitude).toBeCloseTo(25.78, 1);
+    expect(info?.longitude).toBeCloseTo(-80.2, 1);
+  });
+
+  it('accepts ZIP+4 and resolves split-zone time zones', () => {
+    expect(lookupZip('90210-1234')?.city).toBe('Beverly Hills');
+    expect(lookupZip('79901')?.timezone).toBe('America/Denver');
+  });
+
+  it('returns null for ZIPs that do not exist', () => {
+    expect(lookupZip('99999')).toBeNull();
+    expect(lookupZip('')).toBeNull();
+  });
+});
+
+describe('isKnownZip / getAllZips', () => {
+  it('covers the whole country', () => {
+    expect(isKnownZip('10001')).toBe(true);
+    expect(isKnownZip('00000')).toBe(false);
+    expect(getAllZips().length).toBeGreaterThan(40000);
+  });
+
+  it('keeps military ZIPs without a state', () => {
+    const apo = lookupZip('09001');
+    expect(apo?.state).toBe('');
+    expect(apo?.countyFips).toBe('');
+  });
+});
+
+describe('resolveTimezone', () => {
+  it('prefers ZIP and ZIP prefix overrides, then the state', () => {
+    expect(resolveTimezone('32501', 'FL')).toBe('America/Chicago');
+    expect(resolveTimezone('49801', 'MI')).toBe('America/Menominee');
+    expect(resolveTimezone('49855', 'MI')).toBe('America/Detroit');
+    expect(resolveTimezone('', 'az')).toBe('America/Phoenix');
+    expect(resolveTimezone('', '')).toBeUndefined();
+  });
+});
+
+describe('backfillLeadLocations', () => {
+  it('fills missing city/state from the ZIP', () => {
+    const { leads, backfilledCount } = backfillLeadLocations([
+      createLead(),
+      createLead({ zip: '60601', city: 'Chicago Loop' }),
+    ]);
+    expect(backfilledCount).toBe(2);
+    expect(leads[0]).toMatchObject({ city: 'Miami', state: 'FL' });
+    expect(leads[1]).toMatchObject({ city: 'Chicago Loop', state: 'IL' });
+  });
+
+  it('leaves complete leads and unknown ZIPs untouched', () => {
+    const complete = createLead({ city: 'Miami', state: 'FL' });
+    const unknown = createLead({ zip: '99999' });
+    const { leads, backfilledCount } = backfillLeadLocations([complete, unknown]);
+    expect(backfilledCount).toBe(0);
+    expect(leads[0]).toBe(complete);
+    expect(leads[1]).toBe(unknown);
+  });
+});
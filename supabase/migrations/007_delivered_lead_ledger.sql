@@ -0,0 +1,51 @@
+-- Migration: Delivered-lead suppression ledger
+--
+-- Stores SHA-256 fingerprints of normalized phones/emails for every delivered
+-- lead - NO raw PII. Used to drop leads already delivered within a lookback
+-- window ("don't sell me the same lead twice").
+--
+-- Ledger rows outlive their export (export_id is nulled when cleanup deletes
+-- the export) so the lookback window can exceed EXPORT_RETENTION_DAYS.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.delivered_lead_fingerprints (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  fingerprint TEXT NOT NULL,            -- sha256(salt:kind:normalized value), hex
+  export_id UUID NULL REFERENCES public.lead_exports(id) ON DELETE SET NULL,
+  delivered_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Lookup index: fingerprint match within a window
+CREATE INDEX IF NOT EXISTS idx_delivered_lead_fingerprints_lookup
+  ON public.delivered_lead_fingerprints (fingerprint, delivered_at DESC);
+
+-- Index for retention cleanup
+CREATE INDEX IF NOT EXISTS idx_delivered_lead_fingerprints_delivered_at
+  ON public.delivered_lead_fingerprints (delivered_at);
+
+-- Per-export repeat suppression settings and results
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS dedupe_window_days INT;
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS repeat_suppressed_count INT DEFAULT 0;
+
+-- Cleanup function for old ledger rows (call periodically)
+CREATE OR REPLACE FUNCTION cleanup_old_delivered_leads(retention_days INT DEFAULT 365)
+RETURNS INT AS $$
+DECLARE
+  deleted_count INT;
+BEGIN
+  DELETE FROM public.delivered_lead_fingerprints
+  WHERE delivered_at < NOW() - (retention_days || ' days')::INTERVAL;
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE public.delivered_lead_fingerprints IS 'Hashed phone/email fingerprints of delivered leads (no PII)';
+COMMENT ON COLUMN public.lead_exports.dedupe_window_days IS 'Lookback window (days) for dropping previously delivered leads; 0/null = off';
+COMMENT ON COLUMN public.lead_exports.repeat_suppressed_count IS 'Leads dropped because they were delivered within the lookback window';
+COMMENT ON FUNCTION cleanup_old_delivered_leads(INT) IS 'Cleanup old ledger fingerprints. Default retention: 365 days.';
@@ -0,0 +1,34 @@
+-- Migration: Customer-uploaded suppression lists
+--
+-- Lets users upload their own do-not-contact and existing-customer lists
+-- (CSV of phones/emails). Entries are stored as SHA-256 fingerprints of the
+-- normalized value - NO raw PII - using the same fingerprint scheme as the
+-- delivered-lead ledger (007), so they can be matched against leads directly.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.suppression_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('dnc', 'customers')),
+  entry_count INT NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.suppression_list_entries (
+  list_id UUID NOT NULL REFERENCES public.suppression_lists(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL,            -- sha256(salt:kind:normalized value), hex
+  PRIMARY KEY (list_id, fingerprint)
+);
+
+-- Lookup index: match lead fingerprints across every list
+CREATE INDEX IF NOT EXISTS idx_suppression_list_entries_fingerprint
+  ON public.suppression_list_entries (fingerprint);
+
+-- Per-export result
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS customer_suppressed_count INT DEFAULT 0;
+
+COMMENT ON TABLE public.suppression_lists IS 'Customer-uploaded suppression lists (dnc = do not contact, customers = existing customers)';
+COMMENT ON TABLE public.suppression_list_entries IS 'Hashed phone/email fingerprints belonging to a suppression list (no PII)';
+COMMENT ON COLUMN public.lead_exports.customer_suppressed_count IS 'Leads dropped because they matched a customer suppression list';
@@ -0,0 +1,24 @@
+-- Migration: Compliance rules audit trail
+--
+-- Records, per export, which version of the compliance rule set was applied
+-- and which rules fired (rule id, action, lead count). Rules themselves are
+-- configured via the COMPLIANCE_RULES env var (see docs/API.md).
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS compliance_rule_version TEXT;
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS compliance_rules_fired JSONB;
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS compliance_flagged_count INT DEFAULT 0;
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS consent_required_count INT DEFAULT 0;
+
+COMMENT ON COLUMN public.lead_exports.compliance_rule_version IS 'Version of the compliance rule set applied to this export';
+COMMENT ON COLUMN public.lead_exports.compliance_rules_fired IS 'Rules that fired as JSON [{ruleId, action, count}]';
+COMMENT ON COLUMN public.lead_exports.compliance_flagged_count IS 'Delivered leads carrying a compliance flag';
+COMMENT ON COLUMN public.lead_exports.consent_required_count IS 'Delivered leads that require prior express consent before contact';
@@ -0,0 +1,12 @@
+-- Migration: Calling-hours sort option for call exports
+--
+-- Stores whether a call export should list leads callable right now first,
+-- so status polling and the background cron apply the same ordering.
+-- (Time zone and calling-window columns live only in the CSV.)
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS sort_callable_now BOOLEAN DEFAULT FALSE;
+
+COMMENT ON COLUMN public.lead_exports.sort_callable_now IS 'Call exports: sort leads inside their local calling window first';
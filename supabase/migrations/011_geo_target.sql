@@ -0,0 +1,12 @@
+-- Migration: Geo target per export
+--
+-- Exports created from a radius, city/state or county target store the
+-- original target here; zip_codes holds the ZIP list it was expanded into
+-- (see api/_lib/geo-targeting.ts). NULL for plain ZIP-list exports.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS geo_target JSONB;
+
+COMMENT ON COLUMN public.lead_exports.geo_target IS 'Geo target (radius, city/state or county FIPS) that zip_codes was expanded from';
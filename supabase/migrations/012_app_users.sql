@@ -0,0 +1,38 @@
+-- Migration: App user accounts and roles
+--
+-- Replaces the shared APP_PASSCODE with per-user accounts. Passwords are
+-- stored only as scrypt hashes (see api/_lib/users.ts). Roles:
+--   admin   - manage users, plus everything below
+--   manager - manage suppression lists, plus everything below
+--   rep     - generate leads and download exports
+--
+-- Exports record the user who started them (created_by) so Export History
+-- can show "my exports" versus team exports.
+--
+-- Create the first admin with: npx tsx scripts/create-user.ts <email> admin
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.app_users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  email TEXT NOT NULL UNIQUE,
+  name TEXT,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'manager', 'rep')),
+  password_hash TEXT NOT NULL,
+  disabled BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+-- Server-side access only (service role); no client policies
+ALTER TABLE public.app_users ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.app_users IS 'App user accounts; passwords stored as scrypt hashes only';
+COMMENT ON COLUMN public.app_users.email IS 'Login email, stored lowercased';
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.app_users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lead_exports_created_by
+ON public.lead_exports (created_by, created_at DESC);
+
+COMMENT ON COLUMN public.lead_exports.created_by IS 'User who started the export (NULL for exports created before user accounts)';
@@ -0,0 +1,27 @@
+-- Migration: API keys for programmatic access
+--
+-- Admin-issued, revocable keys sent as `Authorization: Bearer lr_...`.
+-- Only the SHA-256 hash of each key is stored (key_prefix is kept for
+-- display). Scopes: 'generate' (generate + status), 'read-exports'
+-- (export list + download links). See api/_lib/api-keys.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES public.app_users(id) ON DELETE SET NULL,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Server-side access only (service role); no client policies
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.api_keys IS 'Programmatic API keys; only SHA-256 hashes are stored';
+COMMENT ON COLUMN public.api_keys.scopes IS 'Allowed scopes: generate, read-exports';
+COMMENT ON COLUMN public.api_keys.revoked_at IS 'Set when revoked; revoked keys are rejected';
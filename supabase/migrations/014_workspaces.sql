@@ -0,0 +1,74 @@
+-- Migration: Workspaces (multi-tenant isolation)
+--
+-- Each workspace is one client we pull leads for. Exports, users, API keys,
+-- suppression lists and the delivered-lead ledger gain a workspace_id; every
+-- server query filters on it (see api/_lib/workspaces.ts). Existing rows are
+-- assigned to the default workspace, which keeps using the environment
+-- (AUDIENCELAB_API_KEY, CALL_SUPPRESS_STATES / COMPLIANCE_RULES) for any
+-- setting it doesn't override.
+--
+-- Storage: new CSVs are written under `<storage_prefix>/` in the exports
+-- bucket. Files written before this migration stay at the bucket root.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  storage_prefix TEXT NOT NULL UNIQUE,
+  suppress_states TEXT[],
+  intent_packs JSONB,
+  audiencelab_api_key TEXT
+);
+
+-- Server-side access only (service role); no client policies
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.workspaces (id, name, slug, storage_prefix)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default', 'default', 'default')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+  DEFAULT '00000000-0000-0000-0000-000000000001' REFERENCES public.workspaces(id);
+
+ALTER TABLE public.app_users
+ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+  DEFAULT '00000000-0000-0000-0000-000000000001' REFERENCES public.workspaces(id);
+
+ALTER TABLE public.api_keys
+ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+  DEFAULT '00000000-0000-0000-0000-000000000001' REFERENCES public.workspaces(id);
+
+ALTER TABLE public.suppression_lists
+ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+  DEFAULT '00000000-0000-0000-0000-000000000001' REFERENCES public.workspaces(id);
+
+ALTER TABLE public.delivered_lead_fingerprints
+ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+  DEFAULT '00000000-0000-0000-0000-000000000001' REFERENCES public.workspaces(id);
+
+-- Export history and cleanup scan per workspace by created_at
+CREATE INDEX IF NOT EXISTS idx_lead_exports_workspace_created_at
+  ON public.lead_exports (workspace_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_app_users_workspace
+  ON public.app_users (workspace_id);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_workspace
+  ON public.api_keys (workspace_id);
+
+CREATE INDEX IF NOT EXISTS idx_suppression_lists_workspace
+  ON public.suppression_lists (workspace_id);
+
+-- Ledger lookups match fingerprints within one workspace
+CREATE INDEX IF NOT EXISTS idx_delivered_lead_fingerprints_workspace_lookup
+  ON public.delivered_lead_fingerprints (workspace_id, fingerprint, delivered_at DESC);
+
+COMMENT ON TABLE public.workspaces IS 'Tenants; all export, user, key and suppression data is scoped to one';
+COMMENT ON COLUMN public.workspaces.storage_prefix IS 'Folder in the exports bucket for this workspace''s CSVs';
+COMMENT ON COLUMN public.workspaces.suppress_states IS 'States suppressed for call exports; NULL = environment default';
+COMMENT ON COLUMN public.workspaces.intent_packs IS 'Custom intent packs, matched before the built-in packs';
+COMMENT ON COLUMN public.workspaces.audiencelab_api_key IS 'AudienceLab key; NULL = not set (default workspace uses AUDIENCELAB_API_KEY)';
@@ -0,0 +1,50 @@
+-- Migration: Audit log
+--
+-- Append-only trail of sensitive actions: sign-ins and failed sign-ins,
+-- lead generations, download-link issuance, debug payload views and cleanup
+-- deletions (see api/_lib/audit-log.ts). No PII: actors are user / API key
+-- ids, failed logins for unknown emails keep only a salted fingerprint.
+-- UPDATE and DELETE are rejected by trigger.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  workspace_id UUID REFERENCES public.workspaces(id),
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('user', 'api_key', 'system')),
+  actor_id TEXT,
+  action TEXT NOT NULL,
+  target_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+-- Server-side access only (service role); no client policies
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Query index: a workspace's events, newest first (optionally by action)
+CREATE INDEX IF NOT EXISTS idx_audit_log_workspace_created_at
+  ON public.audit_log (workspace_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_workspace_action
+  ON public.audit_log (workspace_id, action, created_at DESC);
+
+-- Append-only
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+COMMENT ON TABLE public.audit_log IS 'Append-only audit trail of sensitive actions (no PII)';
+COMMENT ON COLUMN public.audit_log.workspace_id IS 'NULL only for failed logins with an unknown email';
+COMMENT ON COLUMN public.audit_log.actor_id IS 'User id (user), API key id (api_key) or NULL (system)';
+COMMENT ON COLUMN public.audit_log.target_id IS 'Export id the action applied to, if any';
@@ -0,0 +1,105 @@
+-- Migration: Monthly lead credits
+--
+-- One credit = one delivered lead. Workspaces (and optionally individual
+-- users) get a monthly allowance; NULL = unlimited / no personal cap.
+-- Each export holds its requested count in credits_reserved while building
+-- (set by reserve_export_credits, which checks the allowances under a lock);
+-- credits_charged is set when it finishes (kept on success, 0 on
+-- no_results / error). See api/_lib/lead-credits.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.workspaces
+ADD COLUMN IF NOT EXISTS monthly_lead_credits INT CHECK (monthly_lead_credits >= 0);
+
+ALTER TABLE public.app_users
+ADD COLUMN IF NOT EXISTS monthly_lead_credits INT CHECK (monthly_lead_credits >= 0);
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS credits_reserved INT,
+ADD COLUMN IF NOT EXISTS credits_charged INT;
+
+-- Usage since the start of the period, for a workspace or one of its users
+CREATE OR REPLACE FUNCTION lead_credit_usage(
+  p_workspace_id UUID,
+  p_since TIMESTAMPTZ,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(COALESCE(credits_charged, credits_reserved, 0)), 0)
+  FROM public.lead_exports
+  WHERE workspace_id = p_workspace_id
+    AND created_at >= p_since
+    AND (p_user_id IS NULL OR created_by = p_user_id);
+$$;
+
+-- Reserve an export's credits against the workspace and creator allowances.
+-- Locks the workspace row so concurrent reservations are checked one after
+-- another (each sees the credits reserved before it). When an allowance can't
+-- cover p_credits, the export row is deleted and the shortfall returned:
+-- { ok: false, scope, limit, remaining }. Otherwise sets credits_reserved.
+CREATE OR REPLACE FUNCTION reserve_export_credits(
+  p_export_id UUID,
+  p_credits INT,
+  p_since TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_workspace_id UUID;
+  v_user_id UUID;
+  v_limit INT;
+  v_used BIGINT;
+BEGIN
+  SELECT workspace_id, created_by INTO v_workspace_id, v_user_id
+  FROM public.lead_exports
+  WHERE id = p_export_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'export_not_found');
+  END IF;
+
+  SELECT monthly_lead_credits INTO v_limit
+  FROM public.workspaces
+  WHERE id = v_workspace_id
+  FOR UPDATE;
+
+  IF v_limit IS NOT NULL THEN
+    v_used := lead_credit_usage(v_workspace_id, p_since);
+    IF v_used + p_credits > v_limit THEN
+      DELETE FROM public.lead_exports WHERE id = p_export_id;
+      RETURN jsonb_build_object('ok', false, 'scope', 'workspace', 'limit', v_limit,
+        'remaining', GREATEST(0, v_limit - v_used));
+    END IF;
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    SELECT monthly_lead_credits INTO v_limit
+    FROM public.app_users
+    WHERE id = v_user_id AND workspace_id = v_workspace_id;
+
+    IF v_limit IS NOT NULL THEN
+      v_used := lead_credit_usage(v_workspace_id, p_since, v_user_id);
+      IF v_used + p_credits > v_limit THEN
+        DELETE FROM public.lead_exports WHERE id = p_export_id;
+        RETURN jsonb_build_object('ok', false, 'scope', 'user', 'limit', v_limit,
+          'remaining', GREATEST(0, v_limit - v_used));
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE public.lead_exports SET credits_reserved = p_credits WHERE id = p_export_id;
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+COMMENT ON COLUMN public.workspaces.monthly_lead_credits IS 'Leads the workspace may pull per calendar month (UTC); NULL = unlimited';
+COMMENT ON COLUMN public.app_users.monthly_lead_credits IS 'Personal monthly lead cap within the workspace; NULL = none';
+COMMENT ON COLUMN public.lead_exports.credits_reserved IS 'Credits held (requested count) while the export builds';
+COMMENT ON COLUMN public.lead_exports.credits_charged IS 'Credits charged: kept on success, 0 on no_results/error';
+COMMENT ON FUNCTION lead_credit_usage(UUID, TIMESTAMPTZ, UUID) IS 'Lead credits used since p_since by a workspace or one user';
+COMMENT ON FUNCTION reserve_export_credits(UUID, INT, TIMESTAMPTZ) IS 'Check allowances and reserve an export''s credits atomically (workspace row lock)';
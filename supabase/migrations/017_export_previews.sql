@@ -0,0 +1,23 @@
+-- Migration: Export previews
+--
+-- Exports generated with `preview: true` stop at status 'preview' when the
+-- audience is ready: the CSV is staged in storage, a masked sample is kept in
+-- preview_rows, and the leads' ledger fingerprints wait in
+-- preview_fingerprints. POST /api/exports/approve releases the CSV (status
+-- 'success', credits charged, fingerprints recorded) or discards it (status
+-- 'discarded', credits refunded). See api/_lib/lead-preview.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS preview_requested BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS preview_rows JSONB,
+ADD COLUMN IF NOT EXISTS preview_fingerprints TEXT[],
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID;
+
+COMMENT ON COLUMN public.lead_exports.preview_requested IS 'Stage the CSV for approval (status preview) instead of releasing it';
+COMMENT ON COLUMN public.lead_exports.preview_rows IS 'Masked sample (phones/emails masked, no names or addresses) shown while awaiting approval';
+COMMENT ON COLUMN public.lead_exports.preview_fingerprints IS 'Hashed phone/email fingerprints of the staged leads, recorded in the ledger on approval';
+COMMENT ON COLUMN public.lead_exports.reviewed_at IS 'When the preview was approved or discarded';
+COMMENT ON COLUMN public.lead_exports.reviewed_by IS 'User (or API key issuer) who approved or discarded the preview';
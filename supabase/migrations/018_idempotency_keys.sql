@@ -0,0 +1,35 @@
+-- Migration: Idempotency keys for lead generation
+--
+-- POST /api/leads/generate accepts an `Idempotency-Key` header. The first
+-- request claims the key (per workspace and caller) with a hash of its body;
+-- retries with the same key and body get the stored 200/202 response back
+-- (or the in-progress export), a different body is a 409 conflict.
+-- Keys expire after 24 hours and are purged by the cleanup cron.
+-- See api/_lib/idempotency.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  actor_id TEXT NOT NULL,                -- API key id, or the user id for sessions
+  key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,            -- SHA256 of the canonical request body
+  export_id UUID,                        -- Export created by the request (set while it runs)
+  status_code INT,                       -- NULL while the request is in progress
+  response JSONB,                        -- Stored 200/202 response for replay
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT idempotency_keys_unique UNIQUE (workspace_id, actor_id, key)
+);
+
+-- Only the service role touches this table
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Index for cleanup of expired keys
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at
+  ON public.idempotency_keys (expires_at);
+
+COMMENT ON TABLE public.idempotency_keys IS 'Idempotency-Key claims and stored responses for lead generation (24h)';
+COMMENT ON COLUMN public.idempotency_keys.status_code IS 'Stored response status (200/202); NULL while in progress';
@@ -0,0 +1,17 @@
+-- Migration: AudienceLab async jobs
+--
+-- When audience creation returns a job (job_id/task_id) instead of an
+-- audience id, the export stays `building` with provider_job_id set.
+-- /api/leads/status and the process-exports cron poll the job and fill in
+-- audience_id once it has produced an audience, then fetch members as usual.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS provider_job_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_lead_exports_provider_job_id
+  ON public.lead_exports (workspace_id, provider_job_id)
+  WHERE provider_job_id IS NOT NULL;
+
+COMMENT ON COLUMN public.lead_exports.provider_job_id IS 'AudienceLab job creating the audience (async create); audience_id is set once it resolves';
@@ -0,0 +1,22 @@
+-- Migration: Audience reuse
+--
+-- Each export stores a hash of its AudienceLab payload. Generate reuses the
+-- audience of the most recent export in the same workspace with the same hash
+-- (within AUDIENCE_REUSE_TTL_HOURS) instead of creating a new audience, and
+-- records the export it came from. See api/_lib/audience-reuse.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS audience_hash TEXT,
+ADD COLUMN IF NOT EXISTS audience_reused BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS reused_from_export_id UUID REFERENCES public.lead_exports(id) ON DELETE SET NULL;
+
+-- Reuse lookup: latest export with this payload in the workspace
+CREATE INDEX IF NOT EXISTS idx_lead_exports_audience_hash
+  ON public.lead_exports (workspace_id, audience_hash, created_at DESC)
+  WHERE audience_hash IS NOT NULL;
+
+COMMENT ON COLUMN public.lead_exports.audience_hash IS 'SHA256 of the canonical AudienceLab payload, for audience reuse';
+COMMENT ON COLUMN public.lead_exports.audience_reused IS 'Members were fetched from an earlier export''s audience';
+COMMENT ON COLUMN public.lead_exports.reused_from_export_id IS 'Export whose audience was reused (NULL once that export is cleaned up)';
@@ -0,0 +1,117 @@
+-- Migration: Leased job queue for background export processing
+--
+-- Every export that builds asynchronously gets one row in export_jobs.
+-- Whoever finishes the export - the process-exports worker or a live
+-- /api/leads/status poll - must first claim the job's lease, so an export is
+-- never completed (and its CSV uploaded) twice.
+--
+-- - claim_export_jobs() atomically leases queued jobs (FOR UPDATE SKIP LOCKED)
+-- - A lease that runs out belongs to a worker that died: it counts as a failed
+--   attempt and the job is queued again
+-- - After max_attempts failures the job is dead-lettered (status 'dead') and
+--   its export marked as error, refunding its reserved credits
+-- See api/_lib/export-jobs.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  export_id UUID NOT NULL REFERENCES public.lead_exports(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued',   -- queued, running, completed, dead
+  attempts INT NOT NULL DEFAULT 0,         -- Failed attempts so far
+  max_attempts INT NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,                          -- Worker holding the lease
+  lease_expires_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+
+  CONSTRAINT export_jobs_export_unique UNIQUE (export_id),
+  CONSTRAINT export_jobs_status_check CHECK (status IN ('queued', 'running', 'completed', 'dead'))
+);
+
+-- Only the service role touches this table
+ALTER TABLE public.export_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Index for the worker's claim query
+CREATE INDEX IF NOT EXISTS idx_export_jobs_claimable
+  ON public.export_jobs (run_after)
+  WHERE status IN ('queued', 'running');
+
+DROP TRIGGER IF EXISTS update_export_jobs_updated_at ON public.export_jobs;
+CREATE TRIGGER update_export_jobs_updated_at
+  BEFORE UPDATE ON public.export_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Lease queued jobs (or one export's job) to a worker.
+-- p_export_id set: claim that export's job regardless of run_after (live polls);
+-- p_workspace_id restricts it to the caller's workspace.
+DROP FUNCTION IF EXISTS claim_export_jobs(TEXT, INT, INT, UUID);
+CREATE OR REPLACE FUNCTION claim_export_jobs(
+  p_worker_id TEXT,
+  p_limit INT DEFAULT 10,
+  p_lease_seconds INT DEFAULT 300,
+  p_export_id UUID DEFAULT NULL,
+  p_workspace_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.export_jobs AS $$
+BEGIN
+  -- Expired leases: the holder died mid-run, which counts as a failed attempt
+  WITH expired AS (
+    UPDATE public.export_jobs
+    SET attempts = attempts + 1,
+        status = CASE WHEN attempts + 1 >= max_attempts THEN 'dead' ELSE 'queued' END,
+        finished_at = CASE WHEN attempts + 1 >= max_attempts THEN NOW() ELSE NULL END,
+        last_error = 'Lease expired',
+        locked_by = NULL,
+        lease_expires_at = NULL
+    WHERE status = 'running'
+      AND lease_expires_at < NOW()
+      AND (p_export_id IS NULL OR export_id = p_export_id)
+      AND (p_workspace_id IS NULL OR workspace_id = p_workspace_id)
+    RETURNING export_id, status
+  )
+  UPDATE public.lead_exports e
+  SET status = 'error',
+      error_code = 'job_dead_lettered',
+      error_message = 'Background processing failed repeatedly.',
+      credits_charged = 0,
+      next_poll_at = NULL
+  FROM expired
+  WHERE e.id = expired.export_id
+    AND expired.status = 'dead'
+    AND e.status IN ('building', 'building_long');
+
+  RETURN QUERY
+  UPDATE public.export_jobs j
+  SET status = 'running',
+      locked_by = p_worker_id,
+      lease_expires_at = NOW() + (p_lease_seconds || ' seconds')::INTERVAL
+  WHERE j.id IN (
+    SELECT id FROM public.export_jobs
+    WHERE status = 'queued'
+      AND (p_export_id IS NOT NULL OR run_after <= NOW())
+      AND (p_export_id IS NULL OR export_id = p_export_id)
+      AND (p_workspace_id IS NULL OR workspace_id = p_workspace_id)
+    ORDER BY run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Exports already building when this migration runs
+INSERT INTO public.export_jobs (workspace_id, export_id, run_after)
+SELECT workspace_id, id, COALESCE(next_poll_at, NOW())
+FROM public.lead_exports
+WHERE status IN ('building', 'building_long')
+ON CONFLICT (export_id) DO NOTHING;
+
+COMMENT ON TABLE public.export_jobs IS 'Leased background jobs that finish asynchronously built exports';
+COMMENT ON COLUMN public.export_jobs.attempts IS 'Failed attempts (errors and expired leases); dead-lettered at max_attempts';
+COMMENT ON FUNCTION claim_export_jobs(TEXT, INT, INT, UUID, UUID) IS 'Atomically lease queued export jobs; expired leases count as failed attempts.';
@@ -0,0 +1,16 @@
+-- Migration: Export progress for the events stream
+--
+-- While an export builds, the pipeline records its stage (building, fetching,
+-- filtering, uploading) and counts on the export. GET /api/exports/:id/events
+-- streams these changes, followed by a done or failed event once the export
+-- reaches a final status. See api/_lib/export-events.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS progress_stage TEXT,
+ADD COLUMN IF NOT EXISTS progress_counts JSONB,
+ADD COLUMN IF NOT EXISTS progress_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.lead_exports.progress_stage IS 'Pipeline stage while building: building, fetching, filtering, uploading';
+COMMENT ON COLUMN public.lead_exports.progress_counts IS 'Counts for the stage (pollAttempts, fetched, kept)';
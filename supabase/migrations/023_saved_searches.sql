@@ -0,0 +1,67 @@
+-- Migration: Saved searches and scheduled pulls
+--
+-- A saved search stores a lead request (ZIPs, scope, use case, tier, count)
+-- under a name so it can be picked in the form and re-run. With a `schedule`
+-- (5-field cron expression, UTC) the run-saved-searches cron generates an
+-- export for it whenever next_run_at is due, on behalf of the user who created
+-- it, always with repeat suppression. Exports record the saved search they ran
+-- from. See api/_lib/saved-searches.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.app_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  name TEXT NOT NULL,
+  lead_request TEXT NOT NULL,
+  zip_codes TEXT[] NOT NULL,
+  lead_scope TEXT NOT NULL,
+  use_case TEXT NOT NULL DEFAULT 'both',
+  quality_tier TEXT NOT NULL DEFAULT 'balanced',
+  requested_count INT NOT NULL DEFAULT 200,
+  dedupe_window_days INT,                  -- NULL = DEDUPE_WINDOW_DAYS / scheduled default
+  schedule TEXT,                           -- Cron expression (UTC); NULL = not scheduled
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_run_status TEXT,                    -- success, building, error
+  last_export_id UUID REFERENCES public.lead_exports(id) ON DELETE SET NULL,
+  last_error TEXT,
+
+  CONSTRAINT saved_searches_scope_check CHECK (lead_scope IN ('residential', 'commercial', 'both')),
+  CONSTRAINT saved_searches_use_case_check CHECK (use_case IN ('call', 'email', 'both')),
+  CONSTRAINT saved_searches_tier_check CHECK (quality_tier IN ('hot', 'balanced', 'scale')),
+  CONSTRAINT saved_searches_count_check CHECK (requested_count BETWEEN 1 AND 1000),
+  CONSTRAINT saved_searches_dedupe_check CHECK (dedupe_window_days BETWEEN 0 AND 365)
+);
+
+-- Server-side access only (service role); no client policies
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_workspace
+  ON public.saved_searches (workspace_id, name);
+
+-- Index for the cron's due query
+CREATE INDEX IF NOT EXISTS idx_saved_searches_due
+  ON public.saved_searches (next_run_at)
+  WHERE schedule IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON public.saved_searches;
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS saved_search_id UUID REFERENCES public.saved_searches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lead_exports_saved_search
+  ON public.lead_exports (saved_search_id, created_at DESC)
+  WHERE saved_search_id IS NOT NULL;
+
+COMMENT ON TABLE public.saved_searches IS 'Named lead requests, optionally pulled on a schedule';
+COMMENT ON COLUMN public.saved_searches.schedule IS '5-field cron expression in UTC, at most hourly; NULL = run manually only';
+COMMENT ON COLUMN public.saved_searches.next_run_at IS 'When the run-saved-searches cron next pulls this search';
+COMMENT ON COLUMN public.lead_exports.saved_search_id IS 'Saved search the export ran from (manually or on its schedule)';
@@ -0,0 +1,99 @@
+-- Migration: Lead credit ledger
+--
+-- Credit usage used to be summed over lead_exports, but the cleanup cron
+-- deletes export rows (after EXPORT_RETENTION_DAYS, or when orphaned), which
+-- gave the month's credits back. Every change to an export's reserved or
+-- charged credits now appends an entry here: the change in what the export
+-- holds against its period (reserve: +requested, charge: kept - reserved,
+-- refund: -reserved). Entries carry the export's workspace, creator and
+-- created_at, have no foreign key to lead_exports and are never deleted, so
+-- usage survives the export row. A trigger on lead_exports writes them, so
+-- every path that reserves, charges or refunds (API, cron, dead-lettering)
+-- is covered. See api/_lib/lead-credits.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.lead_credit_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  workspace_id UUID NOT NULL,
+  user_id UUID,
+  export_id UUID NOT NULL,
+  export_created_at TIMESTAMPTZ NOT NULL, -- Credit period the entry counts in
+  credits INT NOT NULL,                   -- Change in credits held (negative = refund)
+  reason TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT lead_credit_ledger_reason_check CHECK (reason IN ('reserve', 'charge', 'refund'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_credit_ledger_workspace_period
+ON public.lead_credit_ledger (workspace_id, export_created_at);
+
+ALTER TABLE public.lead_credit_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Append an entry when an export's effective credits change
+CREATE OR REPLACE FUNCTION record_lead_credit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_old INT := 0;
+  v_new INT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_old := COALESCE(OLD.credits_charged, OLD.credits_reserved, 0);
+  END IF;
+  v_new := COALESCE(NEW.credits_charged, NEW.credits_reserved, 0);
+
+  IF v_new <> v_old THEN
+    INSERT INTO public.lead_credit_ledger
+      (workspace_id, user_id, export_id, export_created_at, credits, reason)
+    VALUES (
+      NEW.workspace_id, NEW.created_by, NEW.id, NEW.created_at, v_new - v_old,
+      CASE
+        WHEN NEW.credits_charged IS NULL THEN 'reserve'
+        WHEN NEW.credits_charged = 0 THEN 'refund'
+        ELSE 'charge'
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lead_exports_credit_ledger ON public.lead_exports;
+CREATE TRIGGER lead_exports_credit_ledger
+AFTER INSERT OR UPDATE OF credits_reserved, credits_charged ON public.lead_exports
+FOR EACH ROW EXECUTE FUNCTION record_lead_credit_change();
+
+-- Carry over what existing exports hold (once; skipped if the ledger has entries)
+INSERT INTO public.lead_credit_ledger
+  (workspace_id, user_id, export_id, export_created_at, credits, reason)
+SELECT workspace_id, created_by, id, created_at,
+       COALESCE(credits_charged, credits_reserved),
+       CASE WHEN credits_charged IS NULL THEN 'reserve' ELSE 'charge' END
+FROM public.lead_exports
+WHERE COALESCE(credits_charged, credits_reserved, 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.lead_credit_ledger);
+
+-- Usage since the start of the period, now read from the ledger
+CREATE OR REPLACE FUNCTION lead_credit_usage(
+  p_workspace_id UUID,
+  p_since TIMESTAMPTZ,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(credits), 0)
+  FROM public.lead_credit_ledger
+  WHERE workspace_id = p_workspace_id
+    AND export_created_at >= p_since
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+$$;
+
+COMMENT ON TABLE public.lead_credit_ledger IS 'Append-only credit reservations, charges and refunds per export; kept when exports are cleaned up';
+COMMENT ON COLUMN public.lead_credit_ledger.export_created_at IS 'Created_at of the export: the credit period the entry counts in';
+COMMENT ON COLUMN public.lead_credit_ledger.credits IS 'Change in credits the export holds (negative for refunds)';
+COMMENT ON FUNCTION lead_credit_usage(UUID, TIMESTAMPTZ, UUID) IS 'Lead credits used since p_since by a workspace or one user (from lead_credit_ledger)';
@@ -0,0 +1,17 @@
+-- Migration: Request options stored on exports
+--
+-- Retrying an export (POST /api/exports/:id/retry) rebuilds its generate
+-- request. The lead scope and blend flag used to be guessed from the
+-- AudienceLab payload (where `both` reads as residential) and from the
+-- provider name (which only lists every provider once a blend succeeded);
+-- generate now records them when it creates the export. NULL on older
+-- exports, which keep the guess. See api/_lib/export-retry.ts.
+--
+-- To apply: `supabase db push` or run in Supabase Dashboard SQL Editor
+
+ALTER TABLE public.lead_exports
+ADD COLUMN IF NOT EXISTS lead_scope TEXT,
+ADD COLUMN IF NOT EXISTS blend BOOLEAN;
+
+COMMENT ON COLUMN public.lead_exports.lead_scope IS 'Requested lead scope: residential, commercial or both';
+COMMENT ON COLUMN public.lead_exports.blend IS 'Blend mode requested (query every provider and merge)';